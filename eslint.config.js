@@ -0,0 +1,51 @@
+import js from '@eslint/js';
+import globals from 'globals';
+import tsPlugin from '@typescript-eslint/eslint-plugin';
+import tsParser from '@typescript-eslint/parser';
+
+export default [
+    {
+        ignores: ['dist/**', 'node_modules/**']
+    },
+    js.configs.recommended,
+    {
+        files: ['**/*.ts', '**/*.tsx'],
+        languageOptions: {
+            parser: tsParser,
+            ecmaVersion: 'latest',
+            sourceType: 'module',
+            parserOptions: {
+                project: './tsconfig.json'
+            },
+            globals: {
+                ...globals.browser,
+                ...globals.node,
+                ...globals.es2021
+            }
+        },
+        plugins: {
+            '@typescript-eslint': tsPlugin
+        },
+        rules: {
+            ...tsPlugin.configs['eslint-recommended'].overrides[0].rules,
+            ...tsPlugin.configs.recommended.rules,
+            '@typescript-eslint/no-explicit-any': 'off',
+            '@typescript-eslint/explicit-function-return-type': ['warn', {
+                allowExpressions: true,
+                allowTypedFunctionExpressions: true
+            }],
+            '@typescript-eslint/no-unused-vars': ['error', {
+                argsIgnorePattern: '^_',
+                varsIgnorePattern: '^_'
+            }],
+            'no-console': ['warn', { allow: ['warn', 'error'] }]
+        }
+    },
+    {
+        // The logger is where debug and info output is meant to go
+        files: ['src/shared/services/loggerService.ts'],
+        rules: {
+            'no-console': 'off'
+        }
+    }
+];
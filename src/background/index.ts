@@ -4,6 +4,8 @@ import {ArtifactService} from './services/artifactService';
 import {DownloadService} from './services/downloadService';
 import {MessageRouter} from './services/messageRouter';
 import {ApiService} from './services/apiService';
+import {ConversationStreamService} from './services/conversationStreamService';
+import {MessageClient} from '../shared/services/messageClient';
 
 /**
  * Main entry point for the background script
@@ -14,7 +16,9 @@ class Background {
     private readonly artifactService = ArtifactService.getInstance();
     private readonly downloadService = DownloadService.getInstance();
     private readonly apiService = ApiService.getInstance();
+    private readonly conversationStreamService = ConversationStreamService.getInstance();
     private readonly messageRouter = MessageRouter.getInstance();
+    private readonly messageClient = MessageClient.getInstance();
 
     constructor() {
         this.init().catch(error => {
@@ -34,6 +38,7 @@ class Background {
 
             // Initialize services
             this.messageRouter.init();
+            this.conversationStreamService.init();
             this.artifactService.init();
             this.downloadService.init();
             await this.apiService.init();
@@ -41,6 +46,10 @@ class Background {
             // Set up extension icon click handler
             chrome.action.onClicked.addListener(this.handleActionClick.bind(this));
 
+            // Move artifacts saved by earlier versions out of chrome.storage
+            await this.storageService.migrateToArtifactStore();
+            await this.storageService.enforceLibrarySize();
+
             this.logger.info('Background: Initialization complete');
         } catch (error) {
             this.logger.error('Background: Initialization failed', error);
@@ -63,7 +72,10 @@ class Background {
             }
 
             // If on Claude, send message to show settings
-            chrome.tabs.sendMessage(tab.id, { action: 'showSettings' });
+            const response = await this.messageClient.sendToTab(tab.id, { action: 'showSettings' });
+            if (!response.success) {
+                this.logger.warn(`Background: Could not show settings (${response.code})`, response.error);
+            }
         } catch (error) {
             this.logger.error('Background: Error handling action click', error);
         }
@@ -1,13 +1,47 @@
 import {LoggerService} from '@/shared/services/loggerService.ts';
 import {StorageService} from '@/shared/services/storageService.ts';
+import {SecretStore} from '@/shared/services/secretStore.ts';
+import {ApiTargetSelection, SettingsState} from '@/shared/models/settings.ts';
+import {
+    CompileResult,
+    ContextTrimSummary,
+    ConversationMessage,
+    ConversationReply
+} from '@/shared/models/messages.ts';
+import {ApiError} from '@/shared/models/apiError.ts';
+import {SecretNames, SecretStoreLockedError, SecretValues} from '@/shared/models/secrets.ts';
+import {ServerSentEvent, SseParser} from '@/shared/utils/sseParser.ts';
+import {TokenEstimator} from '@/shared/utils/tokenEstimator.ts';
+import {ContextTrimmer} from '@/shared/utils/contextTrimmer.ts';
+import {ApiProfileResolver, ApiTarget} from '@/shared/utils/apiProfileResolver.ts';
+import {HttpClient, HttpRequestOptions} from './httpClient';
 
 /**
  * Service for interacting with external APIs
+ * Every method throws an ApiError on failure.
  */
 export class ApiService {
     private static instance: ApiService;
     private readonly logger = LoggerService.getInstance();
     private readonly storageService = StorageService.getInstance();
+    private readonly secretStore = SecretStore.getInstance();
+    private readonly httpClient = HttpClient.getInstance();
+
+    // Extra time allowed on top of the execution timeout for the compiler service to respond
+    private readonly compileOverheadMs = 10000;
+
+    // Context window assumed for models missing from the pricing table
+    private readonly defaultContextWindow = 200000;
+
+    // Share of the context window filled, leaving room for the token estimate being low
+    private readonly contextFillRatio = 0.9;
+
+    // Longest summary requested when summarizing dropped messages
+    private readonly summaryMaxTokens = 1024;
+
+    // Recent summaries by model and transcript, so each send doesn't summarize the same messages again
+    private readonly summaryCache = new Map<string, string>();
+    private readonly summaryCacheSize = 5;
 
     private constructor() {
         // Private constructor for singleton
@@ -35,67 +69,20 @@ export class ApiService {
     }
 
     /**
-     * Send a prompt to Claude API
+     * Send a prompt to Claude API using the active profile
      * @param prompt The user prompt to send
      * @param options Additional API options
      */
-    public async sendPrompt(prompt: string, options: any = {}): Promise<any> {
-        try {
-            // Load settings to get the latest API key
-            const settings = await this.storageService.getSettings();
-            const apiKey = settings.apiSettings.apiKey;
-
-            if (!apiKey) {
-                this.logger.error('ApiService: API key not configured');
-                return {
-                    error: true,
-                    message: 'API key not configured'
-                };
-            }
+    public async sendPrompt(prompt: string, options: Record<string, unknown> = {}): Promise<unknown> {
+        // Load settings to get the latest API key
+        const settings = await this.storageService.getSettings();
+        const target = await this.resolveTarget(settings);
 
-            // Prepare request options
-            const requestOptions = {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'x-api-key': apiKey,
-                    'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                    model: settings.apiSettings.modelName,
-                    max_tokens: settings.apiSettings.maxTokens,
-                    temperature: settings.apiSettings.temperature,
-                    messages: [
-                        {
-                            role: 'user',
-                            content: prompt
-                        }
-                    ],
-                    ...options
-                })
-            };
-
-            // Make API request
-            const response = await fetch(settings.apiSettings.apiEndpoint, requestOptions);
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                this.logger.error(`ApiService: API error (${response.status}): ${errorText}`);
-                return {
-                    error: true,
-                    status: response.status,
-                    message: errorText
-                };
-            }
+        const request = this.buildConversationRequest(settings, target, [], prompt, options);
+        const data = await this.httpClient.requestJson(target.url, request);
 
-            return await response.json();
-        } catch (error) {
-            this.logger.error('ApiService: Error sending prompt', error);
-            return {
-                error: true,
-                message: error instanceof Error ? error.message : 'Unknown error'
-            };
-        }
+        await this.recordResponseUsage(request, data);
+        return data;
     }
 
     /**
@@ -103,80 +90,112 @@ export class ApiService {
      * @param conversationHistory Previous messages in the conversation
      * @param prompt New user prompt to send
      * @param options Additional API options
+     * @param selection Profile and model to use instead of the defaults
      */
     public async continueConversation(
-        conversationHistory: any[],
+        conversationHistory: ConversationMessage[],
         prompt: string,
-        options: any = {}
-    ): Promise<any> {
-        try {
-            // Load settings
-            const settings = await this.storageService.getSettings();
-            const apiKey = settings.apiSettings.apiKey;
-
-            if (!apiKey) {
-                this.logger.error('ApiService: API key not configured');
-                return {
-                    error: true,
-                    message: 'API key not configured'
-                };
-            }
+        options: Record<string, unknown> = {},
+        selection: ApiTargetSelection = {}
+    ): Promise<unknown> {
+        const settings = await this.getConversationSettings();
+        const target = await this.resolveTarget(settings, selection);
+        const { messages } = await this.fitToContext(settings, target, conversationHistory, prompt);
 
-            if (!settings.apiSettings.enableApiContinuation) {
-                this.logger.error('ApiService: API continuation is disabled in settings');
-                return {
-                    error: true,
-                    message: 'API continuation is disabled in settings'
-                };
-            }
+        const request = this.buildConversationRequest(settings, target, messages, prompt, options);
+        const data = await this.httpClient.requestJson(target.url, request);
+
+        await this.recordResponseUsage(request, data);
+        return data;
+    }
+
+    /**
+     * Continue a conversation, streaming the reply as server-sent events
+     * @param conversationHistory Previous messages in the conversation
+     * @param prompt New user prompt to send
+     * @param onDelta Called with each piece of text as it arrives
+     * @param signal Aborts the request
+     * @param selection Profile and model to use instead of the defaults
+     */
+    public async streamConversation(
+        conversationHistory: ConversationMessage[],
+        prompt: string,
+        onDelta: (text: string) => void,
+        signal: AbortSignal,
+        selection: ApiTargetSelection = {}
+    ): Promise<ConversationReply> {
+        const settings = await this.getConversationSettings();
+        const target = await this.resolveTarget(settings, selection);
+        const { messages, trim } = await this.fitToContext(settings, target, conversationHistory, prompt, signal);
+
+        const response = await this.httpClient.request(target.url, {
+            ...this.buildConversationRequest(settings, target, messages, prompt, { stream: true }),
+            signal
+        });
+
+        if (!response.body) {
+            throw new ApiError({ kind: 'server', status: response.status, message: 'The API returned an empty response' });
+        }
+
+        const reply: ConversationReply = {
+            text: '',
+            stopReason: null,
+            usage: { inputTokens: 0, outputTokens: 0 },
+            trim
+        };
+        const parser = new SseParser();
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+        // Apply one event from the stream to the reply
+        const applyEvent = (event: ServerSentEvent): void => {
+            const data = JSON.parse(event.data);
 
-            // Prepare messages from conversation history
-            const messages = [
-                ...conversationHistory,
-                {
-                    role: 'user',
-                    content: prompt
-                }
-            ];
-
-            // Prepare request options
-            const requestOptions = {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'x-api-key': apiKey,
-                    'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                    model: settings.apiSettings.modelName,
-                    max_tokens: settings.apiSettings.maxTokens,
-                    temperature: settings.apiSettings.temperature,
-                    messages,
-                    ...options
-                })
-            };
-
-            // Make API request
-            const response = await fetch(settings.apiSettings.apiEndpoint, requestOptions);
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                this.logger.error(`ApiService: API error (${response.status}): ${errorText}`);
-                return {
-                    error: true,
-                    status: response.status,
-                    message: errorText
-                };
+            switch (data.type) {
+                case 'message_start':
+                    reply.usage.inputTokens = data.message?.usage?.input_tokens ?? 0;
+                    break;
+                case 'content_block_delta':
+                    if (data.delta?.type === 'text_delta') {
+                        reply.text += data.delta.text;
+                        onDelta(data.delta.text);
+                    }
+                    break;
+                case 'message_delta':
+                    reply.stopReason = data.delta?.stop_reason ?? reply.stopReason;
+                    reply.usage.outputTokens = data.usage?.output_tokens ?? reply.usage.outputTokens;
+                    break;
+                case 'error':
+                    // Errors after the response has started arrive as events, not HTTP statuses
+                    throw new ApiError({
+                        kind: ApiError.kindForStatus(500, data.error?.type),
+                        message: data.error?.message || 'The API reported an error'
+                    });
             }
+        };
 
-            return await response.json();
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                parser.push(value).forEach(applyEvent);
+            }
+            parser.flush().forEach(applyEvent);
         } catch (error) {
-            this.logger.error('ApiService: Error continuing conversation', error);
-            return {
-                error: true,
-                message: error instanceof Error ? error.message : 'Unknown error'
-            };
+            // Tokens generated before the stream stopped are still billed
+            if (reply.usage.inputTokens > 0) {
+                const outputTokens = reply.usage.outputTokens || TokenEstimator.estimateText(reply.text);
+                await this.recordUsage(target.modelName, reply.usage.inputTokens, outputTokens);
+            }
+
+            if (error instanceof ApiError) throw error;
+            if (signal.aborted) throw new ApiError({ kind: 'cancelled', message: 'Request cancelled' });
+            throw new ApiError({ kind: 'network', message: error instanceof Error ? error.message : 'Stream interrupted' });
+        } finally {
+            reader.releaseLock();
         }
+
+        await this.recordUsage(target.modelName, reply.usage.inputTokens, reply.usage.outputTokens);
+        return reply;
     }
 
     /**
@@ -184,85 +203,258 @@ export class ApiService {
      * @param code Code to compile
      * @param language Programming language of the code
      */
-    public async compileCode(code: string, language: string): Promise<any> {
+    public async compileCode(code: string, language: string): Promise<CompileResult> {
+        // Load settings
+        const settings = await this.storageService.getSettings();
+        const compilerSettings = settings.compilerSettings;
+
+        if (!compilerSettings.enableCompilation) {
+            throw this.notConfigured('Code compilation is disabled in settings');
+        }
+
+        if (!compilerSettings.useRemoteCompilation) {
+            throw this.notConfigured('Remote compilation is disabled in settings');
+        }
+
+        if (!compilerSettings.supportedLanguages.includes(language)) {
+            throw this.notConfigured(`Language not supported: ${language}`);
+        }
+
+        const compilationApiKey = (await this.getSecrets())[SecretNames.COMPILATION_API_KEY];
+        if (!compilationApiKey || !compilerSettings.remoteCompilationEndpoint) {
+            throw this.notConfigured('Remote compilation endpoint or API key not configured');
+        }
+
+        const data = await this.httpClient.requestJson<CompileResult>(compilerSettings.remoteCompilationEndpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${compilationApiKey}`
+            },
+            body: {
+                language,
+                code,
+                timeout: compilerSettings.executionTimeoutMs
+            },
+            timeoutMs: compilerSettings.executionTimeoutMs + this.compileOverheadMs
+        });
+
+        return {
+            output: data.output,
+            error: data.error,
+            executionTime: data.executionTime
+        };
+    }
+
+    /**
+     * Load settings, checking they allow conversation through the API
+     */
+    private async getConversationSettings(): Promise<SettingsState> {
+        const settings = await this.storageService.getSettings();
+
+        if (!settings.apiSettings.enableApiContinuation) {
+            throw this.notConfigured('API continuation is disabled in settings');
+        }
+
+        return settings;
+    }
+
+    /**
+     * Load the stored secrets, treating a locked store as missing configuration
+     */
+    private async getSecrets(): Promise<SecretValues> {
         try {
-            // Load settings
-            const settings = await this.storageService.getSettings();
-
-            if (!settings.compilerSettings.enableCompilation) {
-                this.logger.warn('ApiService: Code compilation is disabled in settings');
-                return {
-                    error: true,
-                    message: 'Code compilation is disabled in settings'
-                };
+            return await this.secretStore.getAll();
+        } catch (error) {
+            if (error instanceof SecretStoreLockedError) {
+                throw this.notConfigured(error.message);
             }
+            throw error;
+        }
+    }
+
+    /**
+     * Work out the profile and model for a request, checking the profile can authenticate
+     */
+    private async resolveTarget(settings: SettingsState, selection: ApiTargetSelection = {}): Promise<ApiTarget> {
+        const target = ApiProfileResolver.resolve(settings.apiSettings, selection, await this.getSecrets());
+
+        // Proxies may authenticate with their own headers instead of an API key
+        if (!target.apiKey && Object.keys(target.profile.headers).length === 0) {
+            throw this.notConfigured(`API key not configured for the "${target.profile.name}" profile`);
+        }
+
+        return target;
+    }
+
+    /**
+     * Shorten the history to fit the model's context window, using the configured strategy
+     * @param signal Aborts the summary request, when one is needed
+     */
+    private async fitToContext(
+        settings: SettingsState,
+        target: ApiTarget,
+        conversationHistory: ConversationMessage[],
+        prompt: string,
+        signal?: AbortSignal
+    ): Promise<{ messages: ConversationMessage[]; trim?: ContextTrimSummary }> {
+        const { systemPrompt, contextStrategy, keepLastTurns } = settings.apiSettings;
+        const contextWindow = target.model?.contextWindow ?? this.defaultContextWindow;
+        const available = Math.floor(contextWindow * this.contextFillRatio);
+
+        // Everything sent besides the history, plus room for the summary if one may be added
+        const reserved = target.maxTokens
+            + TokenEstimator.estimateMessage({ role: 'user', content: prompt })
+            + TokenEstimator.estimateText(systemPrompt)
+            + (contextStrategy === 'summarize' ? this.summaryMaxTokens : 0);
+
+        const trimmed = ContextTrimmer.trim(conversationHistory, {
+            strategy: contextStrategy,
+            keepLastTurns,
+            budgetTokens: available - reserved
+        });
 
-            if (!settings.compilerSettings.useRemoteCompilation) {
-                this.logger.warn('ApiService: Remote compilation is disabled in settings');
-                return {
-                    error: true,
-                    message: 'Remote compilation is disabled in settings'
-                };
+        if (trimmed.dropped.length === 0) {
+            return { messages: trimmed.kept };
+        }
+
+        let summary: string | null = null;
+        if (contextStrategy === 'summarize') {
+            const transcript = ContextTrimmer.toTranscript(trimmed.dropped, available - this.summaryMaxTokens);
+            summary = await this.summarize(settings, target, transcript, signal);
+        }
+
+        this.logger.info(`ApiService: Dropped ${trimmed.dropped.length} messages to fit the context window`
+            + ` (${contextStrategy}, ${trimmed.pinnedArtifacts.length} artifacts pinned${summary ? ', summarized' : ''})`);
+
+        return {
+            messages: ContextTrimmer.assemble(trimmed, summary),
+            trim: {
+                strategy: contextStrategy,
+                droppedMessages: trimmed.dropped.length,
+                pinnedArtifacts: trimmed.pinnedArtifacts.length,
+                summarized: summary !== null
             }
+        };
+    }
+
+    /**
+     * Ask the model to summarize a transcript, or return null if it couldn't
+     * Only cancellation is thrown; otherwise the conversation goes ahead without the summary.
+     */
+    private async summarize(
+        settings: SettingsState,
+        target: ApiTarget,
+        transcript: string,
+        signal?: AbortSignal
+    ): Promise<string | null> {
+        const cacheKey = `${target.profile.id}\n${target.modelName}\n${transcript}`;
+        const cached = this.summaryCache.get(cacheKey);
+        if (cached) return cached;
 
-            if (!settings.compilerSettings.supportedLanguages.includes(language)) {
-                this.logger.warn(`ApiService: Language not supported: ${language}`);
-                return {
-                    error: true,
-                    message: `Language not supported: ${language}`
-                };
+        try {
+            const request = this.buildConversationRequest(
+                settings,
+                target,
+                [],
+                ContextTrimmer.buildSummaryPrompt(transcript),
+                { max_tokens: this.summaryMaxTokens, temperature: 0 }
+            );
+            const data = await this.httpClient.requestJson<{ content?: { type: string; text?: string }[] }>(
+                target.url,
+                { ...request, signal }
+            );
+            await this.recordResponseUsage(request, data);
+
+            const summary = (data.content || [])
+                .filter(block => block.type === 'text')
+                .map(block => block.text)
+                .join('')
+                .trim();
+            if (!summary) return null;
+
+            // Drop the oldest entry once the cache is full
+            if (this.summaryCache.size >= this.summaryCacheSize) {
+                this.summaryCache.delete(this.summaryCache.keys().next().value!);
             }
+            this.summaryCache.set(cacheKey, summary);
 
-            const apiKey = settings.compilerSettings.compilationApiKey;
-            if (!apiKey) {
-                this.logger.error('ApiService: Compilation API key not configured');
-                return {
-                    error: true,
-                    message: 'Compilation API key not configured'
-                };
+            return summary;
+        } catch (error) {
+            if (error instanceof ApiError && error.kind === 'cancelled') throw error;
+
+            this.logger.warn('ApiService: Could not summarize dropped messages, continuing without a summary', error);
+            return null;
+        }
+    }
+
+    /**
+     * Build the Messages API request for a conversation
+     */
+    private buildConversationRequest(
+        settings: SettingsState,
+        target: ApiTarget,
+        conversationHistory: ConversationMessage[],
+        prompt: string,
+        options: Record<string, unknown>
+    ): HttpRequestOptions {
+        // Prepare messages from conversation history
+        const messages = [
+            ...conversationHistory,
+            {
+                role: 'user',
+                content: prompt
             }
+        ];
 
-            // Prepare request options
-            const requestOptions = {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${apiKey}`
-                },
-                body: JSON.stringify({
-                    language,
-                    code,
-                    timeout: settings.compilerSettings.executionTimeoutMs
-                })
-            };
-
-            // Make API request
-            const response = await fetch(settings.compilerSettings.remoteCompilationEndpoint, requestOptions);
-
-            if (!response.ok) {
-                const errorText = await response.text();
-                this.logger.error(`ApiService: Compilation error (${response.status}): ${errorText}`);
-                return {
-                    error: true,
-                    message: `Compilation error: ${errorText}`
-                };
+        return {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(target.apiKey ? { 'x-api-key': target.apiKey } : {}),
+                'anthropic-version': '2023-06-01',
+                ...target.profile.headers
+            },
+            body: {
+                model: target.modelName,
+                max_tokens: target.maxTokens,
+                temperature: settings.apiSettings.temperature,
+                ...(settings.apiSettings.systemPrompt ? { system: settings.apiSettings.systemPrompt } : {}),
+                messages,
+                ...options
             }
+        };
+    }
 
-            const data = await response.json();
-            return {
-                output: data.output,
-                error: data.error,
-                executionTime: data.executionTime
-            };
+    /**
+     * Record the usage reported in a Messages API response body
+     */
+    private async recordResponseUsage(request: HttpRequestOptions, data: unknown): Promise<void> {
+        const model = (request.body as { model: string }).model;
+        const usage = (data as { usage?: { input_tokens?: number; output_tokens?: number } } | null)?.usage;
+
+        if (usage) {
+            await this.recordUsage(model, usage.input_tokens ?? 0, usage.output_tokens ?? 0);
+        }
+    }
+
+    /**
+     * Add a call to the spend ledger; a failure here never fails the request
+     */
+    private async recordUsage(model: string, inputTokens: number, outputTokens: number): Promise<void> {
+        try {
+            const entry = await this.storageService.recordUsage(model, inputTokens, outputTokens);
+            this.logger.debug(`ApiService: ${model} used ${inputTokens} input and ${outputTokens} output tokens`, entry.cost);
         } catch (error) {
-            this.logger.error('ApiService: Error compiling code', error);
-
-            // Return a simulated result for demonstration
-            return {
-                output: 'Remote compilation unavailable. This is a simulated response.',
-                error: error instanceof Error ? error.message : 'Unknown error',
-                executionTime: 0
-            };
+            this.logger.error('ApiService: Error recording usage', error);
         }
     }
+
+    /**
+     * Error for settings that stop a request from being made
+     */
+    private notConfigured(message: string): ApiError {
+        this.logger.warn(`ApiService: ${message}`);
+        return new ApiError({ kind: 'not_configured', message });
+    }
 }
@@ -1,7 +1,12 @@
-import {Artifact, ArtifactFile} from '@/shared/models/artifact.ts';
+import {Artifact, ArtifactFile, ArtifactType} from '@/shared/models/artifact.ts';
+import {MarkdownExportMode, MermaidExportMode, SvgPngExportMode} from '@/shared/models/settings.ts';
+import {SvgPngScale} from '@/shared/models/svg.ts';
 import {LoggerService} from '@/shared/services/loggerService.ts';
 import {StorageService} from '@/shared/services/storageService.ts';
 import {FilenameHelper} from '@/shared/utils/filenameHelper.ts';
+import {FilenameTemplate} from '@/shared/utils/filenameTemplate.ts';
+import {MarkdownRenderer} from '@/shared/utils/markdownRenderer.ts';
+import {DiagramRenderService} from './diagramRenderService';
 
 /**
  * Service for managing artifacts
@@ -10,6 +15,7 @@ export class ArtifactService {
     private static instance: ArtifactService;
     private readonly logger = LoggerService.getInstance();
     private readonly storageService = StorageService.getInstance();
+    private readonly diagramRenderService = DiagramRenderService.getInstance();
 
     private constructor() {
         // Private constructor for singleton
@@ -37,42 +43,81 @@ export class ArtifactService {
      */
     public async processArtifacts(
         artifacts: Artifact[],
-        stitchArtifacts: boolean,
         flatStructure: boolean
     ): Promise<ArtifactFile[]> {
         try {
             // Get settings
             const settings = await this.storageService.getSettings();
 
-            // Stitch artifacts if requested
-            let processedArtifacts = artifacts;
-            if (stitchArtifacts) {
-                // Implementation in artifactExtractor.ts
-                // processedArtifacts = ArtifactExtractor.stitchArtifacts(artifacts);
-            }
-
             // Convert artifacts to files
             const files: ArtifactFile[] = [];
+            const usedPaths = new Set<string>();
+
+            // Count versions per history so rewrites of one artifact get distinct filenames
+            const versionCounts = new Map<string, number>();
+            artifacts.forEach(artifact => {
+                if (artifact.historyId) {
+                    versionCounts.set(artifact.historyId, (versionCounts.get(artifact.historyId) ?? 0) + 1);
+                }
+            });
 
-            for (const artifact of processedArtifacts) {
-                // Generate filename
-                const filename = FilenameHelper.getFilename(
-                    artifact,
-                    settings.includeTimestampInFilename,
-                    settings.replaceInvalidChars,
-                    settings.maxFilenameLength
-                );
+            const nameOptions = {
+                replaceInvalidChars: settings.replaceInvalidChars,
+                maxFilenameLength: settings.maxFilenameLength
+            };
+            const namesVersion = FilenameTemplate.namesVersion(
+                settings.filenameTemplate,
+                flatStructure ? undefined : settings.folderTemplate
+            );
+
+            for (const artifact of artifacts) {
+                // Name the file and its folders from the user's templates
+                let filename = FilenameTemplate.renderFilename(settings.filenameTemplate, artifact, nameOptions);
 
                 // Generate path for structured storage
                 let path = '';
                 if (!flatStructure) {
-                    path = FilenameHelper.getFolderPath(artifact, 'Claude Conversation');
+                    path = FilenameTemplate.renderFolder(settings.folderTemplate, artifact, nameOptions);
+                }
+
+                // Templates that name the version already keep rewrites apart
+                if (artifact.historyId && artifact.version && (versionCounts.get(artifact.historyId) ?? 0) > 1
+                    && !namesVersion) {
+                    filename = FilenameHelper.withSuffix(filename, `v${artifact.version}`);
+                }
+
+                // Artifacts sharing a title must not overwrite each other in the ZIP
+                if (usedPaths.has(`${path}/${filename}`)) {
+                    filename = FilenameHelper.withSuffix(filename, artifact.contentHash || artifact.id.slice(-8));
+                }
+                usedPaths.add(`${path}/${filename}`);
+
+                // Prefer content the user edited in the page over what was extracted
+                const edit = await this.storageService.getEdit(artifact.id);
+                const content = edit?.content ?? artifact.content;
+
+                // Diagrams can also be downloaded as images
+                if (artifact.type === ArtifactType.MERMAID && settings.mermaidExport !== 'source') {
+                    files.push(...await this.createDiagramFiles(artifact, filename, path, content, settings.mermaidExport));
+                    continue;
+                }
+
+                // SVGs can be optimized and downloaded as PNGs too
+                if (artifact.type === ArtifactType.SVG && (settings.optimizeSvg || settings.svgPngExport !== 'none')) {
+                    files.push(...await this.createSvgFiles(artifact, filename, path, content, settings.optimizeSvg, settings.svgPngExport));
+                    continue;
+                }
+
+                // Markdown can also be downloaded as HTML pages
+                if (artifact.type === ArtifactType.MARKDOWN && settings.markdownExport !== 'markdown') {
+                    files.push(...this.createMarkdownFiles(artifact, filename, path, content, settings.markdownExport));
+                    continue;
                 }
 
                 // Create file entry
                 files.push({
                     filename,
-                    content: artifact.content,
+                    content,
                     path,
                     artifact
                 });
@@ -85,13 +130,123 @@ export class ArtifactService {
         }
     }
 
+    /**
+     * Create the files for a Mermaid diagram: its SVG and PNG, plus its source unless only images are wanted
+     * A diagram that can't be rendered is downloaded as source alone.
+     */
+    private async createDiagramFiles(
+        artifact: Artifact,
+        filename: string,
+        path: string,
+        content: string,
+        mode: MermaidExportMode
+    ): Promise<ArtifactFile[]> {
+        const source: ArtifactFile = { filename, content, path, artifact };
+
+        try {
+            const rendered = await this.diagramRenderService.renderMermaid(content);
+            const png = await (await fetch(rendered.pngDataUrl)).blob();
+
+            const images: ArtifactFile[] = [
+                { filename: FilenameHelper.withExtension(filename, 'svg'), content: rendered.svg, path, artifact },
+                { filename: FilenameHelper.withExtension(filename, 'png'), content: png, path, artifact }
+            ];
+
+            return mode === 'images' ? images : [source, ...images];
+        } catch (error) {
+            this.logger.warn(`ArtifactService: Could not render diagram "${artifact.title}", downloading its source`, error);
+            return [source];
+        }
+    }
+
+    /**
+     * Create the files for an SVG: the SVG, optimized if asked, plus a PNG at each chosen scale
+     * Optimizing or rasterizing that fails leaves the SVG as it was and the PNG out.
+     */
+    private async createSvgFiles(
+        artifact: Artifact,
+        filename: string,
+        path: string,
+        content: string,
+        optimize: boolean,
+        pngExport: SvgPngExportMode
+    ): Promise<ArtifactFile[]> {
+        let svg = content;
+        if (optimize) {
+            try {
+                svg = await this.diagramRenderService.optimizeSvg(content);
+            } catch (error) {
+                this.logger.warn(`ArtifactService: Could not optimize SVG "${artifact.title}"`, error);
+            }
+        }
+
+        const files: ArtifactFile[] = [{ filename, content: svg, path, artifact }];
+        const scales: Record<SvgPngExportMode, SvgPngScale[]> = {
+            none: [],
+            '1x': [1],
+            '2x': [2],
+            '4x': [4],
+            all: [1, 2, 4]
+        };
+
+        for (const scale of scales[pngExport]) {
+            try {
+                const pngDataUrl = await this.diagramRenderService.renderSvgPng(svg, scale);
+                files.push({
+                    filename: FilenameHelper.withSuffix(FilenameHelper.withExtension(filename, 'png'), `${scale}x`),
+                    content: await (await fetch(pngDataUrl)).blob(),
+                    path,
+                    artifact
+                });
+            } catch (error) {
+                this.logger.warn(`ArtifactService: Could not render SVG "${artifact.title}" to PNG at ${scale}x`, error);
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Create the files for a markdown document: its source plus a styled and/or print-ready HTML page
+     */
+    private createMarkdownFiles(
+        artifact: Artifact,
+        filename: string,
+        path: string,
+        content: string,
+        mode: MarkdownExportMode
+    ): ArtifactFile[] {
+        const files: ArtifactFile[] = [{ filename, content, path, artifact }];
+        const htmlFilename = FilenameHelper.withExtension(filename, 'html');
+
+        if (mode === 'markdownAndHtml' || mode === 'all') {
+            files.push({
+                filename: htmlFilename,
+                content: MarkdownRenderer.toStandaloneHtml(content, artifact.title),
+                path,
+                artifact
+            });
+        }
+
+        if (mode === 'markdownAndPrint' || mode === 'all') {
+            files.push({
+                filename: FilenameHelper.withSuffix(htmlFilename, 'print'),
+                content: MarkdownRenderer.toPrintHtml(content, artifact.title),
+                path,
+                artifact
+            });
+        }
+
+        return files;
+    }
+
     /**
      * Store an artifact for potential stitching later
      */
     public async storeArtifact(artifact: Artifact): Promise<void> {
         try {
-            // Generate a storage key based on title and type
-            const key = `artifact-${artifact.title}-${artifact.type}`;
+            // Artifact IDs are stable and already prefixed, so they double as storage keys
+            const key = artifact.id;
 
             // Store in local storage
             await this.storageService.saveArtifact(key, artifact);
@@ -106,8 +261,14 @@ export class ArtifactService {
      */
     public async getStoredArtifacts(): Promise<Record<string, Artifact>> {
         try {
-            // Implementation would depend on how artifacts are stored
-            return {};
+            const stored = await this.storageService.getArtifacts();
+            const artifacts: Record<string, Artifact> = {};
+
+            stored.forEach(artifact => {
+                artifacts[artifact.id] = artifact.toObject();
+            });
+
+            return artifacts;
         } catch (error) {
             this.logger.error('ArtifactService: Error retrieving stored artifacts', error);
             throw error;
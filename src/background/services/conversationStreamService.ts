@@ -0,0 +1,125 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {
+    CONVERSATION_STREAM_PORT,
+    ConversationStreamEvent,
+    ConversationStreamRequest
+} from '../../shared/models/messages';
+import {ApiError} from '../../shared/models/apiError';
+import {ApiService} from './apiService';
+
+/**
+ * Service streaming conversation replies to content scripts over long-lived ports
+ * Each port carries one request at a time; disconnecting the port cancels it.
+ */
+export class ConversationStreamService {
+    private static instance: ConversationStreamService;
+    private readonly logger = LoggerService.getInstance();
+    private readonly apiService = ApiService.getInstance();
+    private readonly activeRequests = new Map<chrome.runtime.Port, AbortController>();
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the conversation stream service
+     */
+    public static getInstance(): ConversationStreamService {
+        if (!ConversationStreamService.instance) {
+            ConversationStreamService.instance = new ConversationStreamService();
+        }
+        return ConversationStreamService.instance;
+    }
+
+    /**
+     * Initialize the conversation stream service
+     */
+    public init(): void {
+        chrome.runtime.onConnect.addListener(this.handleConnect.bind(this));
+        this.logger.debug('ConversationStreamService: Initialized');
+    }
+
+    /**
+     * Handle a new port from a content script
+     */
+    private handleConnect(port: chrome.runtime.Port): void {
+        if (port.name !== CONVERSATION_STREAM_PORT) {
+            return;
+        }
+
+        port.onMessage.addListener((message: ConversationStreamRequest) => {
+            if (message?.type === 'start') {
+                this.startStream(port, message);
+            } else if (message?.type === 'cancel') {
+                this.activeRequests.get(port)?.abort();
+            }
+        });
+
+        // Stop generating when the page goes away
+        port.onDisconnect.addListener(() => {
+            this.activeRequests.get(port)?.abort();
+            this.activeRequests.delete(port);
+        });
+    }
+
+    /**
+     * Stream a reply, posting deltas to the port as they arrive
+     */
+    private async startStream(
+        port: chrome.runtime.Port,
+        request: Extract<ConversationStreamRequest, { type: 'start' }>
+    ): Promise<void> {
+        if (this.activeRequests.has(port)) {
+            this.post(port, { type: 'error', error: 'A reply is already being generated' });
+            return;
+        }
+
+        if (!Array.isArray(request.conversationHistory) || typeof request.prompt !== 'string') {
+            this.post(port, { type: 'error', error: 'Invalid stream request' });
+            return;
+        }
+
+        const controller = new AbortController();
+        this.activeRequests.set(port, controller);
+        let partial = '';
+
+        try {
+            const reply = await this.apiService.streamConversation(
+                request.conversationHistory,
+                request.prompt,
+                text => {
+                    partial += text;
+                    this.post(port, { type: 'delta', text });
+                },
+                controller.signal,
+                { profileId: request.profileId, model: request.model }
+            );
+
+            this.post(port, { type: 'done', ...reply });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                this.post(port, { type: 'cancelled', text: partial });
+            } else {
+                this.logger.error('ConversationStreamService: Stream failed', error);
+                this.post(port, {
+                    type: 'error',
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    apiError: error instanceof ApiError ? error.toInfo() : undefined
+                });
+            }
+        } finally {
+            this.activeRequests.delete(port);
+        }
+    }
+
+    /**
+     * Post an event, ignoring ports that have already disconnected
+     */
+    private post(port: chrome.runtime.Port, event: ConversationStreamEvent): void {
+        try {
+            port.postMessage(event);
+        } catch {
+            this.logger.debug('ConversationStreamService: Port closed before event could be sent');
+        }
+    }
+}
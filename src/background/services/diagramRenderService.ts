@@ -0,0 +1,139 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {MessageClient} from '../../shared/services/messageClient';
+import {RenderedDiagram} from '../../shared/models/diagram';
+import {SvgPngScale} from '../../shared/models/svg';
+
+/**
+ * Service rendering diagrams and processing SVG images for downloads
+ * Rendering needs a document, which the service worker doesn't have, so the work is
+ * done in an offscreen document that is opened on demand and closed when idle.
+ */
+export class DiagramRenderService {
+    private static instance: DiagramRenderService;
+    private readonly logger = LoggerService.getInstance();
+    private readonly messageClient = MessageClient.getInstance();
+    private readonly OFFSCREEN_PAGE = 'src/offscreen/index.html';
+
+    // How long the offscreen document is kept open after the last render
+    private readonly IDLE_CLOSE_MS = 30000;
+
+    private opening: Promise<void> | null = null;
+    private closeTimer: ReturnType<typeof setTimeout> | null = null;
+    private rendersInFlight = 0;
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the diagram render service
+     */
+    public static getInstance(): DiagramRenderService {
+        if (!DiagramRenderService.instance) {
+            DiagramRenderService.instance = new DiagramRenderService();
+        }
+        return DiagramRenderService.instance;
+    }
+
+    /**
+     * Render a Mermaid diagram to SVG and PNG
+     * Throws with the diagram's syntax error, including its line, when it can't be parsed.
+     */
+    public renderMermaid(source: string): Promise<RenderedDiagram> {
+        return this.inDocument(async () => {
+            const response = await this.messageClient.sendToOffscreen({ action: 'renderMermaid', source });
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+
+            return response.data;
+        });
+    }
+
+    /**
+     * Rasterize an SVG to a PNG data: URL at a multiple of its size
+     */
+    public renderSvgPng(svg: string, scale: SvgPngScale): Promise<string> {
+        return this.inDocument(async () => {
+            const response = await this.messageClient.sendToOffscreen({ action: 'renderSvgPng', svg, scale });
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+
+            return response.data.pngDataUrl;
+        });
+    }
+
+    /**
+     * Optimize an SVG with SVGO
+     * SVGO is loaded on demand, which service workers can't do, so this runs offscreen too.
+     */
+    public optimizeSvg(svg: string): Promise<string> {
+        return this.inDocument(async () => {
+            const response = await this.messageClient.sendToOffscreen({ action: 'optimizeSvg', svg });
+            if (!response.success) {
+                throw new Error(response.error);
+            }
+
+            return response.data.svg;
+        });
+    }
+
+    /**
+     * Run work that needs the offscreen document, keeping it open until the work is done
+     */
+    private async inDocument<T>(work: () => Promise<T>): Promise<T> {
+        this.rendersInFlight++;
+        if (this.closeTimer !== null) {
+            clearTimeout(this.closeTimer);
+            this.closeTimer = null;
+        }
+
+        try {
+            await this.openDocument();
+            return await work();
+        } finally {
+            this.rendersInFlight--;
+            if (this.rendersInFlight === 0) {
+                this.closeTimer = setTimeout(() => this.closeDocument(), this.IDLE_CLOSE_MS);
+            }
+        }
+    }
+
+    /**
+     * Create the offscreen document unless it is already open
+     */
+    private async openDocument(): Promise<void> {
+        if (await chrome.offscreen.hasDocument()) return;
+
+        if (!this.opening) {
+            this.logger.debug('DiagramRenderService: Opening offscreen document');
+
+            this.opening = chrome.offscreen.createDocument({
+                url: this.OFFSCREEN_PAGE,
+                reasons: ['DOM_PARSER'],
+                justification: 'Render Mermaid diagrams and SVG images to PNG, and optimize SVG images, for downloads'
+            }).finally(() => {
+                this.opening = null;
+            });
+        }
+
+        await this.opening;
+    }
+
+    /**
+     * Close the offscreen document, freeing the memory Mermaid uses
+     */
+    private async closeDocument(): Promise<void> {
+        this.closeTimer = null;
+
+        try {
+            if (await chrome.offscreen.hasDocument()) {
+                await chrome.offscreen.closeDocument();
+                this.logger.debug('DiagramRenderService: Closed idle offscreen document');
+            }
+        } catch (error) {
+            this.logger.warn('DiagramRenderService: Could not close offscreen document', error);
+        }
+    }
+}
@@ -8,6 +8,7 @@ import {ZipCreator} from '../../shared/utils/zipCreator';
 export class DownloadService {
     private static instance: DownloadService;
     private readonly logger = LoggerService.getInstance();
+    private readonly BASE64_CHUNK_SIZE = 0x8000;
 
     private constructor() {
         // Private constructor for singleton
@@ -43,7 +44,7 @@ export class DownloadService {
             const zipBlob = await ZipCreator.createZip(files);
 
             // Create a download URL
-            const url = URL.createObjectURL(zipBlob);
+            const url = await this.toDataUrl(zipBlob);
 
             // Generate filename
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
@@ -52,9 +53,6 @@ export class DownloadService {
             // Trigger download
             await this.downloadFile(url, filename);
 
-            // Clean up
-            setTimeout(() => URL.revokeObjectURL(url), 60000);
-
             return filename;
         } catch (error) {
             this.logger.error('DownloadService: Error downloading artifacts as ZIP', error);
@@ -62,6 +60,28 @@ export class DownloadService {
         }
     }
 
+    /**
+     * Download a reconstructed project as a ZIP file named after it
+     */
+    public async downloadProjectAsZip(name: string, files: Array<{ path: string; content: string }>): Promise<string> {
+        try {
+            if (files.length === 0) {
+                throw new Error('No files to download');
+            }
+
+            const zipBlob = await ZipCreator.createProjectZip(name, files);
+            const url = await this.toDataUrl(zipBlob);
+            const filename = `${name}.zip`;
+
+            await this.downloadFile(url, filename);
+
+            return filename;
+        } catch (error) {
+            this.logger.error('DownloadService: Error downloading project as ZIP', error);
+            throw error;
+        }
+    }
+
     /**
      * Download a single artifact file
      */
@@ -73,14 +93,11 @@ export class DownloadService {
                 : file.content;
 
             // Create a download URL
-            const url = URL.createObjectURL(blob);
+            const url = await this.toDataUrl(blob);
 
             // Trigger download
             await this.downloadFile(url, file.filename);
 
-            // Clean up
-            setTimeout(() => URL.revokeObjectURL(url), 60000);
-
             return file.filename;
         } catch (error) {
             this.logger.error('DownloadService: Error downloading single artifact', error);
@@ -88,6 +105,22 @@ export class DownloadService {
         }
     }
 
+    /**
+     * Encode a blob as a base64 data: URL
+     * Service workers have no URL.createObjectURL, so downloads can't use blob: URLs.
+     */
+    private async toDataUrl(blob: Blob): Promise<string> {
+        const bytes = new Uint8Array(await blob.arrayBuffer());
+
+        // Convert in chunks; spreading a large file into fromCharCode overflows the stack
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += this.BASE64_CHUNK_SIZE) {
+            binary += String.fromCharCode(...bytes.subarray(i, i + this.BASE64_CHUNK_SIZE));
+        }
+
+        return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+    }
+
     /**
      * Helper to trigger a file download
      */
@@ -97,7 +130,7 @@ export class DownloadService {
                 url,
                 filename,
                 saveAs: false
-            }, (downloadId) => {
+            }, () => {
                 if (chrome.runtime.lastError) {
                     reject(chrome.runtime.lastError);
                 } else {
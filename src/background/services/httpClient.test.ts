@@ -0,0 +1,166 @@
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {ApiError} from '../../shared/models/apiError';
+import {HttpClient} from './httpClient';
+
+/**
+ * Build a fetch response
+ */
+function respond(status: number, body: unknown = {}, headers: Record<string, string> = {}): Response {
+    return new Response(typeof body === 'string' ? body : JSON.stringify(body), { status, headers });
+}
+
+/**
+ * Run a request to completion, letting every retry delay elapse
+ */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+    const result = promise.then(
+        value => ({ value }),
+        error => ({ error })
+    );
+    await vi.runAllTimersAsync();
+    const outcome = await result;
+    if ('error' in outcome) {
+        throw outcome.error;
+    }
+    return outcome.value;
+}
+
+describe('HttpClient', () => {
+    const client = HttpClient.getInstance();
+    const fetchMock = vi.fn<typeof fetch>();
+
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        vi.useFakeTimers();
+        vi.stubGlobal('fetch', fetchMock);
+        vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    afterEach(() => {
+        fetchMock.mockReset();
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('returns a successful response and sends the body as JSON', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, { ok: true }));
+
+        const data = await settle(client.requestJson('https://api.test/v1', { method: 'POST', body: { a: 1 } }));
+
+        expect(data).toEqual({ ok: true });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: 'POST', body: '{"a":1}' });
+    });
+
+    it('retries retryable failures with exponential backoff', async () => {
+        const sleeps: number[] = [];
+        const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+        fetchMock
+            .mockResolvedValueOnce(respond(500))
+            .mockResolvedValueOnce(respond(529))
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockResolvedValueOnce(respond(200, { ok: true }));
+
+        const response = await settle(client.request('https://api.test'));
+
+        setTimeoutSpy.mock.calls.forEach(([, ms]) => {
+            // The 60 second per-attempt timeouts are not retry delays
+            if (ms !== 60000) sleeps.push(ms as number);
+        });
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(4);
+        expect(sleeps).toEqual([500, 1000, 2000]);
+    });
+
+    it('waits as long as Retry-After asks', async () => {
+        const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout');
+        fetchMock
+            .mockResolvedValueOnce(respond(429, {}, { 'retry-after': '7' }))
+            .mockResolvedValueOnce(respond(200));
+
+        await settle(client.request('https://api.test', { timeoutMs: 1000 }));
+
+        expect(setTimeoutSpy.mock.calls.map(([, ms]) => ms)).toContain(7000);
+    });
+
+    it('gives up when Retry-After is longer than the maximum delay', async () => {
+        fetchMock.mockResolvedValue(respond(429, {}, { 'retry-after': '120' }));
+
+        await expect(settle(client.request('https://api.test'))).rejects.toMatchObject({
+            kind: 'rate_limit',
+            status: 429,
+            retryAfterMs: 120000
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws the last error once retries are exhausted', async () => {
+        fetchMock.mockResolvedValue(respond(503));
+
+        await expect(settle(client.request('https://api.test', { maxRetries: 2 }))).rejects.toMatchObject({
+            kind: 'server',
+            status: 503
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry client errors', async () => {
+        fetchMock.mockResolvedValue(respond(400, {
+            type: 'error',
+            error: { type: 'invalid_request_error', message: 'max_tokens is too large' }
+        }));
+
+        const error = await settle(client.request('https://api.test')).catch(e => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error).toMatchObject({ kind: 'invalid_request', status: 400, message: 'max_tokens is too large' });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('maps API error types and statuses to error kinds', async () => {
+        const cases: [Response, string][] = [
+            [respond(401, { error: { type: 'authentication_error', message: 'bad key' } }), 'auth'],
+            [respond(403, 'Forbidden'), 'auth'],
+            [respond(404, { error: { type: 'not_found_error', message: 'no model' } }), 'invalid_request'],
+            [respond(408, ''), 'timeout']
+        ];
+
+        for (const [response, kind] of cases) {
+            fetchMock.mockResolvedValueOnce(response);
+            await expect(settle(client.request('https://api.test'))).rejects.toMatchObject({ kind });
+        }
+    });
+
+    it('reports a timeout when no response arrives in time', async () => {
+        fetchMock.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+        }));
+
+        await expect(settle(client.request('https://api.test', { timeoutMs: 5000 }))).rejects.toMatchObject({
+            kind: 'timeout',
+            message: 'No response within 5 seconds'
+        });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops when the caller cancels', async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(settle(client.request('https://api.test', { signal: controller.signal }))).rejects.toMatchObject({
+            kind: 'cancelled'
+        });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('reports invalid JSON bodies as server errors', async () => {
+        fetchMock.mockResolvedValueOnce(respond(200, 'not json'));
+
+        await expect(settle(client.requestJson('https://api.test'))).rejects.toMatchObject({
+            kind: 'server',
+            message: 'The API returned invalid JSON'
+        });
+    });
+});
@@ -0,0 +1,226 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {ApiError, ApiErrorKind} from '../../shared/models/apiError';
+
+/**
+ * Options for a single HTTP request
+ */
+export interface HttpRequestOptions {
+    method?: string;
+    headers?: Record<string, string>;
+    body?: unknown;
+
+    // Time allowed for response headers to arrive, per attempt
+    timeoutMs?: number;
+
+    // Attempts after the first for retryable failures
+    maxRetries?: number;
+
+    signal?: AbortSignal;
+}
+
+/**
+ * Failures retried automatically; timeouts are not, since each attempt already waited the full timeout
+ */
+const RETRIED_KINDS = new Set<ApiErrorKind>(['rate_limit', 'overloaded', 'server', 'network']);
+
+/**
+ * Client for every outbound API call, with timeouts, retries and error classification
+ */
+export class HttpClient {
+    private static instance: HttpClient;
+    private readonly logger = LoggerService.getInstance();
+    private readonly defaultTimeoutMs = 60000;
+    private readonly defaultMaxRetries = 3;
+    private readonly baseDelayMs = 1000;
+    private readonly maxDelayMs = 60000;
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the HTTP client
+     */
+    public static getInstance(): HttpClient {
+        if (!HttpClient.instance) {
+            HttpClient.instance = new HttpClient();
+        }
+        return HttpClient.instance;
+    }
+
+    /**
+     * Make a request and return the successful response, whose body has not been read
+     * @throws ApiError for any failure, after retries are exhausted
+     */
+    public async request(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+        const maxRetries = options.maxRetries ?? this.defaultMaxRetries;
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.attempt(url, options);
+            } catch (error) {
+                const apiError = error instanceof ApiError
+                    ? error
+                    : new ApiError({ kind: 'network', message: error instanceof Error ? error.message : String(error) });
+
+                if (!RETRIED_KINDS.has(apiError.kind) || attempt >= maxRetries) {
+                    throw apiError;
+                }
+
+                const delay = this.getRetryDelay(apiError, attempt);
+                if (delay > this.maxDelayMs) {
+                    // The server wants us to wait longer than is reasonable to keep the user waiting
+                    throw apiError;
+                }
+
+                this.logger.warn(`HttpClient: ${apiError.kind} error, retrying in ${delay}ms (attempt ${attempt + 1} of ${maxRetries})`);
+                await this.sleep(delay, options.signal);
+            }
+        }
+    }
+
+    /**
+     * Make a request and parse the JSON body
+     * @throws ApiError for any failure
+     */
+    public async requestJson<T>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+        const response = await this.request(url, options);
+
+        try {
+            return await response.json() as T;
+        } catch {
+            throw new ApiError({ kind: 'server', status: response.status, message: 'The API returned invalid JSON' });
+        }
+    }
+
+    /**
+     * Make one attempt, classifying whatever goes wrong
+     */
+    private async attempt(url: string, options: HttpRequestOptions): Promise<Response> {
+        if (options.signal?.aborted) {
+            throw new ApiError({ kind: 'cancelled', message: 'Request cancelled' });
+        }
+
+        // One controller for both the timeout and the caller's signal
+        const controller = new AbortController();
+        const timeoutMs = options.timeoutMs ?? this.defaultTimeoutMs;
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeoutMs);
+        const abort = (): void => controller.abort();
+        options.signal?.addEventListener('abort', abort);
+        let succeeded = false;
+
+        try {
+            const response = await fetch(url, {
+                method: options.method || 'GET',
+                headers: options.headers,
+                body: options.body === undefined ? undefined : JSON.stringify(options.body),
+                signal: controller.signal
+            });
+
+            if (!response.ok) {
+                throw await this.toApiError(response);
+            }
+
+            succeeded = true;
+            return response;
+        } catch (error) {
+            if (error instanceof ApiError) {
+                throw error;
+            }
+            if (timedOut) {
+                throw new ApiError({ kind: 'timeout', message: `No response within ${timeoutMs / 1000} seconds` });
+            }
+            if (options.signal?.aborted) {
+                throw new ApiError({ kind: 'cancelled', message: 'Request cancelled' });
+            }
+            throw new ApiError({ kind: 'network', message: error instanceof Error ? error.message : 'Network error' });
+        } finally {
+            clearTimeout(timer);
+
+            // On success the caller's signal must keep cancelling the body while it streams
+            if (!succeeded) {
+                options.signal?.removeEventListener('abort', abort);
+            }
+        }
+    }
+
+    /**
+     * Build an ApiError from a failed response, using the API's error body when there is one
+     */
+    private async toApiError(response: Response): Promise<ApiError> {
+        const text = await response.text().catch(() => '');
+        let errorType: string | undefined;
+        let message = text || response.statusText || `HTTP ${response.status}`;
+
+        try {
+            const body = JSON.parse(text);
+            errorType = body?.error?.type;
+            message = body?.error?.message || message;
+        } catch {
+            // Not JSON; keep the raw text
+        }
+
+        this.logger.error(`HttpClient: API error (${response.status}): ${message}`);
+
+        return new ApiError({
+            kind: ApiError.kindForStatus(response.status, errorType),
+            status: response.status,
+            message,
+            retryAfterMs: this.parseRetryAfter(response.headers)
+        });
+    }
+
+    /**
+     * Read how long the server asked us to wait, if it did
+     */
+    private parseRetryAfter(headers: Headers): number | undefined {
+        const value = headers.get('retry-after');
+        if (!value) return undefined;
+
+        const seconds = Number(value);
+        if (isFinite(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+
+        const date = Date.parse(value);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    /**
+     * Exponential backoff with jitter, unless the server said how long to wait
+     */
+    private getRetryDelay(error: ApiError, attempt: number): number {
+        if (error.retryAfterMs !== undefined) {
+            return error.retryAfterMs;
+        }
+
+        const exponential = this.baseDelayMs * 2 ** attempt;
+        return Math.round(exponential / 2 + Math.random() * exponential / 2);
+    }
+
+    /**
+     * Wait before retrying, stopping early if the caller cancels
+     */
+    private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const cancel = (): void => {
+                clearTimeout(timer);
+                reject(new ApiError({ kind: 'cancelled', message: 'Request cancelled' }));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', cancel);
+                resolve();
+            }, ms);
+
+            if (signal?.aborted) {
+                cancel();
+            } else {
+                signal?.addEventListener('abort', cancel, { once: true });
+            }
+        });
+    }
+}
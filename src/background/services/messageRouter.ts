@@ -1,10 +1,25 @@
 import {LoggerService} from '../../shared/services/loggerService';
+import {ArtifactStore} from '../../shared/services/artifactStore';
+import {StorageService} from '../../shared/services/storageService';
+import {SecretStore} from '../../shared/services/secretStore';
+import {MessageDispatcher} from '../../shared/services/messageDispatcher';
+import {ArtifactState} from '../../shared/models/artifact';
+import {
+    BACKGROUND_MESSAGE_SCHEMAS,
+    BackgroundAction,
+    BackgroundMessages,
+    MessageHandler
+} from '../../shared/models/messages';
 import {ArtifactService} from './artifactService';
 import {DownloadService} from './downloadService';
 import {ApiService} from './apiService';
+import {DiagramRenderService} from './diagramRenderService';
+import {SVG_PNG_SCALES, SvgPngScale} from '../../shared/models/svg';
+import {ProjectReconstructor} from '../../shared/utils/projectReconstructor';
+import {ApiProfileResolver} from '../../shared/utils/apiProfileResolver';
 
 /**
- * Router for handling messages from content scripts
+ * Router for handling messages from content scripts and extension pages
  */
 export class MessageRouter {
     private static instance: MessageRouter;
@@ -12,6 +27,11 @@ export class MessageRouter {
     private readonly artifactService = ArtifactService.getInstance();
     private readonly downloadService = DownloadService.getInstance();
     private readonly apiService = ApiService.getInstance();
+    private readonly artifactStore = ArtifactStore.getInstance();
+    private readonly storageService = StorageService.getInstance();
+    private readonly secretStore = SecretStore.getInstance();
+    private readonly diagramRenderService = DiagramRenderService.getInstance();
+    private readonly dispatcher = new MessageDispatcher<BackgroundMessages>('MessageRouter', BACKGROUND_MESSAGE_SCHEMAS);
 
     private constructor() {
         // Private constructor for singleton
@@ -31,136 +51,241 @@ export class MessageRouter {
      * Initialize the message router
      */
     public init(): void {
+        // Every background action must have a handler
+        const handlers: { [A in BackgroundAction]: MessageHandler<BackgroundMessages, A> } = {
+            downloadArtifacts: this.handleDownloadArtifacts.bind(this),
+            downloadSingleArtifact: this.handleDownloadSingleArtifact.bind(this),
+            downloadProject: this.handleDownloadProject.bind(this),
+            remoteCompile: this.handleRemoteCompile.bind(this),
+            apiRequest: this.handleApiRequest.bind(this),
+            continueConversation: this.handleContinueConversation.bind(this),
+            getSettings: this.handleGetSettings.bind(this),
+            saveSettings: this.handleSaveSettings.bind(this),
+            getSettingsProfiles: this.handleGetSettingsProfiles.bind(this),
+            switchSettingsProfile: this.handleSwitchSettingsProfile.bind(this),
+            getSecretStatus: this.handleGetSecretStatus.bind(this),
+            saveSecret: this.handleSaveSecret.bind(this),
+            artifactStore: this.handleArtifactStore.bind(this),
+            openLibrary: this.handleOpenLibrary.bind(this),
+            renderSvgPng: this.handleRenderSvgPng.bind(this)
+        };
+
+        (Object.keys(handlers) as BackgroundAction[]).forEach(action => {
+            this.dispatcher.register(action, handlers[action] as MessageHandler<BackgroundMessages, typeof action>);
+        });
+
         // Set up message listener
-        chrome.runtime.onMessage.addListener(this.handleMessage.bind(this));
+        chrome.runtime.onMessage.addListener(this.dispatcher.handleMessage.bind(this.dispatcher));
 
         this.logger.debug('MessageRouter: Initialized');
     }
 
     /**
-     * Handle messages from content scripts
+     * Handle artifact download request
      */
-    private handleMessage(
-        message: any,
-        sender: chrome.runtime.MessageSender,
-        sendResponse: (response?: any) => void
-    ): boolean {
-        if (!message || !message.action) {
-            sendResponse({ success: false, error: 'Invalid message format' });
-            return false;
-        }
+    private async handleDownloadArtifacts(
+        message: BackgroundMessages['downloadArtifacts']['request']
+    ): Promise<BackgroundMessages['downloadArtifacts']['response']> {
+        const { artifacts, options } = message;
 
-        this.logger.debug('MessageRouter: Received message', message);
+        // Convert plain objects to ArtifactState instances
+        const artifactStates = artifacts.map(artifact => new ArtifactState(artifact));
 
-        // Process message based on action
-        switch (message.action) {
-            case 'downloadArtifacts':
-                this.handleDownloadArtifacts(message, sendResponse);
-                return true; // Keep connection open for async response
+        // Process artifacts
+        const files = await this.artifactService.processArtifacts(
+            artifactStates,
+            options?.flatStructure || false
+        );
 
-            case 'remoteCompile':
-                this.handleRemoteCompile(message, sendResponse);
-                return true; // Keep connection open for async response
+        // Download as ZIP
+        const filename = await this.downloadService.downloadArtifactsAsZip(files);
 
-            case 'apiRequest':
-                this.handleApiRequest(message, sendResponse);
-                return true; // Keep connection open for async response
+        return { filename, count: files.length };
+    }
+
+    /**
+     * Handle download single artifact request
+     */
+    private async handleDownloadSingleArtifact(
+        message: BackgroundMessages['downloadSingleArtifact']['request']
+    ): Promise<BackgroundMessages['downloadSingleArtifact']['response']> {
+        // Process artifact to get its files; exports such as a diagram's SVG and PNG come as extra files
+        const files = await this.artifactService.processArtifacts([new ArtifactState(message.artifact)], true);
+        if (files.length === 0) {
+            throw new Error('The artifact produced no files to download');
+        }
 
-            default:
-                sendResponse({ success: false, error: `Unknown action: ${message.action}` });
-                return false;
+        // Download every file, not only the artifact itself
+        const filenames: string[] = [];
+        for (const file of files) {
+            filenames.push(await this.downloadService.downloadSingleArtifact(file));
         }
+
+        return { filename: filenames[0], count: filenames.length };
     }
 
     /**
-     * Handle artifact download request
+     * Handle a request to download files laid out as a project
+     * Paths come from the page, so they are checked again before anything is written.
      */
-    private async handleDownloadArtifacts(message: any, sendResponse: (response?: any) => void): Promise<void> {
-        try {
-            const { artifacts, options } = message;
+    private async handleDownloadProject(
+        message: BackgroundMessages['downloadProject']['request']
+    ): Promise<BackgroundMessages['downloadProject']['response']> {
+        const name = ProjectReconstructor.normalizePath(message.name);
+        if (name.includes('/')) {
+            throw new Error('The project name must not contain slashes');
+        }
 
-            if (!artifacts || !Array.isArray(artifacts)) {
-                sendResponse({ success: false, error: 'No artifacts provided' });
-                return;
+        const files = message.files.map(file => {
+            if (typeof file?.path !== 'string' || typeof file.content !== 'string') {
+                throw new Error('Project files need a path and content');
             }
+            return { path: ProjectReconstructor.normalizePath(file.path), content: file.content };
+        });
 
-            // Process artifacts
-            const files = await this.artifactService.processArtifacts(
-                artifacts,
-                options?.stitchArtifacts || false,
-                options?.flatStructure || false
-            );
-
-            // Download as ZIP
-            const filename = await this.downloadService.downloadArtifactsAsZip(files);
-
-            sendResponse({
-                success: true,
-                filename,
-                count: files.length
-            });
-        } catch (error) {
-            this.logger.error('MessageRouter: Error handling download artifacts', error);
-            sendResponse({
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            });
+        const { duplicatePaths } = ProjectReconstructor.check(files);
+        if (duplicatePaths.length) {
+            throw new Error(`More than one file has the path ${duplicatePaths.join(', ')}`);
         }
+
+        const filename = await this.downloadService.downloadProjectAsZip(name, files);
+        return { filename, count: files.length };
     }
 
     /**
      * Handle remote code compilation request
      */
-    private async handleRemoteCompile(message: any, sendResponse: (response?: any) => void): Promise<void> {
-        try {
-            const { code, language } = message;
+    private async handleRemoteCompile(
+        message: BackgroundMessages['remoteCompile']['request']
+    ): Promise<BackgroundMessages['remoteCompile']['response']> {
+        return this.apiService.compileCode(message.code, message.language);
+    }
 
-            if (!code) {
-                sendResponse({ success: false, error: 'No code provided' });
-                return;
-            }
+    /**
+     * Handle Claude API request
+     */
+    private async handleApiRequest(
+        message: BackgroundMessages['apiRequest']['request']
+    ): Promise<BackgroundMessages['apiRequest']['response']> {
+        return this.apiService.sendPrompt(message.prompt, message.options);
+    }
+
+    /**
+     * Handle continue conversation request
+     */
+    private async handleContinueConversation(
+        message: BackgroundMessages['continueConversation']['request']
+    ): Promise<BackgroundMessages['continueConversation']['response']> {
+        return this.apiService.continueConversation(message.conversationHistory, message.prompt, {}, {
+            profileId: message.profileId,
+            model: message.model
+        });
+    }
+
+    /**
+     * Handle get settings request
+     */
+    private async handleGetSettings(): Promise<BackgroundMessages['getSettings']['response']> {
+        const settings = await this.storageService.getSettings();
+        return settings.toObject();
+    }
+
+    /**
+     * Handle save settings request
+     */
+    private async handleSaveSettings(
+        message: BackgroundMessages['saveSettings']['request']
+    ): Promise<BackgroundMessages['saveSettings']['response']> {
+        await this.storageService.saveSettings(message.settings);
+        return null;
+    }
 
-            // Use API service to compile code
-            const result = await this.apiService.compileCode(code, language);
-
-            sendResponse({
-                success: true,
-                data: result
-            });
-        } catch (error) {
-            this.logger.error('MessageRouter: Error handling remote compile', error);
-            sendResponse({
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            });
+    /**
+     * Handle request for the saved settings profiles
+     */
+    private async handleGetSettingsProfiles(): Promise<BackgroundMessages['getSettingsProfiles']['response']> {
+        const profiles = await this.storageService.getSettingsProfiles();
+
+        return {
+            active: profiles.active,
+            names: Object.keys(profiles.profiles).sort()
+        };
+    }
+
+    /**
+     * Handle request to switch the active settings profile
+     * Content scripts can't ask for host access, so profiles whose API hosts weren't granted are refused.
+     */
+    private async handleSwitchSettingsProfile(
+        message: BackgroundMessages['switchSettingsProfile']['request']
+    ): Promise<BackgroundMessages['switchSettingsProfile']['response']> {
+        const profile = await this.storageService.getSettingsProfile(message.name);
+        const origins = profile ? ApiProfileResolver.getHostPermissions(profile.apiSettings) : [];
+        if (origins.length && !await chrome.permissions.contains({ origins })) {
+            throw new Error(`Access to ${origins.join(', ')} has not been granted; switch to this profile on the options page`);
         }
+
+        const settings = await this.storageService.switchSettingsProfile(message.name);
+        return settings.toObject();
     }
 
     /**
-     * Handle Claude API request
+     * Handle request for which secrets are set, without their values
      */
-    private async handleApiRequest(message: any, sendResponse: (response?: any) => void): Promise<void> {
-        try {
-            const { prompt, options } = message;
+    private async handleGetSecretStatus(): Promise<BackgroundMessages['getSecretStatus']['response']> {
+        return this.secretStore.getStatus();
+    }
 
-            if (!prompt) {
-                sendResponse({ success: false, error: 'No prompt provided' });
-                return;
-            }
+    /**
+     * Handle request to set or clear a secret
+     * Only extension pages may do this; content scripts share their page with scripts we don't control.
+     */
+    private async handleSaveSecret(
+        message: BackgroundMessages['saveSecret']['request'],
+        sender: chrome.runtime.MessageSender
+    ): Promise<BackgroundMessages['saveSecret']['response']> {
+        if (!this.isExtensionPage(sender)) {
+            throw new Error('Secrets can only be saved from the extension options page');
+        }
+
+        await this.secretStore.set(message.name, message.value.trim());
+        return this.secretStore.getStatus();
+    }
 
-            // Use API service to make Claude API request
-            const result = await this.apiService.sendPrompt(prompt, options);
-
-            sendResponse({
-                success: true,
-                data: result
-            });
-        } catch (error) {
-            this.logger.error('MessageRouter: Error handling API request', error);
-            sendResponse({
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
-            });
+    /**
+     * Check that a message came from one of the extension's own pages rather than a content script
+     */
+    private isExtensionPage(sender: chrome.runtime.MessageSender): boolean {
+        return sender.id === chrome.runtime.id && (sender.url?.startsWith(chrome.runtime.getURL('')) ?? false);
+    }
+
+    /**
+     * Handle an artifact store operation forwarded from a content script
+     */
+    private async handleArtifactStore(
+        message: BackgroundMessages['artifactStore']['request']
+    ): Promise<BackgroundMessages['artifactStore']['response']> {
+        return this.artifactStore.execute(message.operation, message.args);
+    }
+
+    /**
+     * Handle request to open the artifact library page
+     */
+    private async handleOpenLibrary(): Promise<BackgroundMessages['openLibrary']['response']> {
+        await chrome.tabs.create({ url: chrome.runtime.getURL('src/library/index.html') });
+        return null;
+    }
+
+    /**
+     * Handle a request to rasterize an SVG, which needs the offscreen document
+     */
+    private async handleRenderSvgPng(
+        message: BackgroundMessages['renderSvgPng']['request']
+    ): Promise<BackgroundMessages['renderSvgPng']['response']> {
+        if (!SVG_PNG_SCALES.includes(message.scale as SvgPngScale)) {
+            throw new Error(`PNG scale must be one of ${SVG_PNG_SCALES.join(', ')}`);
         }
+
+        return { pngDataUrl: await this.diagramRenderService.renderSvgPng(message.svg, message.scale as SvgPngScale) };
     }
 }
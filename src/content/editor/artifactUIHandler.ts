@@ -1,7 +1,20 @@
 import {LoggerService} from '../../shared/services/loggerService';
+import {StorageService} from '../../shared/services/storageService';
+import {DomAdapterRegistry} from '../../shared/adapters/domAdapterRegistry';
+import {ArtifactExtractor} from '../../shared/utils/artifactExtractor';
 import {BannerService} from '../ui/bannerService';
 import {EditorManager} from './editorManager';
 import {CompilerService} from './compilerService';
+import {ExecutionExitReason, ExecutionResult} from '../../shared/models/execution';
+import {DiffViewer} from './diffViewer';
+import {ArtifactHistoryBuilder} from '../../shared/utils/artifactHistory';
+import {ArtifactType} from '../../shared/models/artifact';
+import {PreviewKind} from '../../shared/models/preview';
+import {PreviewManager} from './previewManager';
+import {MessageService} from '../events/messageService';
+import {SVG_PNG_SCALES, SvgPngScale} from '../../shared/models/svg';
+import {SvgProcessor} from '../../shared/utils/svgProcessor';
+import {FilenameHelper} from '../../shared/utils/filenameHelper';
 
 /**
  * Handler for artifact UI interactions
@@ -12,9 +25,20 @@ export class ArtifactUIHandler {
     private readonly bannerService = BannerService.getInstance();
     private readonly editorManager = EditorManager.getInstance();
     private readonly compilerService = CompilerService.getInstance();
+    private readonly adapterRegistry = DomAdapterRegistry.getInstance();
+    private readonly diffViewer = DiffViewer.getInstance();
+    private readonly previewManager = PreviewManager.getInstance();
+    private readonly storageService = StorageService.getInstance();
+    private readonly messageService = MessageService.getInstance();
 
     private observer: MutationObserver | null = null;
 
+    // Claude's original content for each enhanced artifact container
+    private originalContents = new WeakMap<HTMLElement, string>();
+
+    // Markdown artifacts whose preview was opened for editing, to close when editing ends
+    private editPreviews = new WeakSet<HTMLElement>();
+
     private constructor() {
         // Private constructor for singleton
     }
@@ -64,6 +88,8 @@ export class ArtifactUIHandler {
             mutation.type === 'childList' && mutation.addedNodes.length > 0);
 
         if (hasNewNodes) {
+            const adapter = this.adapterRegistry.getAdapter();
+
             // Look for new artifacts
             const addedArtifacts = mutations
                 .filter(mutation => mutation.type === 'childList' && mutation.addedNodes.length > 0)
@@ -71,12 +97,11 @@ export class ArtifactUIHandler {
                     mutation.addedNodes.forEach(node => {
                         if (node instanceof HTMLElement) {
                             // Check if this is an artifact container
-                            if (node.classList.contains('antml-artifact-container')) {
+                            if (adapter.isArtifactContainer(node)) {
                                 nodes.push(node);
                             } else {
                                 // Check for artifact containers within this node
-                                const containers = node.querySelectorAll('.antml-artifact-container');
-                                containers.forEach(container => nodes.push(container as HTMLElement));
+                                nodes.push(...adapter.findArtifactContainers(node));
                             }
                         }
                     });
@@ -94,11 +119,11 @@ export class ArtifactUIHandler {
      * Process existing artifacts in the DOM
      */
     private processExistingArtifacts(): void {
-        const artifacts = document.querySelectorAll('.antml-artifact-container');
+        const artifacts = this.adapterRegistry.getAdapter().findArtifactContainers();
 
         if (artifacts.length > 0) {
             this.logger.debug(`ArtifactUIHandler: Found ${artifacts.length} existing artifacts`);
-            this.processNewArtifacts(Array.from(artifacts) as HTMLElement[]);
+            this.processNewArtifacts(artifacts);
         }
     }
 
@@ -121,8 +146,10 @@ export class ArtifactUIHandler {
      */
     private enhanceArtifact(container: HTMLElement): void {
         try {
+            const adapter = this.adapterRegistry.getAdapter();
+
             // Find the title element to add controls next to
-            const titleElement = container.querySelector('.antml-artifact-title');
+            const titleElement = adapter.findArtifactTitle(container);
             if (!titleElement) {
                 return;
             }
@@ -144,15 +171,30 @@ export class ArtifactUIHandler {
             const copyButton = this.createCopyButton();
             controlsContainer.appendChild(copyButton);
 
+            // Add diff button
+            const diffButton = this.createDiffButton();
+            controlsContainer.appendChild(diffButton);
+
             // Add run button for code artifacts
-            const isCodeArtifact = container.classList.contains('code-artifact') ||
-                container.querySelector('pre code') !== null;
+            const isCodeArtifact = (container.classList.contains('code-artifact') ||
+                adapter.findCodeBlock(container) !== null) && adapter.findMarkdownContent(container) === null;
 
             if (isCodeArtifact) {
                 const runButton = this.createRunButton();
                 controlsContainer.appendChild(runButton);
             }
 
+            // Add preview button for HTML, React, Mermaid and markdown artifacts
+            if (this.getPreviewKind(container)) {
+                const previewButton = this.createPreviewButton();
+                controlsContainer.appendChild(previewButton);
+            }
+
+            // Add optimize and PNG export actions for SVG artifacts
+            if (ArtifactExtractor.extractArtifact(container)?.type === ArtifactType.SVG) {
+                controlsContainer.appendChild(this.createSvgMenu());
+            }
+
             // Add controls to the title element
             Object.assign(titleElement.style, {
                 display: 'flex',
@@ -165,6 +207,9 @@ export class ArtifactUIHandler {
             // Store artifact data
             this.storeArtifactData(container);
 
+            // Re-apply edits saved in an earlier visit
+            this.restoreEdit(container);
+
             this.logger.debug('ArtifactUIHandler: Enhanced artifact', container);
         } catch (error) {
             this.logger.error('ArtifactUIHandler: Error enhancing artifact', error);
@@ -204,8 +249,8 @@ export class ArtifactUIHandler {
 
         // Add event listener
         button.addEventListener('click', (event) => {
-            const artifactContainer = (event.target as HTMLElement)
-                .closest('.antml-artifact-container') as HTMLElement;
+            const artifactContainer = this.adapterRegistry.getAdapter()
+                .closestArtifactContainer(event.target as HTMLElement);
 
             if (artifactContainer) {
                 this.handleArtifactEdit(artifactContainer, button);
@@ -248,8 +293,8 @@ export class ArtifactUIHandler {
 
         // Add event listener
         button.addEventListener('click', (event) => {
-            const artifactContainer = (event.target as HTMLElement)
-                .closest('.antml-artifact-container') as HTMLElement;
+            const artifactContainer = this.adapterRegistry.getAdapter()
+                .closestArtifactContainer(event.target as HTMLElement);
 
             if (artifactContainer) {
                 this.handleArtifactCopy(artifactContainer, button);
@@ -259,6 +304,52 @@ export class ArtifactUIHandler {
         return button;
     }
 
+    /**
+     * Create a diff button
+     */
+    private createDiffButton(): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'artifact-diff-button';
+        button.title = 'Compare with the original or previous version';
+        button.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <circle cx="18" cy="18" r="3"></circle>
+        <circle cx="6" cy="6" r="3"></circle>
+        <path d="M13 6h3a2 2 0 0 1 2 2v7"></path>
+        <path d="M11 18H8a2 2 0 0 1-2-2V9"></path>
+      </svg>
+      <span>Diff</span>
+    `;
+
+        // Add styling
+        Object.assign(button.style, {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            border: '1px solid #e2e8f0',
+            backgroundColor: '#f8fafc',
+            color: '#334155',
+            cursor: 'pointer',
+            fontSize: '12px',
+            fontWeight: '500'
+        });
+
+        // Add event listener
+        button.addEventListener('click', (event) => {
+            const artifactContainer = this.adapterRegistry.getAdapter()
+                .closestArtifactContainer(event.target as HTMLElement);
+
+            if (artifactContainer) {
+                this.handleArtifactDiff(artifactContainer);
+            }
+        });
+
+        return button;
+    }
+
     /**
      * Create a run button for code artifacts
      */
@@ -291,8 +382,8 @@ export class ArtifactUIHandler {
 
         // Add event listener
         button.addEventListener('click', (event) => {
-            const artifactContainer = (event.target as HTMLElement)
-                .closest('.antml-artifact-container') as HTMLElement;
+            const artifactContainer = this.adapterRegistry.getAdapter()
+                .closestArtifactContainer(event.target as HTMLElement);
 
             if (artifactContainer) {
                 this.handleArtifactRun(artifactContainer);
@@ -302,17 +393,177 @@ export class ArtifactUIHandler {
         return button;
     }
 
+    /**
+     * Create a preview button for HTML, React, Mermaid and markdown artifacts
+     */
+    private createPreviewButton(): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'artifact-preview-button';
+        button.title = 'Show or hide a live preview';
+        button.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"></path>
+        <circle cx="12" cy="12" r="3"></circle>
+      </svg>
+      <span>Preview</span>
+    `;
+
+        // Add styling
+        Object.assign(button.style, {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            border: '1px solid #bfdbfe',
+            backgroundColor: '#eff6ff',
+            color: '#1e40af',
+            cursor: 'pointer',
+            fontSize: '12px',
+            fontWeight: '500'
+        });
+
+        // Add event listener
+        button.addEventListener('click', (event) => {
+            const artifactContainer = this.adapterRegistry.getAdapter()
+                .closestArtifactContainer(event.target as HTMLElement);
+
+            if (artifactContainer) {
+                this.handleArtifactPreview(artifactContainer);
+            }
+        });
+
+        return button;
+    }
+
+    /**
+     * Create the SVG button and its menu of optimize and PNG export actions
+     */
+    private createSvgMenu(): HTMLElement {
+        const wrapper = document.createElement('div');
+        wrapper.className = 'artifact-svg-menu';
+        Object.assign(wrapper.style, {
+            position: 'relative'
+        });
+
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'artifact-svg-button';
+        button.title = 'Optimize the SVG or export it as PNG';
+        button.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect>
+        <circle cx="8.5" cy="8.5" r="1.5"></circle>
+        <polyline points="21 15 16 10 5 21"></polyline>
+      </svg>
+      <span>SVG</span>
+    `;
+
+        // Add styling
+        Object.assign(button.style, {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            border: '1px solid #e2e8f0',
+            backgroundColor: '#f8fafc',
+            color: '#334155',
+            cursor: 'pointer',
+            fontSize: '12px',
+            fontWeight: '500'
+        });
+
+        const menu = document.createElement('div');
+        Object.assign(menu.style, {
+            position: 'absolute',
+            top: '100%',
+            right: '0',
+            zIndex: '1000',
+            display: 'none',
+            flexDirection: 'column',
+            minWidth: '140px',
+            marginTop: '4px',
+            padding: '4px 0',
+            backgroundColor: '#ffffff',
+            border: '1px solid #e2e8f0',
+            borderRadius: '4px',
+            boxShadow: '0 4px 12px rgba(15, 23, 42, 0.12)'
+        });
+
+        const closeMenu = (event: MouseEvent): void => {
+            if (!wrapper.contains(event.target as Node)) {
+                menu.style.display = 'none';
+                document.removeEventListener('click', closeMenu);
+            }
+        };
+
+        const actions: Array<[string, (container: HTMLElement) => void]> = [
+            ['Optimize', container => this.handleSvgOptimize(container)],
+            ...SVG_PNG_SCALES.map((scale): [string, (container: HTMLElement) => void] =>
+                [`Export PNG ${scale}x`, container => this.handleSvgExport(container, scale)])
+        ];
+
+        actions.forEach(([label, action]) => {
+            const item = document.createElement('button');
+            item.type = 'button';
+            item.textContent = label;
+            Object.assign(item.style, {
+                padding: '6px 12px',
+                border: 'none',
+                backgroundColor: 'transparent',
+                color: '#334155',
+                cursor: 'pointer',
+                fontSize: '12px',
+                textAlign: 'left'
+            });
+
+            item.addEventListener('mouseenter', () => item.style.backgroundColor = '#f1f5f9');
+            item.addEventListener('mouseleave', () => item.style.backgroundColor = 'transparent');
+            item.addEventListener('click', () => {
+                menu.style.display = 'none';
+                document.removeEventListener('click', closeMenu);
+
+                const artifactContainer = this.adapterRegistry.getAdapter().closestArtifactContainer(wrapper);
+                if (artifactContainer) {
+                    action(artifactContainer);
+                }
+            });
+
+            menu.appendChild(item);
+        });
+
+        button.addEventListener('click', () => {
+            const isOpen = menu.style.display !== 'none';
+            menu.style.display = isOpen ? 'none' : 'flex';
+
+            if (isOpen) {
+                document.removeEventListener('click', closeMenu);
+            } else {
+                document.addEventListener('click', closeMenu);
+            }
+        });
+
+        wrapper.append(button, menu);
+        return wrapper;
+    }
+
     /**
      * Store artifact data
      */
     private storeArtifactData(container: HTMLElement): void {
+        const adapter = this.adapterRegistry.getAdapter();
+
         // Extract metadata
-        const titleElement = container.querySelector('.antml-artifact-title') as HTMLElement;
+        const titleElement = adapter.findArtifactTitle(container);
         const title = titleElement?.textContent?.trim() || 'Untitled';
 
         // Determine artifact type
         let type = 'text';
-        if (container.classList.contains('code-artifact') || container.querySelector('pre code')) {
+        if (adapter.findMarkdownContent(container)) {
+            type = 'markdown';
+        } else if (container.classList.contains('code-artifact') || adapter.findCodeBlock(container)) {
             type = 'code';
         } else if (container.querySelector('svg')) {
             type = 'svg';
@@ -321,9 +572,9 @@ export class ArtifactUIHandler {
         }
 
         // Get language for code artifacts
-        let language = '';
-        const codeElement = container.querySelector('pre code');
-        if (codeElement) {
+        let language = type === 'markdown' ? 'markdown' : '';
+        const codeElement = adapter.findCodeBlock(container);
+        if (codeElement && type !== 'markdown') {
             const classNames = Array.from(codeElement.classList);
             const langClass = classNames.find(cls => cls.startsWith('language-'));
             if (langClass) {
@@ -331,8 +582,25 @@ export class ArtifactUIHandler {
             }
         }
 
+        // Stable ID derived from the original content, kept even after edits
+        const artifact = ArtifactExtractor.extractArtifact(container);
+        const id = artifact?.id;
+
+        if (artifact) {
+            this.originalContents.set(container, artifact.content);
+
+            // Pin the ID so it survives edits to the content it was derived from
+            container.dataset.artifactId = artifact.id;
+
+            // Keep a copy in the local library
+            this.storageService.captureArtifact(artifact).catch(error => {
+                this.logger.error('ArtifactUIHandler: Error capturing artifact', error);
+            });
+        }
+
         // Store as data attribute
         container.dataset.artifactMetadata = JSON.stringify({
+            id,
             title,
             type,
             language,
@@ -348,19 +616,49 @@ export class ArtifactUIHandler {
             const isEditMode = container.classList.contains('editing-mode');
 
             if (isEditMode) {
-                // Save changes
-                await this.editorManager.saveChanges(container);
-                button.innerHTML = `
-          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-            <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
-            <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
-          </svg>
-          <span>Edit</span>
-        `;
+                // Save changes and persist them so they survive reloads
+                const content = this.editorManager.getEditorContent(container);
+                const saved = await this.editorManager.saveChanges(container);
+                if (saved && content !== null) {
+                    await this.recordEdit(container, content);
+                }
+                if (saved) {
+                    this.closeEditPreview(container);
+                }
+                this.renderEditButton(button, false);
             } else {
                 // Enter edit mode
-                await this.editorManager.createEditor(container);
-                button.innerHTML = `
+                const editor = await this.editorManager.createEditor(container);
+                this.renderEditButton(button, true);
+
+                // Markdown is edited next to its rendering
+                if (editor && this.getPreviewKind(container) === 'markdown' && !this.previewManager.isOpen(container)) {
+                    this.previewManager.open(container, 'markdown', () => this.readArtifactSource(container));
+                    this.editPreviews.add(container);
+                }
+            }
+        } catch (error) {
+            this.logger.error('ArtifactUIHandler: Edit error', error);
+            this.bannerService.showError('Failed to edit artifact');
+        }
+    }
+
+    /**
+     * Close the preview opened alongside a markdown editor
+     */
+    private closeEditPreview(container: HTMLElement): void {
+        if (this.editPreviews.has(container)) {
+            this.editPreviews.delete(container);
+            this.previewManager.close(container);
+        }
+    }
+
+    /**
+     * Render the edit button as "Edit" or "Save"
+     */
+    private renderEditButton(button: HTMLButtonElement, isEditing: boolean): void {
+        if (isEditing) {
+            button.innerHTML = `
           <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
             <path d="M19 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11l5 5v11a2 2 0 0 1-2 2z"></path>
             <polyline points="17 21 17 13 7 13 7 21"></polyline>
@@ -368,13 +666,157 @@ export class ArtifactUIHandler {
           </svg>
           <span>Save</span>
         `;
+        } else {
+            button.innerHTML = `
+          <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+            <path d="M11 4H4a2 2 0 0 0-2 2v14a2 2 0 0 0 2 2h14a2 2 0 0 0 2-2v-7"></path>
+            <path d="M18.5 2.5a2.121 2.121 0 0 1 3 3L12 15l-4 1 1-4 9.5-9.5z"></path>
+          </svg>
+          <span>Edit</span>
+        `;
+        }
+    }
+
+    /**
+     * Store or clear the persisted edit after saving editor changes
+     */
+    private async recordEdit(container: HTMLElement, content: string): Promise<void> {
+        const artifactId = container.dataset.artifactId;
+        if (!artifactId) {
+            this.logger.warn('ArtifactUIHandler: Cannot persist edit without an artifact ID');
+            return;
+        }
+
+        // Saving the original content back is the same as reverting
+        if (content === this.originalContents.get(container)) {
+            await this.storageService.removeEdit(artifactId);
+            this.markEdited(container, false);
+            return;
+        }
+
+        await this.storageService.saveEdit(artifactId, content);
+        this.markEdited(container, true);
+    }
+
+    /**
+     * Re-apply a stored edit when an artifact is rendered
+     */
+    private async restoreEdit(container: HTMLElement): Promise<void> {
+        try {
+            const artifactId = container.dataset.artifactId;
+            if (!artifactId) return;
+
+            const edit = await this.storageService.getEdit(artifactId);
+            if (!edit) return;
+
+            if (this.editorManager.applyContent(container, edit.content)) {
+                this.markEdited(container, true);
+                this.logger.debug(`ArtifactUIHandler: Restored edit for ${artifactId}`);
             }
         } catch (error) {
-            this.logger.error('ArtifactUIHandler: Edit error', error);
-            this.bannerService.showError('Failed to edit artifact');
+            this.logger.error('ArtifactUIHandler: Error restoring edit', error);
+        }
+    }
+
+    /**
+     * Discard the stored edit and restore Claude's original content
+     */
+    private async revertEdit(container: HTMLElement): Promise<void> {
+        try {
+            const artifactId = container.dataset.artifactId;
+            const original = this.originalContents.get(container);
+
+            if (!artifactId || original === undefined) {
+                this.bannerService.showError('Original content is not available');
+                return;
+            }
+
+            if (!confirm('Discard your edits and restore the original artifact?')) {
+                return;
+            }
+
+            // Leave edit mode without saving
+            if (container.classList.contains('editing-mode')) {
+                this.editorManager.removeEditor(container);
+                this.closeEditPreview(container);
+                const editButton = container.querySelector<HTMLButtonElement>('.artifact-edit-button');
+                if (editButton) {
+                    this.renderEditButton(editButton, false);
+                }
+            }
+
+            this.editorManager.applyContent(container, original);
+            this.previewManager.refresh(container);
+            await this.storageService.removeEdit(artifactId);
+            this.markEdited(container, false);
+
+            this.bannerService.showSuccess('Artifact reverted to original');
+        } catch (error) {
+            this.logger.error('ArtifactUIHandler: Revert error', error);
+            this.bannerService.showError('Failed to revert artifact');
         }
     }
 
+    /**
+     * Show or hide the "edited" badge and the revert button
+     */
+    private markEdited(container: HTMLElement, edited: boolean): void {
+        const controls = container.querySelector('.artifact-controls');
+        if (!controls) return;
+
+        controls.querySelector('.artifact-edited-badge')?.remove();
+        controls.querySelector('.artifact-revert-button')?.remove();
+        container.classList.toggle('artifact-edited', edited);
+
+        if (!edited) return;
+
+        const badge = document.createElement('span');
+        badge.className = 'artifact-edited-badge';
+        badge.textContent = 'Edited';
+        badge.title = 'This artifact has local edits';
+        Object.assign(badge.style, {
+            alignSelf: 'center',
+            padding: '2px 6px',
+            borderRadius: '9999px',
+            backgroundColor: '#fef3c7',
+            color: '#92400e',
+            fontSize: '11px',
+            fontWeight: '600'
+        });
+
+        const revertButton = document.createElement('button');
+        revertButton.type = 'button';
+        revertButton.className = 'artifact-revert-button';
+        revertButton.title = 'Revert to the original artifact';
+        revertButton.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <polyline points="1 4 1 10 7 10"></polyline>
+        <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10"></path>
+      </svg>
+      <span>Revert</span>
+    `;
+        Object.assign(revertButton.style, {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            border: '1px solid #fde68a',
+            backgroundColor: '#fffbeb',
+            color: '#92400e',
+            cursor: 'pointer',
+            fontSize: '12px',
+            fontWeight: '500'
+        });
+
+        revertButton.addEventListener('click', () => {
+            this.revertEdit(container);
+        });
+
+        controls.prepend(badge);
+        controls.appendChild(revertButton);
+    }
+
     /**
      * Handle copy button click
      */
@@ -388,7 +830,7 @@ export class ArtifactUIHandler {
                 content = this.editorManager.getEditorContent(container) || '';
             } else {
                 // Get from DOM
-                const codeElement = container.querySelector('pre code');
+                const codeElement = this.adapterRegistry.getAdapter().findCodeBlock(container);
                 if (codeElement) {
                     content = codeElement.textContent || '';
                 } else {
@@ -426,6 +868,64 @@ export class ArtifactUIHandler {
         }
     }
 
+    /**
+     * Handle diff button click
+     * Compares the current edits against Claude's original, or, when there are no
+     * edits, this version against the previous version of the same artifact.
+     */
+    private async handleArtifactDiff(container: HTMLElement): Promise<void> {
+        try {
+            const metadata = this.extractArtifactMetadata(container);
+            const current = ArtifactExtractor.extractArtifact(container);
+            const original = this.originalContents.get(container);
+
+            if (!current || original === undefined) {
+                this.bannerService.showError('Could not read artifact content');
+                return;
+            }
+
+            const language = current.language || metadata?.language || 'plaintext';
+            const edited = container.classList.contains('editing-mode')
+                ? this.editorManager.getEditorContent(container) ?? current.content
+                : current.content;
+
+            if (edited !== original) {
+                await this.diffViewer.show({
+                    title: `${current.title}: original vs. edited`,
+                    language,
+                    original: { label: 'Original', content: original },
+                    modified: { label: 'Edited', content: edited },
+                    artifact: current.toObject()
+                });
+                return;
+            }
+
+            // No edits, so compare against the previous version in the conversation
+            const histories = ArtifactHistoryBuilder.build(ArtifactExtractor.extractArtifactsFromDOM());
+            const history = histories.find(h => h.versions.some(v => v.id === metadata?.id));
+            const index = history ? history.versions.findIndex(v => v.id === metadata?.id) : -1;
+
+            if (!history || index <= 0) {
+                this.bannerService.showInfo('No edits or earlier versions to compare');
+                return;
+            }
+
+            const previous = history.versions[index - 1];
+            const version = history.versions[index];
+
+            await this.diffViewer.show({
+                title: `${current.title}: v${previous.version} vs. v${version.version}`,
+                language,
+                original: { label: `v${previous.version}`, content: previous.content },
+                modified: { label: `v${version.version}`, content: version.content },
+                artifact: version.toObject()
+            });
+        } catch (error) {
+            this.logger.error('ArtifactUIHandler: Diff error', error);
+            this.bannerService.showError('Failed to compare artifact');
+        }
+    }
+
     /**
      * Handle run button click
      */
@@ -447,7 +947,7 @@ export class ArtifactUIHandler {
                 code = this.editorManager.getEditorContent(container) || '';
             } else {
                 // Get from pre element
-                const codeElement = container.querySelector('pre code');
+                const codeElement = this.adapterRegistry.getAdapter().findCodeBlock(container);
                 code = codeElement?.textContent || '';
             }
 
@@ -456,6 +956,13 @@ export class ArtifactUIHandler {
                 return;
             }
 
+            // HTML, React and Mermaid are rendered rather than run
+            const previewKind = this.getPreviewKind(container);
+            if (previewKind) {
+                this.previewManager.open(container, previewKind, () => this.readArtifactSource(container));
+                return;
+            }
+
             // Show compiling message
             this.bannerService.showInfo('Compiling code...');
 
@@ -470,6 +977,133 @@ export class ArtifactUIHandler {
         }
     }
 
+    /**
+     * Handle preview button click
+     */
+    private handleArtifactPreview(container: HTMLElement): void {
+        try {
+            // The preview is the user's to close from now on
+            this.editPreviews.delete(container);
+
+            if (this.previewManager.isOpen(container)) {
+                this.previewManager.close(container);
+                return;
+            }
+
+            const kind = this.getPreviewKind(container);
+            if (!kind) {
+                this.bannerService.showError('Only HTML, React, Mermaid and markdown artifacts can be previewed');
+                return;
+            }
+
+            this.previewManager.open(container, kind, () => this.readArtifactSource(container));
+        } catch (error) {
+            this.logger.error('ArtifactUIHandler: Preview error', error);
+            this.bannerService.showError('Failed to open preview');
+        }
+    }
+
+    /**
+     * Optimize an SVG artifact, in the editor while it is open and otherwise as a saved edit
+     */
+    private async handleSvgOptimize(container: HTMLElement): Promise<void> {
+        try {
+            const source = this.readArtifactSource(container);
+
+            // Report syntax errors with their position rather than SVGO's parser message
+            SvgProcessor.parse(source);
+
+            const optimized = await SvgProcessor.optimize(source);
+            const saving = Math.round((1 - optimized.length / source.length) * 100);
+
+            if (container.classList.contains('editing-mode')) {
+                this.editorManager.setEditorContent(container, optimized);
+            } else if (this.editorManager.applyContent(container, optimized)) {
+                await this.recordEdit(container, optimized);
+                this.previewManager.refresh(container);
+            } else {
+                return;
+            }
+
+            this.bannerService.showSuccess(`SVG optimized: ${source.length.toLocaleString()} → ${optimized.length.toLocaleString()} characters (${saving}% smaller)`);
+        } catch (error) {
+            this.logger.error('ArtifactUIHandler: SVG optimize error', error);
+            this.bannerService.showError(`Failed to optimize SVG: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Export an SVG artifact as a PNG at a multiple of its size
+     * The page's content security policy can block drawing the SVG here, so the background
+     * script renders it in the extension's offscreen document.
+     */
+    private async handleSvgExport(container: HTMLElement, scale: SvgPngScale): Promise<void> {
+        try {
+            const artifact = ArtifactExtractor.extractArtifact(container);
+            const source = this.readArtifactSource(container);
+
+            // Report syntax errors with their position before sending the SVG off
+            SvgProcessor.parse(source);
+
+            const response = await this.messageService.sendMessage({ action: 'renderSvgPng', svg: source, scale });
+            if (!response.success) {
+                this.bannerService.showError(`Failed to export PNG: ${response.error}`);
+                return;
+            }
+
+            const filename = artifact
+                ? FilenameHelper.getFilename(artifact.toObject(), false)
+                : 'image.svg';
+
+            const link = document.createElement('a');
+            link.href = response.data.pngDataUrl;
+            link.download = FilenameHelper.withSuffix(FilenameHelper.withExtension(filename, 'png'), `${scale}x`);
+            link.click();
+        } catch (error) {
+            this.logger.error('ArtifactUIHandler: SVG export error', error);
+            this.bannerService.showError(`Failed to export PNG: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Decide how an artifact is previewed, or null if it can't be
+     */
+    private getPreviewKind(container: HTMLElement): PreviewKind | null {
+        const artifact = ArtifactExtractor.extractArtifact(container);
+        if (!artifact) return null;
+
+        if (artifact.type === ArtifactType.HTML) return 'html';
+        if (artifact.type === ArtifactType.REACT) return 'react';
+        if (artifact.type === ArtifactType.MERMAID) return 'mermaid';
+        if (artifact.type === ArtifactType.MARKDOWN) return 'markdown';
+
+        switch (artifact.language?.toLowerCase()) {
+            case 'html':
+                return 'html';
+            case 'jsx':
+            case 'tsx':
+            case 'react':
+                return 'react';
+            case 'mermaid':
+                return 'mermaid';
+            case 'markdown':
+            case 'md':
+                return 'markdown';
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Read an artifact's current source, from the editor while it is open
+     */
+    private readArtifactSource(container: HTMLElement): string {
+        if (container.classList.contains('editing-mode')) {
+            return this.editorManager.getEditorContent(container) ?? '';
+        }
+        return ArtifactExtractor.extractArtifact(container)?.content ?? '';
+    }
+
     /**
      * Extract artifact metadata
      */
@@ -490,7 +1124,7 @@ export class ArtifactUIHandler {
      */
     private displayCompilationResult(container: HTMLElement, result: any): void {
         // Check if output container already exists
-        let outputContainer = container.querySelector('.compilation-output');
+        let outputContainer = container.querySelector<HTMLElement>('.compilation-output');
 
         if (!outputContainer) {
             // Create new output container
@@ -531,6 +1165,12 @@ export class ArtifactUIHandler {
             outputContainer?.remove();
         });
 
+        // Code run in the sandbox reports each stream separately
+        if (result.execution) {
+            this.displayExecutionResult(outputContainer as HTMLElement, result.execution);
+            return;
+        }
+
         // Add content based on result type
         if (result.error) {
             const errorDiv = document.createElement('div');
@@ -552,7 +1192,7 @@ export class ArtifactUIHandler {
                     outputPre.style.whiteSpace = 'pre-wrap';
                     outputPre.textContent = JSON.stringify(result.output, null, 2);
                     outputContainer.appendChild(outputPre);
-                } catch (e) {
+                } catch {
                     const outputDiv = document.createElement('div');
                     outputDiv.textContent = 'Complex output (cannot display)';
                     outputContainer.appendChild(outputDiv);
@@ -561,6 +1201,43 @@ export class ArtifactUIHandler {
         }
     }
 
+    /**
+     * Show stdout, stderr, the return value and how the run ended
+     */
+    private displayExecutionResult(outputContainer: HTMLElement, execution: ExecutionResult): void {
+        const addBlock = (text: string, color: string): void => {
+            const pre = document.createElement('pre');
+            Object.assign(pre.style, {
+                margin: '0 0 8px 0',
+                whiteSpace: 'pre-wrap',
+                color
+            });
+            pre.textContent = text;
+            outputContainer.appendChild(pre);
+        };
+
+        if (execution.stdout.length > 0) addBlock(execution.stdout.join('\n'), '#1e293b');
+        if (execution.stderr.length > 0) addBlock(execution.stderr.join('\n'), '#ef4444');
+        if (execution.returnValue !== null) addBlock(`← ${execution.returnValue}`, '#2563eb');
+
+        const exitMessages: Record<ExecutionExitReason, string> = {
+            completed: 'Completed',
+            error: 'Failed with an error',
+            timeout: 'Stopped: time limit reached',
+            memory: 'Stopped: memory limit reached',
+            output_limit: 'Stopped: too much output',
+            crashed: 'Stopped: the sandbox stopped responding'
+        };
+
+        const footer = document.createElement('div');
+        Object.assign(footer.style, {
+            color: execution.exitReason === 'completed' ? '#64748b' : '#b45309',
+            fontSize: '12px'
+        });
+        footer.textContent = `${exitMessages[execution.exitReason]} in ${execution.durationMs} ms`;
+        outputContainer.appendChild(footer);
+    }
+
     /**
      * Destroy the artifact UI handler
      */
@@ -570,6 +1247,8 @@ export class ArtifactUIHandler {
             this.observer = null;
         }
 
+        this.previewManager.closeAll();
+
         this.logger.debug('ArtifactUIHandler: Destroyed');
     }
 }
@@ -1,5 +1,10 @@
 import {LoggerService} from '../../shared/services/loggerService';
 import {MessageService} from '../events/messageService';
+import {ApiError} from '../../shared/models/apiError';
+import {ExecutionResult} from '../../shared/models/execution';
+import {StorageService} from '../../shared/services/storageService';
+import {SandboxRunner} from './sandboxRunner';
+import type TypeScript from 'typescript';
 
 /**
  * Represents a compiler result
@@ -8,6 +13,9 @@ interface CompilerResult {
     output: string | any;
     error?: string;
     executionTime?: number;
+
+    // Set for code run in the sandbox
+    execution?: ExecutionResult;
 }
 
 /**
@@ -17,6 +25,14 @@ export class CompilerService {
     private static instance: CompilerService;
     private readonly logger = LoggerService.getInstance();
     private readonly messageService = MessageService.getInstance();
+    private readonly storageService = StorageService.getInstance();
+    private readonly sandboxRunner = SandboxRunner.getInstance();
+
+    // Limits for sandboxed runs; the timeout comes from the compiler settings
+    private readonly MEMORY_LIMIT_MB = 256;
+    private readonly MAX_OUTPUT_CHARS = 100000;
+
+    private typescriptLoad: Promise<typeof TypeScript> | null = null;
 
     private constructor() {
         // Register message handler for compiler requests
@@ -62,14 +78,15 @@ export class CompilerService {
             switch (language.toLowerCase()) {
                 case 'javascript':
                 case 'js':
-                    return this.runJavaScript(code);
+                    return await this.runJavaScript(code);
 
                 case 'typescript':
                 case 'ts':
                     return await this.runTypeScript(code);
 
                 case 'html':
-                    return this.runHtml(code);
+                    // Pages are rendered in the artifact's preview pane instead
+                    return { output: '', error: 'Open the preview to see HTML rendered' };
 
                 default:
                     // For other languages, send to background script for remote compilation
@@ -85,52 +102,25 @@ export class CompilerService {
     }
 
     /**
-     * Run JavaScript code in a sandboxed environment
+     * Run JavaScript code in the extension's sandbox page
+     * The code runs in a worker that is killed when it goes over the time, memory or output limits.
      */
-    private runJavaScript(code: string): CompilerResult {
-        try {
-            const startTime = performance.now();
+    private async runJavaScript(code: string): Promise<CompilerResult> {
+        const settings = await this.storageService.getSettings();
+        const execution = await this.sandboxRunner.run(code, {
+            timeoutMs: settings.compilerSettings.executionTimeoutMs,
+            memoryLimitMb: this.MEMORY_LIMIT_MB,
+            maxOutputChars: this.MAX_OUTPUT_CHARS
+        });
 
-            // Create a sandboxed environment
-            const sandbox = this.createSandbox();
+        this.logger.debug(`CompilerService: Run ended (${execution.exitReason}) after ${execution.durationMs}ms`);
 
-            // Add timeout protection
-            const timeoutCode = `
-        let __timeout_id;
-        const __executeWithTimeout = () => {
-          return new Promise((resolve, reject) => {
-            __timeout_id = setTimeout(() => {
-              reject(new Error('Execution timed out (5000ms)'));
-            }, 5000);
-            
-            try {
-              const result = (function() { ${code} })();
-              clearTimeout(__timeout_id);
-              resolve(result);
-            } catch (error) {
-              clearTimeout(__timeout_id);
-              reject(error);
-            }
-          });
+        return {
+            output: execution.stdout.join('\n'),
+            error: execution.exitReason === 'completed' ? undefined : execution.stderr.join('\n'),
+            executionTime: execution.durationMs,
+            execution
         };
-        
-        __executeWithTimeout();
-      `;
-
-            // Execute in the sandbox and capture console output
-            const result = sandbox.eval(timeoutCode);
-            const executionTime = performance.now() - startTime;
-
-            return {
-                output: sandbox.getConsoleOutput(),
-                executionTime
-            };
-        } catch (error) {
-            return {
-                output: '',
-                error: error instanceof Error ? error.message : 'Unknown error during execution'
-            };
-        }
     }
 
     /**
@@ -138,12 +128,7 @@ export class CompilerService {
      */
     private async runTypeScript(code: string): Promise<CompilerResult> {
         try {
-            // Load TypeScript compiler from CDN if needed
-            if (!(window as any).ts) {
-                await this.loadTypescriptCompiler();
-            }
-
-            const ts = (window as any).ts;
+            const ts = await this.loadTypescriptCompiler();
 
             // Transpile TypeScript to JavaScript
             const transpileOutput = ts.transpileModule(code, {
@@ -158,7 +143,7 @@ export class CompilerService {
             const jsCode = transpileOutput.outputText;
 
             // Execute the JavaScript code
-            return this.runJavaScript(jsCode);
+            return await this.runJavaScript(jsCode);
         } catch (error) {
             return {
                 output: '',
@@ -168,76 +153,24 @@ export class CompilerService {
     }
 
     /**
-     * Load TypeScript compiler from CDN
+     * Load the TypeScript compiler bundled with the extension
+     * The compiler is a large chunk of its own, so it is only downloaded the first time TypeScript is run.
      */
-    private async loadTypescriptCompiler(): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const script = document.createElement('script');
-            script.src = 'https://cdn.jsdelivr.net/npm/typescript@5.0.4/lib/typescript.min.js';
-            script.onload = () => resolve();
-            script.onerror = () => reject(new Error('Failed to load TypeScript compiler'));
-            document.head.appendChild(script);
-        });
-    }
-
-    /**
-     * Run HTML code by creating a sandboxed iframe
-     */
-    private runHtml(code: string): CompilerResult {
-        try {
-            // Create a hidden iframe for rendering HTML
-            const iframe = document.createElement('iframe');
-            iframe.style.display = 'none';
-            document.body.appendChild(iframe);
-
-            // Set content to the iframe
-            const doc = iframe.contentDocument || iframe.contentWindow?.document;
-            if (!doc) {
-                throw new Error('Failed to access iframe document');
-            }
-
-            doc.open();
-            doc.write(code);
-            doc.close();
-
-            // Capture console logs from the iframe
-            const consoleOutput: string[] = [];
-            const originalConsole = iframe.contentWindow?.console;
-            if (iframe.contentWindow) {
-                iframe.contentWindow.console = {
-                    ...originalConsole,
-                    log: (...args: any[]) => {
-                        originalConsole?.log(...args);
-                        consoleOutput.push(args.map(arg => String(arg)).join(' '));
-                    },
-                    error: (...args: any[]) => {
-                        originalConsole?.error(...args);
-                        consoleOutput.push(`ERROR: ${args.map(arg => String(arg)).join(' ')}`);
-                    },
-                    warn: (...args: any[]) => {
-                        originalConsole?.warn(...args);
-                        consoleOutput.push(`WARNING: ${args.map(arg => String(arg)).join(' ')}`);
-                    }
-                } as Console;
-            }
-
-            // Return the rendered HTML and console output
-            setTimeout(() => {
-                document.body.removeChild(iframe);
-            }, 1000);
-
-            return {
-                output: {
-                    html: doc.documentElement.outerHTML,
-                    consoleOutput: consoleOutput.join('\n')
-                }
-            };
-        } catch (error) {
-            return {
-                output: '',
-                error: error instanceof Error ? error.message : 'HTML rendering error'
-            };
+    private loadTypescriptCompiler(): Promise<typeof TypeScript> {
+        if (!this.typescriptLoad) {
+            this.logger.debug('CompilerService: Loading bundled TypeScript compiler');
+
+            this.typescriptLoad = import('typescript')
+                .then(module => module.default)
+                .catch(error => {
+                    // Let the next run try again
+                    this.typescriptLoad = null;
+                    this.logger.error('CompilerService: Failed to load TypeScript compiler', error);
+                    throw new Error('Failed to load TypeScript compiler');
+                });
         }
+
+        return this.typescriptLoad;
     }
 
     /**
@@ -257,7 +190,9 @@ export class CompilerService {
             } else {
                 return {
                     output: '',
-                    error: response.error || `Remote compilation not available for ${language}`
+                    error: response.apiError
+                        ? ApiError.describe(response.apiError)
+                        : response.error || `Remote compilation not available for ${language}`
                 };
             }
         } catch (error) {
@@ -269,71 +204,4 @@ export class CompilerService {
             };
         }
     }
-
-    /**
-     * Create a sandboxed environment for executing JavaScript
-     */
-    private createSandbox() {
-        const consoleOutput: string[] = [];
-
-        // Create sandbox object with limited access to globals
-        const sandbox = {
-            console: {
-                log: (...args: any[]) => {
-                    consoleOutput.push(args.map(arg => this.stringifyValue(arg)).join(' '));
-                },
-                error: (...args: any[]) => {
-                    consoleOutput.push(`ERROR: ${args.map(arg => this.stringifyValue(arg)).join(' ')}`);
-                },
-                warn: (...args: any[]) => {
-                    consoleOutput.push(`WARNING: ${args.map(arg => this.stringifyValue(arg)).join(' ')}`);
-                },
-                info: (...args: any[]) => {
-                    consoleOutput.push(`INFO: ${args.map(arg => this.stringifyValue(arg)).join(' ')}`);
-                }
-            },
-            setTimeout: setTimeout.bind(window),
-            clearTimeout: clearTimeout.bind(window),
-            setInterval: setInterval.bind(window),
-            clearInterval: clearInterval.bind(window),
-            Math: Math,
-            Date: Date,
-            JSON: JSON,
-            Object: Object,
-            Array: Array,
-            String: String,
-            Number: Number,
-            Boolean: Boolean,
-            RegExp: RegExp,
-            Error: Error,
-            Map: Map,
-            Set: Set,
-            Promise: Promise,
-            eval: function(code: string) {
-                const fn = new Function('sandbox', `with(sandbox) { return ${code} }`);
-                return fn(sandbox);
-            },
-            getConsoleOutput: () => consoleOutput.join('\n')
-        };
-
-        return sandbox;
-    }
-
-    /**
-     * Helper to stringify complex values for console output
-     */
-    private stringifyValue(value: any): string {
-        if (value === null) return 'null';
-        if (value === undefined) return 'undefined';
-
-        if (typeof value === 'object') {
-            try {
-                return JSON.stringify(value);
-            } catch (e) {
-                return '[Object]';
-            }
-        }
-
-        return String(value);
-    }
 }
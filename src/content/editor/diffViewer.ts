@@ -0,0 +1,286 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {StorageService} from '../../shared/services/storageService';
+import {Artifact} from '../../shared/models/artifact';
+import {FilenameHelper} from '../../shared/utils/filenameHelper';
+import {BannerService} from '../ui/bannerService';
+import {MonacoService} from './monacoService';
+
+/**
+ * One side of a diff
+ */
+export interface DiffSide {
+    label: string;
+    content: string;
+}
+
+/**
+ * Everything needed to show a diff between two texts
+ */
+export interface DiffRequest {
+    title: string;
+    language: string;
+    original: DiffSide;
+    modified: DiffSide;
+    artifact?: Artifact;
+}
+
+/**
+ * Modal viewer comparing two versions of an artifact with Monaco's diff editor
+ */
+export class DiffViewer {
+    private static instance: DiffViewer;
+    private readonly logger = LoggerService.getInstance();
+    private readonly bannerService = BannerService.getInstance();
+    private readonly storageService = StorageService.getInstance();
+    private readonly monacoService = MonacoService.getInstance();
+
+    private overlay: HTMLElement | null = null;
+    private diffEditor: monaco.editor.IStandaloneDiffEditor | null = null;
+    private sideBySide = true;
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the diff viewer
+     */
+    public static getInstance(): DiffViewer {
+        if (!DiffViewer.instance) {
+            DiffViewer.instance = new DiffViewer();
+        }
+        return DiffViewer.instance;
+    }
+
+    /**
+     * Show a diff between two texts
+     */
+    public async show(request: DiffRequest): Promise<void> {
+        try {
+            this.hide();
+
+            const settings = await this.storageService.getSettings();
+            await this.monacoService.ensureMonacoLoaded();
+
+            const { overlay, editorHost } = this.createOverlay(request);
+            document.body.appendChild(overlay);
+            this.overlay = overlay;
+
+            this.diffEditor = this.monacoService.createDiffEditor(
+                editorHost,
+                request.original.content,
+                request.modified.content,
+                request.language,
+                {
+                    theme: settings.editorSettings.theme,
+                    fontSize: settings.editorSettings.fontSize,
+                    wordWrap: settings.editorSettings.wordWrap,
+                    renderSideBySide: this.sideBySide
+                }
+            );
+
+            this.logger.debug(`DiffViewer: Showing diff for ${request.title}`);
+        } catch (error) {
+            this.logger.error('DiffViewer: Error showing diff', error);
+            this.bannerService.showError('Failed to open diff viewer');
+            this.hide();
+        }
+    }
+
+    /**
+     * Close the diff viewer
+     */
+    public hide(): void {
+        if (this.diffEditor) {
+            this.monacoService.disposeDiffEditor(this.diffEditor);
+            this.diffEditor = null;
+        }
+
+        this.overlay?.remove();
+        this.overlay = null;
+    }
+
+    /**
+     * Build the modal overlay
+     */
+    private createOverlay(request: DiffRequest): { overlay: HTMLElement; editorHost: HTMLElement } {
+        const overlay = document.createElement('div');
+        overlay.className = 'claude-artifacts-diff-overlay';
+        Object.assign(overlay.style, {
+            position: 'fixed',
+            top: '0',
+            left: '0',
+            width: '100%',
+            height: '100%',
+            backgroundColor: 'rgba(0, 0, 0, 0.5)',
+            zIndex: '10001',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center'
+        });
+
+        overlay.addEventListener('click', (event) => {
+            if (event.target === overlay) {
+                this.hide();
+            }
+        });
+
+        const panel = document.createElement('div');
+        panel.className = 'claude-artifacts-diff';
+        panel.setAttribute('role', 'dialog');
+        panel.setAttribute('aria-label', request.title);
+        Object.assign(panel.style, {
+            width: '90vw',
+            height: '85vh',
+            backgroundColor: '#ffffff',
+            borderRadius: '8px',
+            boxShadow: '0 4px 20px rgba(0, 0, 0, 0.15)',
+            display: 'flex',
+            flexDirection: 'column',
+            overflow: 'hidden'
+        });
+
+        // Header with title, mode toggle and close button
+        const header = document.createElement('div');
+        Object.assign(header.style, {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            padding: '12px 16px',
+            borderBottom: '1px solid #e2e8f0'
+        });
+
+        const title = document.createElement('h2');
+        title.textContent = request.title;
+        Object.assign(title.style, {
+            margin: '0',
+            marginRight: 'auto',
+            fontSize: '16px',
+            fontWeight: '600',
+            color: '#1e293b'
+        });
+        header.appendChild(title);
+
+        const modeButton = this.createButton(this.sideBySide ? 'Inline' : 'Side by side');
+        modeButton.addEventListener('click', () => {
+            this.sideBySide = !this.sideBySide;
+            this.diffEditor?.updateOptions({ renderSideBySide: this.sideBySide });
+            modeButton.textContent = this.sideBySide ? 'Inline' : 'Side by side';
+        });
+        header.appendChild(modeButton);
+
+        const closeButton = this.createButton('Close');
+        closeButton.addEventListener('click', () => this.hide());
+        header.appendChild(closeButton);
+
+        // Footer with copy/download actions for each side
+        const footer = document.createElement('div');
+        Object.assign(footer.style, {
+            display: 'flex',
+            justifyContent: 'space-between',
+            padding: '12px 16px',
+            borderTop: '1px solid #e2e8f0'
+        });
+
+        footer.appendChild(this.createSideActions(request.original, request));
+        footer.appendChild(this.createSideActions(request.modified, request));
+
+        const editorHost = document.createElement('div');
+        editorHost.className = 'claude-artifacts-diff-editor';
+        Object.assign(editorHost.style, {
+            flex: '1',
+            minHeight: '0'
+        });
+
+        panel.appendChild(header);
+        panel.appendChild(editorHost);
+        panel.appendChild(footer);
+        overlay.appendChild(panel);
+
+        return { overlay, editorHost };
+    }
+
+    /**
+     * Create copy and download buttons for one side of the diff
+     */
+    private createSideActions(side: DiffSide, request: DiffRequest): HTMLElement {
+        const container = document.createElement('div');
+        Object.assign(container.style, {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px'
+        });
+
+        const label = document.createElement('span');
+        label.textContent = side.label;
+        Object.assign(label.style, {
+            fontSize: '13px',
+            fontWeight: '600',
+            color: '#475569'
+        });
+
+        const copyButton = this.createButton('Copy');
+        copyButton.addEventListener('click', async () => {
+            try {
+                await navigator.clipboard.writeText(side.content);
+                this.bannerService.showSuccess(`Copied ${side.label} to clipboard`);
+            } catch (error) {
+                this.logger.error('DiffViewer: Copy error', error);
+                this.bannerService.showError('Failed to copy');
+            }
+        });
+
+        const downloadButton = this.createButton('Download');
+        downloadButton.addEventListener('click', () => {
+            this.downloadSide(side, request);
+        });
+
+        container.appendChild(label);
+        container.appendChild(copyButton);
+        container.appendChild(downloadButton);
+        return container;
+    }
+
+    /**
+     * Download one side of the diff as a file
+     */
+    private downloadSide(side: DiffSide, request: DiffRequest): void {
+        try {
+            const baseName = request.artifact
+                ? FilenameHelper.getFilename(request.artifact, false)
+                : `${request.title}.txt`;
+            const filename = FilenameHelper.withSuffix(baseName, side.label.toLowerCase().replace(/[^a-z0-9]+/g, '-'));
+
+            const url = URL.createObjectURL(new Blob([side.content], { type: 'text/plain' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = filename;
+            link.click();
+
+            setTimeout(() => URL.revokeObjectURL(url), 60000);
+        } catch (error) {
+            this.logger.error('DiffViewer: Download error', error);
+            this.bannerService.showError('Failed to download');
+        }
+    }
+
+    /**
+     * Create a small toolbar button
+     */
+    private createButton(text: string): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.textContent = text;
+        Object.assign(button.style, {
+            padding: '4px 10px',
+            borderRadius: '4px',
+            border: '1px solid #e2e8f0',
+            backgroundColor: '#f8fafc',
+            color: '#334155',
+            cursor: 'pointer',
+            fontSize: '12px',
+            fontWeight: '500'
+        });
+        return button;
+    }
+}
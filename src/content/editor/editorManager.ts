@@ -3,6 +3,22 @@ import { LoggerService } from '../../shared/services/loggerService';
 import { BannerService } from '../ui/bannerService';
 import { StorageService } from '../../shared/services/storageService';
 import { ArtifactSettings } from '../../shared/models/settings';
+import { DomAdapterRegistry } from '../../shared/adapters/domAdapterRegistry';
+import { ArtifactExtractor } from '../../shared/utils/artifactExtractor';
+import { MarkdownRenderer } from '../../shared/utils/markdownRenderer';
+import { SvgProcessor } from '../../shared/utils/svgProcessor';
+import { SvgSyntaxError } from '../../shared/models/svg';
+import DOMPurify from 'dompurify';
+
+/**
+ * What happened to an artifact's editor
+ */
+export type EditorEvent = 'opened' | 'changed' | 'closed';
+
+/**
+ * Listener for editors opening, their content changing and editors closing
+ */
+export type EditorListener = (container: HTMLElement, event: EditorEvent) => void;
 
 /**
  * Manages Monaco editors for artifacts
@@ -13,9 +29,11 @@ export class EditorManager {
     private readonly bannerService = BannerService.getInstance();
     private readonly storageService = StorageService.getInstance();
     private readonly monacoService = MonacoService.getInstance();
+    private readonly adapterRegistry = DomAdapterRegistry.getInstance();
 
     // Map of artifact container elements to their editor instances
     private editorMap = new Map<HTMLElement, monaco.editor.IStandaloneCodeEditor>();
+    private readonly listeners = new Set<EditorListener>();
     private settings: ArtifactSettings | null = null;
 
     private constructor() {
@@ -85,8 +103,13 @@ export class EditorManager {
             });
 
             // Find where to insert the editor
+            const markdownElement = this.adapterRegistry.getAdapter().findMarkdownContent(container);
             const codeElement = container.querySelector('pre');
-            if (codeElement) {
+            if (markdownElement) {
+                // Markdown is edited as source in place of its rendering
+                markdownElement.style.display = 'none';
+                markdownElement.parentNode?.insertBefore(editorContainer, markdownElement.nextSibling);
+            } else if (codeElement) {
                 // Hide the original code element
                 codeElement.style.display = 'none';
 
@@ -128,6 +151,10 @@ export class EditorManager {
             // Store editor reference
             this.editorMap.set(container, editor);
 
+            // Disposing the editor also removes this subscription
+            editor.onDidChangeModelContent(() => this.notifyListeners(container, 'changed'));
+            this.notifyListeners(container, 'opened');
+
             // Add resize handle
             this.addResizeHandle(editorContainer, editor);
 
@@ -150,6 +177,11 @@ export class EditorManager {
      * Extract content from an artifact container
      */
     private extractArtifactContent(container: HTMLElement): string {
+        // Markdown is edited as its source, recovered from the rendered HTML
+        if (this.adapterRegistry.getAdapter().findMarkdownContent(container)) {
+            return ArtifactExtractor.extractArtifact(container)?.content ?? '';
+        }
+
         // Try to find a code element first
         const codeElement = container.querySelector('pre code');
         if (codeElement) {
@@ -163,7 +195,7 @@ export class EditorManager {
         }
 
         // For SVGs, get the innerHTML of the SVG element
-        const svgElement = container.querySelector('svg');
+        const svgElement = ArtifactExtractor.findSvgElement(container);
         if (svgElement) {
             return svgElement.outerHTML || '';
         }
@@ -191,6 +223,10 @@ export class EditorManager {
      * Detect the language from container classes or content
      */
     private detectLanguage(container: HTMLElement, content: string): string {
+        if (this.adapterRegistry.getAdapter().findMarkdownContent(container)) {
+            return 'markdown';
+        }
+
         // Check for code element with language class
         const codeElement = container.querySelector('pre code');
         if (codeElement) {
@@ -212,7 +248,7 @@ export class EditorManager {
         }
 
         // Check for SVG
-        if (container.querySelector('svg') || content.trim().startsWith('<svg')) {
+        if (ArtifactExtractor.findSvgElement(container) || content.trim().startsWith('<svg')) {
             return 'xml';
         }
 
@@ -264,7 +300,7 @@ export class EditorManager {
         let startY = 0;
         let startHeight = 0;
 
-        const onMouseDown = (e: MouseEvent) => {
+        const onMouseDown = (e: MouseEvent): void => {
             startY = e.clientY;
             startHeight = editorContainer.offsetHeight;
 
@@ -274,7 +310,7 @@ export class EditorManager {
             e.preventDefault();
         };
 
-        const onMouseMove = (e: MouseEvent) => {
+        const onMouseMove = (e: MouseEvent): void => {
             const newHeight = startHeight + (e.clientY - startY);
             if (newHeight >= 100) {
                 editorContainer.style.height = `${newHeight}px`;
@@ -282,7 +318,7 @@ export class EditorManager {
             }
         };
 
-        const onMouseUp = () => {
+        const onMouseUp = (): void => {
             document.removeEventListener('mousemove', onMouseMove);
             document.removeEventListener('mouseup', onMouseUp);
         };
@@ -301,40 +337,8 @@ export class EditorManager {
         }
 
         try {
-            // Get updated content from editor
-            const updatedContent = editor.getValue();
-
-            // Find the original content element
-            const preElement = container.querySelector('pre');
-            const codeElement = container.querySelector('pre code');
-
-            if (codeElement) {
-                // Update code element content
-                codeElement.textContent = updatedContent;
-                // Show the original code element again
-                if (preElement) {
-                    preElement.style.display = '';
-                }
-            } else if (container.querySelector('svg')) {
-                // Update SVG content - this is more complex
-                try {
-                    const svgContainer = container.querySelector('svg')?.parentElement;
-                    if (svgContainer) {
-                        svgContainer.innerHTML = updatedContent;
-                    }
-                } catch (e) {
-                    this.logger.error('EditorManager: Failed to update SVG content', e);
-                    this.bannerService.showError('Failed to update SVG: Invalid SVG syntax');
-                    return false;
-                }
-            } else if (preElement) {
-                // Update pre element content
-                preElement.textContent = updatedContent;
-                preElement.style.display = '';
-            } else {
-                // No suitable element found to update
-                this.logger.warn('EditorManager: No suitable element found to update');
-                this.bannerService.showWarning('Could not find element to update');
+            // Get updated content from editor and write it back to the DOM
+            if (!this.applyContent(container, editor.getValue())) {
                 return false;
             }
 
@@ -351,6 +355,63 @@ export class EditorManager {
         }
     }
 
+    /**
+     * Write content into an artifact's DOM
+     * Used both when saving editor changes and when re-applying stored edits.
+     */
+    public applyContent(container: HTMLElement, content: string): boolean {
+        // Markdown is rendered again, sanitized since raw HTML in it would run in claude.ai
+        const markdownElement = this.adapterRegistry.getAdapter().findMarkdownContent(container);
+        if (markdownElement) {
+            markdownElement.innerHTML = DOMPurify.sanitize(MarkdownRenderer.toHtml(content));
+            markdownElement.style.display = '';
+            return true;
+        }
+
+        // Find the original content element
+        const preElement = container.querySelector('pre');
+        const codeElement = container.querySelector('pre code');
+        const svgElement = ArtifactExtractor.findSvgElement(container);
+
+        if (codeElement) {
+            // Update code element content
+            codeElement.textContent = content;
+            // Show the original code element again
+            if (preElement) {
+                preElement.style.display = '';
+            }
+        } else if (svgElement) {
+            // Parse before touching the page, so invalid SVG leaves the artifact as it was
+            let parsed: SVGSVGElement;
+            try {
+                parsed = SvgProcessor.parse(content);
+            } catch (e) {
+                this.logger.warn('EditorManager: Invalid SVG', e);
+                this.bannerService.showError(`Invalid SVG: ${e instanceof SvgSyntaxError ? e.message : 'could not parse it'}`);
+                return false;
+            }
+
+            // Scripts in the SVG would run in claude.ai
+            const removed = SvgProcessor.sanitize(parsed);
+            if (removed) {
+                this.bannerService.showWarning(`Removed ${removed} scripts, event handlers and script links from the SVG`);
+            }
+
+            svgElement.replaceWith(document.importNode(parsed, true));
+        } else if (preElement) {
+            // Update pre element content
+            preElement.textContent = content;
+            preElement.style.display = '';
+        } else {
+            // No suitable element found to update
+            this.logger.warn('EditorManager: No suitable element found to update');
+            this.bannerService.showWarning('Could not find element to update');
+            return false;
+        }
+
+        return true;
+    }
+
     /**
      * Remove an editor from a container
      */
@@ -373,10 +434,44 @@ export class EditorManager {
                 pre.style.display = '';
             });
 
+            const markdownElement = this.adapterRegistry.getAdapter().findMarkdownContent(container);
+            if (markdownElement) {
+                markdownElement.style.display = '';
+            }
+
+            this.notifyListeners(container, 'closed');
+
             this.logger.debug('EditorManager: Removed editor');
         }
     }
 
+    /**
+     * Be told when editors open, change or close
+     */
+    public addListener(listener: EditorListener): void {
+        this.listeners.add(listener);
+    }
+
+    /**
+     * Stop being told about editors
+     */
+    public removeListener(listener: EditorListener): void {
+        this.listeners.delete(listener);
+    }
+
+    /**
+     * Notify all listeners about an editor
+     */
+    private notifyListeners(container: HTMLElement, event: EditorEvent): void {
+        this.listeners.forEach(listener => {
+            try {
+                listener(container, event);
+            } catch (error) {
+                this.logger.error('EditorManager: Error in editor listener', error);
+            }
+        });
+    }
+
     /**
      * Get the content of an editor
      */
@@ -388,11 +483,24 @@ export class EditorManager {
         return null;
     }
 
+    /**
+     * Replace the content of an open editor
+     */
+    public setEditorContent(container: HTMLElement, content: string): boolean {
+        const editor = this.editorMap.get(container);
+        if (!editor) {
+            return false;
+        }
+
+        editor.setValue(content);
+        return true;
+    }
+
     /**
      * Dispose all editors
      */
     public disposeAll(): void {
-        this.editorMap.forEach((editor, container) => {
+        this.editorMap.forEach((_editor, container) => {
             this.removeEditor(container);
         });
         this.editorMap.clear();
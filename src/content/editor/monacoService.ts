@@ -1,4 +1,9 @@
 import { LoggerService } from '../../shared/services/loggerService';
+import editorWorkerUrl from 'monaco-editor/esm/vs/editor/editor.worker?worker&url';
+import jsonWorkerUrl from 'monaco-editor/esm/vs/language/json/json.worker?worker&url';
+import cssWorkerUrl from 'monaco-editor/esm/vs/language/css/css.worker?worker&url';
+import htmlWorkerUrl from 'monaco-editor/esm/vs/language/html/html.worker?worker&url';
+import tsWorkerUrl from 'monaco-editor/esm/vs/language/typescript/ts.worker?worker&url';
 
 /**
  * Service for managing Monaco editor instances
@@ -9,8 +14,18 @@ export class MonacoService {
     private isMonacoLoaded = false;
     private loadPromise: Promise<void> | null = null;
 
-    // CDN URL for Monaco editor
-    private readonly MONACO_CDN_BASE = 'https://cdn.jsdelivr.net/npm/monaco-editor@0.40.0/min';
+    // Worker scripts bundled with the extension, by the label Monaco asks for
+    private readonly WORKER_URLS: Record<string, string> = {
+        json: jsonWorkerUrl,
+        css: cssWorkerUrl,
+        scss: cssWorkerUrl,
+        less: cssWorkerUrl,
+        html: htmlWorkerUrl,
+        handlebars: htmlWorkerUrl,
+        razor: htmlWorkerUrl,
+        typescript: tsWorkerUrl,
+        javascript: tsWorkerUrl
+    };
 
     // List of editors created by this service
     private editors: monaco.editor.IStandaloneCodeEditor[] = [];
@@ -46,34 +61,23 @@ export class MonacoService {
     }
 
     /**
-     * Load Monaco editor from CDN
+     * Load the Monaco editor bundled with the extension
+     * Monaco is split into its own chunk so pages only download it when an editor is opened.
      */
     private async loadMonaco(): Promise<void> {
-        this.logger.debug('MonacoService: Loading Monaco editor from CDN');
+        this.logger.debug('MonacoService: Loading bundled Monaco editor');
 
         try {
-            // Add Monaco loader script
-            await this.loadScript(`${this.MONACO_CDN_BASE}/vs/loader.js`);
-
-            // Configure AMD loader for Monaco
-            (window as any).require.config({
-                paths: {
-                    vs: `${this.MONACO_CDN_BASE}/vs`
-                }
-            });
-
-            // Load Monaco editor
-            return new Promise<void>((resolve, reject) => {
-                try {
-                    (window as any).require(['vs/editor/editor.main'], () => {
-                        this.isMonacoLoaded = true;
-                        this.logger.info('MonacoService: Monaco editor loaded successfully');
-                        resolve();
-                    });
-                } catch (error) {
-                    reject(error);
-                }
-            });
+            // Must be set before Monaco loads; globalAPI defines the global `monaco` the editors use
+            self.MonacoEnvironment = {
+                globalAPI: true,
+                getWorker: (_workerId: string, label: string) => this.createWorker(label)
+            };
+
+            await import('monaco-editor');
+
+            this.isMonacoLoaded = true;
+            this.logger.info('MonacoService: Monaco editor loaded successfully');
         } catch (error) {
             this.logger.error('MonacoService: Failed to load Monaco editor', error);
             this.loadPromise = null;
@@ -82,16 +86,20 @@ export class MonacoService {
     }
 
     /**
-     * Load a script from URL
+     * Start a language worker from the extension's bundled scripts
+     * Extension pages start it directly. Web pages can't start a worker from an extension
+     * URL, so a blob worker imports the script instead; if the page's CSP blocks that too,
+     * Monaco runs the language services on the main thread.
      */
-    private loadScript(url: string): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const script = document.createElement('script');
-            script.src = url;
-            script.onload = () => resolve();
-            script.onerror = (e) => reject(new Error(`Failed to load script: ${url}`));
-            document.head.appendChild(script);
-        });
+    private createWorker(label: string): Worker {
+        const url = chrome.runtime.getURL((this.WORKER_URLS[label] ?? editorWorkerUrl).replace(/^\//, ''));
+        if (new URL(url).origin === location.origin) {
+            return new Worker(url, { name: label });
+        }
+
+        const source = new Blob([`importScripts(${JSON.stringify(url)});`], { type: 'text/javascript' });
+
+        return new Worker(URL.createObjectURL(source), { name: label });
     }
 
     /**
@@ -124,6 +132,47 @@ export class MonacoService {
         return editor;
     }
 
+    /**
+     * Create a Monaco diff editor comparing two texts
+     */
+    public createDiffEditor(
+        container: HTMLElement,
+        original: string,
+        modified: string,
+        language: string,
+        options: monaco.editor.IDiffEditorConstructionOptions = {}
+    ): monaco.editor.IStandaloneDiffEditor {
+        if (!this.isMonacoLoaded) {
+            throw new Error('Monaco editor not loaded. Call ensureMonacoLoaded() first.');
+        }
+
+        const diffEditor = monaco.editor.createDiffEditor(container, {
+            automaticLayout: true,
+            renderSideBySide: true,
+            readOnly: true,
+            scrollBeyondLastLine: false,
+            ...options
+        });
+
+        diffEditor.setModel({
+            original: monaco.editor.createModel(original, language),
+            modified: monaco.editor.createModel(modified, language)
+        });
+
+        return diffEditor;
+    }
+
+    /**
+     * Dispose of a diff editor and its models
+     */
+    public disposeDiffEditor(diffEditor: monaco.editor.IStandaloneDiffEditor): void {
+        const model = diffEditor.getModel();
+        diffEditor.dispose();
+        model?.original.dispose();
+        model?.modified.dispose();
+        this.logger.debug('MonacoService: Diff editor disposed');
+    }
+
     /**
      * Set theme for all editors
      */
@@ -0,0 +1,154 @@
+// @vitest-environment jsdom
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {PreviewRequest, PreviewResponse} from '../../shared/models/preview';
+import type {EditorListener} from './editorManager';
+import {PreviewManager} from './previewManager';
+
+const editorListeners = vi.hoisted(() => [] as EditorListener[]);
+
+// The real editor manager loads Monaco; only its events matter here
+vi.mock('./editorManager', () => ({
+    EditorManager: {
+        getInstance: () => ({ addListener: (listener: EditorListener) => editorListeners.push(listener) })
+    }
+}));
+
+const manager = PreviewManager.getInstance();
+
+/**
+ * Open a preview on a new artifact and return what the test needs to drive it
+ */
+function openPreview(source: { current: string }): {
+    container: HTMLElement;
+    frame: HTMLIFrameElement;
+    renders: PreviewRequest[];
+} {
+    const container = document.createElement('div');
+    container.innerHTML = '<pre><code>source</code></pre>';
+    document.body.appendChild(container);
+
+    manager.open(container, 'html', () => source.current);
+
+    const frame = container.querySelector('iframe')!;
+    const renders: PreviewRequest[] = [];
+    vi.spyOn(frame.contentWindow!, 'postMessage').mockImplementation((request: PreviewRequest) => {
+        renders.push(request);
+    });
+
+    return { container, frame, renders };
+}
+
+/**
+ * Post a message to the manager as if it came from a preview page
+ */
+function reply(frame: HTMLIFrameElement, data: PreviewResponse): void {
+    window.dispatchEvent(new MessageEvent('message', { source: frame.contentWindow, data }));
+}
+
+/**
+ * Tell the manager about an event on an artifact's editor
+ */
+function editorEvent(container: HTMLElement, event: 'opened' | 'changed' | 'closed'): void {
+    editorListeners.forEach(listener => listener(container, event));
+}
+
+describe('PreviewManager', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.stubGlobal('chrome', { runtime: { getURL: (path: string) => `chrome-extension://id/${path}` } });
+        vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        manager.closeAll();
+        document.body.replaceChildren();
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('loads the preview page under the code and renders once it is ready', () => {
+        const { container, frame, renders } = openPreview({ current: '<h1>Hi</h1>' });
+
+        expect(frame.src).toBe('chrome-extension://id/src/preview/index.html');
+        expect(container.querySelector('pre')!.nextElementSibling!.className).toBe('artifact-preview-pane');
+        expect(renders).toEqual([]);
+
+        reply(frame, { type: 'ready' });
+
+        expect(renders).toEqual([{ type: 'render', renderId: 1, kind: 'html', source: '<h1>Hi</h1>' }]);
+    });
+
+    it('re-renders the latest source once edits pause', () => {
+        const source = { current: 'v1' };
+        const { container, frame, renders } = openPreview(source);
+        reply(frame, { type: 'ready' });
+
+        source.current = 'v2';
+        editorEvent(container, 'changed');
+        vi.advanceTimersByTime(200);
+        source.current = 'v3';
+        editorEvent(container, 'changed');
+        vi.advanceTimersByTime(299);
+
+        expect(renders).toHaveLength(1);
+
+        vi.advanceTimersByTime(1);
+
+        expect(renders.map(render => [render.renderId, render.source])).toEqual([[1, 'v1'], [2, 'v3']]);
+    });
+
+    it('renders at once on refresh, dropping a render that was waiting', () => {
+        const source = { current: 'v1' };
+        const { container, frame, renders } = openPreview(source);
+        reply(frame, { type: 'ready' });
+
+        source.current = 'v2';
+        editorEvent(container, 'changed');
+        manager.refresh(container);
+        vi.advanceTimersByTime(1000);
+
+        expect(renders.map(render => render.source)).toEqual(['v1', 'v2']);
+    });
+
+    it('shows errors from the current render once each, and clears them on the next render', () => {
+        const { container, frame } = openPreview({ current: '<script>fail()</script>' });
+        const errorList = container.querySelector<HTMLElement>('.artifact-preview-errors')!;
+        reply(frame, { type: 'ready' });
+
+        reply(frame, { type: 'error', renderId: 1, message: 'ReferenceError: fail is not defined' });
+        reply(frame, { type: 'error', renderId: 1, message: 'ReferenceError: fail is not defined' });
+        reply(frame, { type: 'error', renderId: 0, message: 'From an older render' });
+
+        expect(errorList.style.display).toBe('block');
+        expect(Array.from(errorList.children).map(item => item.textContent)).toEqual(['ReferenceError: fail is not defined']);
+
+        manager.refresh(container);
+
+        expect(errorList.style.display).toBe('none');
+        expect(errorList.children).toHaveLength(0);
+    });
+
+    it('ignores messages from other windows', () => {
+        const { frame, renders } = openPreview({ current: 'source' });
+
+        window.dispatchEvent(new MessageEvent('message', { source: window, data: { type: 'ready' } }));
+
+        expect(renders).toEqual([]);
+        reply(frame, { type: 'ready' });
+        expect(renders).toHaveLength(1);
+    });
+
+    it('stops rendering when closed', () => {
+        const { container, frame, renders } = openPreview({ current: 'source' });
+        reply(frame, { type: 'ready' });
+
+        editorEvent(container, 'changed');
+        manager.close(container);
+        vi.advanceTimersByTime(1000);
+
+        expect(manager.isOpen(container)).toBe(false);
+        expect(container.querySelector('.artifact-preview-pane')).toBeNull();
+        expect(renders).toHaveLength(1);
+    });
+});
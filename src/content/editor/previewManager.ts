@@ -0,0 +1,486 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {PreviewKind, PreviewRequest, PreviewResponse} from '../../shared/models/preview';
+import {EditorEvent, EditorManager} from './editorManager';
+
+/**
+ * A preview pane open on an artifact
+ */
+interface PreviewSession {
+    kind: PreviewKind;
+    pane: HTMLElement;
+    frame: HTMLIFrameElement;
+    errorList: HTMLElement;
+    resizeHandle: HTMLElement;
+
+    // Reads the artifact's current source, from the editor while it is open
+    readSource: () => string;
+
+    // Wraps the editor and the pane while they are shown side by side
+    split: HTMLElement | null;
+
+    ready: boolean;
+    renderId: number;
+    renderTimer: number | null;
+    errors: Set<string>;
+}
+
+/**
+ * Manages live preview panes for HTML, React, Mermaid and markdown artifacts
+ * Each pane embeds the extension's preview page, which is sandboxed like the code runner's.
+ * While the artifact is being edited the pane sits next to the editor and re-renders
+ * shortly after every change.
+ */
+export class PreviewManager {
+    private static instance: PreviewManager;
+    private readonly logger = LoggerService.getInstance();
+    private readonly editorManager = EditorManager.getInstance();
+    private readonly PREVIEW_PAGE = 'src/preview/index.html';
+
+    // Quiet time after the last edit before the preview re-renders
+    private readonly RENDER_DELAY_MS = 300;
+
+    private readonly DEFAULT_HEIGHT_PX = 400;
+    private readonly MIN_HEIGHT_PX = 150;
+    private readonly MIN_WIDTH_PX = 150;
+
+    private readonly sessions = new Map<HTMLElement, PreviewSession>();
+
+    private constructor() {
+        window.addEventListener('message', this.handleMessage.bind(this));
+        this.editorManager.addListener(this.handleEditorEvent.bind(this));
+    }
+
+    /**
+     * Get the singleton instance of the preview manager
+     */
+    public static getInstance(): PreviewManager {
+        if (!PreviewManager.instance) {
+            PreviewManager.instance = new PreviewManager();
+        }
+        return PreviewManager.instance;
+    }
+
+    /**
+     * Whether an artifact has a preview pane open
+     */
+    public isOpen(container: HTMLElement): boolean {
+        return this.sessions.has(container);
+    }
+
+    /**
+     * Open a preview pane on an artifact
+     */
+    public open(container: HTMLElement, kind: PreviewKind, readSource: () => string): void {
+        if (this.sessions.has(container)) {
+            this.refresh(container);
+            return;
+        }
+
+        const { pane, frame, errorList, resizeHandle } = this.createPane(container, kind);
+        const session: PreviewSession = {
+            kind,
+            pane,
+            frame,
+            errorList,
+            resizeHandle,
+            readSource,
+            split: null,
+            ready: false,
+            renderId: 0,
+            renderTimer: null,
+            errors: new Set()
+        };
+        this.sessions.set(container, session);
+
+        this.placePane(container, session);
+        this.dock(container, session);
+
+        // The first render is sent once the preview page says it is ready
+        frame.src = chrome.runtime.getURL(this.PREVIEW_PAGE);
+
+        this.logger.debug(`PreviewManager: Opened ${kind} preview`);
+    }
+
+    /**
+     * Re-render a preview from the artifact's current source
+     */
+    public refresh(container: HTMLElement): void {
+        const session = this.sessions.get(container);
+        if (!session) return;
+
+        if (session.renderTimer !== null) {
+            clearTimeout(session.renderTimer);
+            session.renderTimer = null;
+        }
+        this.render(session);
+    }
+
+    /**
+     * Close an artifact's preview pane
+     */
+    public close(container: HTMLElement): void {
+        const session = this.sessions.get(container);
+        if (!session) return;
+
+        if (session.renderTimer !== null) {
+            clearTimeout(session.renderTimer);
+        }
+
+        this.undock(session);
+        session.pane.remove();
+        this.sessions.delete(container);
+
+        this.logger.debug('PreviewManager: Closed preview');
+    }
+
+    /**
+     * Close all preview panes
+     */
+    public closeAll(): void {
+        Array.from(this.sessions.keys()).forEach(container => this.close(container));
+    }
+
+    /**
+     * Handle messages from the preview pages
+     */
+    private handleMessage(event: MessageEvent<PreviewResponse>): void {
+        const session = Array.from(this.sessions.values()).find(s => event.source === s.frame.contentWindow);
+        if (!session) return;
+
+        switch (event.data?.type) {
+            case 'ready':
+                // Also sent again if the preview page reloads
+                session.ready = true;
+                this.render(session);
+                break;
+            case 'error':
+                if (event.data.renderId === session.renderId) {
+                    this.showError(session, event.data.message);
+                }
+                break;
+        }
+    }
+
+    /**
+     * Follow the artifact's editor: sit next to it while it is open and re-render on edits
+     */
+    private handleEditorEvent(container: HTMLElement, event: EditorEvent): void {
+        const session = this.sessions.get(container);
+        if (!session) return;
+
+        switch (event) {
+            case 'opened':
+                this.dock(container, session);
+                this.refresh(container);
+                break;
+            case 'changed':
+                this.scheduleRender(session);
+                break;
+            case 'closed':
+                this.undock(session);
+                this.refresh(container);
+                break;
+        }
+    }
+
+    /**
+     * Render once the edits have paused
+     */
+    private scheduleRender(session: PreviewSession): void {
+        if (session.renderTimer !== null) {
+            clearTimeout(session.renderTimer);
+        }
+
+        session.renderTimer = window.setTimeout(() => {
+            session.renderTimer = null;
+            this.render(session);
+        }, this.RENDER_DELAY_MS);
+    }
+
+    /**
+     * Send the current source to the preview page
+     */
+    private render(session: PreviewSession): void {
+        if (!session.ready) return;
+
+        session.renderId++;
+        session.errors.clear();
+        session.errorList.replaceChildren();
+        session.errorList.style.display = 'none';
+
+        const request: PreviewRequest = {
+            type: 'render',
+            renderId: session.renderId,
+            kind: session.kind,
+            source: session.readSource()
+        };
+        session.frame.contentWindow?.postMessage(request, '*');
+    }
+
+    /**
+     * Show a runtime error under the pane's header
+     */
+    private showError(session: PreviewSession, message: string): void {
+        // React can report the same error more than once
+        if (session.errors.has(message)) return;
+        session.errors.add(message);
+
+        const item = document.createElement('pre');
+        Object.assign(item.style, {
+            margin: '0',
+            padding: '6px 8px',
+            whiteSpace: 'pre-wrap',
+            borderTop: session.errors.size > 1 ? '1px solid #fecaca' : 'none'
+        });
+        item.textContent = message;
+
+        session.errorList.appendChild(item);
+        session.errorList.style.display = 'block';
+    }
+
+    /**
+     * Build the pane: a header, the error list and the preview frame
+     */
+    private createPane(container: HTMLElement, kind: PreviewKind): {
+        pane: HTMLElement;
+        frame: HTMLIFrameElement;
+        errorList: HTMLElement;
+        resizeHandle: HTMLElement;
+    } {
+        const pane = document.createElement('div');
+        pane.className = 'artifact-preview-pane';
+        Object.assign(pane.style, {
+            position: 'relative',
+            display: 'flex',
+            flexDirection: 'column',
+            width: '100%',
+            height: `${this.DEFAULT_HEIGHT_PX}px`,
+            marginTop: '8px',
+            border: '1px solid #e2e8f0',
+            borderRadius: '4px',
+            overflow: 'hidden',
+            backgroundColor: '#ffffff'
+        });
+
+        const header = document.createElement('div');
+        Object.assign(header.style, {
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            padding: '4px 8px',
+            backgroundColor: '#f8fafc',
+            borderBottom: '1px solid #e2e8f0',
+            fontSize: '12px',
+            fontWeight: '500',
+            color: '#475569'
+        });
+
+        const title = document.createElement('span');
+        const kindLabels: Record<PreviewKind, string> = {
+            html: 'HTML',
+            react: 'React',
+            mermaid: 'Mermaid',
+            markdown: 'Markdown'
+        };
+        title.textContent = `Preview (${kindLabels[kind]})`;
+
+        const actions = document.createElement('div');
+        Object.assign(actions.style, {
+            display: 'flex',
+            gap: '8px'
+        });
+
+        const reloadButton = this.createHeaderButton('↻', 'Render again');
+        reloadButton.addEventListener('click', () => this.refresh(container));
+
+        const closeButton = this.createHeaderButton('×', 'Close preview');
+        closeButton.addEventListener('click', () => this.close(container));
+
+        actions.append(reloadButton, closeButton);
+        header.append(title, actions);
+
+        const errorList = document.createElement('div');
+        errorList.className = 'artifact-preview-errors';
+        Object.assign(errorList.style, {
+            display: 'none',
+            maxHeight: '35%',
+            overflow: 'auto',
+            backgroundColor: '#fef2f2',
+            borderBottom: '1px solid #fecaca',
+            color: '#b91c1c',
+            fontFamily: 'monospace',
+            fontSize: '12px'
+        });
+
+        const frame = document.createElement('iframe');
+        frame.title = 'Artifact preview';
+
+        // Scripts, forms and dialogs only: no same-origin access, navigation of the page or popups
+        frame.setAttribute('sandbox', 'allow-scripts allow-forms allow-modals');
+        Object.assign(frame.style, {
+            flex: '1 1 auto',
+            width: '100%',
+            border: 'none',
+            backgroundColor: '#ffffff'
+        });
+
+        const resizeHandle = this.createResizeHandle(pane, frame);
+
+        pane.append(header, errorList, frame, resizeHandle);
+        return { pane, frame, errorList, resizeHandle };
+    }
+
+    private createHeaderButton(label: string, title: string): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.title = title;
+        button.textContent = label;
+        Object.assign(button.style, {
+            border: 'none',
+            background: 'none',
+            cursor: 'pointer',
+            fontSize: '14px',
+            lineHeight: '1',
+            color: '#475569'
+        });
+        return button;
+    }
+
+    /**
+     * Add a handle for changing the pane's height when it is shown on its own
+     */
+    private createResizeHandle(pane: HTMLElement, frame: HTMLIFrameElement): HTMLElement {
+        const handle = document.createElement('div');
+        handle.className = 'preview-resize-handle';
+        Object.assign(handle.style, {
+            height: '6px',
+            background: '#e2e8f0',
+            cursor: 'ns-resize',
+            width: '100%',
+            flex: '0 0 auto'
+        });
+
+        this.trackDrag(handle, frame, 'ns-resize', () => pane.offsetHeight, (start, delta) => {
+            pane.style.height = `${Math.max(this.MIN_HEIGHT_PX, start + delta.y)}px`;
+        });
+
+        return handle;
+    }
+
+    /**
+     * Put the pane below the artifact's code, or at the end of the artifact
+     */
+    private placePane(container: HTMLElement, session: PreviewSession): void {
+        const anchor = container.querySelector('pre');
+        if (anchor?.parentNode) {
+            anchor.parentNode.insertBefore(session.pane, anchor.nextSibling);
+        } else {
+            container.appendChild(session.pane);
+        }
+    }
+
+    /**
+     * Show the pane next to the artifact's editor, with a splitter between them
+     */
+    private dock(container: HTMLElement, session: PreviewSession): void {
+        const editorContainer = container.querySelector<HTMLElement>('.monaco-editor-container');
+        if (!editorContainer || session.split) return;
+
+        const split = document.createElement('div');
+        split.className = 'artifact-preview-split';
+        Object.assign(split.style, {
+            display: 'flex',
+            alignItems: 'stretch',
+            width: '100%',
+            marginTop: '8px'
+        });
+
+        const splitter = document.createElement('div');
+        Object.assign(splitter.style, {
+            flex: '0 0 6px',
+            cursor: 'ew-resize',
+            background: '#e2e8f0',
+            margin: '0 2px'
+        });
+
+        this.trackDrag(splitter, session.frame, 'ew-resize', () => editorContainer.offsetWidth, (start, delta) => {
+            const max = split.clientWidth - splitter.offsetWidth - this.MIN_WIDTH_PX;
+            const width = Math.min(max, Math.max(this.MIN_WIDTH_PX, start + delta.x));
+            editorContainer.style.flex = `0 0 ${width}px`;
+        });
+
+        // Moving the frame reloads the preview page, which renders again once it is ready
+        session.ready = false;
+        editorContainer.parentNode?.insertBefore(split, editorContainer);
+        split.append(editorContainer, splitter, session.pane);
+
+        // The editor sets the height of the row; the pane follows it
+        Object.assign(editorContainer.style, { flex: '1 1 0', minWidth: '0', marginTop: '0' });
+        Object.assign(session.pane.style, { flex: '1 1 0', minWidth: '0', width: 'auto', height: 'auto', marginTop: '0' });
+        session.resizeHandle.style.display = 'none';
+        session.split = split;
+    }
+
+    /**
+     * Put the pane back on its own after the editor closes or the pane is closed
+     */
+    private undock(session: PreviewSession): void {
+        const split = session.split;
+        if (!split) return;
+
+        // The editor is still in the split when the pane is closed first
+        const editorContainer = split.querySelector<HTMLElement>('.monaco-editor-container');
+        if (editorContainer) {
+            Object.assign(editorContainer.style, { flex: '', minWidth: '', marginTop: '8px' });
+            split.parentNode?.insertBefore(editorContainer, split);
+        }
+
+        session.ready = false;
+        split.parentNode?.insertBefore(session.pane, split);
+        split.remove();
+
+        Object.assign(session.pane.style, {
+            flex: '',
+            minWidth: '',
+            width: '100%',
+            height: `${this.DEFAULT_HEIGHT_PX}px`,
+            marginTop: '8px'
+        });
+        session.resizeHandle.style.display = '';
+        session.split = null;
+    }
+
+    /**
+     * Call back with the distance dragged from a handle
+     * The frame ignores the mouse during a drag so that it doesn't swallow the move events.
+     */
+    private trackDrag(
+        handle: HTMLElement,
+        frame: HTMLIFrameElement,
+        cursor: string,
+        measure: () => number,
+        onMove: (start: number, delta: { x: number; y: number }) => void
+    ): void {
+        handle.addEventListener('mousedown', (down: MouseEvent) => {
+            const start = measure();
+
+            const onMouseMove = (move: MouseEvent): void => {
+                onMove(start, { x: move.clientX - down.clientX, y: move.clientY - down.clientY });
+            };
+
+            const onMouseUp = (): void => {
+                frame.style.pointerEvents = '';
+                document.body.style.cursor = '';
+                document.removeEventListener('mousemove', onMouseMove);
+                document.removeEventListener('mouseup', onMouseUp);
+            };
+
+            frame.style.pointerEvents = 'none';
+            document.body.style.cursor = cursor;
+            document.addEventListener('mousemove', onMouseMove);
+            document.addEventListener('mouseup', onMouseUp);
+
+            down.preventDefault();
+        });
+    }
+}
@@ -0,0 +1,157 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {ExecutionLimits, ExecutionResult, SandboxRequest, SandboxResponse} from '../../shared/models/execution';
+
+/**
+ * A run waiting for its result
+ */
+interface PendingRun {
+    resolve: (result: ExecutionResult) => void;
+    watchdog: number;
+    startedAt: number;
+}
+
+/**
+ * Runs JavaScript in the extension's sandbox page, embedded in a hidden iframe
+ * The sandbox kills its worker when a run goes over its limits. The watchdog here is
+ * the last resort for when the sandbox itself stops responding: the iframe is removed,
+ * which ends everything running inside it, and a fresh one is made for the next run.
+ */
+export class SandboxRunner {
+    private static instance: SandboxRunner;
+    private readonly logger = LoggerService.getInstance();
+    private readonly SANDBOX_PAGE = 'src/sandbox/index.html';
+
+    // Time allowed beyond the run's timeout for the sandbox to report back
+    private readonly WATCHDOG_GRACE_MS = 2000;
+
+    // Time allowed for the sandbox page to load
+    private readonly LOAD_TIMEOUT_MS = 10000;
+
+    private frame: HTMLIFrameElement | null = null;
+    private ready: Promise<HTMLIFrameElement> | null = null;
+    private readonly pending = new Map<string, PendingRun>();
+    private runCounter = 0;
+
+    private constructor() {
+        window.addEventListener('message', this.handleMessage.bind(this));
+    }
+
+    /**
+     * Get the singleton instance of the sandbox runner
+     */
+    public static getInstance(): SandboxRunner {
+        if (!SandboxRunner.instance) {
+            SandboxRunner.instance = new SandboxRunner();
+        }
+        return SandboxRunner.instance;
+    }
+
+    /**
+     * Run code in the sandbox
+     * Never throws; problems with the sandbox itself are reported as a crashed run.
+     */
+    public async run(code: string, limits: ExecutionLimits): Promise<ExecutionResult> {
+        const startedAt = performance.now();
+
+        let frame: HTMLIFrameElement;
+        try {
+            frame = await this.getFrame();
+        } catch (error) {
+            this.logger.error('SandboxRunner: Sandbox failed to load', error);
+            return this.crashed(startedAt, 'The sandbox failed to load');
+        }
+
+        const runId = `run-${++this.runCounter}`;
+
+        return new Promise<ExecutionResult>(resolve => {
+            const watchdog = window.setTimeout(() => {
+                this.logger.warn(`SandboxRunner: Sandbox did not answer ${runId}, resetting it`);
+                this.pending.delete(runId);
+                this.reset();
+                resolve(this.crashed(startedAt, 'The sandbox stopped responding and was reset'));
+            }, limits.timeoutMs + this.WATCHDOG_GRACE_MS);
+
+            this.pending.set(runId, { resolve, watchdog, startedAt });
+
+            const request: SandboxRequest = { type: 'run', runId, code, limits };
+            frame.contentWindow?.postMessage(request, '*');
+        });
+    }
+
+    /**
+     * Handle messages from the sandbox page
+     */
+    private handleMessage(event: MessageEvent<SandboxResponse>): void {
+        if (!this.frame || event.source !== this.frame.contentWindow || event.data?.type !== 'result') return;
+
+        const run = this.pending.get(event.data.runId);
+        if (!run) return;
+
+        clearTimeout(run.watchdog);
+        this.pending.delete(event.data.runId);
+        run.resolve(event.data.result);
+    }
+
+    /**
+     * Get the sandbox iframe, creating it and waiting for it to load if needed
+     */
+    private getFrame(): Promise<HTMLIFrameElement> {
+        if (this.ready) return this.ready;
+
+        const frame = document.createElement('iframe');
+        frame.src = chrome.runtime.getURL(this.SANDBOX_PAGE);
+
+        // Scripts only: no same-origin access, navigation of the page, popups or forms
+        frame.setAttribute('sandbox', 'allow-scripts');
+        frame.setAttribute('aria-hidden', 'true');
+        frame.tabIndex = -1;
+        frame.style.display = 'none';
+
+        this.frame = frame;
+        this.ready = new Promise<HTMLIFrameElement>((resolve, reject) => {
+            const timeout = window.setTimeout(() => {
+                window.removeEventListener('message', onReady);
+                this.reset();
+                reject(new Error('Timed out waiting for the sandbox'));
+            }, this.LOAD_TIMEOUT_MS);
+
+            const onReady = (event: MessageEvent<SandboxResponse>): void => {
+                if (event.source !== frame.contentWindow || event.data?.type !== 'ready') return;
+                clearTimeout(timeout);
+                window.removeEventListener('message', onReady);
+                resolve(frame);
+            };
+
+            window.addEventListener('message', onReady);
+        });
+
+        document.body.appendChild(frame);
+        return this.ready;
+    }
+
+    /**
+     * Remove the sandbox iframe, ending everything running in it
+     * Other runs in flight are reported as crashed.
+     */
+    private reset(): void {
+        this.frame?.remove();
+        this.frame = null;
+        this.ready = null;
+
+        this.pending.forEach(run => {
+            clearTimeout(run.watchdog);
+            run.resolve(this.crashed(run.startedAt, 'The sandbox was reset while this code was running'));
+        });
+        this.pending.clear();
+    }
+
+    private crashed(startedAt: number, message: string): ExecutionResult {
+        return {
+            stdout: [],
+            stderr: [message],
+            returnValue: null,
+            durationMs: Math.round(performance.now() - startedAt),
+            exitReason: 'crashed'
+        };
+    }
+}
@@ -0,0 +1,114 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {
+    CONVERSATION_STREAM_PORT,
+    ConversationMessage,
+    ConversationReply,
+    ConversationStreamEvent,
+    ConversationStreamRequest
+} from '../../shared/models/messages';
+import {ApiError} from '../../shared/models/apiError';
+import {ApiTargetSelection} from '../../shared/models/settings';
+
+/**
+ * Callbacks for the lifecycle of a streamed reply; exactly one of the final three is called
+ */
+export interface ConversationStreamCallbacks {
+    onDelta: (text: string) => void;
+    onDone: (reply: ConversationReply) => void;
+    onCancelled: (partialText: string) => void;
+    onError: (error: string) => void;
+}
+
+/**
+ * A reply that is being streamed
+ */
+export interface ActiveConversationStream {
+    cancel: () => void;
+}
+
+/**
+ * Client for streaming conversation replies from the background script
+ */
+export class ConversationStreamClient {
+    private static instance: ConversationStreamClient;
+    private readonly logger = LoggerService.getInstance();
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the conversation stream client
+     */
+    public static getInstance(): ConversationStreamClient {
+        if (!ConversationStreamClient.instance) {
+            ConversationStreamClient.instance = new ConversationStreamClient();
+        }
+        return ConversationStreamClient.instance;
+    }
+
+    /**
+     * Start streaming a reply on its own port
+     * @param selection Profile and model to use instead of the defaults
+     */
+    public start(
+        conversationHistory: ConversationMessage[],
+        prompt: string,
+        selection: ApiTargetSelection,
+        callbacks: ConversationStreamCallbacks
+    ): ActiveConversationStream {
+        const port = chrome.runtime.connect({ name: CONVERSATION_STREAM_PORT });
+        let finished = false;
+
+        // Close the port once a final event has been handled
+        const finish = (callback: () => void): void => {
+            if (finished) return;
+            finished = true;
+            port.disconnect();
+            callback();
+        };
+
+        port.onMessage.addListener((event: ConversationStreamEvent) => {
+            switch (event.type) {
+                case 'delta':
+                    callbacks.onDelta(event.text);
+                    break;
+                case 'done':
+                    finish(() => callbacks.onDone({ text: event.text, stopReason: event.stopReason, usage: event.usage }));
+                    break;
+                case 'cancelled':
+                    finish(() => callbacks.onCancelled(event.text));
+                    break;
+                case 'error':
+                    finish(() => callbacks.onError(event.apiError ? ApiError.describe(event.apiError) : event.error));
+                    break;
+            }
+        });
+
+        // The background worker can go away mid-stream
+        port.onDisconnect.addListener(() => {
+            if (!finished) {
+                finished = true;
+                this.logger.warn('ConversationStreamClient: Port disconnected before the reply finished');
+                callbacks.onError('Connection to the extension was lost');
+            }
+        });
+
+        this.post(port, { type: 'start', conversationHistory, prompt, ...selection });
+
+        return {
+            cancel: () => {
+                if (!finished) {
+                    this.post(port, { type: 'cancel' });
+                }
+            }
+        };
+    }
+
+    /**
+     * Post a request to the background script
+     */
+    private post(port: chrome.runtime.Port, request: ConversationStreamRequest): void {
+        port.postMessage(request);
+    }
+}
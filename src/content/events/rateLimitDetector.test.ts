@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import {afterEach, beforeAll, beforeEach, describe, expect, it, vi} from 'vitest';
+import {DomAdapterRegistry} from '../../shared/adapters/domAdapterRegistry';
+import {RateLimitDetector} from './rateLimitDetector';
+
+/**
+ * Add markup to the page and let the detector's delayed check run
+ */
+async function show(html: string): Promise<HTMLElement> {
+    const element = document.createElement('div');
+    element.innerHTML = html;
+    document.body.appendChild(element);
+    await vi.advanceTimersByTimeAsync(500);
+    return element;
+}
+
+/**
+ * Remove markup from the page and let the detector's delayed check run
+ */
+async function hide(element: HTMLElement): Promise<void> {
+    element.remove();
+    await vi.advanceTimersByTimeAsync(500);
+}
+
+describe('RateLimitDetector', () => {
+    const detector = RateLimitDetector.getInstance();
+    const listener = vi.fn();
+
+    beforeAll(() => {
+        DomAdapterRegistry.getInstance().forceProfile('current');
+        vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+        detector.init();
+        detector.addListener(listener);
+    });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        document.body.innerHTML = '';
+        await vi.advanceTimersByTimeAsync(500);
+        listener.mockReset();
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('reports the banner when it appears and when it is cleared', async () => {
+        const banner = await show('<div class="rate-limit-banner"> Out of messages until 5 PM </div>');
+
+        expect(detector.isLimited()).toBe(true);
+        expect(listener).toHaveBeenCalledWith(true, 'Out of messages until 5 PM');
+
+        await hide(banner);
+
+        expect(detector.isLimited()).toBe(false);
+        expect(listener).toHaveBeenLastCalledWith(false, '');
+    });
+
+    it('recognizes the wording in notices the profile doesn\'t know about', async () => {
+        await show('<div role="status">You have 0 messages remaining until 9 PM</div>');
+
+        expect(listener).toHaveBeenCalledWith(true, 'You have 0 messages remaining until 9 PM');
+    });
+
+    it('ignores other notices and the extension\'s own notifications', async () => {
+        await show('<div role="alert">Saved</div>');
+        await show('<div class="artifact-notification"><div role="alert">Usage limit reached</div></div>');
+
+        expect(detector.isLimited()).toBe(false);
+        expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('checks once per delay however much the page changes, and only reports changes', async () => {
+        const banner = document.createElement('div');
+        banner.className = 'rate-limit-banner';
+        document.body.appendChild(banner);
+        banner.textContent = 'Usage limit reached';
+        await vi.advanceTimersByTimeAsync(499);
+
+        expect(listener).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1);
+        await show('<p>More page content</p>');
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps notifying the other listeners when one throws', async () => {
+        const failing = vi.fn(() => {
+            throw new Error('listener failed');
+        });
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        detector.removeListener(listener);
+        detector.addListener(failing);
+        detector.addListener(listener);
+
+        await show('<div class="rate-limit-banner">Usage limit reached</div>');
+
+        expect(failing).toHaveBeenCalled();
+        expect(listener).toHaveBeenCalledWith(true, 'Usage limit reached');
+        detector.removeListener(failing);
+    });
+});
@@ -0,0 +1,145 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {DomAdapterRegistry} from '../../shared/adapters/domAdapterRegistry';
+
+/**
+ * Wording claude.ai uses when the user has run out of messages
+ */
+const RATE_LIMIT_PATTERNS: RegExp[] = [
+    /usage limit/i,
+    /message limit/i,
+    /rate limit/i,
+    /out of (free )?messages/i,
+    /limit (?:reached|will reset)/i,
+    /messages? remaining until/i
+];
+
+/**
+ * Elements that may hold a rate limit notice when the profile selector doesn't match
+ */
+const NOTICE_SELECTOR = '[role="alert"], [role="status"], [data-testid*="limit"]';
+
+/**
+ * The extension's own notifications and chat panel, which can mention rate limits themselves
+ */
+const OWN_UI_SELECTOR = '.artifact-notification, .claude-helper-chat-panel';
+
+/**
+ * Listener for rate limit state changes
+ */
+export type RateLimitListener = (limited: boolean, message: string) => void;
+
+/**
+ * Service watching the page for claude.ai's rate limit banner
+ */
+export class RateLimitDetector {
+    private static instance: RateLimitDetector;
+    private readonly logger = LoggerService.getInstance();
+    private readonly adapterRegistry = DomAdapterRegistry.getInstance();
+    private readonly listeners = new Set<RateLimitListener>();
+    private readonly checkDelayMs = 500;
+
+    private observer: MutationObserver | null = null;
+    private checkTimeout: number | null = null;
+    private limited = false;
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the rate limit detector
+     */
+    public static getInstance(): RateLimitDetector {
+        if (!RateLimitDetector.instance) {
+            RateLimitDetector.instance = new RateLimitDetector();
+        }
+        return RateLimitDetector.instance;
+    }
+
+    /**
+     * Start watching the page
+     */
+    public init(): void {
+        if (this.observer) return;
+
+        this.observer = new MutationObserver(() => this.scheduleCheck());
+        this.observer.observe(document.body, {
+            childList: true,
+            subtree: true,
+            characterData: true
+        });
+
+        this.check();
+        this.logger.debug('RateLimitDetector: Initialized');
+    }
+
+    /**
+     * Whether the rate limit banner is currently showing
+     */
+    public isLimited(): boolean {
+        return this.limited;
+    }
+
+    /**
+     * Be told when the banner appears or goes away
+     */
+    public addListener(listener: RateLimitListener): void {
+        this.listeners.add(listener);
+    }
+
+    /**
+     * Stop being told about banner changes
+     */
+    public removeListener(listener: RateLimitListener): void {
+        this.listeners.delete(listener);
+    }
+
+    /**
+     * Check at most once per delay while the page is changing
+     */
+    private scheduleCheck(): void {
+        if (this.checkTimeout !== null) return;
+
+        this.checkTimeout = window.setTimeout(() => {
+            this.checkTimeout = null;
+            this.check();
+        }, this.checkDelayMs);
+    }
+
+    /**
+     * Look for the banner and notify listeners when its state changes
+     */
+    private check(): void {
+        const message = this.findNotice();
+        const limited = message !== null;
+
+        if (limited === this.limited) return;
+
+        this.limited = limited;
+        this.logger.info(`RateLimitDetector: Rate limit ${limited ? 'detected' : 'cleared'}`);
+        this.listeners.forEach(listener => {
+            try {
+                listener(limited, message || '');
+            } catch (error) {
+                this.logger.error('RateLimitDetector: Listener error', error);
+            }
+        });
+    }
+
+    /**
+     * Get the text of the rate limit notice, or null if there isn't one
+     */
+    private findNotice(): string | null {
+        const banner = this.adapterRegistry.getAdapter().findRateLimitBanner();
+        if (banner) {
+            return banner.textContent?.trim() || 'Usage limit reached';
+        }
+
+        // claude.ai changes its markup often, so also look for the wording in notices
+        const notice = Array.from(document.querySelectorAll<HTMLElement>(NOTICE_SELECTOR))
+            .filter(element => !element.closest(OWN_UI_SELECTOR))
+            .find(element => RATE_LIMIT_PATTERNS.some(pattern => pattern.test(element.textContent || '')));
+
+        return notice ? notice.textContent?.trim() || 'Usage limit reached' : null;
+    }
+}
@@ -4,9 +4,9 @@ import { BannerService } from './ui/bannerService';
 import { MessageService } from './events/messageService';
 import { StorageService } from '../shared/services/storageService';
 import { ArtifactUIHandler } from './editor/artifactUIHandler';
-import { EditorManager } from './editor/editorManager';
-import { CompilerService } from './editor/compilerService';
 import { SettingsUI } from './ui/settingsUI';
+import { ChatPanel } from './ui/chatPanel';
+import { RateLimitDetector } from './events/rateLimitDetector';
 import {ArtifactExtractor} from '@/shared/utils/artifactExtractor.ts';
 
 /**
@@ -20,9 +20,9 @@ class ContentScript {
     private readonly messageService = MessageService.getInstance();
     private readonly storageService = StorageService.getInstance();
     private readonly artifactUIHandler = ArtifactUIHandler.getInstance();
-    private readonly editorManager = EditorManager.getInstance();
-    private readonly compilerService = CompilerService.getInstance();
     private readonly settingsUI = SettingsUI.getInstance();
+    private readonly chatPanel = ChatPanel.getInstance();
+    private readonly rateLimitDetector = RateLimitDetector.getInstance();
 
     constructor() {
         this.init().catch(error => {
@@ -52,6 +52,14 @@ class ContentScript {
             await this.uiInjector.init();
             this.artifactUIHandler.init();
 
+            // Offer to continue through the API when claude.ai stops accepting messages
+            this.rateLimitDetector.addListener((limited, message) => {
+                if (limited) {
+                    this.chatPanel.open(`${message} — you can keep going here with your API key.`);
+                }
+            });
+            this.rateLimitDetector.init();
+
             // Notification on successful initialization (if enabled)
             if (settings.uiSettings.showNotifications) {
                 this.bannerService.showSuccess('Claude Artifacts helper initialized', 2000);
@@ -0,0 +1,536 @@
+import {LoggerService} from '../../shared/services/loggerService';
+import {ContextTrimSummary, ConversationMessage} from '../../shared/models/messages';
+import {ApiSettings, ApiTargetSelection} from '../../shared/models/settings';
+import {SecretNames, SecretStatus} from '../../shared/models/secrets';
+import {ConversationExtractor} from '../../shared/utils/conversationExtractor';
+import {TokenEstimator} from '../../shared/utils/tokenEstimator';
+import {ApiProfileResolver, ApiTarget} from '../../shared/utils/apiProfileResolver';
+import {MessageService} from '../events/messageService';
+import {BannerService} from './bannerService';
+import {StreamingReplyView} from './streamingReplyView';
+
+/**
+ * Panel docked to the side of the page for continuing the conversation through the Claude API
+ */
+export class ChatPanel {
+    private static instance: ChatPanel;
+    private readonly logger = LoggerService.getInstance();
+    private readonly messageService = MessageService.getInstance();
+    private readonly bannerService = BannerService.getInstance();
+    private readonly panelWidth = 400;
+
+    private panel: HTMLElement | null = null;
+    private messageList: HTMLElement | null = null;
+    private noticeElement: HTMLElement | null = null;
+    private input: HTMLTextAreaElement | null = null;
+    private sendButton: HTMLButtonElement | null = null;
+    private estimateElement: HTMLElement | null = null;
+    private profileSelect: HTMLSelectElement | null = null;
+    private modelSelect: HTMLSelectElement | null = null;
+    private apiSettings: ApiSettings | null = null;
+    private secretStatus: SecretStatus | null = null;
+    private history: ConversationMessage[] = [];
+
+    // Estimated once per history change, since the history can be very long
+    private historyTokens = 0;
+    private activeReply: StreamingReplyView | null = null;
+    private previousBodyMargin = '';
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the chat panel
+     */
+    public static getInstance(): ChatPanel {
+        if (!ChatPanel.instance) {
+            ChatPanel.instance = new ChatPanel();
+        }
+        return ChatPanel.instance;
+    }
+
+    /**
+     * Whether the panel is open
+     */
+    public isOpen(): boolean {
+        return this.panel !== null;
+    }
+
+    /**
+     * Open the panel with the conversation currently on the page
+     * @param reason Shown at the top of the panel, e.g. the rate limit message
+     */
+    public async open(reason?: string): Promise<void> {
+        if (this.panel) {
+            if (reason) this.setNotice(reason, 'info');
+            return;
+        }
+
+        try {
+            this.createPanel();
+            this.loadConversation();
+
+            this.apiSettings = await this.loadApiSettings();
+            this.secretStatus = await this.loadSecretStatus();
+            this.populatePickers();
+
+            // A settings problem replaces the reason, since it has to be fixed first
+            if (reason) this.setNotice(reason, 'info');
+            this.handleTargetChange();
+            this.input?.focus();
+        } catch (error) {
+            this.logger.error('ChatPanel: Error opening panel', error);
+            this.bannerService.showError('Failed to open the API chat panel');
+            this.close();
+        }
+    }
+
+    /**
+     * Close the panel, stopping any reply in progress
+     */
+    public close(): void {
+        this.activeReply?.cancel();
+        this.activeReply = null;
+
+        if (this.panel?.parentNode) {
+            this.panel.parentNode.removeChild(this.panel);
+        }
+
+        document.body.style.marginRight = this.previousBodyMargin;
+        this.panel = null;
+        this.messageList = null;
+        this.noticeElement = null;
+        this.input = null;
+        this.sendButton = null;
+        this.estimateElement = null;
+        this.profileSelect = null;
+        this.modelSelect = null;
+    }
+
+    /**
+     * Read the conversation from the page into the history sent with each prompt
+     */
+    private loadConversation(): void {
+        this.history = ConversationExtractor.extractFromDOM();
+
+        // A prompt Claude never answered (usually the one that hit the limit) becomes the draft
+        const last = this.history[this.history.length - 1];
+        if (last && last.role === 'user') {
+            this.history.pop();
+            if (this.input && !this.input.value) {
+                this.input.value = last.content;
+            }
+        }
+
+        if (this.messageList) {
+            this.messageList.innerHTML = '';
+            this.appendStatus(this.history.length > 0
+                ? `Loaded ${this.history.length} messages from this conversation, including artifacts`
+                : 'No conversation found on this page; starting a new one');
+        }
+
+        this.historyTokens = TokenEstimator.estimateMessages(this.history);
+        this.updateEstimate();
+    }
+
+    /**
+     * Send the prompt in the input box and stream the reply
+     */
+    private async sendPrompt(): Promise<void> {
+        const prompt = this.input?.value.trim();
+        if (!prompt || this.activeReply) return;
+
+        const selection = this.getSelection();
+        const modelName = this.getTarget()?.modelName ?? '';
+
+        this.input!.value = '';
+        this.setSending(true);
+        this.appendBubble('user', prompt);
+
+        const reply = new StreamingReplyView();
+        this.activeReply = reply;
+        this.messageList?.appendChild(reply.element);
+        this.scrollToBottom();
+
+        const observer = new MutationObserver(() => this.scrollToBottom());
+        observer.observe(reply.element, { childList: true, subtree: true, characterData: true });
+
+        try {
+            const outcome = await reply.start([...this.history], prompt, selection);
+
+            if (outcome.status === 'done') {
+                this.history.push({ role: 'user', content: prompt }, { role: 'assistant', content: outcome.reply.text });
+                if (outcome.reply.trim) this.appendTrimStatus(outcome.reply.trim);
+                this.appendUsage(modelName, outcome.reply.usage.inputTokens, outcome.reply.usage.outputTokens);
+            } else if (outcome.status === 'cancelled' && outcome.text) {
+                // Keep what was generated so the next prompt can build on it
+                this.history.push({ role: 'user', content: prompt }, { role: 'assistant', content: outcome.text });
+            } else if (this.input && !this.input.value) {
+                // Nothing was added to the history, so offer the prompt again
+                this.input.value = prompt;
+            }
+        } finally {
+            observer.disconnect();
+            this.activeReply = null;
+            this.setSending(false);
+            this.historyTokens = TokenEstimator.estimateMessages(this.history);
+            this.updateEstimate();
+        }
+    }
+
+    /**
+     * Show the estimated size and cost of sending the current draft
+     */
+    private updateEstimate(): void {
+        const target = this.getTarget();
+        if (!this.estimateElement || !this.apiSettings || !target) return;
+
+        const { systemPrompt, contextStrategy } = this.apiSettings;
+        const draft: ConversationMessage = { role: 'user', content: this.input?.value.trim() ?? '' };
+        const estimate = TokenEstimator.estimateRequest(
+            this.historyTokens + TokenEstimator.estimateMessage(draft) + TokenEstimator.estimateText(systemPrompt),
+            target.modelName,
+            target.maxTokens,
+            target.model?.contextWindow ?? null
+        );
+
+        const parts = [`≈${estimate.inputTokens.toLocaleString()} input tokens`];
+        if (estimate.contextWindow !== null) {
+            parts[0] += ` (${Math.round(estimate.inputTokens / estimate.contextWindow * 100)}% of context)`;
+        }
+        if (estimate.inputCost !== null && estimate.maxOutputCost !== null) {
+            parts.push(`≈${TokenEstimator.formatCost(estimate.inputCost)} + up to ${TokenEstimator.formatCost(estimate.maxOutputCost)} output`);
+        } else {
+            parts.push(`no price known for ${target.modelName}`);
+        }
+
+        if (estimate.fitsContext === false) {
+            parts.push(contextStrategy === 'summarize'
+                ? 'older messages will be summarized to fit'
+                : 'older messages will be dropped to fit');
+        }
+
+        this.estimateElement.textContent = parts.join(' · ');
+        this.estimateElement.style.color = estimate.fitsContext === false ? '#b45309' : '#64748b';
+    }
+
+    /**
+     * Say how the conversation was shortened for a reply
+     */
+    private appendTrimStatus(trim: ContextTrimSummary): void {
+        const parts = [`${trim.droppedMessages} older messages were ${trim.summarized ? 'summarized' : 'left out'} to fit the context window`];
+        if (trim.pinnedArtifacts > 0) {
+            parts.push(`the latest versions of ${trim.pinnedArtifacts} artifacts were still sent`);
+        }
+        if (trim.strategy === 'summarize' && !trim.summarized) {
+            parts.push('a summary could not be made');
+        }
+
+        this.appendStatus(parts.join('; '));
+    }
+
+    /**
+     * Show what a finished reply actually used
+     */
+    private appendUsage(modelName: string, inputTokens: number, outputTokens: number): void {
+        const cost = TokenEstimator.calculateCost(modelName, inputTokens, outputTokens);
+
+        this.appendStatus(`Used ${inputTokens.toLocaleString()} input and ${outputTokens.toLocaleString()} output tokens`
+            + (cost !== null ? ` (${TokenEstimator.formatCost(cost)})` : ''));
+    }
+
+    /**
+     * Get the API settings, or null if they couldn't be loaded
+     */
+    private async loadApiSettings(): Promise<ApiSettings | null> {
+        const response = await this.messageService.sendMessage({ action: 'getSettings' });
+        return response.success ? response.data.apiSettings : null;
+    }
+
+    /**
+     * Get which API keys are set, or null if that couldn't be found out
+     * Key values never reach the page; requests are authenticated by the background script.
+     */
+    private async loadSecretStatus(): Promise<SecretStatus | null> {
+        const response = await this.messageService.sendMessage({ action: 'getSecretStatus' });
+        return response.success ? response.data : null;
+    }
+
+    /**
+     * Fill the profile and model pickers from the settings, selecting the defaults
+     */
+    private populatePickers(): void {
+        if (!this.apiSettings || !this.profileSelect || !this.modelSelect) return;
+
+        const activeProfile = ApiProfileResolver.getProfile(this.apiSettings);
+
+        this.profileSelect.innerHTML = '';
+        this.apiSettings.apiProfiles.forEach(profile => {
+            this.profileSelect!.add(new Option(profile.name, profile.id, false, profile.id === activeProfile.id));
+        });
+
+        this.modelSelect.innerHTML = '';
+        this.apiSettings.modelCatalog.forEach(model => {
+            this.modelSelect!.add(new Option(model.label, model.id));
+        });
+
+        this.selectModel(activeProfile.defaultModel);
+    }
+
+    /**
+     * Select a model, adding it to the picker if it isn't in the catalog
+     */
+    private selectModel(modelName: string): void {
+        if (!this.modelSelect) return;
+
+        if (!Array.from(this.modelSelect.options).some(option => option.value === modelName)) {
+            this.modelSelect.add(new Option(modelName, modelName));
+        }
+        this.modelSelect.value = modelName;
+    }
+
+    /**
+     * Refresh everything that depends on the picked profile and model
+     */
+    private handleTargetChange(): void {
+        const target = this.getTarget();
+        this.setSubtitle(target ? `${target.profile.name} · ${target.model?.label ?? target.modelName}` : '');
+
+        const problem = this.describeSettingsProblem();
+        if (problem) {
+            this.setNotice(problem, 'warning');
+        } else if (this.noticeElement?.dataset.type === 'warning') {
+            this.clearNotice();
+        }
+
+        this.updateEstimate();
+    }
+
+    /**
+     * Profile and model picked for the next request
+     */
+    private getSelection(): ApiTargetSelection {
+        return {
+            profileId: this.profileSelect?.value || undefined,
+            model: this.modelSelect?.value || undefined
+        };
+    }
+
+    /**
+     * Resolve the picked profile and model, or null before settings are loaded
+     */
+    private getTarget(): ApiTarget | null {
+        return this.apiSettings ? ApiProfileResolver.resolve(this.apiSettings, this.getSelection()) : null;
+    }
+
+    /**
+     * Explain why the API can't be used yet, if it can't
+     */
+    private describeSettingsProblem(): string | null {
+        const apiSettings = this.apiSettings;
+        const target = this.getTarget();
+
+        if (!apiSettings || !target || !this.secretStatus) {
+            return 'Could not load settings';
+        }
+        if (this.secretStatus.locked) {
+            return 'API keys are locked. Unlock them with your passphrase on the extension options page to continue here';
+        }
+
+        const hasApiKey = this.secretStatus.names.includes(SecretNames.apiKey(target.profile.id));
+        if (!hasApiKey && Object.keys(target.profile.headers).length === 0) {
+            return `Add an API key for the "${target.profile.name}" profile on the extension options page to continue here`;
+        }
+        if (!apiSettings.enableApiContinuation) {
+            return 'Turn on "Enable API continuation" in the extension settings to continue here';
+        }
+        return null;
+    }
+
+    /**
+     * Build the panel and dock it to the right edge of the page
+     */
+    private createPanel(): void {
+        const panel = document.createElement('div');
+        panel.className = 'claude-helper-chat-panel';
+        panel.setAttribute('role', 'complementary');
+        panel.setAttribute('aria-labelledby', 'chat-panel-title');
+
+        Object.assign(panel.style, {
+            position: 'fixed',
+            top: '0',
+            right: '0',
+            bottom: '0',
+            width: `${this.panelWidth}px`,
+            backgroundColor: '#ffffff',
+            borderLeft: '1px solid #e2e8f0',
+            boxShadow: '-4px 0 20px rgba(0, 0, 0, 0.08)',
+            zIndex: '10000',
+            display: 'flex',
+            flexDirection: 'column',
+            fontFamily: 'system-ui, -apple-system, sans-serif'
+        });
+
+        panel.innerHTML = `
+      <div style="display: flex; align-items: center; justify-content: space-between; padding: 14px 16px; border-bottom: 1px solid #e2e8f0;">
+        <div>
+          <h2 id="chat-panel-title" style="margin: 0; font-size: 16px; font-weight: 600; color: #1e293b;">Continue via API</h2>
+          <div id="chat-panel-subtitle" style="font-size: 12px; color: #64748b;"></div>
+        </div>
+        <div style="display: flex; gap: 4px;">
+          <button id="chat-panel-reload" title="Reload the conversation from the page" style="background: none; border: none; cursor: pointer; padding: 4px; color: #475569;">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+              <polyline points="23 4 23 10 17 10"></polyline>
+              <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"></path>
+            </svg>
+          </button>
+          <button id="chat-panel-close" title="Close" style="background: none; border: none; cursor: pointer; padding: 4px; color: #475569;">
+            <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+              <line x1="18" y1="6" x2="6" y2="18"></line>
+              <line x1="6" y1="6" x2="18" y2="18"></line>
+            </svg>
+          </button>
+        </div>
+      </div>
+      <div id="chat-panel-notice" style="display: none; padding: 10px 16px; font-size: 13px;"></div>
+      <div id="chat-panel-messages" style="flex: 1; overflow-y: auto; padding: 16px; display: flex; flex-direction: column; gap: 12px;"></div>
+      <div style="padding: 12px 16px; border-top: 1px solid #e2e8f0; display: flex; flex-direction: column; gap: 8px;">
+        <div style="display: flex; gap: 8px;">
+          <select id="chat-panel-profile" title="API profile for the next message" style="flex: 1; min-width: 0; padding: 4px; border: 1px solid #e2e8f0; border-radius: 6px; font-size: 12px;"></select>
+          <select id="chat-panel-model" title="Model for the next message" style="flex: 1; min-width: 0; padding: 4px; border: 1px solid #e2e8f0; border-radius: 6px; font-size: 12px;"></select>
+        </div>
+        <textarea id="chat-panel-input" rows="3" placeholder="Message Claude… (Ctrl+Enter to send)" style="width: 100%; box-sizing: border-box; resize: vertical; padding: 8px; border: 1px solid #e2e8f0; border-radius: 6px; font: inherit; font-size: 14px;"></textarea>
+        <div id="chat-panel-estimate" title="Estimated before sending; the API reports the exact usage" style="font-size: 12px; color: #64748b;"></div>
+        <button id="chat-panel-send" style="align-self: flex-end; padding: 8px 16px; border: none; border-radius: 6px; background-color: #3b82f6; color: white; font-size: 14px; cursor: pointer;">Send</button>
+      </div>
+    `;
+
+        this.panel = panel;
+        this.messageList = panel.querySelector<HTMLElement>('#chat-panel-messages');
+        this.noticeElement = panel.querySelector<HTMLElement>('#chat-panel-notice');
+        this.input = panel.querySelector<HTMLTextAreaElement>('#chat-panel-input');
+        this.sendButton = panel.querySelector<HTMLButtonElement>('#chat-panel-send');
+        this.estimateElement = panel.querySelector<HTMLElement>('#chat-panel-estimate');
+        this.profileSelect = panel.querySelector<HTMLSelectElement>('#chat-panel-profile');
+        this.modelSelect = panel.querySelector<HTMLSelectElement>('#chat-panel-model');
+
+        panel.querySelector('#chat-panel-close')?.addEventListener('click', () => this.close());
+        panel.querySelector('#chat-panel-reload')?.addEventListener('click', () => {
+            if (!this.activeReply) this.loadConversation();
+        });
+        this.sendButton?.addEventListener('click', () => this.sendPrompt());
+        this.input?.addEventListener('input', () => this.updateEstimate());
+        this.profileSelect?.addEventListener('change', () => {
+            // Each profile starts on its own default model
+            if (this.apiSettings) {
+                this.selectModel(ApiProfileResolver.getProfile(this.apiSettings, this.profileSelect?.value).defaultModel);
+            }
+            this.handleTargetChange();
+        });
+        this.modelSelect?.addEventListener('change', () => this.handleTargetChange());
+        this.input?.addEventListener('keydown', event => {
+            if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                event.preventDefault();
+                this.sendPrompt();
+            }
+        });
+
+        // Make room for the panel instead of covering the conversation
+        this.previousBodyMargin = document.body.style.marginRight;
+        document.body.style.marginRight = `${this.panelWidth}px`;
+        document.body.appendChild(panel);
+    }
+
+    /**
+     * Add a message bubble written in the panel
+     */
+    private appendBubble(role: ConversationMessage['role'], text: string): void {
+        const bubble = document.createElement('div');
+        bubble.textContent = text;
+        Object.assign(bubble.style, {
+            alignSelf: role === 'user' ? 'flex-end' : 'flex-start',
+            maxWidth: '85%',
+            padding: '10px 12px',
+            borderRadius: '8px',
+            backgroundColor: role === 'user' ? '#dbeafe' : '#f3f4f6',
+            color: '#111827',
+            fontSize: '14px',
+            lineHeight: '1.5',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word'
+        });
+
+        this.messageList?.appendChild(bubble);
+        this.scrollToBottom();
+    }
+
+    /**
+     * Add a small status line to the message list
+     */
+    private appendStatus(text: string): void {
+        const status = document.createElement('div');
+        status.textContent = text;
+        Object.assign(status.style, {
+            alignSelf: 'center',
+            fontSize: '12px',
+            color: '#64748b',
+            textAlign: 'center'
+        });
+
+        this.messageList?.appendChild(status);
+    }
+
+    /**
+     * Show a notice above the messages
+     */
+    private setNotice(text: string, type: 'info' | 'warning'): void {
+        if (!this.noticeElement) return;
+
+        this.noticeElement.textContent = text;
+        this.noticeElement.dataset.type = type;
+        Object.assign(this.noticeElement.style, {
+            display: 'block',
+            backgroundColor: type === 'warning' ? '#fef3c7' : '#eff6ff',
+            color: type === 'warning' ? '#92400e' : '#1e40af'
+        });
+    }
+
+    /**
+     * Hide the notice above the messages
+     */
+    private clearNotice(): void {
+        if (!this.noticeElement) return;
+
+        this.noticeElement.textContent = '';
+        delete this.noticeElement.dataset.type;
+        this.noticeElement.style.display = 'none';
+    }
+
+    /**
+     * Set the line under the panel title
+     */
+    private setSubtitle(text: string): void {
+        const subtitle = this.panel?.querySelector<HTMLElement>('#chat-panel-subtitle');
+        if (subtitle) subtitle.textContent = text;
+    }
+
+    /**
+     * Disable sending while a reply is streaming
+     */
+    private setSending(sending: boolean): void {
+        if (this.sendButton) {
+            this.sendButton.disabled = sending;
+            this.sendButton.style.opacity = sending ? '0.6' : '1';
+        }
+    }
+
+    /**
+     * Keep the newest message in view
+     */
+    private scrollToBottom(): void {
+        if (this.messageList) {
+            this.messageList.scrollTop = this.messageList.scrollHeight;
+        }
+    }
+}
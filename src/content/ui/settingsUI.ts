@@ -2,6 +2,9 @@ import { LoggerService } from '../../shared/services/loggerService';
 import { MessageService } from '../events/messageService';
 import { BannerService } from './bannerService';
 import { ArtifactSettings, DEFAULT_SETTINGS } from '../../shared/models/settings';
+import { ApiProfileResolver } from '../../shared/utils/apiProfileResolver';
+import { FilenameTemplate } from '../../shared/utils/filenameTemplate';
+import { SecretNames, SecretStatus } from '../../shared/models/secrets';
 
 /**
  * UI for managing extension settings
@@ -15,6 +18,8 @@ export class SettingsUI {
     private settingsPanel: HTMLElement | null = null;
     private isVisible = false;
     private settings: ArtifactSettings | null = null;
+    private profiles: { active: string | null; names: string[] } = { active: null, names: [] };
+    private secretStatus: SecretStatus | null = null;
 
     private constructor() {
         // Register message handler for showing settings
@@ -41,11 +46,21 @@ export class SettingsUI {
             // Load settings
             const response = await this.messageService.sendMessage({ action: 'getSettings' });
             if (response.success) {
-                this.settings = response.settings;
+                this.settings = response.data;
             } else {
                 this.settings = DEFAULT_SETTINGS;
             }
 
+            // Load which API keys are set; their values stay in the background script
+            const secretsResponse = await this.messageService.sendMessage({ action: 'getSecretStatus' });
+            this.secretStatus = secretsResponse.success ? secretsResponse.data : null;
+
+            // Load profile names for the switcher
+            const profilesResponse = await this.messageService.sendMessage({ action: 'getSettingsProfiles' });
+            if (profilesResponse.success) {
+                this.profiles = profilesResponse.data;
+            }
+
             // Create panel if it doesn't exist
             if (!this.settingsPanel) {
                 this.createSettingsPanel();
@@ -134,6 +149,15 @@ export class SettingsUI {
       
       <div style="flex: 1; overflow-y: auto; padding: 20px;">
         <div style="display: flex; flex-direction: column; gap: 24px;">
+          <!-- Settings Profile -->
+          <section>
+            <h3 style="margin: 0 0 12px 0; font-size: 16px; font-weight: 600; color: #334155;">Profile</h3>
+            <select id="settings-profile" style="width: 100%; padding: 8px; border: 1px solid #e2e8f0; border-radius: 4px;">
+              <option value="">No profile</option>
+            </select>
+            <p style="margin: 4px 0 0 0; font-size: 12px; color: #64748b;">Create, import and export profiles on the options page</p>
+          </section>
+
           <!-- Artifact Download Settings -->
           <section>
             <h3 style="margin: 0 0 12px 0; font-size: 16px; font-weight: 600; color: #334155;">Artifact Download</h3>
@@ -148,10 +172,11 @@ export class SettingsUI {
                 <span>Use flat file structure (no folders)</span>
               </label>
               
-              <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
-                <input type="checkbox" id="include-timestamp" ${this.settings?.includeTimestampInFilename ? 'checked' : ''}>
-                <span>Include timestamp in filenames</span>
-              </label>
+              <div>
+                <label for="filename-template" style="display: block; margin-bottom: 4px;">Filename template</label>
+                <input type="text" id="filename-template" style="width: 100%; padding: 8px; border: 1px solid #e2e8f0; border-radius: 4px; font-family: monospace; box-sizing: border-box;">
+                <small style="color: #64748b;">Tokens, folder templates and a preview are on the extension options page.</small>
+              </div>
             </div>
           </section>
           
@@ -200,17 +225,14 @@ export class SettingsUI {
               </label>
               
               <div>
-                <label for="api-key" style="display: block; margin-bottom: 4px;">Claude API Key</label>
-                <input type="password" id="api-key" value="${this.settings?.apiSettings.apiKey || ''}" placeholder="sk-..." style="width: 100%; padding: 8px; border: 1px solid #e2e8f0; border-radius: 4px;">
+                <span style="display: block; margin-bottom: 4px;">Claude API Key</span>
+                <small id="api-key-status" style="color: #64748b;"></small>
               </div>
               
               <div>
-                <label for="model-name" style="display: block; margin-bottom: 4px;">Model</label>
-                <select id="model-name" style="width: 100%; padding: 8px; border: 1px solid #e2e8f0; border-radius: 4px;">
-                  <option value="claude-3-haiku-20240307" ${this.settings?.apiSettings.modelName === 'claude-3-haiku-20240307' ? 'selected' : ''}>Claude 3 Haiku</option>
-                  <option value="claude-3-sonnet-20240229" ${this.settings?.apiSettings.modelName === 'claude-3-sonnet-20240229' ? 'selected' : ''}>Claude 3 Sonnet</option>
-                  <option value="claude-3-opus-20240229" ${this.settings?.apiSettings.modelName === 'claude-3-opus-20240229' ? 'selected' : ''}>Claude 3 Opus</option>
-                </select>
+                <label for="model-name" style="display: block; margin-bottom: 4px;">Default Model</label>
+                <select id="model-name" style="width: 100%; padding: 8px; border: 1px solid #e2e8f0; border-radius: 4px;"></select>
+                <small style="color: #64748b;">Profiles and the model list are managed on the extension options page.</small>
               </div>
             </div>
           </section>
@@ -272,6 +294,15 @@ export class SettingsUI {
             this.resetSettings();
         });
 
+        this.populateProfileSelect(panel);
+        this.populateApiFields(panel);
+
+        // Set with DOM APIs because the template is user input
+        const templateInput = panel.querySelector<HTMLInputElement>('#filename-template');
+        if (templateInput) {
+            templateInput.value = this.settings?.filenameTemplate ?? DEFAULT_SETTINGS.filenameTemplate;
+        }
+
         // Prevent clicks inside panel from closing
         panel.addEventListener('click', (e) => {
             e.stopPropagation();
@@ -294,7 +325,13 @@ export class SettingsUI {
             // Get values from form elements
             const stitchArtifacts = (document.getElementById('stitch-artifacts') as HTMLInputElement)?.checked ?? this.settings.stitchArtifacts;
             const flatStructure = (document.getElementById('flat-structure') as HTMLInputElement)?.checked ?? this.settings.flatFileStructure;
-            const includeTimestamp = (document.getElementById('include-timestamp') as HTMLInputElement)?.checked ?? this.settings.includeTimestampInFilename;
+            const filenameTemplate = (document.getElementById('filename-template') as HTMLInputElement)?.value.trim() ?? this.settings.filenameTemplate;
+
+            const templateErrors = FilenameTemplate.validate(filenameTemplate, 'filename');
+            if (templateErrors.length) {
+                this.bannerService.showError(`Filename template: ${templateErrors[0]}`);
+                return;
+            }
 
             // Editor settings
             const editorTheme = (document.getElementById('editor-theme') as HTMLSelectElement)?.value as 'vs' | 'vs-dark' | 'hc-black';
@@ -305,15 +342,15 @@ export class SettingsUI {
 
             // API settings
             const enableApi = (document.getElementById('enable-api') as HTMLInputElement)?.checked ?? this.settings.apiSettings.enableApiContinuation;
-            const apiKey = (document.getElementById('api-key') as HTMLInputElement)?.value || '';
-            const modelName = (document.getElementById('model-name') as HTMLSelectElement)?.value || this.settings.apiSettings.modelName;
+            const activeProfile = ApiProfileResolver.getProfile(this.settings.apiSettings);
+            const modelName = (document.getElementById('model-name') as HTMLSelectElement)?.value || activeProfile.defaultModel;
 
             // Update settings
             const updatedSettings: ArtifactSettings = {
                 ...this.settings,
                 stitchArtifacts,
                 flatFileStructure: flatStructure,
-                includeTimestampInFilename: includeTimestamp,
+                filenameTemplate,
                 editorSettings: {
                     ...this.settings.editorSettings,
                     theme: editorTheme,
@@ -325,8 +362,9 @@ export class SettingsUI {
                 apiSettings: {
                     ...this.settings.apiSettings,
                     enableApiContinuation: enableApi,
-                    apiKey,
-                    modelName
+                    apiProfiles: this.settings.apiSettings.apiProfiles.map(profile => profile.id === activeProfile.id
+                        ? { ...profile, defaultModel: modelName }
+                        : profile)
                 }
             };
 
@@ -351,6 +389,95 @@ export class SettingsUI {
         }
     }
 
+    /**
+     * Fill the profile switcher with saved profile names
+     */
+    private populateProfileSelect(panel: HTMLElement): void {
+        const select = panel.querySelector<HTMLSelectElement>('#settings-profile');
+        if (!select) return;
+
+        // Built with DOM APIs because profile names are user input
+        this.profiles.names.forEach(name => {
+            const option = document.createElement('option');
+            option.value = name;
+            option.textContent = name;
+            option.selected = name === this.profiles.active;
+            select.appendChild(option);
+        });
+
+        select.disabled = this.profiles.names.length === 0;
+        select.addEventListener('change', () => {
+            if (select.value) {
+                this.switchProfile(select.value);
+            }
+        });
+    }
+
+    /**
+     * Fill the API key status and model for the active API profile
+     * Keys are only entered on the options page, since this page's scripts could read the field.
+     */
+    private populateApiFields(panel: HTMLElement): void {
+        if (!this.settings) return;
+
+        const apiSettings = this.settings.apiSettings;
+        const activeProfile = ApiProfileResolver.getProfile(apiSettings);
+        const keyStatus = panel.querySelector<HTMLElement>('#api-key-status');
+        const modelSelect = panel.querySelector<HTMLSelectElement>('#model-name');
+
+        if (keyStatus) {
+            const hasKey = this.secretStatus?.names.includes(SecretNames.apiKey(activeProfile.id)) ?? false;
+            const state = this.secretStatus?.locked ? 'Locked' : hasKey ? 'Saved' : 'Not set';
+            keyStatus.textContent = `${state} for ${activeProfile.name}. Enter and unlock keys on the extension options page.`;
+        }
+
+        // Built with DOM APIs because catalog entries are user input
+        apiSettings.modelCatalog.forEach(model => {
+            modelSelect?.add(new Option(model.label, model.id, false, model.id === activeProfile.defaultModel));
+        });
+
+        // Keep a default model that has since been removed from the catalog
+        if (modelSelect && modelSelect.value !== activeProfile.defaultModel) {
+            modelSelect.add(new Option(activeProfile.defaultModel, activeProfile.defaultModel, false, true));
+        }
+    }
+
+    /**
+     * Switch to another settings profile
+     */
+    private async switchProfile(name: string): Promise<void> {
+        try {
+            const response = await this.messageService.sendMessage({
+                action: 'switchSettingsProfile',
+                name
+            });
+
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to switch profile');
+            }
+
+            this.settings = response.data;
+            this.bannerService.showSuccess(`Switched to profile "${name}"`);
+
+            // Hide and recreate panel to show updated values
+            if (this.settingsPanel && this.settingsPanel.parentNode) {
+                this.settingsPanel.parentNode.removeChild(this.settingsPanel);
+            }
+            this.settingsPanel = null;
+            this.isVisible = false;
+
+            // Show settings again
+            this.show();
+        } catch (error) {
+            this.logger.error('SettingsUI: Error switching profile', error);
+            this.bannerService.showError(error instanceof Error ? error.message : 'Failed to switch profile');
+
+            // Show the profile that is still active
+            const select = this.settingsPanel?.querySelector<HTMLSelectElement>('#settings-profile');
+            if (select) select.value = this.profiles.active ?? '';
+        }
+    }
+
     /**
      * Reset settings to defaults
      */
@@ -0,0 +1,153 @@
+import {ConversationMessage, ConversationReply} from '../../shared/models/messages';
+import {ApiTargetSelection} from '../../shared/models/settings';
+import {ActiveConversationStream, ConversationStreamClient} from '../events/conversationStreamClient';
+
+/**
+ * How a streamed reply ended
+ */
+export type StreamingReplyOutcome =
+    | { status: 'done'; reply: ConversationReply }
+    | { status: 'cancelled'; text: string }
+    | { status: 'error'; error: string };
+
+/**
+ * A reply bubble that renders text as it streams in, with a button to stop generating
+ * Created once per reply; the element can be placed anywhere, such as a chat panel.
+ */
+export class StreamingReplyView {
+    private readonly streamClient = ConversationStreamClient.getInstance();
+
+    readonly element: HTMLElement;
+    private readonly textElement: HTMLElement;
+    private readonly statusElement: HTMLElement;
+    private readonly cancelButton: HTMLButtonElement;
+    private stream: ActiveConversationStream | null = null;
+    private pendingText = '';
+    private frameRequested = false;
+
+    constructor() {
+        this.element = document.createElement('div');
+        this.element.className = 'claude-helper-streaming-reply';
+        Object.assign(this.element.style, {
+            padding: '10px 12px',
+            borderRadius: '8px',
+            backgroundColor: '#f3f4f6',
+            color: '#111827',
+            fontSize: '14px',
+            lineHeight: '1.5'
+        });
+
+        this.textElement = document.createElement('div');
+        Object.assign(this.textElement.style, {
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word'
+        });
+
+        const footer = document.createElement('div');
+        Object.assign(footer.style, {
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '8px',
+            marginTop: '8px'
+        });
+
+        this.statusElement = document.createElement('span');
+        Object.assign(this.statusElement.style, {
+            fontSize: '12px',
+            color: '#6b7280'
+        });
+
+        this.cancelButton = document.createElement('button');
+        this.cancelButton.textContent = 'Stop';
+        Object.assign(this.cancelButton.style, {
+            padding: '4px 10px',
+            border: '1px solid #d1d5db',
+            borderRadius: '4px',
+            backgroundColor: '#ffffff',
+            fontSize: '12px',
+            cursor: 'pointer'
+        });
+        this.cancelButton.addEventListener('click', () => this.cancel());
+
+        footer.appendChild(this.statusElement);
+        footer.appendChild(this.cancelButton);
+        this.element.appendChild(this.textElement);
+        this.element.appendChild(footer);
+    }
+
+    /**
+     * Stream a reply into the view, resolving when it finishes, is cancelled or fails
+     * @param selection Profile and model to use instead of the defaults
+     */
+    public start(
+        conversationHistory: ConversationMessage[],
+        prompt: string,
+        selection: ApiTargetSelection = {}
+    ): Promise<StreamingReplyOutcome> {
+        this.setStatus('Generating…', true);
+
+        return new Promise(resolve => {
+            this.stream = this.streamClient.start(conversationHistory, prompt, selection, {
+                onDelta: text => this.appendText(text),
+                onDone: reply => {
+                    this.flushText();
+                    this.setStatus(reply.stopReason === 'max_tokens' ? 'Stopped at the token limit' : '', false);
+                    resolve({ status: 'done', reply });
+                },
+                onCancelled: text => {
+                    this.flushText();
+                    this.setStatus('Stopped', false);
+                    resolve({ status: 'cancelled', text });
+                },
+                onError: error => {
+                    this.flushText();
+                    this.setStatus(`Error: ${error}`, false);
+                    this.statusElement.style.color = '#b91c1c';
+                    resolve({ status: 'error', error });
+                }
+            });
+        });
+    }
+
+    /**
+     * Stop generating; the text received so far stays visible
+     */
+    public cancel(): void {
+        this.cancelButton.disabled = true;
+        this.stream?.cancel();
+    }
+
+    /**
+     * Queue text and draw it on the next frame so fast streams don't thrash layout
+     */
+    private appendText(text: string): void {
+        this.pendingText += text;
+
+        if (!this.frameRequested) {
+            this.frameRequested = true;
+            requestAnimationFrame(() => this.flushText());
+        }
+    }
+
+    /**
+     * Draw any queued text
+     */
+    private flushText(): void {
+        this.frameRequested = false;
+
+        if (this.pendingText) {
+            this.textElement.appendChild(document.createTextNode(this.pendingText));
+            this.pendingText = '';
+        }
+    }
+
+    /**
+     * Update the status line and whether the stop button is shown
+     */
+    private setStatus(text: string, streaming: boolean): void {
+        this.statusElement.textContent = text;
+        this.cancelButton.style.display = streaming ? 'inline-block' : 'none';
+        this.cancelButton.disabled = !streaming;
+    }
+}
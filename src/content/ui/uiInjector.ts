@@ -1,7 +1,10 @@
 import { LoggerService } from '@/shared/services/loggerService.ts';
 import { BannerService } from './bannerService';
 import { MessageService } from '../events/messageService';
+import { SettingsUI } from './settingsUI';
+import { ChatPanel } from './chatPanel';
 import { ArtifactExtractor } from '@/shared/utils/artifactExtractor.ts';
+import { DomAdapterRegistry } from '@/shared/adapters/domAdapterRegistry.ts';
 
 /**
  * Service responsible for injecting custom UI elements into Claude's interface
@@ -11,21 +14,18 @@ export class UiInjector {
     private readonly logger = LoggerService.getInstance();
     private readonly bannerService = BannerService.getInstance();
     private readonly messageService = MessageService.getInstance();
+    private readonly settingsUI = SettingsUI.getInstance();
+    private readonly chatPanel = ChatPanel.getInstance();
+    private readonly adapterRegistry = DomAdapterRegistry.getInstance();
 
     private observer: MutationObserver | null = null;
     private downloadButton: HTMLButtonElement | null = null;
     private settingsButton: HTMLButtonElement | null = null;
+    private libraryButton: HTMLButtonElement | null = null;
+    private chatButton: HTMLButtonElement | null = null;
     private headerContainer: HTMLElement | null = null;
     private isInitialized = false;
 
-    // Selectors for Claude's interface
-    private readonly SELECTORS = {
-        HEADER: '.claude-header',
-        CONTROLS: '.claude-controls',
-        ARTIFACT_CONTAINER: '.antml-artifact-container',
-        CONVERSATION_CONTAINER: '.conversation-container'
-    };
-
     private constructor() {
         // Private constructor for singleton pattern
     }
@@ -102,7 +102,7 @@ export class UiInjector {
     private checkAndInjectElements(): void {
         // Try to find the Claude header if we don't already have it
         if (!this.headerContainer) {
-            this.headerContainer = document.querySelector(this.SELECTORS.HEADER);
+            this.headerContainer = this.adapterRegistry.getAdapter().findHeader();
         }
 
         // If we found the header, inject our buttons
@@ -115,7 +115,9 @@ export class UiInjector {
      * Inject custom buttons into Claude's header
      */
     private injectButtons(): void {
-        const controlsContainer = this.headerContainer?.querySelector(this.SELECTORS.CONTROLS);
+        const controlsContainer = this.headerContainer
+            ? this.adapterRegistry.getAdapter().findControls(this.headerContainer)
+            : null;
 
         if (!controlsContainer) {
             this.logger.warn('UiInjector: Could not find controls container');
@@ -133,6 +135,14 @@ export class UiInjector {
         this.downloadButton = this.createDownloadButton();
         buttonContainer.appendChild(this.downloadButton);
 
+        // Create library button
+        this.libraryButton = this.createLibraryButton();
+        buttonContainer.appendChild(this.libraryButton);
+
+        // Create API chat button
+        this.chatButton = this.createChatButton();
+        buttonContainer.appendChild(this.chatButton);
+
         // Create settings button
         this.settingsButton = this.createSettingsButton();
         buttonContainer.appendChild(this.settingsButton);
@@ -196,6 +206,105 @@ export class UiInjector {
         return button;
     }
 
+    /**
+     * Create the library button
+     */
+    private createLibraryButton(): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'claude-library-button';
+        button.title = 'Open the artifact library';
+        button.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"></path>
+        <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"></path>
+      </svg>
+    `;
+
+        // Add styling
+        Object.assign(button.style, {
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '6px',
+            borderRadius: '4px',
+            border: '1px solid #e2e8f0',
+            backgroundColor: '#f8fafc',
+            color: '#334155',
+            cursor: 'pointer',
+            transition: 'all 0.2s ease'
+        });
+
+        // Add hover effect
+        button.addEventListener('mouseover', () => {
+            Object.assign(button.style, {
+                backgroundColor: '#f1f5f9',
+                borderColor: '#cbd5e1'
+            });
+        });
+
+        button.addEventListener('mouseout', () => {
+            Object.assign(button.style, {
+                backgroundColor: '#f8fafc',
+                borderColor: '#e2e8f0'
+            });
+        });
+
+        // Add click handler
+        button.addEventListener('click', this.handleLibraryClick.bind(this));
+
+        return button;
+    }
+
+    /**
+     * Create the API chat button
+     */
+    private createChatButton(): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'claude-chat-button';
+        button.title = 'Continue this conversation via the Claude API';
+        button.innerHTML = `
+      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+        <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path>
+      </svg>
+    `;
+
+        // Add styling
+        Object.assign(button.style, {
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            padding: '6px',
+            borderRadius: '4px',
+            border: '1px solid #e2e8f0',
+            backgroundColor: '#f8fafc',
+            color: '#334155',
+            cursor: 'pointer',
+            transition: 'all 0.2s ease'
+        });
+
+        // Add hover effect
+        button.addEventListener('mouseover', () => {
+            Object.assign(button.style, {
+                backgroundColor: '#f1f5f9',
+                borderColor: '#cbd5e1'
+            });
+        });
+
+        button.addEventListener('mouseout', () => {
+            Object.assign(button.style, {
+                backgroundColor: '#f8fafc',
+                borderColor: '#e2e8f0'
+            });
+        });
+
+        // Add click handler
+        button.addEventListener('click', this.handleChatClick.bind(this));
+
+        return button;
+    }
+
     /**
      * Create the settings button
      */
@@ -266,7 +375,7 @@ export class UiInjector {
       `;
 
             // Extract artifacts from the DOM
-            const container = document.querySelector(this.SELECTORS.CONVERSATION_CONTAINER);
+            const container = this.adapterRegistry.getAdapter().findConversationContainer();
             if (!container) {
                 throw new Error('Conversation container not found');
             }
@@ -276,7 +385,7 @@ export class UiInjector {
             const settings = response.success ? response.data : null;
 
             // Extract and process artifacts
-            const artifacts = ArtifactExtractor.extractArtifactsFromDOM(this.SELECTORS.CONVERSATION_CONTAINER);
+            const artifacts = ArtifactExtractor.extractArtifactsFromDOM();
 
             if (artifacts.length === 0) {
                 this.bannerService.showInfo('No artifacts found in this conversation');
@@ -317,13 +426,41 @@ export class UiInjector {
         }
     }
 
+    /**
+     * Handle library button click
+     */
+    private async handleLibraryClick(): Promise<void> {
+        try {
+            // Extension pages can only be opened from the background script
+            const response = await this.messageService.sendMessage({ action: 'openLibrary' });
+
+            if (!response.success) {
+                throw new Error(response.error || 'Failed to open library');
+            }
+        } catch (error) {
+            this.logger.error('UiInjector: Library error', error);
+            this.bannerService.showError('Failed to open artifact library');
+        }
+    }
+
+    /**
+     * Handle API chat button click
+     */
+    private async handleChatClick(): Promise<void> {
+        if (this.chatPanel.isOpen()) {
+            this.chatPanel.close();
+        } else {
+            await this.chatPanel.open();
+        }
+    }
+
     /**
      * Handle settings button click
      */
     private async handleSettingsClick(): Promise<void> {
         try {
-            // Show settings UI (this will be handled by its own component)
-            await this.messageService.sendMessage({ action: 'showSettings' });
+            // The settings panel lives in this page, so open it directly
+            await this.settingsUI.show();
         } catch (error) {
             this.logger.error('UiInjector: Settings error', error);
             this.bannerService.showError('Failed to open settings');
@@ -452,6 +589,7 @@ export class UiInjector {
         // Reset state
         this.downloadButton = null;
         this.settingsButton = null;
+        this.libraryButton = null;
         this.headerContainer = null;
     }
 
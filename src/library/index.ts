@@ -0,0 +1,405 @@
+import {ArtifactState, ArtifactType} from '../shared/models/artifact';
+import {SettingsState} from '../shared/models/settings';
+import {MessageClient} from '../shared/services/messageClient';
+import {StorageService} from '../shared/services/storageService';
+import {ArtifactSearch, ArtifactSearchFilters, ArtifactSearchResult} from '../shared/utils/artifactSearch';
+import {MonacoService} from '../content/editor/monacoService';
+
+/**
+ * Library page listing every artifact captured across conversations
+ */
+class LibraryPage {
+    private readonly storageService = StorageService.getInstance();
+    private readonly monacoService = MonacoService.getInstance();
+    private readonly messageClient = MessageClient.getInstance();
+
+    private artifacts: ArtifactState[] = [];
+    private results: ArtifactSearchResult[] = [];
+    private selectedIds = new Set<string>();
+    private activeId: string | null = null;
+    private settings: SettingsState | null = null;
+    private editor: monaco.editor.IStandaloneCodeEditor | null = null;
+    private searchTimeout: number | null = null;
+    private messageTimeout: number | null = null;
+
+    constructor() {
+        document.addEventListener('DOMContentLoaded', this.init.bind(this));
+    }
+
+    /**
+     * Initialize the library page
+     */
+    private async init(): Promise<void> {
+        try {
+            this.settings = await this.storageService.getSettings();
+
+            // Load stored artifacts
+            await this.loadArtifacts();
+
+            // Set up event listeners
+            this.setupEventListeners();
+
+            // Fill filter dropdowns from what is stored
+            this.populateFilters();
+
+            this.applyFilters();
+        } catch (error) {
+            console.error('Error initializing library page:', error);
+            this.showMessage('Failed to load artifacts', 'error');
+        }
+    }
+
+    /**
+     * Load every stored artifact
+     */
+    private async loadArtifacts(): Promise<void> {
+        this.artifacts = await this.storageService.getArtifacts();
+    }
+
+    /**
+     * Set up event listeners for filters and toolbar
+     */
+    private setupEventListeners(): void {
+        // Debounce typing so large libraries stay responsive
+        document.getElementById('searchQuery')?.addEventListener('input', () => {
+            if (this.searchTimeout) {
+                clearTimeout(this.searchTimeout);
+            }
+            this.searchTimeout = window.setTimeout(() => this.applyFilters(), 200);
+        });
+
+        ['typeFilter', 'languageFilter', 'conversationFilter', 'dateFrom', 'dateTo'].forEach(id => {
+            document.getElementById(id)?.addEventListener('change', () => this.applyFilters());
+        });
+
+        document.getElementById('selectAllBtn')?.addEventListener('click', this.handleSelectAll.bind(this));
+        document.getElementById('downloadSelectedBtn')?.addEventListener('click', this.handleDownloadSelected.bind(this));
+    }
+
+    /**
+     * Populate filter dropdowns with the values present in the library
+     */
+    private populateFilters(): void {
+        this.fillSelect('typeFilter', ArtifactSearch.getDistinctValues(this.artifacts, 'type'));
+        this.fillSelect('languageFilter', ArtifactSearch.getDistinctValues(this.artifacts, 'language'));
+        this.fillSelect('conversationFilter', ArtifactSearch.getDistinctValues(this.artifacts, 'conversationId'));
+    }
+
+    /**
+     * Run the search with the current filter values and re-render
+     */
+    private applyFilters(): void {
+        const filters: ArtifactSearchFilters = {
+            query: this.getInputValue('searchQuery'),
+            type: this.getInputValue('typeFilter') as ArtifactType | '',
+            language: this.getInputValue('languageFilter'),
+            conversationId: this.getInputValue('conversationFilter'),
+            dateFrom: this.getDateValue('dateFrom', false),
+            dateTo: this.getDateValue('dateTo', true)
+        };
+
+        this.results = ArtifactSearch.search(this.artifacts, filters);
+        this.renderResults();
+    }
+
+    /**
+     * Render the result list
+     */
+    private renderResults(): void {
+        const list = document.getElementById('results');
+        if (!list) return;
+
+        list.innerHTML = '';
+
+        const count = document.getElementById('resultCount');
+        if (count) {
+            count.textContent = `${this.results.length} of ${this.artifacts.length} artifacts`;
+        }
+
+        if (this.results.length === 0) {
+            const empty = document.createElement('li');
+            empty.className = 'empty';
+            empty.textContent = this.artifacts.length === 0
+                ? 'No artifacts captured yet. Open a Claude conversation with artifacts to fill the library.'
+                : 'No artifacts match your search.';
+            list.appendChild(empty);
+        }
+
+        this.results.forEach(result => {
+            list.appendChild(this.createResultItem(result));
+        });
+
+        this.updateToolbar();
+    }
+
+    /**
+     * Create a list item for one search result
+     */
+    private createResultItem(result: ArtifactSearchResult): HTMLElement {
+        const { artifact } = result;
+
+        const item = document.createElement('li');
+        item.className = 'result';
+        item.classList.toggle('active', artifact.id === this.activeId);
+
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = this.selectedIds.has(artifact.id);
+        checkbox.addEventListener('change', () => {
+            if (checkbox.checked) {
+                this.selectedIds.add(artifact.id);
+            } else {
+                this.selectedIds.delete(artifact.id);
+            }
+            this.updateToolbar();
+        });
+
+        const body = document.createElement('div');
+        body.className = 'result-body';
+
+        const title = document.createElement('p');
+        title.className = 'result-title';
+        title.textContent = artifact.title;
+
+        const meta = document.createElement('div');
+        meta.className = 'result-meta';
+        meta.textContent = [
+            artifact.type,
+            artifact.language,
+            artifact.timestamp.toLocaleString(),
+            artifact.conversationId ? `conversation ${artifact.conversationId}` : ''
+        ].filter(Boolean).join(' · ');
+
+        const snippet = document.createElement('div');
+        snippet.className = 'result-snippet';
+        snippet.textContent = result.snippet;
+
+        body.appendChild(title);
+        body.appendChild(meta);
+        body.appendChild(snippet);
+
+        const actions = document.createElement('div');
+        actions.className = 'result-actions';
+
+        const openButton = document.createElement('button');
+        openButton.textContent = 'Open';
+        openButton.addEventListener('click', () => this.openArtifact(artifact));
+
+        const downloadButton = document.createElement('button');
+        downloadButton.className = 'secondary';
+        downloadButton.textContent = 'Download';
+        downloadButton.addEventListener('click', () => this.downloadArtifact(artifact));
+
+        actions.appendChild(openButton);
+        actions.appendChild(downloadButton);
+
+        item.appendChild(checkbox);
+        item.appendChild(body);
+        item.appendChild(actions);
+        return item;
+    }
+
+    /**
+     * Open an artifact in the read-only Monaco viewer
+     */
+    private async openArtifact(artifact: ArtifactState): Promise<void> {
+        try {
+            await this.monacoService.ensureMonacoLoaded();
+
+            const host = document.getElementById('viewer-editor');
+            if (!host) return;
+
+            if (this.editor) {
+                this.monacoService.disposeEditor(this.editor);
+                this.editor = null;
+            }
+
+            const editorSettings = this.settings?.editorSettings;
+            this.editor = this.monacoService.createEditor(host, {
+                value: artifact.content,
+                language: this.getEditorLanguage(artifact),
+                theme: editorSettings?.theme,
+                fontSize: editorSettings?.fontSize,
+                wordWrap: editorSettings?.wordWrap,
+                readOnly: true
+            });
+
+            const title = document.getElementById('viewer-title');
+            if (title) {
+                title.textContent = artifact.title;
+            }
+
+            this.activeId = artifact.id;
+            this.renderResults();
+        } catch (error) {
+            console.error('Error opening artifact:', error);
+            this.showMessage('Failed to open artifact', 'error');
+        }
+    }
+
+    /**
+     * Download a single artifact through the background, which applies edits and the export settings
+     */
+    private async downloadArtifact(artifact: ArtifactState): Promise<void> {
+        try {
+            const result = await this.messageClient.send({
+                action: 'downloadSingleArtifact',
+                artifact: artifact.toObject()
+            });
+
+            if (!result.success) {
+                throw new Error(result.error || 'Download failed');
+            }
+
+            const { filename, count } = result.data;
+            this.showMessage(count > 1 ? `Downloaded ${filename} and ${count - 1} more` : `Downloaded ${filename}`, 'success');
+        } catch (error) {
+            console.error('Error downloading artifact:', error);
+            this.showMessage('Failed to download artifact', 'error');
+        }
+    }
+
+    /**
+     * Handle select all button click (toggles between all and none of the visible results)
+     */
+    private handleSelectAll(): void {
+        const visibleIds = this.results.map(result => result.artifact.id);
+        const allSelected = visibleIds.length > 0 && visibleIds.every(id => this.selectedIds.has(id));
+
+        visibleIds.forEach(id => {
+            if (allSelected) {
+                this.selectedIds.delete(id);
+            } else {
+                this.selectedIds.add(id);
+            }
+        });
+
+        this.renderResults();
+    }
+
+    /**
+     * Handle download selected button click
+     */
+    private async handleDownloadSelected(): Promise<void> {
+        const selected = this.artifacts.filter(artifact => this.selectedIds.has(artifact.id));
+        if (selected.length === 0) {
+            return;
+        }
+
+        try {
+            const result = await this.messageClient.send({
+                action: 'downloadArtifacts',
+                artifacts: selected.map(artifact => artifact.toObject()),
+                options: {
+                    stitchArtifacts: false,
+                    flatStructure: this.settings?.flatFileStructure || false
+                }
+            });
+
+            if (!result.success) {
+                throw new Error(result.error || 'Download failed');
+            }
+
+            this.showMessage(`Downloaded ${result.data.count} artifacts`, 'success');
+        } catch (error) {
+            console.error('Error downloading artifacts:', error);
+            this.showMessage('Failed to download artifacts', 'error');
+        }
+    }
+
+    /**
+     * Update toolbar buttons for the current selection
+     */
+    private updateToolbar(): void {
+        const downloadButton = document.getElementById('downloadSelectedBtn') as HTMLButtonElement | null;
+        if (downloadButton) {
+            downloadButton.disabled = this.selectedIds.size === 0;
+            downloadButton.textContent = this.selectedIds.size > 0
+                ? `Download selected (${this.selectedIds.size})`
+                : 'Download selected';
+        }
+    }
+
+    /**
+     * Pick the Monaco language for an artifact
+     */
+    private getEditorLanguage(artifact: ArtifactState): string {
+        if (artifact.language) {
+            return artifact.language;
+        }
+
+        switch (artifact.type) {
+            case ArtifactType.SVG:
+                return 'xml';
+            case ArtifactType.HTML:
+                return 'html';
+            case ArtifactType.MARKDOWN:
+                return 'markdown';
+            case ArtifactType.REACT:
+                return 'javascript';
+            default:
+                return 'plaintext';
+        }
+    }
+
+    /**
+     * Show a message on the page
+     */
+    private showMessage(text: string, type: 'success' | 'error'): void {
+        const container = document.getElementById('message-container');
+        if (!container) return;
+
+        // Clear any existing timeout
+        if (this.messageTimeout) {
+            clearTimeout(this.messageTimeout);
+        }
+
+        // Update container
+        container.textContent = text;
+        container.className = `message ${type}`;
+        container.classList.remove('hidden');
+
+        // Hide after delay
+        this.messageTimeout = window.setTimeout(() => {
+            container.classList.add('hidden');
+        }, 3000);
+    }
+
+    /**
+     * Helper: Append options to a select, keeping its first "all" option
+     */
+    private fillSelect(id: string, values: string[]): void {
+        const element = document.getElementById(id) as HTMLSelectElement;
+        if (!element) return;
+
+        values.forEach(value => {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = value;
+            element.appendChild(option);
+        });
+    }
+
+    /**
+     * Helper: Get input or select value
+     */
+    private getInputValue(id: string): string {
+        const element = document.getElementById(id) as HTMLInputElement | HTMLSelectElement;
+        return element ? element.value : '';
+    }
+
+    /**
+     * Helper: Get a date input as the start or end of that day
+     */
+    private getDateValue(id: string, endOfDay: boolean): Date | null {
+        const value = this.getInputValue(id);
+        if (!value) {
+            return null;
+        }
+
+        return new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+    }
+}
+
+// Initialize the library page
+new LibraryPage();
@@ -0,0 +1,56 @@
+import {
+    OFFSCREEN_MESSAGE_SCHEMAS,
+    OFFSCREEN_MESSAGE_TARGET,
+    OffscreenMessages,
+    OffscreenRequest
+} from '../shared/models/messages';
+import {RenderedDiagram} from '../shared/models/diagram';
+import {MessageDispatcher} from '../shared/services/messageDispatcher';
+import {MermaidRenderer} from '../shared/utils/mermaidRenderer';
+import {SvgProcessor} from '../shared/utils/svgProcessor';
+
+/**
+ * Offscreen document doing DOM work for the background script, which has no document
+ * The background script creates it when a download needs diagrams rendered and closes
+ * it again once it has been idle for a while.
+ */
+class OffscreenDocument {
+    private readonly dispatcher = new MessageDispatcher<OffscreenMessages>('OffscreenDocument', OFFSCREEN_MESSAGE_SCHEMAS);
+
+    constructor() {
+        this.dispatcher.register('renderMermaid', this.handleRenderMermaid.bind(this));
+        this.dispatcher.register('renderSvgPng', this.handleRenderSvgPng.bind(this));
+        this.dispatcher.register('optimizeSvg', this.handleOptimizeSvg.bind(this));
+
+        chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+            // Everything else on the runtime channel is for the background script
+            if (message?.target !== OFFSCREEN_MESSAGE_TARGET) return false;
+            return this.dispatcher.handleMessage(message, sender, sendResponse);
+        });
+    }
+
+    /**
+     * Render a Mermaid diagram to SVG and PNG
+     */
+    private async handleRenderMermaid(message: OffscreenRequest<'renderMermaid'>): Promise<RenderedDiagram> {
+        const svg = await MermaidRenderer.renderSvg(message.source);
+        const pngDataUrl = await MermaidRenderer.renderPng(svg);
+        return { svg, pngDataUrl };
+    }
+
+    /**
+     * Rasterize an SVG to PNG at a multiple of its size
+     */
+    private async handleRenderSvgPng(message: OffscreenRequest<'renderSvgPng'>): Promise<{ pngDataUrl: string }> {
+        return { pngDataUrl: await SvgProcessor.renderPng(message.svg, message.scale) };
+    }
+
+    /**
+     * Optimize an SVG with SVGO, which the background script can't load
+     */
+    private async handleOptimizeSvg(message: OffscreenRequest<'optimizeSvg'>): Promise<{ svg: string }> {
+        return { svg: await SvgProcessor.optimize(message.svg) };
+    }
+}
+
+new OffscreenDocument();
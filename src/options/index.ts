@@ -1,11 +1,42 @@
-import {ArtifactSettings, DEFAULT_SETTINGS} from '../shared/models/settings';
+import {
+    ApiProfile,
+    ArtifactSettings,
+    ContextStrategy,
+    DEFAULT_SETTINGS,
+    MarkdownExportMode,
+    MermaidExportMode,
+    ModelInfo,
+    SettingsState,
+    SvgPngExportMode
+} from '../shared/models/settings';
+import {ArtifactStore} from '../shared/services/artifactStore';
+import {StorageService} from '../shared/services/storageService';
+import {SecretStore} from '../shared/services/secretStore';
+import {SecretNames, SecretStatus, SecretValues} from '../shared/models/secrets';
+import {SettingsImportPreview, SettingsTransfer} from '../shared/utils/settingsTransfer';
+import {TokenEstimator} from '../shared/utils/tokenEstimator';
+import {ApiProfileResolver} from '../shared/utils/apiProfileResolver';
+import {SpendTotals} from '../shared/models/modelPricing';
+import {Artifact, ArtifactType} from '../shared/models/artifact';
+import {FilenameTemplate} from '../shared/utils/filenameTemplate';
 
 /**
  * Options page script for the Claude Artifacts Helper extension
  */
 class OptionsPage {
-    private settings: ArtifactSettings = DEFAULT_SETTINGS;
+    private settings: ArtifactSettings = this.createDefaultSettings();
     private messageTimeout: number | null = null;
+    private readonly artifactStore = ArtifactStore.getInstance();
+    private readonly storageService = StorageService.getInstance();
+    private readonly secretStore = SecretStore.getInstance();
+    private pendingImport: SettingsImportPreview | null = null;
+
+    // API profile shown in the profile form
+    private editingApiProfileId: string | null = null;
+
+    // Decrypted secrets being edited, empty while the store is locked
+    private secrets: SecretValues = {};
+    private secretStatus: SecretStatus = { encrypted: false, locked: false, names: [] };
 
     constructor() {
         document.addEventListener('DOMContentLoaded', this.init.bind(this));
@@ -19,12 +50,27 @@ class OptionsPage {
             // Load settings
             await this.loadSettings();
 
+            // Load API keys, unless they are locked
+            await this.loadSecrets();
+
             // Set up event listeners
             this.setupEventListeners();
 
             // Set form values from settings
             this.populateFormValues();
 
+            // Show saved profiles
+            await this.populateProfiles();
+
+            // Show how much space the library uses
+            await this.updateLibraryUsage();
+
+            // Show what API continuation has cost so far
+            await this.updateSpendSummary();
+
+            // Surface problems found while migrating stored settings
+            await this.showSettingsReport();
+
             // Show success message
             this.showMessage('Settings loaded successfully', 'success');
         } catch (error) {
@@ -35,32 +81,55 @@ class OptionsPage {
 
     /**
      * Load settings from Chrome storage
+     * The storage service migrates and validates them, and saves defaults if none exist.
      */
     private async loadSettings(): Promise<void> {
         try {
-            const result = await chrome.storage.local.get('settings');
-
-            if (result.settings) {
-                this.settings = result.settings;
-            } else {
-                // If no settings found, use defaults
-                this.settings = DEFAULT_SETTINGS;
-
-                // Save default settings
-                await this.saveSettings();
-            }
+            const settings = await this.storageService.getSettings();
+            this.settings = settings.toObject();
         } catch (error) {
             console.error('Error loading settings:', error);
             throw error;
         }
     }
 
+    /**
+     * Load the secret store's status and, when unlocked, the secrets themselves
+     */
+    private async loadSecrets(): Promise<void> {
+        try {
+            this.secretStatus = await this.secretStore.getStatus();
+            this.secrets = this.secretStatus.locked ? {} : await this.secretStore.getAll();
+        } catch (error) {
+            console.error('Error loading API keys:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Save the edited secrets, removing any that were cleared
+     * Nothing is saved while the store is locked, since the form couldn't show the secrets.
+     */
+    private async saveSecrets(): Promise<void> {
+        if (this.secretStatus.locked) return;
+
+        const updates: SecretValues = { ...this.secrets };
+        this.secretStatus.names
+            .filter(name => !(name in this.secrets))
+            .forEach(name => {
+                updates[name] = '';
+            });
+
+        await this.secretStore.setMany(updates);
+        this.secretStatus = await this.secretStore.getStatus();
+    }
+
     /**
      * Save settings to Chrome storage
      */
     private async saveSettings(): Promise<void> {
         try {
-            await chrome.storage.local.set({ settings: this.settings });
+            await this.storageService.saveSettings(this.settings);
         } catch (error) {
             console.error('Error saving settings:', error);
             throw error;
@@ -76,6 +145,49 @@ class OptionsPage {
 
         // Reset button
         document.getElementById('resetBtn')?.addEventListener('click', this.handleReset.bind(this));
+
+        // Clear library button
+        document.getElementById('clearLibraryBtn')?.addEventListener('click', this.handleClearLibrary.bind(this));
+
+        // API profiles and model catalog
+        document.getElementById('apiProfileSelect')?.addEventListener('change', this.handleSelectApiProfile.bind(this));
+        document.getElementById('addApiProfileBtn')?.addEventListener('click', this.handleAddApiProfile.bind(this));
+        document.getElementById('defaultApiProfileBtn')?.addEventListener('click', this.handleMakeDefaultApiProfile.bind(this));
+        document.getElementById('deleteApiProfileBtn')?.addEventListener('click', this.handleDeleteApiProfile.bind(this));
+        document.getElementById('addModelBtn')?.addEventListener('click', this.handleAddModel.bind(this));
+
+        // API key protection
+        document.getElementById('unlockSecretsBtn')?.addEventListener('click', this.handleUnlockSecrets.bind(this));
+        document.getElementById('lockSecretsBtn')?.addEventListener('click', this.handleLockSecrets.bind(this));
+        document.getElementById('encryptSecretsBtn')?.addEventListener('click', this.handleEncryptSecrets.bind(this));
+        document.getElementById('decryptSecretsBtn')?.addEventListener('click', this.handleDecryptSecrets.bind(this));
+        document.getElementById('forgetSecretsBtn')?.addEventListener('click', this.handleForgetSecrets.bind(this));
+
+        // Filename template preview
+        ['filenameTemplate', 'folderTemplate', 'maxFilenameLength'].forEach(id => {
+            document.getElementById(id)?.addEventListener('input', this.updateFilenameTemplatePreview.bind(this));
+        });
+        ['replaceInvalidChars', 'flatFileStructure'].forEach(id => {
+            document.getElementById(id)?.addEventListener('change', this.updateFilenameTemplatePreview.bind(this));
+        });
+        this.renderFilenameTemplateTokens();
+
+        // Clear spend button
+        document.getElementById('clearSpendBtn')?.addEventListener('click', this.handleClearSpend.bind(this));
+
+        // Profiles
+        document.getElementById('profileSelect')?.addEventListener('change', this.handleSwitchProfile.bind(this));
+        document.getElementById('saveProfileBtn')?.addEventListener('click', this.handleSaveProfile.bind(this));
+        document.getElementById('deleteProfileBtn')?.addEventListener('click', this.handleDeleteProfile.bind(this));
+
+        // Import and export
+        document.getElementById('exportSettingsBtn')?.addEventListener('click', this.handleExport.bind(this));
+        document.getElementById('importSettingsBtn')?.addEventListener('click', () => {
+            document.getElementById('importSettingsFile')?.click();
+        });
+        document.getElementById('importSettingsFile')?.addEventListener('change', this.handleImportFile.bind(this));
+        document.getElementById('applyImportBtn')?.addEventListener('click', this.handleApplyImport.bind(this));
+        document.getElementById('cancelImportBtn')?.addEventListener('click', this.hideImportPreview.bind(this));
     }
 
     /**
@@ -85,9 +197,18 @@ class OptionsPage {
         // Artifact settings
         this.setCheckboxValue('stitchArtifacts', this.settings.stitchArtifacts);
         this.setCheckboxValue('flatFileStructure', this.settings.flatFileStructure);
-        this.setCheckboxValue('includeTimestampInFilename', this.settings.includeTimestampInFilename);
+        this.setInputValue('filenameTemplate', this.settings.filenameTemplate);
+        this.setInputValue('folderTemplate', this.settings.folderTemplate);
         this.setCheckboxValue('replaceInvalidChars', this.settings.replaceInvalidChars);
         this.setInputValue('maxFilenameLength', this.settings.maxFilenameLength.toString());
+        this.setSelectValue('mermaidExport', this.settings.mermaidExport);
+        this.setSelectValue('markdownExport', this.settings.markdownExport);
+        this.setCheckboxValue('optimizeSvg', this.settings.optimizeSvg);
+        this.setSelectValue('svgPngExport', this.settings.svgPngExport);
+        this.updateFilenameTemplatePreview();
+
+        // Library settings
+        this.setInputValue('maxLibrarySizeMb', (this.settings.maxLibrarySizeMb ?? DEFAULT_SETTINGS.maxLibrarySizeMb).toString());
 
         // Editor settings
         this.setSelectValue('editorTheme', this.settings.editorSettings.theme);
@@ -101,11 +222,14 @@ class OptionsPage {
 
         // API settings
         this.setCheckboxValue('enableApiContinuation', this.settings.apiSettings.enableApiContinuation);
-        this.setInputValue('apiKey', this.settings.apiSettings.apiKey);
-        this.setInputValue('apiEndpoint', this.settings.apiSettings.apiEndpoint);
-        this.setSelectValue('modelName', this.settings.apiSettings.modelName);
+        this.renderModelCatalog();
+        this.renderApiProfiles();
+        this.renderSecretStatus();
         this.setInputValue('maxTokens', this.settings.apiSettings.maxTokens.toString());
         this.setInputValue('temperature', this.settings.apiSettings.temperature.toString());
+        this.setInputValue('systemPrompt', this.settings.apiSettings.systemPrompt);
+        this.setSelectValue('contextStrategy', this.settings.apiSettings.contextStrategy);
+        this.setInputValue('keepLastTurns', this.settings.apiSettings.keepLastTurns.toString());
 
         // UI settings
         this.setCheckboxValue('showNotifications', this.settings.uiSettings.showNotifications);
@@ -118,11 +242,28 @@ class OptionsPage {
      */
     private async handleSave(): Promise<void> {
         try {
+            // Don't save templates that would name files wrongly
+            const templateErrors = this.getFilenameTemplateErrors();
+            if (templateErrors.length) {
+                this.showMessage(templateErrors[0], 'error');
+                return;
+            }
+
             // Update settings from form values
             this.updateSettingsFromForm();
 
-            // Save settings
+            // Asked first, while the click still counts as a user gesture
+            if (!await this.requestApiHostPermissions()) {
+                return;
+            }
+
+            // Save settings, then the API keys kept apart from them
             await this.saveSettings();
+            await this.saveSecrets();
+
+            // Apply a lowered size cap right away
+            await this.artifactStore.evict(this.getLibraryMaxBytes());
+            await this.updateLibraryUsage();
 
             // Show success message
             this.showMessage('Settings saved successfully', 'success');
@@ -139,7 +280,7 @@ class OptionsPage {
         if (confirm('Are you sure you want to reset all settings to defaults?')) {
             try {
                 // Reset to defaults
-                this.settings = DEFAULT_SETTINGS;
+                this.settings = this.createDefaultSettings();
 
                 // Save settings
                 await this.saveSettings();
@@ -156,6 +297,467 @@ class OptionsPage {
         }
     }
 
+    /**
+     * Fill the profile dropdown with saved profiles
+     */
+    private async populateProfiles(): Promise<void> {
+        const select = document.getElementById('profileSelect') as HTMLSelectElement;
+        if (!select) return;
+
+        const profiles = await this.storageService.getSettingsProfiles();
+
+        // Keep only the "No profile" option before re-adding names
+        while (select.options.length > 1) {
+            select.remove(1);
+        }
+
+        Object.keys(profiles.profiles).sort().forEach(name => {
+            const option = document.createElement('option');
+            option.value = name;
+            option.textContent = name;
+            select.appendChild(option);
+        });
+
+        select.value = profiles.active ?? '';
+    }
+
+    /**
+     * Handle profile dropdown change
+     */
+    private async handleSwitchProfile(): Promise<void> {
+        const name = this.getSelectValue('profileSelect');
+        if (!name) return;
+
+        try {
+            // The profile's API profiles may use hosts that haven't been granted yet
+            const profileSettings = await this.storageService.getSettingsProfile(name);
+            if (profileSettings && !await this.requestApiHostPermissions(profileSettings)) {
+                await this.populateProfiles();
+                return;
+            }
+
+            const settings = await this.storageService.switchSettingsProfile(name);
+            this.settings = settings.toObject();
+
+            // Profiles saved by earlier versions bring their own API keys
+            await this.loadSecrets();
+            this.populateFormValues();
+            this.showMessage(`Switched to profile "${name}"`, 'success');
+        } catch (error) {
+            console.error('Error switching profile:', error);
+            this.showMessage('Failed to switch profile', 'error');
+        }
+    }
+
+    /**
+     * Handle save as profile button click
+     */
+    private async handleSaveProfile(): Promise<void> {
+        const name = this.getInputValue('newProfileName').trim();
+        if (!name) {
+            this.showMessage('Enter a profile name', 'error');
+            return;
+        }
+
+        try {
+            // Save what is on the form, not what was last saved
+            this.updateSettingsFromForm();
+            await this.storageService.saveSettingsProfile(name, this.settings);
+            await this.saveSettings();
+
+            this.setInputValue('newProfileName', '');
+            await this.populateProfiles();
+            this.showMessage(`Saved profile "${name}"`, 'success');
+        } catch (error) {
+            console.error('Error saving profile:', error);
+            this.showMessage('Failed to save profile', 'error');
+        }
+    }
+
+    /**
+     * Handle delete profile button click
+     */
+    private async handleDeleteProfile(): Promise<void> {
+        const name = this.getSelectValue('profileSelect');
+        if (!name) {
+            this.showMessage('Select a profile to delete', 'error');
+            return;
+        }
+
+        if (confirm(`Delete profile "${name}"? Your current settings are kept.`)) {
+            try {
+                await this.storageService.deleteSettingsProfile(name);
+                await this.populateProfiles();
+                this.showMessage(`Deleted profile "${name}"`, 'success');
+            } catch (error) {
+                console.error('Error deleting profile:', error);
+                this.showMessage('Failed to delete profile', 'error');
+            }
+        }
+    }
+
+    /**
+     * Handle export button click
+     */
+    private handleExport(): void {
+        try {
+            const includeSecrets = this.getCheckboxValue('exportIncludeSecrets');
+            if (includeSecrets && this.secretStatus.locked) {
+                this.showMessage('Unlock your API keys to include them in the export', 'error');
+                return;
+            }
+
+            const json = SettingsTransfer.toJson(this.settings, includeSecrets ? this.secrets : null);
+            const profile = this.getSelectValue('profileSelect');
+
+            const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `claude-artifacts-settings${profile ? `-${profile.replace(/[^a-z0-9-_]+/gi, '-')}` : ''}.json`;
+            link.click();
+
+            setTimeout(() => URL.revokeObjectURL(url), 60000);
+        } catch (error) {
+            console.error('Error exporting settings:', error);
+            this.showMessage('Failed to export settings', 'error');
+        }
+    }
+
+    /**
+     * Handle import file selection by showing what would change
+     */
+    private async handleImportFile(event: Event): Promise<void> {
+        const input = event.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+
+        try {
+            const json = await file.text();
+            this.pendingImport = SettingsTransfer.previewImport(json, this.settings, this.secrets);
+            this.showImportPreview(this.pendingImport);
+        } catch (error) {
+            console.error('Error reading settings file:', error);
+            this.showMessage(error instanceof Error ? error.message : 'Failed to read settings file', 'error');
+        }
+    }
+
+    /**
+     * Show the changes an import would make
+     */
+    private showImportPreview(preview: SettingsImportPreview): void {
+        const container = document.getElementById('importPreview');
+        const summary = document.getElementById('importSummary');
+        const list = document.getElementById('importChanges');
+        if (!container || !summary || !list) return;
+
+        summary.textContent = preview.changes.length === 0
+            ? 'This file matches your current settings'
+            : `Importing will change ${preview.changes.length} settings`;
+
+        list.innerHTML = '';
+        preview.changes.forEach(change => {
+            const item = document.createElement('li');
+            item.textContent = SettingsTransfer.describeChange(change);
+            list.appendChild(item);
+        });
+
+        if (preview.failure) {
+            const item = document.createElement('li');
+            item.textContent = `Warning: migration to version ${preview.failure.version} failed (${preview.failure.error})`;
+            list.appendChild(item);
+        }
+
+        preview.repairs.forEach(repair => {
+            const item = document.createElement('li');
+            item.textContent = `Repaired: ${repair}`;
+            list.appendChild(item);
+        });
+
+        (document.getElementById('applyImportBtn') as HTMLButtonElement).disabled = preview.changes.length === 0;
+        container.classList.remove('hidden');
+    }
+
+    /**
+     * Hide the import preview and discard the pending import
+     */
+    private hideImportPreview(): void {
+        this.pendingImport = null;
+        document.getElementById('importPreview')?.classList.add('hidden');
+    }
+
+    /**
+     * Handle apply import button click
+     */
+    private async handleApplyImport(): Promise<void> {
+        if (!this.pendingImport) return;
+
+        const secrets = this.pendingImport.secrets;
+        if (Object.keys(secrets).length > 0 && this.secretStatus.locked) {
+            this.showMessage('Unlock your API keys before importing a file that contains them', 'error');
+            return;
+        }
+
+        try {
+            if (!await this.requestApiHostPermissions(this.pendingImport.settings)) {
+                return;
+            }
+
+            this.settings = this.pendingImport.settings;
+            await this.saveSettings();
+
+            // Secrets missing from the file keep their current values
+            this.secrets = { ...this.secrets, ...secrets };
+            await this.saveSecrets();
+            this.populateFormValues();
+            this.hideImportPreview();
+            this.showMessage('Settings imported successfully', 'success');
+        } catch (error) {
+            console.error('Error importing settings:', error);
+            this.showMessage('Failed to import settings', 'error');
+        }
+    }
+
+    /**
+     * Show the report from the last settings load, if it found problems
+     */
+    private async showSettingsReport(): Promise<void> {
+        const container = document.getElementById('settings-report');
+        const report = await this.storageService.getSettingsReport();
+        if (!container || !report) return;
+
+        container.innerHTML = '';
+
+        const heading = document.createElement('strong');
+        heading.textContent = report.failure
+            ? `Settings migration to version ${report.failure.version} failed: ${report.failure.error}. `
+                + 'Your previous settings were backed up and the values below were repaired.'
+            : 'Some stored settings were invalid and have been repaired:';
+        container.appendChild(heading);
+
+        const list = document.createElement('ul');
+        report.repairs.forEach(repair => {
+            const item = document.createElement('li');
+            item.textContent = repair;
+            list.appendChild(item);
+        });
+        container.appendChild(list);
+
+        const dismissButton = document.createElement('button');
+        dismissButton.className = 'secondary';
+        dismissButton.textContent = 'Dismiss';
+        dismissButton.addEventListener('click', async () => {
+            await this.storageService.clearSettingsReport();
+            container.classList.add('hidden');
+        });
+        container.appendChild(dismissButton);
+
+        container.classList.remove('hidden');
+    }
+
+    /**
+     * Handle clear library button click
+     */
+    private async handleClearLibrary(): Promise<void> {
+        if (confirm('Remove every artifact and edit from the library? This cannot be undone.')) {
+            try {
+                await this.artifactStore.clear();
+                await this.updateLibraryUsage();
+                this.showMessage('Library cleared', 'success');
+            } catch (error) {
+                console.error('Error clearing library:', error);
+                this.showMessage('Failed to clear library', 'error');
+            }
+        }
+    }
+
+    /**
+     * Show current library usage against the size cap
+     */
+    private async updateLibraryUsage(): Promise<void> {
+        const element = document.getElementById('libraryUsage');
+        if (!element) return;
+
+        try {
+            const usage = await this.artifactStore.getUsage(this.getLibraryMaxBytes());
+            const percent = usage.maxBytes > 0 ? Math.round((usage.bytes / usage.maxBytes) * 100) : 0;
+
+            element.textContent = `${usage.artifactCount} artifacts and ${usage.editCount} edits using `
+                + `${this.formatBytes(usage.bytes)} of ${this.formatBytes(usage.maxBytes)} (${percent}%)`;
+        } catch (error) {
+            console.error('Error reading library usage:', error);
+            element.textContent = 'Library usage unavailable';
+        }
+    }
+
+    /**
+     * Show API spend overall, this month, and per model
+     */
+    private async updateSpendSummary(): Promise<void> {
+        const summary = document.getElementById('spendSummary');
+        const list = document.getElementById('spendByModel');
+        if (!summary || !list) return;
+
+        try {
+            const ledger = await this.storageService.getSpendLedger();
+            list.innerHTML = '';
+
+            if (ledger.length === 0) {
+                summary.textContent = 'No API usage recorded yet';
+                return;
+            }
+
+            const monthStart = new Date();
+            monthStart.setDate(1);
+            monthStart.setHours(0, 0, 0, 0);
+
+            const total = TokenEstimator.totalSpend(ledger);
+            const thisMonth = TokenEstimator.totalSpend(ledger.filter(entry => new Date(entry.timestamp) >= monthStart));
+            summary.textContent = `${this.describeSpend(total)} since ${new Date(ledger[0].timestamp).toLocaleDateString()}; `
+                + `${TokenEstimator.formatCost(thisMonth.cost)} this month`;
+
+            const models = Array.from(new Set(ledger.map(entry => entry.model))).sort();
+            models.forEach(model => {
+                const item = document.createElement('li');
+                item.textContent = `${model}: ${this.describeSpend(TokenEstimator.totalSpend(ledger.filter(entry => entry.model === model)))}`;
+                list.appendChild(item);
+            });
+        } catch (error) {
+            console.error('Error reading API spend:', error);
+            summary.textContent = 'API spend unavailable';
+        }
+    }
+
+    /**
+     * Helper: Describe spend totals in one line
+     */
+    private describeSpend(totals: SpendTotals): string {
+        const unpriced = totals.unpricedRequests > 0 ? ` (${totals.unpricedRequests} requests had no known price)` : '';
+
+        return `${TokenEstimator.formatCost(totals.cost)} across ${totals.requests} requests, `
+            + `${totals.inputTokens.toLocaleString()} input and ${totals.outputTokens.toLocaleString()} output tokens${unpriced}`;
+    }
+
+    /**
+     * Handle clear spend history button click
+     */
+    private async handleClearSpend(): Promise<void> {
+        if (confirm('Clear the recorded API usage and spend?')) {
+            try {
+                await this.storageService.clearSpendLedger();
+                await this.updateSpendSummary();
+                this.showMessage('Spend history cleared', 'success');
+            } catch (error) {
+                console.error('Error clearing spend history:', error);
+                this.showMessage('Failed to clear spend history', 'error');
+            }
+        }
+    }
+
+    /**
+     * Get the library size cap in bytes
+     */
+    private getLibraryMaxBytes(): number {
+        return (this.settings.maxLibrarySizeMb ?? DEFAULT_SETTINGS.maxLibrarySizeMb) * 1024 * 1024;
+    }
+
+    /**
+     * Helper: Format a byte count for display
+     */
+    private formatBytes(bytes: number): string {
+        if (bytes < 1024) {
+            return `${bytes} B`;
+        }
+        if (bytes < 1024 * 1024) {
+            return `${(bytes / 1024).toFixed(1)} KB`;
+        }
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+
+    /**
+     * Validate the filename and folder templates in the form
+     */
+    private getFilenameTemplateErrors(): string[] {
+        return [
+            ...FilenameTemplate.validate(this.getInputValue('folderTemplate').trim(), 'folder')
+                .map(error => `Folder template: ${error}`),
+            ...FilenameTemplate.validate(this.getInputValue('filenameTemplate').trim(), 'filename')
+                .map(error => `Filename template: ${error}`)
+        ];
+    }
+
+    /**
+     * Show where an example artifact would be saved with the templates in the form, or what's wrong with them
+     */
+    private updateFilenameTemplatePreview(): void {
+        const errorBox = document.getElementById('filenameTemplateErrors');
+        const preview = document.getElementById('filenameTemplatePreview');
+        const warningList = document.getElementById('filenameTemplateWarnings');
+        if (!errorBox || !preview || !warningList) return;
+
+        const errors = this.getFilenameTemplateErrors();
+        errorBox.textContent = errors.join('\n');
+        errorBox.classList.toggle('hidden', errors.length === 0);
+        warningList.innerHTML = '';
+
+        if (errors.length) {
+            preview.textContent = '';
+            return;
+        }
+
+        const { path, warnings } = FilenameTemplate.preview(
+            this.getInputValue('filenameTemplate').trim(),
+            this.getCheckboxValue('flatFileStructure') ? '' : this.getInputValue('folderTemplate').trim(),
+            this.createSampleArtifact(),
+            {
+                replaceInvalidChars: this.getCheckboxValue('replaceInvalidChars'),
+                maxFilenameLength: Math.min(Math.max(this.getNumberValue('maxFilenameLength', 255), 10), 255)
+            }
+        );
+
+        preview.textContent = path;
+        warnings.forEach(warning => {
+            const item = document.createElement('li');
+            item.textContent = warning;
+            warningList.appendChild(item);
+        });
+    }
+
+    /**
+     * List the tokens templates can use
+     */
+    private renderFilenameTemplateTokens(): void {
+        const table = document.getElementById('filenameTemplateTokens') as HTMLTableElement | null;
+        if (!table) return;
+
+        FilenameTemplate.TOKENS.forEach(token => {
+            const row = table.insertRow();
+            const name = document.createElement('code');
+            name.textContent = `{${token.name}}`;
+            row.insertCell().appendChild(name);
+            row.insertCell().textContent = token.description;
+        });
+    }
+
+    /**
+     * Artifact the template preview is rendered for
+     */
+    private createSampleArtifact(): Artifact {
+        return {
+            id: 'artifact-example',
+            title: 'Todo list component',
+            type: ArtifactType.CODE,
+            content: 'export function TodoList() {}',
+            language: 'typescript',
+            timestamp: new Date(),
+            conversationId: '4f9e2c1a-7b3d-4e8f-9a6b-2c5d8e1f0a3b',
+            conversationTitle: 'Building a todo app',
+            messageIndex: 2,
+            position: 0,
+            version: 2
+        };
+    }
+
     /**
      * Update settings object from form values
      */
@@ -163,9 +765,17 @@ class OptionsPage {
         // Artifact settings
         this.settings.stitchArtifacts = this.getCheckboxValue('stitchArtifacts');
         this.settings.flatFileStructure = this.getCheckboxValue('flatFileStructure');
-        this.settings.includeTimestampInFilename = this.getCheckboxValue('includeTimestampInFilename');
+        this.settings.filenameTemplate = this.getInputValue('filenameTemplate').trim();
+        this.settings.folderTemplate = this.getInputValue('folderTemplate').trim();
         this.settings.replaceInvalidChars = this.getCheckboxValue('replaceInvalidChars');
         this.settings.maxFilenameLength = this.getNumberValue('maxFilenameLength', 255);
+        this.settings.mermaidExport = this.getSelectValue('mermaidExport') as MermaidExportMode;
+        this.settings.markdownExport = this.getSelectValue('markdownExport') as MarkdownExportMode;
+        this.settings.optimizeSvg = this.getCheckboxValue('optimizeSvg');
+        this.settings.svgPngExport = this.getSelectValue('svgPngExport') as SvgPngExportMode;
+
+        // Library settings
+        this.settings.maxLibrarySizeMb = this.getNumberValue('maxLibrarySizeMb', DEFAULT_SETTINGS.maxLibrarySizeMb);
 
         // Editor settings
         this.settings.editorSettings.theme = this.getSelectValue('editorTheme') as 'vs' | 'vs-dark' | 'hc-black';
@@ -179,11 +789,13 @@ class OptionsPage {
 
         // API settings
         this.settings.apiSettings.enableApiContinuation = this.getCheckboxValue('enableApiContinuation');
-        this.settings.apiSettings.apiKey = this.getInputValue('apiKey');
-        this.settings.apiSettings.apiEndpoint = this.getInputValue('apiEndpoint');
-        this.settings.apiSettings.modelName = this.getSelectValue('modelName');
+        this.readModelCatalog();
+        this.readApiProfileForm();
         this.settings.apiSettings.maxTokens = this.getNumberValue('maxTokens', 4000);
         this.settings.apiSettings.temperature = this.getNumberValue('temperature', 0.7, true);
+        this.settings.apiSettings.systemPrompt = this.getInputValue('systemPrompt');
+        this.settings.apiSettings.contextStrategy = this.getSelectValue('contextStrategy') as ContextStrategy;
+        this.settings.apiSettings.keepLastTurns = this.getNumberValue('keepLastTurns', 10);
 
         // UI settings
         this.settings.uiSettings.showNotifications = this.getCheckboxValue('showNotifications');
@@ -191,6 +803,422 @@ class OptionsPage {
         this.settings.uiSettings.darkMode = this.getCheckboxValue('darkMode');
     }
 
+    /**
+     * Fill the API profile picker and show the profile being edited
+     */
+    private renderApiProfiles(): void {
+        const select = document.getElementById('apiProfileSelect') as HTMLSelectElement | null;
+        if (!select) return;
+
+        const apiSettings = this.settings.apiSettings;
+        if (!apiSettings.apiProfiles.some(profile => profile.id === this.editingApiProfileId)) {
+            this.editingApiProfileId = ApiProfileResolver.getProfile(apiSettings).id;
+        }
+
+        // Built with DOM APIs because profile names are user input
+        select.innerHTML = '';
+        apiSettings.apiProfiles.forEach(profile => {
+            const label = profile.id === apiSettings.activeApiProfileId ? `${profile.name} (default)` : profile.name;
+            select.add(new Option(label, profile.id, false, profile.id === this.editingApiProfileId));
+        });
+
+        const profile = this.getEditingApiProfile();
+        if (!profile) return;
+
+        this.setInputValue('apiProfileName', profile.name);
+        this.setInputValue('apiProfileBaseUrl', profile.baseUrl);
+        this.setInputValue('apiKey', this.secrets[SecretNames.apiKey(profile.id)] ?? '');
+        this.setInputValue('apiProfileHeaders', Object.entries(profile.headers)
+            .map(([name, value]) => `${name}: ${value}`)
+            .join('\n'));
+
+        const modelSelect = document.getElementById('apiProfileModel') as HTMLSelectElement | null;
+        if (modelSelect) {
+            modelSelect.innerHTML = '';
+            apiSettings.modelCatalog.forEach(model => modelSelect.add(new Option(model.label, model.id)));
+
+            // Keep a default model that has since been removed from the catalog
+            if (!apiSettings.modelCatalog.some(model => model.id === profile.defaultModel)) {
+                modelSelect.add(new Option(profile.defaultModel, profile.defaultModel));
+            }
+            modelSelect.value = profile.defaultModel;
+        }
+
+        (document.getElementById('deleteApiProfileBtn') as HTMLButtonElement).disabled = apiSettings.apiProfiles.length <= 1;
+        (document.getElementById('defaultApiProfileBtn') as HTMLButtonElement).disabled =
+            profile.id === apiSettings.activeApiProfileId;
+    }
+
+    /**
+     * Copy the profile form back into the settings
+     */
+    private readApiProfileForm(): void {
+        const profile = this.getEditingApiProfile();
+        if (!profile) return;
+
+        const apiSettings = this.settings.apiSettings;
+        const updated: ApiProfile = {
+            ...profile,
+            name: this.getInputValue('apiProfileName').trim() || profile.name,
+            baseUrl: this.getInputValue('apiProfileBaseUrl').trim(),
+            headers: this.parseHeaders(this.getInputValue('apiProfileHeaders')),
+            defaultModel: this.getSelectValue('apiProfileModel') || profile.defaultModel
+        };
+
+        apiSettings.apiProfiles = apiSettings.apiProfiles.map(existing => existing.id === profile.id ? updated : existing);
+
+        // The key field is disabled and empty while the keys are locked
+        if (!this.secretStatus.locked) {
+            const apiKey = this.getInputValue('apiKey').trim();
+            if (apiKey) {
+                this.secrets[SecretNames.apiKey(profile.id)] = apiKey;
+            } else {
+                delete this.secrets[SecretNames.apiKey(profile.id)];
+            }
+        }
+    }
+
+    /**
+     * Handle picking another API profile to edit
+     */
+    private handleSelectApiProfile(): void {
+        this.readApiProfileForm();
+        this.editingApiProfileId = this.getSelectValue('apiProfileSelect');
+        this.renderApiProfiles();
+    }
+
+    /**
+     * Handle add API profile button click
+     */
+    private handleAddApiProfile(): void {
+        this.readApiProfileForm();
+
+        const apiSettings = this.settings.apiSettings;
+        const profile: ApiProfile = {
+            id: `profile-${Date.now().toString(36)}`,
+            name: 'New profile',
+            baseUrl: 'https://api.anthropic.com',
+            headers: {},
+            defaultModel: ApiProfileResolver.getProfile(apiSettings).defaultModel
+        };
+
+        apiSettings.apiProfiles = [...apiSettings.apiProfiles, profile];
+        this.editingApiProfileId = profile.id;
+        this.renderApiProfiles();
+        document.getElementById('apiProfileName')?.focus();
+    }
+
+    /**
+     * Handle make default API profile button click
+     */
+    private handleMakeDefaultApiProfile(): void {
+        this.readApiProfileForm();
+
+        if (this.editingApiProfileId) {
+            this.settings.apiSettings.activeApiProfileId = this.editingApiProfileId;
+            this.renderApiProfiles();
+        }
+    }
+
+    /**
+     * Handle delete API profile button click
+     */
+    private handleDeleteApiProfile(): void {
+        const profile = this.getEditingApiProfile();
+        const apiSettings = this.settings.apiSettings;
+        if (!profile || apiSettings.apiProfiles.length <= 1) return;
+
+        if (confirm(`Delete the "${profile.name}" API profile and its API key?`)) {
+            delete this.secrets[SecretNames.apiKey(profile.id)];
+
+            apiSettings.apiProfiles = apiSettings.apiProfiles.filter(existing => existing.id !== profile.id);
+            if (apiSettings.activeApiProfileId === profile.id) {
+                apiSettings.activeApiProfileId = apiSettings.apiProfiles[0].id;
+            }
+
+            this.editingApiProfileId = null;
+            this.renderApiProfiles();
+        }
+    }
+
+    /**
+     * Ask for access to the hosts of every API profile, so the service worker can reach them
+     * Access to api.anthropic.com is granted on install; Chrome only prompts for hosts not granted yet.
+     * @returns false, after showing an error, if the user refused
+     */
+    private async requestApiHostPermissions(settings: ArtifactSettings = this.settings): Promise<boolean> {
+        const origins = ApiProfileResolver.getHostPermissions(settings.apiSettings);
+        if (!origins.length) return true;
+
+        try {
+            if (await chrome.permissions.request({ origins })) {
+                return true;
+            }
+        } catch (error) {
+            console.error('Error requesting host permissions:', error);
+        }
+
+        this.showMessage(`Access to ${origins.join(', ')} was not granted, so API profiles using it would fail. `
+            + 'Allow access, or change the profile\'s base URL.', 'error');
+        return false;
+    }
+
+    /**
+     * Get the API profile shown in the profile form
+     */
+    private getEditingApiProfile(): ApiProfile | undefined {
+        return this.settings.apiSettings.apiProfiles.find(profile => profile.id === this.editingApiProfileId);
+    }
+
+    /**
+     * Show whether the API keys are encrypted and locked, and the buttons that apply
+     */
+    private renderSecretStatus(): void {
+        const { encrypted, locked } = this.secretStatus;
+        const status = document.getElementById('secretStatus');
+
+        if (status) {
+            status.textContent = !encrypted
+                ? 'API keys are stored unencrypted in this browser profile.'
+                : locked
+                    ? 'API keys are encrypted and locked. Enter your passphrase to use them in this browser session.'
+                    : 'API keys are encrypted and unlocked until the browser closes.';
+        }
+
+        const apiKeyInput = document.getElementById('apiKey') as HTMLInputElement | null;
+        if (apiKeyInput) {
+            apiKeyInput.disabled = locked;
+            apiKeyInput.placeholder = locked ? 'Locked - unlock below to view or change' : 'sk-...';
+        }
+
+        const encryptButton = document.getElementById('encryptSecretsBtn');
+        if (encryptButton) encryptButton.textContent = encrypted ? 'Change Passphrase' : 'Encrypt API Keys';
+
+        document.getElementById('secretPassphraseConfirmGroup')?.classList.toggle('hidden', locked);
+        document.getElementById('unlockSecretsBtn')?.classList.toggle('hidden', !locked);
+        document.getElementById('lockSecretsBtn')?.classList.toggle('hidden', !encrypted || locked);
+        document.getElementById('encryptSecretsBtn')?.classList.toggle('hidden', locked);
+        document.getElementById('decryptSecretsBtn')?.classList.toggle('hidden', !encrypted || locked);
+        document.getElementById('forgetSecretsBtn')?.classList.toggle('hidden', !locked);
+    }
+
+    /**
+     * Handle unlock button click
+     */
+    private async handleUnlockSecrets(): Promise<void> {
+        try {
+            await this.secretStore.unlock(this.getInputValue('secretPassphrase'));
+            await this.loadSecrets();
+            this.setInputValue('secretPassphrase', '');
+            this.renderApiProfiles();
+            this.renderSecretStatus();
+            this.showMessage('API keys unlocked', 'success');
+        } catch (error) {
+            console.error('Error unlocking API keys:', error);
+            this.showMessage(error instanceof Error ? error.message : 'Failed to unlock API keys', 'error');
+        }
+    }
+
+    /**
+     * Handle lock button click
+     * Unsaved key changes are saved first, since the form can't hold them while locked.
+     */
+    private async handleLockSecrets(): Promise<void> {
+        try {
+            this.readApiProfileForm();
+            await this.saveSecrets();
+            await this.secretStore.lock();
+            await this.loadSecrets();
+            this.renderApiProfiles();
+            this.renderSecretStatus();
+            this.showMessage('API keys locked', 'success');
+        } catch (error) {
+            console.error('Error locking API keys:', error);
+            this.showMessage('Failed to lock API keys', 'error');
+        }
+    }
+
+    /**
+     * Handle encrypt or change passphrase button click
+     */
+    private async handleEncryptSecrets(): Promise<void> {
+        const passphrase = this.getInputValue('secretPassphrase');
+
+        if (!passphrase) {
+            this.showMessage('Enter a passphrase', 'error');
+            return;
+        }
+        if (passphrase !== this.getInputValue('secretPassphraseConfirm')) {
+            this.showMessage('The passphrases do not match', 'error');
+            return;
+        }
+
+        try {
+            // Encrypt what's in the form, not only what was saved
+            this.readApiProfileForm();
+            await this.saveSecrets();
+            await this.secretStore.enableEncryption(passphrase);
+
+            this.secretStatus = await this.secretStore.getStatus();
+            this.setInputValue('secretPassphrase', '');
+            this.setInputValue('secretPassphraseConfirm', '');
+            this.renderSecretStatus();
+            this.showMessage('API keys encrypted. You will need the passphrase after restarting the browser.', 'success');
+        } catch (error) {
+            console.error('Error encrypting API keys:', error);
+            this.showMessage('Failed to encrypt API keys', 'error');
+        }
+    }
+
+    /**
+     * Handle remove passphrase button click
+     */
+    private async handleDecryptSecrets(): Promise<void> {
+        if (!confirm('Store your API keys without encryption?')) return;
+
+        try {
+            await this.secretStore.disableEncryption();
+            this.secretStatus = await this.secretStore.getStatus();
+            this.renderSecretStatus();
+            this.showMessage('API keys are no longer encrypted', 'success');
+        } catch (error) {
+            console.error('Error decrypting API keys:', error);
+            this.showMessage('Failed to remove the passphrase', 'error');
+        }
+    }
+
+    /**
+     * Handle forget API keys button click, for when the passphrase is lost
+     */
+    private async handleForgetSecrets(): Promise<void> {
+        if (!confirm('Delete all stored API keys? You will need to enter them again.')) return;
+
+        try {
+            await this.secretStore.clear();
+            await this.loadSecrets();
+            this.renderApiProfiles();
+            this.renderSecretStatus();
+            this.showMessage('API keys deleted', 'success');
+        } catch (error) {
+            console.error('Error deleting API keys:', error);
+            this.showMessage('Failed to delete API keys', 'error');
+        }
+    }
+
+    /**
+     * Fill the model catalog table
+     */
+    private renderModelCatalog(): void {
+        const body = document.querySelector('#modelCatalog tbody');
+        if (!body) return;
+
+        body.innerHTML = '';
+        this.settings.apiSettings.modelCatalog.forEach(model => body.appendChild(this.createModelRow(model)));
+    }
+
+    /**
+     * Build an editable table row for a model
+     */
+    private createModelRow(model: ModelInfo): HTMLTableRowElement {
+        const row = document.createElement('tr');
+
+        const cells: [keyof ModelInfo, string][] = [
+            ['id', 'text'],
+            ['label', 'text'],
+            ['contextWindow', 'number'],
+            ['maxOutputTokens', 'number']
+        ];
+        cells.forEach(([field, type]) => {
+            const input = document.createElement('input');
+            input.type = type;
+            input.dataset.field = field;
+            input.value = String(model[field]);
+            if (type === 'number') input.min = '1';
+
+            // Keep the default model pickers in step with the table
+            input.addEventListener('change', () => this.refreshModelOptions());
+
+            const cell = document.createElement('td');
+            cell.appendChild(input);
+            row.appendChild(cell);
+        });
+
+        const removeButton = document.createElement('button');
+        removeButton.className = 'secondary';
+        removeButton.textContent = 'Remove';
+        removeButton.addEventListener('click', () => {
+            row.remove();
+            this.refreshModelOptions();
+        });
+
+        const cell = document.createElement('td');
+        cell.appendChild(removeButton);
+        row.appendChild(cell);
+
+        return row;
+    }
+
+    /**
+     * Copy the model catalog table back into the settings
+     * Rows without a model ID are ignored.
+     */
+    private readModelCatalog(): void {
+        const body = document.querySelector('#modelCatalog tbody');
+        if (!body) return;
+
+        this.settings.apiSettings.modelCatalog = Array.from(body.querySelectorAll('tr'))
+            .map(row => {
+                const value = (field: keyof ModelInfo): string =>
+                    row.querySelector<HTMLInputElement>(`input[data-field="${field}"]`)?.value.trim() ?? '';
+                const id = value('id');
+
+                return {
+                    id,
+                    label: value('label') || id,
+                    contextWindow: parseInt(value('contextWindow'), 10) || 200000,
+                    maxOutputTokens: parseInt(value('maxOutputTokens'), 10) || 4096
+                };
+            })
+            .filter(model => model.id !== '');
+    }
+
+    /**
+     * Handle add model button click
+     */
+    private handleAddModel(): void {
+        const body = document.querySelector('#modelCatalog tbody');
+        if (!body) return;
+
+        const row = this.createModelRow({ id: '', label: '', contextWindow: 200000, maxOutputTokens: 4096 });
+        body.appendChild(row);
+        row.querySelector('input')?.focus();
+    }
+
+    /**
+     * Offer the edited catalog as default models
+     */
+    private refreshModelOptions(): void {
+        this.readModelCatalog();
+        this.readApiProfileForm();
+        this.renderApiProfiles();
+    }
+
+    /**
+     * Helper: Parse "Name: value" lines into headers
+     */
+    private parseHeaders(text: string): Record<string, string> {
+        const headers: Record<string, string> = {};
+
+        text.split('\n').forEach(line => {
+            const separator = line.indexOf(':');
+            if (separator > 0) {
+                headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+            }
+        });
+
+        return headers;
+    }
+
     /**
      * Show a message on the page
      */
@@ -214,6 +1242,13 @@ class OptionsPage {
         }, 3000);
     }
 
+    /**
+     * Helper: Create a fresh copy of the default settings
+     */
+    private createDefaultSettings(): ArtifactSettings {
+        return new SettingsState(DEFAULT_SETTINGS).toObject();
+    }
+
     /**
      * Helper: Set checkbox value
      */
@@ -1,21 +1,38 @@
 import { LoggerService } from '../shared/services/loggerService';
 import { MessageService } from '../content/events/messageService';
 import { BannerService } from '../content/ui/bannerService';
-import { ArtifactState } from '../shared/models/artifact';
+import { DiffViewer } from '../content/editor/diffViewer';
+import { ArtifactHistory, ArtifactState, VersionDownloadMode } from '../shared/models/artifact';
 import { ArtifactExtractor } from '../shared/utils/artifactExtractor';
+import { ArtifactHistoryBuilder } from '../shared/utils/artifactHistory';
+import { ProjectFile, ProjectPathSource } from '../shared/models/project';
+import { ProjectReconstructor } from '../shared/utils/projectReconstructor';
 
 /**
  * Popup UI for artifact selection and management
  */
 export class ArtifactPopup {
     private static instance: ArtifactPopup;
+    private static readonly PROJECT_SOURCE_LABELS: Record<ProjectPathSource, string> = {
+        header: 'path from header comment',
+        title: 'path from title',
+        import: 'placed where it is imported',
+        fallback: 'named after its title'
+    };
+
     private readonly logger = LoggerService.getInstance();
     private readonly messageService = MessageService.getInstance();
     private readonly bannerService = BannerService.getInstance();
+    private readonly diffViewer = DiffViewer.getInstance();
 
     private popupElement: HTMLElement | null = null;
-    private artifactList: ArtifactState[] = [];
+    private histories: ArtifactHistory[] = [];
     private selectedArtifacts: Set<string> = new Set();
+    private pickedVersions: Map<string, number> = new Map();
+    private versionMode: VersionDownloadMode = 'latest';
+    private projectFiles: ProjectFile[] = [];
+    private excludedProjectFiles: Set<string> = new Set();
+    private projectName = '';
     private isVisible = false;
 
     private constructor() {
@@ -53,10 +70,10 @@ export class ArtifactPopup {
         if (this.isVisible) return;
 
         try {
-            // Extract artifacts from the DOM
-            this.artifactList = ArtifactExtractor.extractArtifactsFromDOM();
+            // Extract artifacts from the DOM and link rewrites into histories
+            this.histories = ArtifactHistoryBuilder.build(ArtifactExtractor.extractArtifactsFromDOM());
 
-            if (this.artifactList.length === 0) {
+            if (this.histories.length === 0) {
                 this.bannerService.showInfo('No artifacts found in this conversation');
                 return;
             }
@@ -68,6 +85,7 @@ export class ArtifactPopup {
 
             // Update list of artifacts
             this.updateArtifactList();
+            this.setProjectViewVisible(false);
 
             // Show popup
             document.body.appendChild(this.popupElement!);
@@ -195,10 +213,17 @@ export class ArtifactPopup {
         listContainer.className = 'artifact-list';
         content.appendChild(listContainer);
 
+        // Add project view, shown in place of the list while a project is laid out
+        const projectView = document.createElement('div');
+        projectView.className = 'project-view';
+        projectView.style.display = 'none';
+        content.appendChild(projectView);
+
         popup.appendChild(content);
 
         // Add footer with actions
         const footer = document.createElement('div');
+        footer.className = 'popup-footer';
         Object.assign(footer.style, {
             padding: '16px 20px',
             borderTop: '1px solid #e2e8f0',
@@ -226,6 +251,29 @@ export class ArtifactPopup {
         selectAllContainer.appendChild(selectAllCheckbox);
         selectAllContainer.appendChild(selectAllLabel);
 
+        // Add version mode picker
+        const versionModeSelect = document.createElement('select');
+        versionModeSelect.id = 'artifact-version-mode';
+        versionModeSelect.title = 'Which versions to download';
+        versionModeSelect.innerHTML = `
+            <option value="latest">Latest version only</option>
+            <option value="all">All versions</option>
+            <option value="specific">Picked version</option>
+        `;
+        versionModeSelect.value = this.versionMode;
+        Object.assign(versionModeSelect.style, {
+            marginLeft: '16px',
+            padding: '4px 8px',
+            border: '1px solid #e2e8f0',
+            borderRadius: '4px'
+        });
+
+        versionModeSelect.addEventListener('change', () => {
+            this.versionMode = versionModeSelect.value as VersionDownloadMode;
+        });
+
+        selectAllContainer.appendChild(versionModeSelect);
+
         const actionsContainer = document.createElement('div');
         Object.assign(actionsContainer.style, {
             display: 'flex',
@@ -251,6 +299,26 @@ export class ArtifactPopup {
             this.downloadSelected();
         });
 
+        // Add download as project button
+        const projectButton = document.createElement('button');
+        projectButton.textContent = 'Download as Project';
+        projectButton.title = 'Lay the selected artifacts out as a project and download it';
+        projectButton.disabled = true;
+        Object.assign(projectButton.style, {
+            padding: '8px 16px',
+            backgroundColor: '#10b981',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontWeight: '500',
+            opacity: '0.5'
+        });
+
+        projectButton.addEventListener('click', () => {
+            this.showProjectView();
+        });
+
         // Add stitch and download button
         const stitchButton = document.createElement('button');
         stitchButton.textContent = 'Stitch & Download';
@@ -271,18 +339,21 @@ export class ArtifactPopup {
         });
 
         // Add event listener to update button state
-        const updateButtonState = () => {
+        const updateButtonState = (): void => {
             const hasSelection = this.selectedArtifacts.size > 0;
             downloadButton.disabled = !hasSelection;
+            projectButton.disabled = !hasSelection;
             stitchButton.disabled = !hasSelection || this.selectedArtifacts.size < 2;
 
             downloadButton.style.opacity = hasSelection ? '1' : '0.5';
+            projectButton.style.opacity = hasSelection ? '1' : '0.5';
             stitchButton.style.opacity = (hasSelection && this.selectedArtifacts.size >= 2) ? '1' : '0.5';
         };
 
         // Store update function for later use
         (this as any).updateButtonState = updateButtonState;
 
+        actionsContainer.appendChild(projectButton);
         actionsContainer.appendChild(stitchButton);
         actionsContainer.appendChild(downloadButton);
 
@@ -290,6 +361,7 @@ export class ArtifactPopup {
         footer.appendChild(actionsContainer);
 
         popup.appendChild(footer);
+        popup.appendChild(this.createProjectFooter());
 
         // Add backdrop
         const backdrop = document.createElement('div');
@@ -333,8 +405,13 @@ export class ArtifactPopup {
         // Clear existing list
         listContainer.innerHTML = '';
 
-        // Add each artifact
-        this.artifactList.forEach((artifact, index) => {
+        // Add each artifact history
+        this.histories.forEach((history, index) => {
+            const artifact = ArtifactHistoryBuilder.getVersion(
+                history,
+                this.pickedVersions.get(history.id) ?? history.versions.length
+            );
+
             const item = document.createElement('div');
             item.className = 'artifact-item';
             Object.assign(item.style, {
@@ -348,20 +425,20 @@ export class ArtifactPopup {
             // Add checkbox for selection
             const checkbox = document.createElement('input');
             checkbox.type = 'checkbox';
-            checkbox.id = `artifact-${artifact.id}`;
+            checkbox.id = `artifact-${history.id}`;
             checkbox.className = 'artifact-checkbox';
-            checkbox.checked = this.selectedArtifacts.has(artifact.id);
+            checkbox.checked = this.selectedArtifacts.has(history.id);
             checkbox.addEventListener('change', () => {
                 if (checkbox.checked) {
-                    this.selectedArtifacts.add(artifact.id);
+                    this.selectedArtifacts.add(history.id);
                 } else {
-                    this.selectedArtifacts.delete(artifact.id);
+                    this.selectedArtifacts.delete(history.id);
                 }
 
                 // Update select all checkbox
                 const selectAllCheckbox = document.getElementById('select-all-artifacts') as HTMLInputElement;
                 if (selectAllCheckbox) {
-                    selectAllCheckbox.checked = this.selectedArtifacts.size === this.artifactList.length;
+                    selectAllCheckbox.checked = this.selectedArtifacts.size === this.histories.length;
                 }
 
                 // Update button states
@@ -386,7 +463,9 @@ export class ArtifactPopup {
 
             const type = document.createElement('div');
             type.className = 'artifact-type';
-            type.textContent = `Type: ${artifact.type}${artifact.language ? ` (${artifact.language})` : ''}`;
+            const versionCount = history.versions.length;
+            type.textContent = `Type: ${artifact.type}${artifact.language ? ` (${artifact.language})` : ''}` +
+                (versionCount > 1 ? ` · ${versionCount} versions` : '');
             Object.assign(type.style, {
                 fontSize: '14px',
                 color: '#64748b'
@@ -395,6 +474,31 @@ export class ArtifactPopup {
             info.appendChild(title);
             info.appendChild(type);
 
+            // Add version picker when the artifact was rewritten
+            const versionSelect = document.createElement('select');
+            versionSelect.className = 'artifact-version-select';
+            versionSelect.title = 'Version';
+            history.versions.forEach(version => {
+                const option = document.createElement('option');
+                option.value = String(version.version);
+                option.textContent = version === ArtifactHistoryBuilder.getLatest(history)
+                    ? `v${version.version} (latest)`
+                    : `v${version.version}`;
+                versionSelect.appendChild(option);
+            });
+            versionSelect.value = String(artifact.version);
+            versionSelect.style.display = versionCount > 1 ? '' : 'none';
+            Object.assign(versionSelect.style, {
+                marginRight: '8px',
+                padding: '4px',
+                border: '1px solid #e2e8f0',
+                borderRadius: '4px'
+            });
+
+            versionSelect.addEventListener('change', () => {
+                this.pickedVersions.set(history.id, parseInt(versionSelect.value, 10));
+            });
+
             // Add download button
             const downloadBtn = document.createElement('button');
             downloadBtn.className = 'artifact-download-btn';
@@ -416,12 +520,35 @@ export class ArtifactPopup {
             });
 
             downloadBtn.addEventListener('click', () => {
-                this.downloadSingle(artifact);
+                this.downloadSingle(history);
+            });
+
+            // Add compare button for artifacts with several versions
+            const compareBtn = document.createElement('button');
+            compareBtn.className = 'artifact-compare-btn';
+            compareBtn.textContent = 'Compare';
+            compareBtn.title = 'Compare this version with the previous one';
+            compareBtn.style.display = versionCount > 1 ? '' : 'none';
+            Object.assign(compareBtn.style, {
+                marginRight: '8px',
+                padding: '4px 8px',
+                border: '1px solid #e2e8f0',
+                borderRadius: '4px',
+                backgroundColor: '#f8fafc',
+                color: '#334155',
+                cursor: 'pointer',
+                fontSize: '12px'
+            });
+
+            compareBtn.addEventListener('click', () => {
+                this.compareVersions(history);
             });
 
             // Add to item
             item.appendChild(checkbox);
             item.appendChild(info);
+            item.appendChild(versionSelect);
+            item.appendChild(compareBtn);
             item.appendChild(downloadBtn);
 
             // Add to list
@@ -437,8 +564,8 @@ export class ArtifactPopup {
         this.selectedArtifacts.clear();
 
         if (select) {
-            this.artifactList.forEach(artifact => {
-                this.selectedArtifacts.add(artifact.id);
+            this.histories.forEach(history => {
+                this.selectedArtifacts.add(history.id);
             });
         }
 
@@ -453,17 +580,25 @@ export class ArtifactPopup {
     }
 
     /**
-     * Download a single artifact
+     * Download the picked version of a single artifact
      */
-    private async downloadSingle(artifact: ArtifactState): Promise<void> {
+    private async downloadSingle(history: ArtifactHistory): Promise<void> {
         try {
+            const artifact = ArtifactHistoryBuilder.getVersion(
+                history,
+                this.pickedVersions.get(history.id) ?? history.versions.length
+            );
+
             const response = await this.messageService.sendMessage({
                 action: 'downloadSingleArtifact',
                 artifact: artifact.toObject()
             });
 
             if (response.success) {
-                this.bannerService.showSuccess(`Downloaded: ${response.data.filename}`);
+                const { filename, count } = response.data;
+                this.bannerService.showSuccess(count > 1
+                    ? `Downloaded: ${filename} and ${count - 1} more ${count === 2 ? 'file' : 'files'}`
+                    : `Downloaded: ${filename}`);
             } else {
                 throw new Error(response.error || 'Failed to download artifact');
             }
@@ -473,6 +608,34 @@ export class ArtifactPopup {
         }
     }
 
+    /**
+     * Open the diff viewer for the picked version and the one before it
+     * When the first version is picked it is compared with the latest instead.
+     */
+    private async compareVersions(history: ArtifactHistory): Promise<void> {
+        if (history.versions.length < 2) {
+            this.bannerService.showInfo('This artifact has only one version');
+            return;
+        }
+
+        const picked = ArtifactHistoryBuilder.getVersion(
+            history,
+            this.pickedVersions.get(history.id) ?? history.versions.length
+        );
+        const pickedIndex = history.versions.indexOf(picked);
+        const [older, newer] = pickedIndex > 0
+            ? [history.versions[pickedIndex - 1], picked]
+            : [picked, ArtifactHistoryBuilder.getLatest(history)];
+
+        await this.diffViewer.show({
+            title: `${history.title}: v${older.version} vs. v${newer.version}`,
+            language: newer.language || 'plaintext',
+            original: { label: `v${older.version}`, content: older.content },
+            modified: { label: `v${newer.version}`, content: newer.content },
+            artifact: newer.toObject()
+        });
+    }
+
     /**
      * Download selected artifacts
      */
@@ -483,10 +646,8 @@ export class ArtifactPopup {
                 return;
             }
 
-            // Filter artifacts to only selected ones
-            const selectedArtifacts = this.artifactList.filter(artifact =>
-                this.selectedArtifacts.has(artifact.id)
-            );
+            // Pick the versions of the selected artifacts to download
+            const selectedArtifacts = this.getSelectedVersions();
 
             // Get settings
             const response = await this.messageService.sendMessage({ action: 'getSettings' });
@@ -525,10 +686,8 @@ export class ArtifactPopup {
                 return;
             }
 
-            // Filter artifacts to only selected ones
-            const selectedArtifacts = this.artifactList.filter(artifact =>
-                this.selectedArtifacts.has(artifact.id)
-            );
+            // Pick the versions of the selected artifacts to download
+            const selectedArtifacts = this.getSelectedVersions();
 
             // Get settings
             const response = await this.messageService.sendMessage({ action: 'getSettings' });
@@ -556,6 +715,363 @@ export class ArtifactPopup {
         }
     }
 
+    /**
+     * Create the footer shown with the project view
+     */
+    private createProjectFooter(): HTMLElement {
+        const footer = document.createElement('div');
+        footer.className = 'project-footer';
+        Object.assign(footer.style, {
+            padding: '16px 20px',
+            borderTop: '1px solid #e2e8f0',
+            display: 'none',
+            justifyContent: 'space-between',
+            alignItems: 'center'
+        });
+
+        const backButton = document.createElement('button');
+        backButton.textContent = 'Back';
+        Object.assign(backButton.style, {
+            padding: '8px 16px',
+            backgroundColor: '#f8fafc',
+            color: '#334155',
+            border: '1px solid #e2e8f0',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontWeight: '500'
+        });
+
+        backButton.addEventListener('click', () => {
+            this.setProjectViewVisible(false);
+        });
+
+        const downloadButton = document.createElement('button');
+        downloadButton.className = 'project-download-btn';
+        downloadButton.textContent = 'Download Project';
+        Object.assign(downloadButton.style, {
+            padding: '8px 16px',
+            backgroundColor: '#3b82f6',
+            color: 'white',
+            border: 'none',
+            borderRadius: '4px',
+            cursor: 'pointer',
+            fontWeight: '500'
+        });
+
+        downloadButton.addEventListener('click', () => {
+            this.downloadProject();
+        });
+
+        footer.appendChild(backButton);
+        footer.appendChild(downloadButton);
+        return footer;
+    }
+
+    /**
+     * Switch between the artifact list and the project view
+     */
+    private setProjectViewVisible(visible: boolean): void {
+        if (!this.popupElement) return;
+
+        const toggle = (selector: string, display: string): void => {
+            const element = this.popupElement!.querySelector(selector) as HTMLElement | null;
+            if (element) {
+                element.style.display = display;
+            }
+        };
+
+        toggle('.artifact-list', visible ? 'none' : '');
+        toggle('.project-view', visible ? '' : 'none');
+        toggle('.popup-footer', visible ? 'none' : 'flex');
+        toggle('.project-footer', visible ? 'flex' : 'none');
+
+        const title = this.popupElement.querySelector('#popup-title');
+        if (title) {
+            title.textContent = visible ? 'Download as Project' : 'Download Artifacts';
+        }
+    }
+
+    /**
+     * Lay the selected artifacts out as a project and show where each file will go
+     */
+    private showProjectView(): void {
+        if (this.selectedArtifacts.size === 0) {
+            this.bannerService.showInfo('No artifacts selected');
+            return;
+        }
+
+        // A project holds one version of each file, so "all versions" means the latest here
+        const selectedHistories = this.histories.filter(history => this.selectedArtifacts.has(history.id));
+        const artifacts = ArtifactHistoryBuilder.selectForDownload(
+            selectedHistories,
+            this.versionMode === 'all' ? 'latest' : this.versionMode,
+            this.pickedVersions
+        );
+
+        this.projectFiles = ProjectReconstructor.reconstruct(artifacts.map(artifact => artifact.toObject()));
+        this.excludedProjectFiles.clear();
+        this.projectName = ProjectReconstructor.suggestName(this.projectFiles);
+
+        this.renderProjectView();
+        this.setProjectViewVisible(true);
+    }
+
+    /**
+     * Render the project name and an editable path for each file
+     */
+    private renderProjectView(): void {
+        const view = this.popupElement?.querySelector('.project-view');
+        if (!view) return;
+
+        view.innerHTML = '';
+
+        const nameRow = document.createElement('label');
+        Object.assign(nameRow.style, {
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            marginBottom: '8px',
+            fontWeight: '500',
+            color: '#1e293b'
+        });
+        nameRow.appendChild(document.createTextNode('Project folder'));
+
+        const nameInput = document.createElement('input');
+        nameInput.type = 'text';
+        nameInput.className = 'project-name-input';
+        nameInput.value = this.projectName;
+        Object.assign(nameInput.style, {
+            flex: '1',
+            padding: '6px 8px',
+            border: '1px solid #e2e8f0',
+            borderRadius: '4px',
+            fontFamily: 'monospace'
+        });
+
+        nameInput.addEventListener('input', () => {
+            this.projectName = nameInput.value;
+            this.updateProjectSummary();
+        });
+
+        nameRow.appendChild(nameInput);
+        view.appendChild(nameRow);
+
+        const hint = document.createElement('div');
+        hint.textContent = 'Paths come from header comments, titles and imports between the files. Correct any that are wrong.';
+        Object.assign(hint.style, {
+            marginBottom: '12px',
+            fontSize: '13px',
+            color: '#64748b'
+        });
+        view.appendChild(hint);
+
+        this.projectFiles.forEach(file => {
+            const row = document.createElement('div');
+            Object.assign(row.style, {
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                padding: '6px 0',
+                borderBottom: '1px solid #e2e8f0'
+            });
+
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.title = 'Include in the project';
+            checkbox.checked = !this.excludedProjectFiles.has(file.artifactId);
+
+            const info = document.createElement('div');
+            info.style.flex = '1';
+
+            const pathInput = document.createElement('input');
+            pathInput.type = 'text';
+            pathInput.className = 'project-path-input';
+            pathInput.dataset.artifactId = file.artifactId;
+            pathInput.value = file.path;
+            pathInput.disabled = !checkbox.checked;
+            Object.assign(pathInput.style, {
+                width: '100%',
+                boxSizing: 'border-box',
+                padding: '4px 8px',
+                border: '1px solid #e2e8f0',
+                borderRadius: '4px',
+                fontFamily: 'monospace',
+                fontSize: '13px'
+            });
+
+            pathInput.addEventListener('input', () => {
+                file.path = pathInput.value;
+                this.updateProjectSummary();
+            });
+
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.excludedProjectFiles.delete(file.artifactId);
+                } else {
+                    this.excludedProjectFiles.add(file.artifactId);
+                }
+                pathInput.disabled = !checkbox.checked;
+                this.updateProjectSummary();
+            });
+
+            const details = document.createElement('div');
+            details.textContent = `${file.title} · ${ArtifactPopup.PROJECT_SOURCE_LABELS[file.source]}`;
+            Object.assign(details.style, {
+                marginTop: '2px',
+                fontSize: '12px',
+                color: '#64748b'
+            });
+
+            info.appendChild(pathInput);
+            info.appendChild(details);
+            row.appendChild(checkbox);
+            row.appendChild(info);
+            view.appendChild(row);
+        });
+
+        const problems = document.createElement('div');
+        problems.className = 'project-problems';
+        Object.assign(problems.style, {
+            margin: '12px 0',
+            fontSize: '13px'
+        });
+        view.appendChild(problems);
+
+        const tree = document.createElement('pre');
+        tree.className = 'project-tree';
+        Object.assign(tree.style, {
+            margin: '0',
+            padding: '12px',
+            backgroundColor: '#f8fafc',
+            border: '1px solid #e2e8f0',
+            borderRadius: '4px',
+            fontSize: '12px',
+            lineHeight: '1.5',
+            overflow: 'auto'
+        });
+        view.appendChild(tree);
+
+        this.updateProjectSummary();
+    }
+
+    /**
+     * Check the project as laid out now, marking bad paths and redrawing the tree
+     * Paths that are unusable or taken twice block the download; missing imports only warn.
+     */
+    private updateProjectSummary(): void {
+        if (!this.popupElement) return;
+
+        const files = this.getIncludedProjectFiles();
+        const { invalidPaths, duplicatePaths, unresolvedImports } = ProjectReconstructor.check(files);
+
+        const errors: string[] = [];
+        const name = this.projectName.trim();
+        if (!name || /[\\/]/.test(name)) {
+            errors.push('Give the project a folder name without slashes');
+        } else {
+            try {
+                ProjectReconstructor.normalizePath(name);
+            } catch (error) {
+                errors.push(`The project folder ${(error as Error).message}`);
+            }
+        }
+        if (files.length === 0) {
+            errors.push('Include at least one file');
+        }
+        invalidPaths.forEach(path => errors.push(`"${path}" can't be used as a file path`));
+        duplicatePaths.forEach(path => errors.push(`More than one file has the path ${path}`));
+
+        const warnings = unresolvedImports.map(({ path, specifier }) =>
+            `${path} imports "${specifier}", which isn't in the project`
+        );
+
+        // Mark the paths that block the download
+        this.popupElement.querySelectorAll('.project-path-input').forEach(element => {
+            const input = element as HTMLInputElement;
+            let isBad = false;
+            if (!input.disabled) {
+                try {
+                    isBad = duplicatePaths.includes(ProjectReconstructor.normalizePath(input.value));
+                } catch {
+                    isBad = true;
+                }
+            }
+            input.style.borderColor = isBad ? '#dc2626' : '#e2e8f0';
+        });
+
+        const problems = this.popupElement.querySelector('.project-problems');
+        if (problems) {
+            problems.innerHTML = '';
+            [...errors.map(text => ({ text, color: '#dc2626' })), ...warnings.map(text => ({ text, color: '#b45309' }))]
+                .forEach(({ text, color }) => {
+                    const item = document.createElement('div');
+                    item.textContent = text;
+                    item.style.color = color;
+                    problems.appendChild(item);
+                });
+        }
+
+        const tree = this.popupElement.querySelector('.project-tree');
+        if (tree) {
+            const paths = files
+                .filter(file => !invalidPaths.includes(file.path))
+                .map(file => ProjectReconstructor.normalizePath(file.path));
+            tree.textContent = ProjectReconstructor.formatTree(name || ProjectReconstructor.suggestName([]), paths);
+        }
+
+        const downloadButton = this.popupElement.querySelector('.project-download-btn') as HTMLButtonElement | null;
+        if (downloadButton) {
+            downloadButton.disabled = errors.length > 0;
+            downloadButton.style.opacity = errors.length > 0 ? '0.5' : '1';
+        }
+    }
+
+    /**
+     * Get the project files that haven't been left out
+     */
+    private getIncludedProjectFiles(): ProjectFile[] {
+        return this.projectFiles.filter(file => !this.excludedProjectFiles.has(file.artifactId));
+    }
+
+    /**
+     * Download the project as laid out in the project view
+     */
+    private async downloadProject(): Promise<void> {
+        try {
+            const files = this.getIncludedProjectFiles().map(file => ({
+                ...file,
+                path: ProjectReconstructor.normalizePath(file.path)
+            }));
+
+            const result = await this.messageService.sendMessage({
+                action: 'downloadProject',
+                name: this.projectName.trim(),
+                files
+            });
+
+            if (result.success) {
+                this.bannerService.showSuccess(`Downloaded ${result.data.filename} with ${result.data.count} files`);
+                this.hide();
+            } else {
+                throw new Error(result.error || 'Failed to download project');
+            }
+        } catch (error) {
+            this.logger.error('ArtifactPopup: Error downloading project', error);
+            this.bannerService.showError('Failed to download project');
+        }
+    }
+
+    /**
+     * Get the versions of the selected artifacts according to the version mode
+     */
+    private getSelectedVersions(): ArtifactState[] {
+        const selectedHistories = this.histories.filter(history =>
+            this.selectedArtifacts.has(history.id)
+        );
+
+        return ArtifactHistoryBuilder.selectForDownload(selectedHistories, this.versionMode, this.pickedVersions);
+    }
+
     /**
      * Handle show popup message
      */
@@ -570,8 +1086,11 @@ export class ArtifactPopup {
     public destroy(): void {
         this.hide();
         this.popupElement = null;
-        this.artifactList = [];
+        this.histories = [];
         this.selectedArtifacts.clear();
+        this.pickedVersions.clear();
+        this.projectFiles = [];
+        this.excludedProjectFiles.clear();
         this.logger.debug('ArtifactPopup: Destroyed');
     }
 }
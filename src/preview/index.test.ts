@@ -0,0 +1,140 @@
+// @vitest-environment jsdom
+import {afterEach, beforeAll, beforeEach, describe, expect, it, vi} from 'vitest';
+import {MermaidSyntaxError} from '../shared/models/diagram';
+import {PreviewKind, PreviewResponse} from '../shared/models/preview';
+import {MermaidRenderer} from '../shared/utils/mermaidRenderer';
+
+// Mermaid needs layout the test DOM doesn't have; renders are controlled by each test
+vi.mock('../shared/utils/mermaidRenderer', () => ({
+    MermaidRenderer: { renderSvg: vi.fn() }
+}));
+
+const posted: PreviewResponse[] = [];
+let startup: PreviewResponse[] = [];
+let renderId = 0;
+
+/**
+ * Send a render request as the embedding content script would, and let it finish
+ */
+async function render(kind: PreviewKind, source: string): Promise<number> {
+    const id = ++renderId;
+    window.dispatchEvent(new MessageEvent('message', {
+        source: window.parent,
+        data: { type: 'render', renderId: id, kind, source }
+    }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    return id;
+}
+
+/**
+ * Errors the page has reported to the content script
+ */
+function errors(): PreviewResponse[] {
+    return posted.filter(message => message.type === 'error');
+}
+
+describe('preview page', () => {
+    beforeAll(async () => {
+        // The test page is its own parent, so replies are captured rather than delivered
+        vi.spyOn(window, 'postMessage').mockImplementation((message: PreviewResponse) => {
+            posted.push(message);
+        });
+        await import('./index');
+        startup = [...posted];
+    });
+
+    beforeEach(() => {
+        posted.length = 0;
+    });
+
+    afterEach(() => {
+        vi.mocked(MermaidRenderer.renderSvg).mockReset();
+    });
+
+    it('tells the content script it is ready', () => {
+        expect(startup).toEqual([{ type: 'ready' }]);
+    });
+
+    it('ignores render requests from other windows', async () => {
+        await render('markdown', '# Before');
+        window.dispatchEvent(new MessageEvent('message', {
+            source: null,
+            data: { type: 'render', renderId: 99, kind: 'markdown', source: '# Injected' }
+        }));
+
+        expect(document.querySelector('h1')?.textContent).toBe('Before');
+    });
+
+    it('renders HTML in a nested frame with the error hook at the top of its head', async () => {
+        await render('html', '<!DOCTYPE html><html><head><title>Page</title></head><body>Hi</body></html>');
+
+        const frame = document.querySelector('iframe')!;
+        expect(frame.getAttribute('sandbox')).toBe('allow-scripts allow-forms allow-modals');
+        expect(frame.srcdoc).toMatch(/^<!DOCTYPE html><html><head><script>\(function \(\) \{/);
+        expect(frame.srcdoc).toContain('</script><title>Page</title>');
+    });
+
+    it('puts the hook after the doctype, or first, when there is no head', async () => {
+        await render('html', '<!doctype html><p>Hi</p>');
+        expect(document.querySelector('iframe')!.srcdoc).toMatch(/^<!doctype html><script>/);
+
+        await render('html', '<p>Hi</p>');
+        expect(document.querySelector('iframe')!.srcdoc).toMatch(/^<script>[\s\S]*<\/script><p>Hi<\/p>$/);
+    });
+
+    it('passes on errors from the HTML frame, tagged with the current render', async () => {
+        const id = await render('html', '<p>Hi</p>');
+        const frame = document.querySelector('iframe')!;
+
+        window.dispatchEvent(new MessageEvent('message', {
+            source: frame.contentWindow,
+            data: { type: 'preview-error', message: 'TypeError: x is undefined' }
+        }));
+
+        expect(errors()).toEqual([{ type: 'error', renderId: id, message: 'TypeError: x is undefined' }]);
+    });
+
+    it('replaces the previous render with markdown', async () => {
+        await render('html', '<p>Hi</p>');
+        await render('markdown', '# Title\n\nSome *text*');
+
+        expect(document.querySelector('iframe')).toBeNull();
+        expect(document.querySelector('article.markdown-body h1')?.textContent).toBe('Title');
+        expect(document.body.style.margin).toBe('8px');
+    });
+
+    it('renders Mermaid diagrams and reports syntax errors without a stack', async () => {
+        vi.mocked(MermaidRenderer.renderSvg).mockResolvedValueOnce('<svg xmlns="http://www.w3.org/2000/svg"><g/></svg>');
+        await render('mermaid', 'graph TD; A-->B;');
+
+        expect(document.querySelector('svg')?.style.maxWidth).toBe('100%');
+
+        vi.mocked(MermaidRenderer.renderSvg).mockRejectedValueOnce(new MermaidSyntaxError('Parse error', 2));
+        const id = await render('mermaid', 'graph TD;\nA-->');
+
+        expect(errors()).toEqual([{ type: 'error', renderId: id, message: 'Line 2: Parse error' }]);
+    });
+
+    it('drops a diagram that finishes after a newer render started', async () => {
+        let finish: (svg: string) => void = () => undefined;
+        vi.mocked(MermaidRenderer.renderSvg).mockReturnValueOnce(new Promise(resolve => finish = resolve));
+
+        await render('mermaid', 'graph TD; A-->B;');
+        await render('markdown', 'Newer');
+        finish('<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+        await new Promise(resolve => setTimeout(resolve, 0));
+
+        expect(document.querySelector('svg')).toBeNull();
+        expect(document.body.textContent).toContain('Newer');
+    });
+
+    it('transforms and renders React components, and reports missing modules', async () => {
+        await render('react', 'import {useState} from \'react\';\nexport default function App() { const [n] = useState(3); return <b>{n}</b>; }');
+        await vi.waitFor(() => expect(document.querySelector('b')?.textContent).toBe('3'), { timeout: 10000 });
+
+        const id = await render('react', 'import axios from \'axios\';\nexport default () => <p>{axios.VERSION}</p>;');
+        await vi.waitFor(() => expect(errors()).toHaveLength(1));
+
+        expect(errors()[0]).toMatchObject({ renderId: id, message: expect.stringContaining('"axios" is not available in the preview') });
+    }, 20000);
+});
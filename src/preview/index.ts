@@ -0,0 +1,295 @@
+import React from 'react';
+import ReactDOM from 'react-dom';
+import * as ReactDOMClient from 'react-dom/client';
+import * as jsxRuntime from 'react/jsx-runtime';
+import type TypeScript from 'typescript';
+import {PreviewKind, PreviewRequest, PreviewResponse} from '../shared/models/preview';
+import {MermaidRenderer} from '../shared/utils/mermaidRenderer';
+import {MermaidSyntaxError} from '../shared/models/diagram';
+import {MarkdownRenderer} from '../shared/utils/markdownRenderer';
+
+/**
+ * Modules React artifacts can import; everything else fails with a clear message
+ */
+const PREVIEW_MODULES: Record<string, unknown> = {
+    'react': React,
+    'react/jsx-runtime': jsxRuntime,
+    'react-dom': ReactDOM,
+    'react-dom/client': ReactDOMClient
+};
+
+/**
+ * Script put at the top of HTML previews to report their errors to this page
+ */
+const HTML_ERROR_HOOK = `<script>(function () {
+    var report = function (message) { parent.postMessage({ type: 'preview-error', message: String(message) }, '*'); };
+    window.addEventListener('error', function (event) { report(event.error && event.error.stack || event.message); });
+    window.addEventListener('unhandledrejection', function (event) { report('Unhandled rejection: ' + (event.reason && event.reason.stack || event.reason)); });
+})();</script>`;
+
+/**
+ * Reports errors thrown while React renders the artifact
+ */
+class PreviewErrorBoundary extends React.Component<{ onError: (error: unknown) => void; children?: React.ReactNode }, { failed: boolean }> {
+    public state = { failed: false };
+
+    public static getDerivedStateFromError(): { failed: boolean } {
+        return { failed: true };
+    }
+
+    public componentDidCatch(error: unknown): void {
+        this.props.onError(error);
+    }
+
+    public render(): React.ReactNode {
+        return this.state.failed ? null : this.props.children;
+    }
+}
+
+/**
+ * Sandbox page that renders HTML, React, Mermaid and markdown artifacts for the preview pane
+ * The manifest lists this page as sandboxed, so artifacts render with an opaque origin and
+ * no access to extension APIs or to claude.ai. Each render replaces the previous one.
+ */
+class PreviewHost {
+    private frame: HTMLIFrameElement | null = null;
+    private root: ReactDOMClient.Root | null = null;
+    private renderId = 0;
+    private typescriptLoad: Promise<typeof TypeScript> | null = null;
+
+    constructor() {
+        window.addEventListener('message', this.handleMessage.bind(this));
+
+        // Errors thrown by React artifacts outside rendering, e.g. in event handlers and timers
+        window.addEventListener('error', event => this.reportError(event.error ?? event.message));
+        window.addEventListener('unhandledrejection', event => this.reportError(event.reason));
+
+        // Tell the embedding content script it can send renders
+        window.parent.postMessage({ type: 'ready' } satisfies PreviewResponse, '*');
+    }
+
+    /**
+     * Handle render requests from the content script and errors from the HTML frame
+     */
+    private handleMessage(event: MessageEvent): void {
+        if (event.source === window.parent && (event.data as PreviewRequest)?.type === 'render') {
+            this.render(event.data as PreviewRequest);
+            return;
+        }
+
+        if (this.frame && event.source === this.frame.contentWindow && event.data?.type === 'preview-error') {
+            this.reportError(event.data.message);
+        }
+    }
+
+    /**
+     * Replace whatever is shown with a render of the new source
+     */
+    private async render(request: PreviewRequest): Promise<void> {
+        this.renderId = request.renderId;
+        this.clear(request.kind);
+
+        try {
+            switch (request.kind) {
+                case 'html':
+                    this.renderHtml(request.source);
+                    break;
+                case 'react':
+                    await this.renderReact(request.source, request.renderId);
+                    break;
+                case 'mermaid':
+                    await this.renderMermaid(request.source, request.renderId);
+                    break;
+                case 'markdown':
+                    this.renderMarkdown(request.source);
+                    break;
+            }
+        } catch (error) {
+            if (request.renderId === this.renderId) {
+                this.reportError(error);
+            }
+        }
+    }
+
+    /**
+     * Show an HTML page in a nested frame so that it gets a document of its own
+     */
+    private renderHtml(source: string): void {
+        const frame = document.createElement('iframe');
+        frame.setAttribute('sandbox', 'allow-scripts allow-forms allow-modals');
+        Object.assign(frame.style, {
+            width: '100%',
+            height: '100%',
+            border: 'none',
+            display: 'block'
+        });
+        frame.srcdoc = this.withErrorHook(source);
+
+        this.frame = frame;
+        document.body.appendChild(frame);
+    }
+
+    /**
+     * Put the error hook first in the page's head, keeping any doctype in front of it
+     */
+    private withErrorHook(source: string): string {
+        const head = /<head[^>]*>/i.exec(source);
+        if (head) {
+            const end = head.index + head[0].length;
+            return source.slice(0, end) + HTML_ERROR_HOOK + source.slice(end);
+        }
+
+        const doctype = /^\s*<!doctype[^>]*>/i.exec(source);
+        if (doctype) {
+            return doctype[0] + HTML_ERROR_HOOK + source.slice(doctype[0].length);
+        }
+
+        return HTML_ERROR_HOOK + source;
+    }
+
+    /**
+     * Transform a JSX/TSX module and render its default export
+     */
+    private async renderReact(source: string, renderId: number): Promise<void> {
+        const ts = await this.loadTypescriptCompiler();
+
+        // A newer render arrived while the compiler was loading
+        if (renderId !== this.renderId) return;
+
+        const { outputText } = ts.transpileModule(source, {
+            fileName: 'artifact.tsx',
+            compilerOptions: {
+                module: ts.ModuleKind.CommonJS,
+                target: ts.ScriptTarget.ES2020,
+                jsx: ts.JsxEmit.ReactJSX,
+                esModuleInterop: true
+            }
+        });
+
+        const module: { exports: Record<string, unknown> } = { exports: {} };
+        new Function('require', 'module', 'exports', outputText)(this.requireModule, module, module.exports);
+
+        const component = module.exports.default;
+        if (typeof component !== 'function' && (typeof component !== 'object' || component === null)) {
+            throw new Error('The artifact has no default export to render');
+        }
+
+        const container = document.createElement('div');
+        document.body.appendChild(container);
+
+        this.root = ReactDOMClient.createRoot(container);
+        this.root.render(
+            React.createElement(
+                PreviewErrorBoundary,
+                { onError: error => this.reportError(error) },
+                React.createElement(component as React.ElementType)
+            )
+        );
+    }
+
+    /**
+     * Render a Mermaid diagram; syntax errors are reported with their line number
+     */
+    private async renderMermaid(source: string, renderId: number): Promise<void> {
+        const svg = await MermaidRenderer.renderSvg(source);
+
+        // A newer render arrived while this one was being laid out
+        if (renderId !== this.renderId) return;
+
+        const container = document.createElement('div');
+        Object.assign(container.style, {
+            display: 'flex',
+            justifyContent: 'center'
+        });
+
+        // Mermaid sanitizes labels in strict mode, and this page is sandboxed
+        container.innerHTML = svg;
+
+        const diagram = container.querySelector('svg');
+        if (diagram) {
+            Object.assign(diagram.style, {
+                maxWidth: '100%',
+                height: 'auto'
+            });
+        }
+
+        document.body.appendChild(container);
+    }
+
+    /**
+     * Render markdown the way it is styled in standalone HTML downloads
+     */
+    private renderMarkdown(source: string): void {
+        const style = document.createElement('style');
+        style.textContent = MarkdownRenderer.STYLESHEET;
+
+        const article = document.createElement('article');
+        article.className = 'markdown-body';
+
+        // Raw HTML in the markdown renders as-is; this page is sandboxed
+        article.innerHTML = MarkdownRenderer.toHtml(source);
+
+        document.body.append(style, article);
+    }
+
+    /**
+     * Resolve an import from the transformed artifact
+     */
+    private requireModule(name: string): unknown {
+        if (!(name in PREVIEW_MODULES)) {
+            throw new Error(`"${name}" is not available in the preview; only react and react-dom are bundled`);
+        }
+        return PREVIEW_MODULES[name];
+    }
+
+    /**
+     * Load the TypeScript compiler bundled with the extension, which also transforms JSX
+     */
+    private loadTypescriptCompiler(): Promise<typeof TypeScript> {
+        if (!this.typescriptLoad) {
+            this.typescriptLoad = import('typescript')
+                .then(module => module.default)
+                .catch(() => {
+                    // Let the next render try again
+                    this.typescriptLoad = null;
+                    throw new Error('Failed to load the JSX transform');
+                });
+        }
+
+        return this.typescriptLoad;
+    }
+
+    /**
+     * Remove the previous render and lay the page out for the next one
+     */
+    private clear(kind: PreviewKind): void {
+        this.root?.unmount();
+        this.root = null;
+        this.frame = null;
+        document.body.replaceChildren();
+
+        // HTML pages fill the frame; React components and diagrams get the default page margin
+        Object.assign(document.documentElement.style, { height: '100%' });
+        Object.assign(document.body.style, {
+            height: kind === 'html' ? '100%' : '',
+            margin: kind === 'html' ? '0' : '8px',
+            fontFamily: kind === 'html' ? '' : 'system-ui, sans-serif'
+        });
+    }
+
+    /**
+     * Tell the content script about an error in the current render
+     */
+    private reportError(error: unknown): void {
+        // Diagram syntax errors already say where they are; a stack would only point into Mermaid
+        const message = error instanceof MermaidSyntaxError
+            ? error.message
+            : error instanceof Error
+                ? error.stack || `${error.name}: ${error.message}`
+                : String(error);
+
+        window.parent.postMessage({ type: 'error', renderId: this.renderId, message } satisfies PreviewResponse, '*');
+    }
+}
+
+new PreviewHost();
@@ -0,0 +1,126 @@
+import {ExecutionExitReason, ExecutionResult, SandboxRequest, SandboxResponse} from '../shared/models/execution';
+import {sandboxWorkerMain, SandboxWorkerMessage, SandboxWorkerRequest} from './worker';
+
+/**
+ * A run in progress
+ */
+interface SandboxRun {
+    runId: string;
+    worker: Worker;
+    timer: number;
+    startedAt: number;
+    stdout: string[];
+    stderr: string[];
+    outputChars: number;
+    maxOutputChars: number;
+    reply: (response: SandboxResponse) => void;
+    finished: boolean;
+}
+
+/**
+ * Sandbox page that runs code for content scripts
+ * The manifest lists this page as sandboxed, so it has an opaque origin and no access
+ * to extension APIs, the extension's storage or the page that embeds it. Code runs in a
+ * dedicated worker, and the worker is terminated when the run ends for any reason.
+ * The worker is loaded from a blob: URL, which the manifest's sandbox CSP allows with worker-src.
+ */
+class SandboxHost {
+    private readonly workerUrl = URL.createObjectURL(
+        new Blob([`(${sandboxWorkerMain.toString()})();`], { type: 'text/javascript' })
+    );
+
+    private readonly BYTES_PER_MB = 1024 * 1024;
+
+    constructor() {
+        window.addEventListener('message', this.handleMessage.bind(this));
+
+        // Tell the embedding content script it can send runs
+        window.parent.postMessage({ type: 'ready' } satisfies SandboxResponse, '*');
+    }
+
+    /**
+     * Handle a request from the embedding content script
+     */
+    private handleMessage(event: MessageEvent<SandboxRequest>): void {
+        if (event.source !== window.parent || event.data?.type !== 'run') return;
+
+        const { runId, code, limits } = event.data;
+        const source = event.source as Window;
+        const worker = new Worker(this.workerUrl);
+
+        const run: SandboxRun = {
+            runId,
+            worker,
+            timer: window.setTimeout(() => this.finish(run, 'timeout'), limits.timeoutMs),
+            startedAt: performance.now(),
+            stdout: [],
+            stderr: [],
+            outputChars: 0,
+            maxOutputChars: limits.maxOutputChars,
+            reply: response => source.postMessage(response, '*'),
+            finished: false
+        };
+
+        worker.onmessage = (message: MessageEvent<SandboxWorkerMessage>) => this.handleWorkerMessage(run, message.data);
+        worker.onerror = error => {
+            run.stderr.push(error.message);
+            this.finish(run, 'error');
+        };
+
+        worker.postMessage({
+            code,
+            memoryLimitBytes: limits.memoryLimitMb * this.BYTES_PER_MB
+        } satisfies SandboxWorkerRequest);
+    }
+
+    /**
+     * Handle output and completion from a run's worker
+     */
+    private handleWorkerMessage(run: SandboxRun, message: SandboxWorkerMessage): void {
+        switch (message.type) {
+            case 'console': {
+                run.outputChars += message.text.length;
+                if (run.outputChars > run.maxOutputChars) {
+                    run.stderr.push(`Output limit of ${run.maxOutputChars} characters reached`);
+                    this.finish(run, 'output_limit');
+                    return;
+                }
+                (message.stream === 'stdout' ? run.stdout : run.stderr).push(message.text);
+                break;
+            }
+            case 'memory':
+                run.stderr.push(`Memory limit reached (${Math.round(message.usedBytes / this.BYTES_PER_MB)} MB in use)`);
+                this.finish(run, 'memory');
+                break;
+            case 'done':
+                if (message.error !== null) {
+                    run.stderr.push(message.error);
+                }
+                this.finish(run, message.error !== null ? 'error' : 'completed', message.returnValue);
+                break;
+        }
+    }
+
+    /**
+     * Kill the run's worker and report the result
+     */
+    private finish(run: SandboxRun, exitReason: ExecutionExitReason, returnValue: string | null = null): void {
+        if (run.finished) return;
+        run.finished = true;
+
+        clearTimeout(run.timer);
+        run.worker.terminate();
+
+        const result: ExecutionResult = {
+            stdout: run.stdout,
+            stderr: run.stderr,
+            returnValue,
+            durationMs: Math.round(performance.now() - run.startedAt),
+            exitReason
+        };
+
+        run.reply({ type: 'result', runId: run.runId, result });
+    }
+}
+
+new SandboxHost();
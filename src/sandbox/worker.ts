@@ -0,0 +1,94 @@
+/**
+ * Messages posted by the sandbox worker
+ */
+export type SandboxWorkerMessage =
+    | { type: 'console'; stream: 'stdout' | 'stderr'; text: string }
+    | { type: 'memory'; usedBytes: number }
+    | { type: 'done'; returnValue: string | null; error: string | null };
+
+/**
+ * Messages posted to the sandbox worker
+ */
+export interface SandboxWorkerRequest {
+    code: string;
+    memoryLimitBytes: number;
+}
+
+/**
+ * Body of the dedicated worker that runs user code
+ * The host page turns this function into a Blob URL, so it must not use anything from
+ * outside its own body. Each run gets a fresh worker, which the host terminates when
+ * the run ends; that is what stops infinite loops and frees the memory the code used.
+ */
+export function sandboxWorkerMain(): void {
+    const scope = self as unknown as {
+        postMessage: (message: SandboxWorkerMessage) => void;
+        onmessage: ((event: MessageEvent<SandboxWorkerRequest>) => void) | null;
+        addEventListener: typeof addEventListener;
+        console: Console;
+    };
+
+    // How often the heap is checked while the code is waiting on timers or promises
+    const memoryCheckIntervalMs = 100;
+
+    const format = (value: unknown): string => {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+        if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+        if (typeof value === 'object' && value !== null) {
+            try {
+                return JSON.stringify(value);
+            } catch {
+                return Object.prototype.toString.call(value);
+            }
+        }
+        return String(value);
+    };
+
+    const write = (stream: 'stdout' | 'stderr') => (...args: unknown[]) => {
+        scope.postMessage({ type: 'console', stream, text: args.map(format).join(' ') });
+    };
+
+    scope.console = {
+        ...scope.console,
+        log: write('stdout'),
+        info: write('stdout'),
+        debug: write('stdout'),
+        warn: write('stderr'),
+        error: write('stderr')
+    };
+
+    // Errors thrown from timers and unawaited promises
+    scope.addEventListener('error', (event: Event) => {
+        write('stderr')(`Uncaught ${format((event as ErrorEvent).error ?? (event as ErrorEvent).message)}`);
+    });
+    scope.addEventListener('unhandledrejection', (event: Event) => {
+        write('stderr')(`Unhandled rejection: ${format((event as PromiseRejectionEvent).reason)}`);
+    });
+
+    scope.onmessage = async event => {
+        const { code, memoryLimitBytes } = event.data;
+
+        // performance.memory is Chrome-only and only updates when the code yields
+        const memory = (performance as unknown as { memory?: { usedJSHeapSize: number } }).memory;
+        const monitor = memory
+            ? setInterval(() => {
+                if (memory.usedJSHeapSize > memoryLimitBytes) {
+                    scope.postMessage({ type: 'memory', usedBytes: memory.usedJSHeapSize });
+                }
+            }, memoryCheckIntervalMs)
+            : null;
+
+        try {
+            // An async function so the code can use await and return a value
+            const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+            const value = await new AsyncFunction(code)();
+
+            scope.postMessage({ type: 'done', returnValue: value === undefined ? null : format(value), error: null });
+        } catch (error) {
+            scope.postMessage({ type: 'done', returnValue: null, error: format(error) });
+        } finally {
+            if (monitor !== null) clearInterval(monitor);
+        }
+    };
+}
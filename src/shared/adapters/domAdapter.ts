@@ -0,0 +1,206 @@
+import {SelectorProfile} from '../models/selectorProfile';
+
+/**
+ * Wraps a selector profile and exposes the DOM queries needed by the extension
+ */
+export class DomAdapter {
+    readonly profile: SelectorProfile;
+
+    constructor(profile: SelectorProfile) {
+        this.profile = profile;
+    }
+
+    /**
+     * Name of the underlying selector profile
+     */
+    get name(): string {
+        return this.profile.name;
+    }
+
+    /**
+     * Selector matching artifact containers (useful for closest()/matches())
+     */
+    get artifactSelector(): string {
+        return this.profile.selectors.artifactContainer;
+    }
+
+    /**
+     * Find the element holding the conversation
+     */
+    public findConversationContainer(root: ParentNode = document): Element | null {
+        return root.querySelector(this.profile.selectors.conversationContainer);
+    }
+
+    /**
+     * Find all artifact containers below a root node
+     */
+    public findArtifactContainers(root: ParentNode = document): HTMLElement[] {
+        return Array.from(root.querySelectorAll<HTMLElement>(this.profile.selectors.artifactContainer));
+    }
+
+    /**
+     * Check whether an element is an artifact container
+     */
+    public isArtifactContainer(element: Element): boolean {
+        return element.matches(this.profile.selectors.artifactContainer);
+    }
+
+    /**
+     * Find the artifact container enclosing an element
+     */
+    public closestArtifactContainer(element: Element): HTMLElement | null {
+        return element.closest<HTMLElement>(this.profile.selectors.artifactContainer);
+    }
+
+    /**
+     * Find the title element of an artifact container
+     */
+    public findArtifactTitle(container: Element): HTMLElement | null {
+        return container.querySelector<HTMLElement>(this.profile.selectors.artifactTitle);
+    }
+
+    /**
+     * Find the message element an artifact belongs to
+     */
+    public findMessageContainer(container: Element): Element | null {
+        return container.closest(this.profile.selectors.messageContainer);
+    }
+
+    /**
+     * Get the ID of the message an artifact belongs to
+     */
+    public getMessageId(container: Element): string | undefined {
+        const messageContainer = this.findMessageContainer(container);
+        return messageContainer?.getAttribute(this.profile.messageIdAttribute) || undefined;
+    }
+
+    /**
+     * Find all message elements below a root node, in page order
+     */
+    public findMessageContainers(root: ParentNode = document): HTMLElement[] {
+        return Array.from(root.querySelectorAll<HTMLElement>(this.profile.selectors.messageContainer));
+    }
+
+    /**
+     * Get who wrote a message, if the markup says
+     */
+    public getMessageRole(message: Element): 'user' | 'assistant' | undefined {
+        const role = message.getAttribute(this.profile.messageRoleAttribute)?.toLowerCase();
+
+        if (role === 'user' || role === 'human') {
+            return 'user';
+        }
+        if (role === 'assistant' || role === 'claude') {
+            return 'assistant';
+        }
+        return undefined;
+    }
+
+    /**
+     * Find the banner claude.ai shows when the user has hit their usage limit
+     */
+    public findRateLimitBanner(root: ParentNode = document): HTMLElement | null {
+        return root.querySelector<HTMLElement>(this.profile.selectors.rateLimitBanner);
+    }
+
+    /**
+     * Get the conversation ID from the URL or DOM
+     */
+    public getConversationId(root: ParentNode = document, url: string = window.location.href): string | undefined {
+        const match = url.match(this.profile.conversationIdPattern);
+        if (match && match[1]) {
+            return match[1];
+        }
+
+        const attribute = this.profile.conversationIdAttribute;
+        const element = root.querySelector(`[${attribute}]`);
+        return element?.getAttribute(attribute) || undefined;
+    }
+
+    /**
+     * Get the conversation's title from the page title, which claude.ai sets to "<title> - Claude"
+     */
+    public getConversationTitle(root: ParentNode = document): string | undefined {
+        const page = root instanceof Document ? root : (root as Node).ownerDocument;
+        const title = page?.title.replace(/\s*[-–—|]\s*Claude\s*$/i, '').trim();
+        return title && title.toLowerCase() !== 'claude' ? title : undefined;
+    }
+
+    /**
+     * Get the index of the message an artifact belongs to among the conversation's messages
+     */
+    public getMessageIndex(container: Element, root: ParentNode = document): number | undefined {
+        const messageContainer = this.findMessageContainer(container);
+        if (!messageContainer) {
+            return undefined;
+        }
+
+        const index = this.findMessageContainers(root).indexOf(messageContainer as HTMLElement);
+        return index >= 0 ? index : undefined;
+    }
+
+    /**
+     * Find Claude's page header
+     */
+    public findHeader(root: ParentNode = document): HTMLElement | null {
+        return root.querySelector<HTMLElement>(this.profile.selectors.header);
+    }
+
+    /**
+     * Find the controls area inside the header
+     */
+    public findControls(header: Element): HTMLElement | null {
+        return header.querySelector<HTMLElement>(this.profile.selectors.controls);
+    }
+
+    /**
+     * Find the code block inside an artifact container
+     */
+    public findCodeBlock(container: Element): HTMLElement | null {
+        return container.querySelector<HTMLElement>(this.profile.selectors.codeBlock);
+    }
+
+    /**
+     * Find the HTML content element inside an artifact container
+     */
+    public findHtmlContent(container: Element): HTMLElement | null {
+        return container.querySelector<HTMLElement>(this.profile.selectors.htmlContent);
+    }
+
+    /**
+     * Find the React content element inside an artifact container
+     */
+    public findReactContent(container: Element): HTMLElement | null {
+        return container.querySelector<HTMLElement>(this.profile.selectors.reactContent);
+    }
+
+    /**
+     * Find the Mermaid content element inside an artifact container
+     */
+    public findMermaidContent(container: Element): HTMLElement | null {
+        return container.querySelector<HTMLElement>(this.profile.selectors.mermaidContent);
+    }
+
+    /**
+     * Find the rendered markdown element inside an artifact container
+     */
+    public findMarkdownContent(container: Element): HTMLElement | null {
+        return container.querySelector<HTMLElement>(this.profile.selectors.markdownContent);
+    }
+
+    /**
+     * Score how well this profile matches a page (0 means no match)
+     */
+    public score(root: ParentNode = document, url: string = window.location.href): number {
+        if (this.profile.urlPattern && !this.profile.urlPattern.test(url)) {
+            return 0;
+        }
+
+        const markerScore = this.profile.markers
+            .filter(marker => root.querySelector(marker) !== null)
+            .length;
+
+        // A matching URL pattern only counts when the markup also agrees
+        return markerScore > 0 && this.profile.urlPattern ? markerScore + 1 : markerScore;
+    }
+}
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import {readdirSync, readFileSync} from 'fs';
+import {resolve} from 'path';
+import {beforeEach, describe, expect, it} from 'vitest';
+import {DomAdapterRegistry} from './domAdapterRegistry';
+import {ArtifactExtractor} from '../utils/artifactExtractor';
+import {Artifact} from '../models/artifact';
+
+/**
+ * Contents of a fixtures/dom/<profile>.expected.json file
+ */
+interface FixtureExpectation {
+    url: string;
+    profile: string;
+    artifacts: Partial<Artifact>[];
+}
+
+const FIXTURE_DIR = resolve(__dirname, '../../../fixtures/dom');
+
+const fixtureNames = readdirSync(FIXTURE_DIR)
+    .filter(file => file.endsWith('.html'))
+    .map(file => file.replace(/\.html$/, ''));
+
+/**
+ * Load a saved page and the artifacts it should produce
+ */
+function loadFixture(name: string): { document: Document; expected: FixtureExpectation } {
+    const html = readFileSync(resolve(FIXTURE_DIR, `${name}.html`), 'utf8');
+    const expected = JSON.parse(readFileSync(resolve(FIXTURE_DIR, `${name}.expected.json`), 'utf8'));
+
+    return {
+        document: new DOMParser().parseFromString(html, 'text/html'),
+        expected
+    };
+}
+
+describe('DOM fixtures', () => {
+    const registry = DomAdapterRegistry.getInstance();
+
+    beforeEach(() => {
+        registry.forceProfile(null);
+        registry.reset();
+    });
+
+    it('has an expectation file for every saved page', () => {
+        expect(fixtureNames.length).toBeGreaterThan(0);
+        for (const name of fixtureNames) {
+            expect(() => loadFixture(name)).not.toThrow();
+        }
+    });
+
+    describe.each(fixtureNames)('%s', name => {
+        it('detects the expected selector profile', () => {
+            const {document, expected} = loadFixture(name);
+
+            expect(registry.detect(document, expected.url).name).toBe(expected.profile);
+        });
+
+        it('extracts the expected artifacts', () => {
+            const {document, expected} = loadFixture(name);
+
+            const artifacts = ArtifactExtractor.extractArtifactsFromDOM(document, expected.url)
+                .map(artifact => artifact.toObject());
+
+            expect(artifacts.map(artifact => artifact.id)).toEqual(expected.artifacts.map(artifact => artifact.id));
+            artifacts.forEach((artifact, index) => {
+                expect(artifact).toMatchObject(expected.artifacts[index]);
+            });
+        });
+    });
+});
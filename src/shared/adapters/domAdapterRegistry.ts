@@ -0,0 +1,132 @@
+import {LoggerService} from '../services/loggerService';
+import {SelectorProfile} from '../models/selectorProfile';
+import {DomAdapter} from './domAdapter';
+import {BUILT_IN_PROFILES, CURRENT_PROFILE} from './selectorProfiles';
+
+/**
+ * Registry of selector profiles that picks the adapter matching the current page
+ */
+export class DomAdapterRegistry {
+    private static instance: DomAdapterRegistry;
+    private readonly logger = LoggerService.getInstance();
+    private readonly adapters: DomAdapter[] = BUILT_IN_PROFILES.map(profile => new DomAdapter(profile));
+    private fallbackAdapter = new DomAdapter(CURRENT_PROFILE);
+    private activeAdapter: DomAdapter | null = null;
+    private forcedProfile: string | null = null;
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the registry
+     */
+    public static getInstance(): DomAdapterRegistry {
+        if (!DomAdapterRegistry.instance) {
+            DomAdapterRegistry.instance = new DomAdapterRegistry();
+        }
+        return DomAdapterRegistry.instance;
+    }
+
+    /**
+     * Register an additional selector profile (replaces one with the same name)
+     */
+    public register(profile: SelectorProfile): void {
+        const index = this.adapters.findIndex(adapter => adapter.name === profile.name);
+        const adapter = new DomAdapter(profile);
+
+        if (index >= 0) {
+            this.adapters[index] = adapter;
+        } else {
+            this.adapters.push(adapter);
+        }
+
+        this.activeAdapter = null;
+        this.logger.debug(`DomAdapterRegistry: Registered profile ${profile.name}`);
+    }
+
+    /**
+     * Get the names of all registered profiles
+     */
+    public getProfileNames(): string[] {
+        return this.adapters.map(adapter => adapter.name);
+    }
+
+    /**
+     * Set the profile used when no registered profile matches the page
+     */
+    public setFallback(name: string): void {
+        const adapter = this.adapters.find(a => a.name === name);
+        if (!adapter) {
+            throw new Error(`Unknown selector profile: ${name}`);
+        }
+        this.fallbackAdapter = adapter;
+    }
+
+    /**
+     * Force a specific profile instead of auto-detecting (null restores detection)
+     */
+    public forceProfile(name: string | null): void {
+        if (name && !this.adapters.some(adapter => adapter.name === name)) {
+            throw new Error(`Unknown selector profile: ${name}`);
+        }
+        this.forcedProfile = name;
+        this.activeAdapter = null;
+    }
+
+    /**
+     * Get the adapter for the page, detecting it on first use
+     */
+    public getAdapter(root: ParentNode = document, url: string = window.location.href): DomAdapter {
+        if (this.activeAdapter) {
+            return this.activeAdapter;
+        }
+
+        return this.detect(root, url);
+    }
+
+    /**
+     * Detect which profile matches a page
+     * The result is only cached when a profile actually matched, so pages that
+     * render late are re-detected on the next call instead of sticking to the fallback.
+     */
+    public detect(root: ParentNode = document, url: string = window.location.href): DomAdapter {
+        if (this.forcedProfile) {
+            const forced = this.adapters.find(adapter => adapter.name === this.forcedProfile);
+            if (forced) {
+                this.activeAdapter = forced;
+                return forced;
+            }
+        }
+
+        let bestAdapter: DomAdapter | null = null;
+        let bestScore = 0;
+
+        for (const adapter of this.adapters) {
+            const score = adapter.score(root, url);
+            if (score > bestScore) {
+                bestAdapter = adapter;
+                bestScore = score;
+            }
+        }
+
+        if (!bestAdapter) {
+            this.logger.debug(`DomAdapterRegistry: No profile matched, using ${this.fallbackAdapter.name}`);
+            return this.fallbackAdapter;
+        }
+
+        if (this.activeAdapter !== bestAdapter) {
+            this.logger.info(`DomAdapterRegistry: Detected ${bestAdapter.name} profile`);
+        }
+
+        this.activeAdapter = bestAdapter;
+        return bestAdapter;
+    }
+
+    /**
+     * Clear the cached adapter so the next lookup re-detects
+     */
+    public reset(): void {
+        this.activeAdapter = null;
+    }
+}
@@ -0,0 +1,92 @@
+import {SelectorProfile} from '../models/selectorProfile';
+
+/**
+ * Markup used by the current claude.ai chat interface
+ */
+export const CURRENT_PROFILE: SelectorProfile = {
+    name: 'current',
+    description: 'Current claude.ai chat interface',
+    markers: ['.conversation-container', '.antml-artifact-container', '.claude-header'],
+    conversationIdPattern: /\/(?:chat|conversation)\/([a-zA-Z0-9-]+)/,
+    messageIdAttribute: 'data-message-id',
+    conversationIdAttribute: 'data-conversation-id',
+    messageRoleAttribute: 'data-role',
+    selectors: {
+        conversationContainer: '.conversation-container',
+        messageContainer: '.message-container',
+        artifactContainer: '.antml-artifact-container',
+        artifactTitle: '.antml-artifact-title',
+        header: '.claude-header',
+        controls: '.claude-controls',
+        codeBlock: 'pre code',
+        htmlContent: '[data-type="html"]',
+        reactContent: '[data-type="react"]',
+        mermaidContent: '.mermaid',
+        markdownContent: '[data-type="markdown"]',
+        rateLimitBanner: '.rate-limit-banner'
+    }
+};
+
+/**
+ * Markup used by the older claude.ai interface
+ */
+export const LEGACY_PROFILE: SelectorProfile = {
+    name: 'legacy',
+    description: 'Legacy claude.ai chat interface',
+    markers: ['.chat-container', '.artifact-block', '.chat-header'],
+    conversationIdPattern: /\/(?:chat|conversation)\/([a-zA-Z0-9-]+)/,
+    messageIdAttribute: 'data-id',
+    conversationIdAttribute: 'data-chat-id',
+    messageRoleAttribute: 'data-author',
+    selectors: {
+        conversationContainer: '.chat-container',
+        messageContainer: '.chat-message',
+        artifactContainer: '.artifact-block',
+        artifactTitle: '.artifact-block-title',
+        header: '.chat-header',
+        controls: '.chat-header-actions',
+        codeBlock: 'pre code',
+        htmlContent: '[data-artifact-type="html"]',
+        reactContent: '[data-artifact-type="react"]',
+        mermaidContent: '.mermaid',
+        markdownContent: '[data-artifact-type="markdown"]',
+        rateLimitBanner: '.chat-limit-notice'
+    }
+};
+
+/**
+ * Markup used by publicly shared conversation pages
+ */
+export const SHARED_PROFILE: SelectorProfile = {
+    name: 'shared',
+    description: 'Shared (read-only) conversation pages',
+    markers: ['.shared-conversation', '.antml-artifact-container'],
+    urlPattern: /\/share\//,
+    conversationIdPattern: /\/share\/([a-zA-Z0-9-]+)/,
+    messageIdAttribute: 'data-message-id',
+    conversationIdAttribute: 'data-share-id',
+    messageRoleAttribute: 'data-role',
+    selectors: {
+        conversationContainer: '.shared-conversation',
+        messageContainer: '.message-container',
+        artifactContainer: '.antml-artifact-container',
+        artifactTitle: '.antml-artifact-title',
+        header: '.shared-header',
+        controls: '.shared-header-controls',
+        codeBlock: 'pre code',
+        htmlContent: '[data-type="html"]',
+        reactContent: '[data-type="react"]',
+        mermaidContent: '.mermaid',
+        markdownContent: '[data-type="markdown"]',
+        rateLimitBanner: '.rate-limit-banner'
+    }
+};
+
+/**
+ * Built-in profiles in order of preference when detection scores are tied
+ */
+export const BUILT_IN_PROFILES: SelectorProfile[] = [
+    SHARED_PROFILE,
+    CURRENT_PROFILE,
+    LEGACY_PROFILE
+];
@@ -0,0 +1,113 @@
+/**
+ * Categories of API failure the UI knows how to explain
+ */
+export type ApiErrorKind =
+    | 'not_configured'
+    | 'auth'
+    | 'rate_limit'
+    | 'overloaded'
+    | 'invalid_request'
+    | 'server'
+    | 'network'
+    | 'timeout'
+    | 'cancelled';
+
+/**
+ * Plain form of an ApiError, safe to send between extension contexts
+ */
+export interface ApiErrorInfo {
+    kind: ApiErrorKind;
+    message: string;
+    status?: number;
+    retryAfterMs?: number;
+}
+
+/**
+ * Error raised for any failed outbound API call
+ */
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind;
+    readonly status?: number;
+    readonly retryAfterMs?: number;
+
+    constructor(info: ApiErrorInfo) {
+        super(info.message);
+        this.name = 'ApiError';
+        this.kind = info.kind;
+        this.status = info.status;
+        this.retryAfterMs = info.retryAfterMs;
+    }
+
+    /**
+     * Whether retrying the same request later could succeed
+     */
+    get retryable(): boolean {
+        return ['rate_limit', 'overloaded', 'server', 'network', 'timeout'].includes(this.kind);
+    }
+
+    /**
+     * Convert to a plain object for messaging
+     */
+    toInfo(): ApiErrorInfo {
+        return {
+            kind: this.kind,
+            message: this.message,
+            status: this.status,
+            retryAfterMs: this.retryAfterMs
+        };
+    }
+
+    /**
+     * Work out the kind of error from an HTTP status and the API's own error type, if any
+     */
+    static kindForStatus(status: number, errorType?: string): ApiErrorKind {
+        switch (errorType) {
+            case 'authentication_error':
+            case 'permission_error':
+                return 'auth';
+            case 'rate_limit_error':
+                return 'rate_limit';
+            case 'overloaded_error':
+                return 'overloaded';
+            case 'invalid_request_error':
+            case 'not_found_error':
+            case 'request_too_large':
+                return 'invalid_request';
+        }
+
+        if (status === 401 || status === 403) return 'auth';
+        if (status === 429) return 'rate_limit';
+        if (status === 529) return 'overloaded';
+        if (status === 408) return 'timeout';
+        if (status >= 500) return 'server';
+        return 'invalid_request';
+    }
+
+    /**
+     * Explain an error to the user
+     */
+    static describe(info: ApiErrorInfo): string {
+        switch (info.kind) {
+            case 'not_configured':
+                return info.message;
+            case 'auth':
+                return 'The API key was rejected. Check it on the extension options page.';
+            case 'rate_limit':
+                return info.retryAfterMs
+                    ? `The API rate limit was reached. Try again in ${Math.ceil(info.retryAfterMs / 1000)} seconds.`
+                    : 'The API rate limit was reached. Try again in a little while.';
+            case 'overloaded':
+                return 'The API is overloaded right now. Try again shortly.';
+            case 'invalid_request':
+                return `The API rejected the request: ${info.message}`;
+            case 'server':
+                return 'The API had a server error. Try again later.';
+            case 'network':
+                return 'Could not reach the API. Check your connection and the endpoint in settings.';
+            case 'timeout':
+                return 'The API took too long to respond.';
+            case 'cancelled':
+                return 'The request was cancelled.';
+        }
+    }
+}
@@ -23,8 +23,30 @@ export interface Artifact {
     timestamp: Date;
     messageId?: string;
     conversationId?: string;
+    conversationTitle?: string;
+
+    // Index of the artifact's message within the conversation, counting from 0
+    messageIndex?: number;
+    position?: number;
+    contentHash?: string;
+    historyId?: string;
+    version?: number;
+}
+
+/**
+ * Content a user edited in the page, stored per artifact ID
+ */
+export interface ArtifactEdit {
+    artifactId: string;
+    content: string;
+    editedAt: string;
 }
 
+/**
+ * How many versions of each artifact to include in a download
+ */
+export type VersionDownloadMode = 'latest' | 'all' | 'specific';
+
 /**
  * Represents a file created from an artifact for download
  */
@@ -47,6 +69,12 @@ export class ArtifactState {
     readonly timestamp: Date;
     readonly messageId?: string;
     readonly conversationId?: string;
+    readonly conversationTitle?: string;
+    readonly messageIndex?: number;
+    readonly position?: number;
+    readonly contentHash?: string;
+    readonly historyId?: string;
+    readonly version?: number;
     readonly previousState?: ArtifactState;
 
     constructor(data: Artifact, previousState?: ArtifactState) {
@@ -60,6 +88,12 @@ export class ArtifactState {
             : new Date(data.timestamp);
         this.messageId = data.messageId;
         this.conversationId = data.conversationId;
+        this.conversationTitle = data.conversationTitle;
+        this.messageIndex = data.messageIndex;
+        this.position = data.position;
+        this.contentHash = data.contentHash;
+        this.historyId = data.historyId;
+        this.version = data.version;
         this.previousState = previousState;
     }
 
@@ -73,6 +107,21 @@ export class ArtifactState {
         }, this);
     }
 
+    /**
+     * Get every version in this state's chain, oldest first
+     */
+    getVersionChain(): ArtifactState[] {
+        const chain: ArtifactState[] = [this];
+        let previous = this.previousState;
+
+        while (previous) {
+            chain.unshift(previous);
+            previous = previous.previousState;
+        }
+
+        return chain;
+    }
+
     /**
      * Convert state to a plain object (useful for storage)
      */
@@ -85,7 +134,23 @@ export class ArtifactState {
             language: this.language,
             timestamp: this.timestamp,
             messageId: this.messageId,
-            conversationId: this.conversationId
+            conversationId: this.conversationId,
+            conversationTitle: this.conversationTitle,
+            messageIndex: this.messageIndex,
+            position: this.position,
+            contentHash: this.contentHash,
+            historyId: this.historyId,
+            version: this.version
         };
     }
 }
+
+/**
+ * All versions of one logical artifact within a conversation
+ */
+export interface ArtifactHistory {
+    id: string;
+    title: string;
+    type: ArtifactType;
+    versions: ArtifactState[];
+}
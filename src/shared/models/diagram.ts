@@ -0,0 +1,20 @@
+/**
+ * A Mermaid diagram rendered for download
+ */
+export interface RenderedDiagram {
+    // Standalone SVG document
+    svg: string;
+
+    // PNG rasterized from the SVG, as a data: URL so it can be sent in a message
+    pngDataUrl: string;
+}
+
+/**
+ * Raised when Mermaid can't parse a diagram
+ */
+export class MermaidSyntaxError extends Error {
+    constructor(message: string, public readonly line: number | null) {
+        super(line !== null ? `Line ${line}: ${message}` : message);
+        this.name = 'MermaidSyntaxError';
+    }
+}
@@ -0,0 +1,51 @@
+/**
+ * Why a sandboxed run ended
+ * - completed: the code finished and any promise it returned settled
+ * - error: the code threw or its promise rejected
+ * - timeout: the run went past its time limit and the worker was killed
+ * - memory: the worker's heap grew past the memory limit and it was killed
+ * - output_limit: the code wrote more console output than is kept and the worker was killed
+ * - crashed: the sandbox stopped responding, e.g. because the worker ran out of memory
+ */
+export type ExecutionExitReason = 'completed' | 'error' | 'timeout' | 'memory' | 'output_limit' | 'crashed';
+
+/**
+ * Outcome of running code in the sandbox
+ */
+export interface ExecutionResult {
+    // console.log/info/debug output, one entry per call
+    stdout: string[];
+
+    // console.error/warn output and uncaught errors, one entry per call
+    stderr: string[];
+
+    // Printable form of the value the code returned (or its promise resolved to), or null if none
+    returnValue: string | null;
+
+    durationMs: number;
+    exitReason: ExecutionExitReason;
+}
+
+/**
+ * Limits for a sandboxed run
+ */
+export interface ExecutionLimits {
+    timeoutMs: number;
+    memoryLimitMb: number;
+
+    // Characters of console output kept across stdout and stderr
+    maxOutputChars: number;
+}
+
+/**
+ * Messages posted into the sandbox page
+ */
+export type SandboxRequest =
+    | { type: 'run'; runId: string; code: string; limits: ExecutionLimits };
+
+/**
+ * Messages posted out of the sandbox page
+ */
+export type SandboxResponse =
+    | { type: 'ready' }
+    | { type: 'result'; runId: string; result: ExecutionResult };
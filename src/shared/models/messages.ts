@@ -0,0 +1,325 @@
+import {Artifact} from './artifact';
+import {ApiTargetSelection, ArtifactSettings, ContextStrategy} from './settings';
+import {ARTIFACT_STORE_OPERATIONS, ArtifactStoreRequest} from '../services/artifactStore';
+import {ApiErrorInfo} from './apiError';
+import {SecretStatus} from './secrets';
+import {ExecutionResult} from './execution';
+import {RenderedDiagram} from './diagram';
+import {ProjectFile} from './project';
+
+/**
+ * Request payload and response data for a single message action
+ */
+export interface MessageDefinition<Request, Response> {
+    request: Request;
+    response: Response;
+}
+
+/**
+ * Request payload for actions that take no arguments
+ */
+export type EmptyRequest = Record<never, never>;
+
+/**
+ * Options for packaging artifacts into a download
+ */
+export interface DownloadOptions {
+    stitchArtifacts?: boolean;
+    flatStructure?: boolean;
+}
+
+/**
+ * A previous turn in a conversation sent to the Claude API
+ */
+export interface ConversationMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Output of running or compiling code
+ */
+export interface CompileResult {
+    output: string;
+    error?: string;
+    executionTime?: number;
+
+    // Set for code run in the sandbox
+    execution?: ExecutionResult;
+}
+
+/**
+ * Notification styles the content script can show
+ */
+export type NotificationType = 'success' | 'error' | 'info' | 'warning';
+
+/**
+ * Messages handled by the background script, sent from content scripts and extension pages
+ */
+export interface BackgroundMessages {
+    downloadArtifacts: MessageDefinition<{ artifacts: Artifact[]; options?: DownloadOptions }, { filename: string; count: number }>;
+    downloadSingleArtifact: MessageDefinition<{ artifact: Artifact }, { filename: string; count: number }>;
+    downloadProject: MessageDefinition<{ name: string; files: ProjectFile[] }, { filename: string; count: number }>;
+    remoteCompile: MessageDefinition<{ code: string; language: string }, CompileResult>;
+    apiRequest: MessageDefinition<{ prompt: string; options?: Record<string, unknown> }, unknown>;
+    continueConversation: MessageDefinition<
+        { conversationHistory: ConversationMessage[]; prompt: string } & ApiTargetSelection,
+        unknown
+    >;
+    getSettings: MessageDefinition<EmptyRequest, ArtifactSettings>;
+    saveSettings: MessageDefinition<{ settings: ArtifactSettings }, null>;
+    getSettingsProfiles: MessageDefinition<EmptyRequest, { active: string | null; names: string[] }>;
+    switchSettingsProfile: MessageDefinition<{ name: string }, ArtifactSettings>;
+    getSecretStatus: MessageDefinition<EmptyRequest, SecretStatus>;
+    saveSecret: MessageDefinition<{ name: string; value: string }, SecretStatus>;
+    artifactStore: MessageDefinition<ArtifactStoreRequest, unknown>;
+    openLibrary: MessageDefinition<EmptyRequest, null>;
+    renderSvgPng: MessageDefinition<{ svg: string; scale: number }, { pngDataUrl: string }>;
+}
+
+/**
+ * Messages handled by the content script, sent from the background script
+ */
+export interface ContentMessages {
+    showSettings: MessageDefinition<EmptyRequest, boolean>;
+    showNotification: MessageDefinition<{ type: NotificationType; text: string; duration?: number }, boolean>;
+    downloadAllArtifacts: MessageDefinition<{ options?: DownloadOptions }, { count: number; error?: string }>;
+    compileAndRun: MessageDefinition<{ code: string; language: string }, CompileResult>;
+    showArtifactPopup: MessageDefinition<EmptyRequest, boolean>;
+}
+
+/**
+ * Messages handled by the offscreen document, sent from the background script
+ */
+export interface OffscreenMessages {
+    renderMermaid: MessageDefinition<{ source: string }, RenderedDiagram>;
+    renderSvgPng: MessageDefinition<{ svg: string; scale: number }, { pngDataUrl: string }>;
+    optimizeSvg: MessageDefinition<{ svg: string }, { svg: string }>;
+}
+
+/**
+ * Marks messages for the offscreen document
+ * Runtime messages reach every extension page, so the offscreen document only answers
+ * messages carrying this target and leaves the rest to the background script.
+ */
+export const OFFSCREEN_MESSAGE_TARGET = 'offscreen';
+
+/**
+ * Any set of message definitions keyed by action
+ */
+export type MessageMap<M> = { [A in keyof M]: MessageDefinition<unknown, unknown> };
+
+/**
+ * A request for one action, or the union of requests for several
+ */
+export type MessageRequest<M extends MessageMap<M>, A extends keyof M = keyof M> = {
+    [K in A]: { action: K } & M[K]['request'];
+}[A];
+
+/**
+ * Data returned for an action
+ */
+export type MessageResult<M extends MessageMap<M>, A extends keyof M> = M[A]['response'];
+
+export type BackgroundAction = keyof BackgroundMessages;
+export type BackgroundRequest<A extends BackgroundAction = BackgroundAction> = MessageRequest<BackgroundMessages, A>;
+export type ContentAction = keyof ContentMessages;
+export type ContentRequest<A extends ContentAction = ContentAction> = MessageRequest<ContentMessages, A>;
+export type OffscreenAction = keyof OffscreenMessages;
+export type OffscreenRequest<A extends OffscreenAction = OffscreenAction> = MessageRequest<OffscreenMessages, A>;
+
+/**
+ * Why a message could not be handled
+ */
+export type MessageErrorCode =
+    | 'INVALID_MESSAGE'
+    | 'UNKNOWN_ACTION'
+    | 'INVALID_PAYLOAD'
+    | 'HANDLER_ERROR'
+    | 'NO_RECEIVER';
+
+export interface MessageSuccess<T> {
+    success: true;
+    data: T;
+}
+
+export interface MessageFailure {
+    success: false;
+    error: string;
+    code: MessageErrorCode;
+    details?: string[];
+
+    // Set when the handler failed because an outbound API call did
+    apiError?: ApiErrorInfo;
+}
+
+/**
+ * Every reply to a message has this shape
+ */
+export type MessageResponse<T> = MessageSuccess<T> | MessageFailure;
+
+/**
+ * Handler for one action; it returns the response data or throws
+ */
+export type MessageHandler<M extends MessageMap<M>, A extends keyof M> = (
+    message: MessageRequest<M, A>,
+    sender: chrome.runtime.MessageSender
+) => Promise<MessageResult<M, A>>;
+
+/**
+ * Runtime description of a payload field
+ */
+export interface PayloadField {
+    type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+    optional?: boolean;
+    values?: readonly string[];
+}
+
+/**
+ * Runtime description of an action's payload, keyed by field name
+ */
+export type PayloadSchema = Record<string, PayloadField>;
+
+/**
+ * Payload schemas for background actions, checked before a handler runs
+ */
+export const BACKGROUND_MESSAGE_SCHEMAS: Record<BackgroundAction, PayloadSchema> = {
+    downloadArtifacts: {
+        artifacts: { type: 'array' },
+        options: { type: 'object', optional: true }
+    },
+    downloadSingleArtifact: {
+        artifact: { type: 'object' }
+    },
+    downloadProject: {
+        name: { type: 'string' },
+        files: { type: 'array' }
+    },
+    remoteCompile: {
+        code: { type: 'string' },
+        language: { type: 'string' }
+    },
+    apiRequest: {
+        prompt: { type: 'string' },
+        options: { type: 'object', optional: true }
+    },
+    continueConversation: {
+        conversationHistory: { type: 'array' },
+        prompt: { type: 'string' },
+        profileId: { type: 'string', optional: true },
+        model: { type: 'string', optional: true }
+    },
+    getSettings: {},
+    saveSettings: {
+        settings: { type: 'object' }
+    },
+    getSettingsProfiles: {},
+    switchSettingsProfile: {
+        name: { type: 'string' }
+    },
+    getSecretStatus: {},
+    saveSecret: {
+        name: { type: 'string' },
+        value: { type: 'string' }
+    },
+    artifactStore: {
+        operation: { type: 'string', values: ARTIFACT_STORE_OPERATIONS },
+        args: { type: 'array' }
+    },
+    openLibrary: {},
+    renderSvgPng: {
+        svg: { type: 'string' },
+        scale: { type: 'number' }
+    }
+};
+
+/**
+ * Payload schemas for content script actions
+ */
+export const CONTENT_MESSAGE_SCHEMAS: Record<ContentAction, PayloadSchema> = {
+    showSettings: {},
+    showNotification: {
+        type: { type: 'string', values: ['success', 'error', 'info', 'warning'] },
+        text: { type: 'string' },
+        duration: { type: 'number', optional: true }
+    },
+    downloadAllArtifacts: {
+        options: { type: 'object', optional: true }
+    },
+    compileAndRun: {
+        code: { type: 'string' },
+        language: { type: 'string' }
+    },
+    showArtifactPopup: {}
+};
+
+/**
+ * Payload schemas for offscreen document actions
+ */
+export const OFFSCREEN_MESSAGE_SCHEMAS: Record<OffscreenAction, PayloadSchema> = {
+    renderMermaid: {
+        source: { type: 'string' }
+    },
+    renderSvgPng: {
+        svg: { type: 'string' },
+        scale: { type: 'number' }
+    },
+    optimizeSvg: {
+        svg: { type: 'string' }
+    }
+};
+
+/**
+ * Name of the long-lived port used to stream conversation replies
+ */
+export const CONVERSATION_STREAM_PORT = 'conversationStream';
+
+/**
+ * Messages the content script sends over the conversation stream port
+ */
+export type ConversationStreamRequest =
+    | ({ type: 'start'; conversationHistory: ConversationMessage[]; prompt: string } & ApiTargetSelection)
+    | { type: 'cancel' };
+
+/**
+ * Token counts reported by the Messages API
+ */
+export interface ConversationUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * How the conversation was shortened to fit the model's context window
+ */
+export interface ContextTrimSummary {
+    strategy: ContextStrategy;
+    droppedMessages: number;
+
+    // Artifacts from dropped messages whose latest versions were still sent
+    pinnedArtifacts: number;
+
+    // Whether the dropped messages were replaced by a summary
+    summarized: boolean;
+}
+
+/**
+ * A complete reply streamed from the Messages API
+ */
+export interface ConversationReply {
+    text: string;
+    stopReason: string | null;
+    usage: ConversationUsage;
+
+    // Present when the conversation had to be shortened
+    trim?: ContextTrimSummary;
+}
+
+/**
+ * Messages the background script sends back over the conversation stream port
+ */
+export type ConversationStreamEvent =
+    | { type: 'delta'; text: string }
+    | ({ type: 'done' } & ConversationReply)
+    | { type: 'cancelled'; text: string }
+    | { type: 'error'; error: string; apiError?: ApiErrorInfo };
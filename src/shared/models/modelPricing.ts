@@ -0,0 +1,95 @@
+/**
+ * Prices for a family of Claude models
+ * Context sizes and output limits live in the editable model catalog in the API settings.
+ */
+export interface ModelPricing {
+    // Model names starting with this prefix use these prices
+    prefix: string;
+    label: string;
+
+    // US dollars per million tokens
+    inputPerMTok: number;
+    outputPerMTok: number;
+}
+
+/**
+ * Published prices per model family
+ * Dated model names (e.g. claude-3-haiku-20240307) match by prefix; the longest matching prefix wins.
+ */
+export const MODEL_PRICING: ModelPricing[] = [
+    {
+        prefix: 'claude-3-haiku',
+        label: 'Claude 3 Haiku',
+        inputPerMTok: 0.25,
+        outputPerMTok: 1.25
+    },
+    {
+        prefix: 'claude-3-sonnet',
+        label: 'Claude 3 Sonnet',
+        inputPerMTok: 3,
+        outputPerMTok: 15
+    },
+    {
+        prefix: 'claude-3-opus',
+        label: 'Claude 3 Opus',
+        inputPerMTok: 15,
+        outputPerMTok: 75
+    },
+    {
+        prefix: 'claude-3-5-haiku',
+        label: 'Claude 3.5 Haiku',
+        inputPerMTok: 0.8,
+        outputPerMTok: 4
+    },
+    {
+        prefix: 'claude-3-5-sonnet',
+        label: 'Claude 3.5 Sonnet',
+        inputPerMTok: 3,
+        outputPerMTok: 15
+    },
+    {
+        prefix: 'claude-3-7-sonnet',
+        label: 'Claude 3.7 Sonnet',
+        inputPerMTok: 3,
+        outputPerMTok: 15
+    },
+    {
+        prefix: 'claude-sonnet-4',
+        label: 'Claude Sonnet 4',
+        inputPerMTok: 3,
+        outputPerMTok: 15
+    },
+    {
+        prefix: 'claude-opus-4',
+        label: 'Claude Opus 4',
+        inputPerMTok: 15,
+        outputPerMTok: 75
+    }
+];
+
+/**
+ * One API call recorded in the spend ledger
+ */
+export interface SpendEntry {
+    // ISO timestamp of when the call finished
+    timestamp: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+
+    // US dollars, or null when the model has no known price
+    cost: number | null;
+}
+
+/**
+ * Token and cost totals over a set of ledger entries
+ */
+export interface SpendTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+
+    // Requests whose model had no known price, so are missing from the cost
+    unpricedRequests: number;
+}
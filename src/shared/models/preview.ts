@@ -0,0 +1,22 @@
+/**
+ * How the preview page renders an artifact
+ * - html: the source is a page of its own, shown in a nested frame
+ * - react: the source is a module whose default export is a component, transformed from JSX/TSX first
+ * - mermaid: the source is a Mermaid diagram, rendered to SVG
+ * - markdown: the source is markdown, rendered to styled HTML
+ */
+export type PreviewKind = 'html' | 'react' | 'mermaid' | 'markdown';
+
+/**
+ * Messages posted into the preview page
+ */
+export type PreviewRequest =
+    | { type: 'render'; renderId: number; kind: PreviewKind; source: string };
+
+/**
+ * Messages posted out of the preview page
+ * Errors carry the render they came from so that errors from an older render can be ignored.
+ */
+export type PreviewResponse =
+    | { type: 'ready' }
+    | { type: 'error'; renderId: number; message: string };
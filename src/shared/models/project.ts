@@ -0,0 +1,42 @@
+/**
+ * What a file's place in a reconstructed project was worked out from, from most to least certain
+ */
+export type ProjectPathSource = 'header' | 'title' | 'import' | 'fallback';
+
+/**
+ * An artifact placed at a path in a reconstructed project
+ */
+export interface ProjectFile {
+    artifactId: string;
+    title: string;
+    path: string;
+    content: string;
+    source: ProjectPathSource;
+}
+
+/**
+ * A relative import that no file in the project satisfies
+ */
+export interface UnresolvedImport {
+    path: string;
+    specifier: string;
+}
+
+/**
+ * Problems that would stop a project being downloaded, or running once it is
+ */
+export interface ProjectCheck {
+    invalidPaths: string[];
+    duplicatePaths: string[];
+    unresolvedImports: UnresolvedImport[];
+}
+
+/**
+ * Raised when a path can't be used inside a project
+ */
+export class ProjectPathError extends Error {
+    constructor(public readonly path: string, reason: string) {
+        super(`"${path}" ${reason}`);
+        this.name = 'ProjectPathError';
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * Secret values by name
+ */
+export type SecretValues = Record<string, string>;
+
+/**
+ * Secrets as written to chrome.storage.local, in the clear or encrypted with the user's passphrase
+ */
+export type StoredSecrets =
+    | { encrypted: false; values: SecretValues }
+    | {
+        encrypted: true;
+
+        // Base64 PBKDF2 salt and AES-GCM IV
+        salt: string;
+        iv: string;
+        iterations: number;
+
+        // Base64 AES-GCM ciphertext of the JSON encoded values
+        ciphertext: string;
+    };
+
+/**
+ * What can be told about the secret store without revealing any secret
+ */
+export interface SecretStatus {
+    encrypted: boolean;
+
+    // Encrypted and not yet unlocked in this browser session
+    locked: boolean;
+
+    // Names of the secrets that are set; empty while locked
+    names: string[];
+}
+
+/**
+ * Names secrets are stored under
+ */
+export class SecretNames {
+    public static readonly COMPILATION_API_KEY = 'compilationApiKey';
+
+    private static readonly API_KEY_PREFIX = 'apiKey:';
+
+    /**
+     * Name of the API key for an API profile
+     */
+    public static apiKey(profileId: string): string {
+        return `${this.API_KEY_PREFIX}${profileId}`;
+    }
+}
+
+/**
+ * Raised when encrypted secrets are needed before the store has been unlocked
+ */
+export class SecretStoreLockedError extends Error {
+    constructor() {
+        super('API keys are locked. Unlock them with your passphrase on the extension options page.');
+        this.name = 'SecretStoreLockedError';
+    }
+}
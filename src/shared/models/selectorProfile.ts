@@ -0,0 +1,43 @@
+/**
+ * CSS selectors used to locate Claude's UI elements for one version of its markup
+ */
+export interface ProfileSelectors {
+    conversationContainer: string;
+    messageContainer: string;
+    artifactContainer: string;
+    artifactTitle: string;
+    header: string;
+    controls: string;
+    codeBlock: string;
+    htmlContent: string;
+    reactContent: string;
+    mermaidContent: string;
+    markdownContent: string;
+    rateLimitBanner: string;
+}
+
+/**
+ * A named set of selectors describing one variant of the claude.ai markup
+ */
+export interface SelectorProfile {
+    name: string;
+    description: string;
+
+    // Selectors whose presence indicates the page uses this markup
+    markers: string[];
+
+    // Optional URL pattern the page must match for this profile to be chosen
+    urlPattern?: RegExp;
+
+    // Pattern used to pull the conversation ID out of the page URL
+    conversationIdPattern: RegExp;
+
+    // Attributes holding message and conversation IDs in the DOM
+    messageIdAttribute: string;
+    conversationIdAttribute: string;
+
+    // Attribute saying whether a message was written by the user or Claude
+    messageRoleAttribute: string;
+
+    selectors: ProfileSelectors;
+}
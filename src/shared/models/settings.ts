@@ -12,16 +12,72 @@ export interface EditorSettings {
     folding: boolean;
 }
 
+/**
+ * How a conversation too long for the model's context window is shortened
+ * - dropOldest: remove the oldest exchanges until it fits
+ * - lastTurns: keep only the last `keepLastTurns` exchanges, dropping more if still too long
+ * - summarize: replace the exchanges that don't fit with a summary written by the model
+ */
+export type ContextStrategy = 'dropOldest' | 'lastTurns' | 'summarize';
+
+/**
+ * Somewhere to send API requests, such as Anthropic directly or an internal proxy
+ */
+export interface ApiProfile {
+    id: string;
+    name: string;
+
+    // Requests go to `${baseUrl}/v1/messages`, or to baseUrl itself if it already ends in /messages
+    baseUrl: string;
+
+    // Sent with every request to this profile, e.g. for proxy authentication
+    headers: Record<string, string>;
+
+    defaultModel: string;
+}
+
+/**
+ * A model in the catalog offered when picking a model
+ */
+export interface ModelInfo {
+    // Name sent to the API
+    id: string;
+    label: string;
+    contextWindow: number;
+    maxOutputTokens: number;
+}
+
+/**
+ * Profile and model picked for a single request; anything left out uses the defaults
+ */
+export interface ApiTargetSelection {
+    profileId?: string;
+    model?: string;
+}
+
 /**
  * API settings for Claude API integration
  */
 export interface ApiSettings {
     enableApiContinuation: boolean;
-    apiKey: string;
-    apiEndpoint: string;
-    modelName: string;
+    apiProfiles: ApiProfile[];
+
+    // Profile used unless a request picks another
+    activeApiProfileId: string;
+
+    // API keys are kept in the SecretStore, by SecretNames.apiKey(profile id)
+
+    modelCatalog: ModelInfo[];
+
+    // Capped at the model's max output
     maxTokens: number;
     temperature: number;
+
+    // Sent with every request and never trimmed
+    systemPrompt: string;
+
+    contextStrategy: ContextStrategy;
+    keepLastTurns: number;
 }
 
 /**
@@ -31,7 +87,8 @@ export interface CompilerSettings {
     enableCompilation: boolean;
     useRemoteCompilation: boolean;
     remoteCompilationEndpoint: string;
-    compilationApiKey: string;
+
+    // The compilation API key is kept in the SecretStore
     executionTimeoutMs: number;
     supportedLanguages: string[];
 }
@@ -45,16 +102,74 @@ export interface UISettings {
     darkMode: boolean;
 }
 
+/**
+ * What a Mermaid diagram becomes in downloads
+ * - source: the .mmd text only
+ * - sourceAndImages: the .mmd text plus the diagram rendered as .svg and .png
+ * - images: the rendered .svg and .png instead of the text
+ */
+export type MermaidExportMode = 'source' | 'sourceAndImages' | 'images';
+
+/**
+ * What a markdown artifact becomes in downloads, always including its .md source
+ * - markdown: the .md source only
+ * - markdownAndHtml: plus a styled .html page
+ * - markdownAndPrint: plus a print-ready .html page with a table of contents
+ * - all: plus both pages
+ */
+export type MarkdownExportMode = 'markdown' | 'markdownAndHtml' | 'markdownAndPrint' | 'all';
+
+/**
+ * PNG copies of SVG artifacts added to downloads, next to the .svg
+ * - none: the .svg only
+ * - 1x, 2x, 4x: one PNG at that multiple of the SVG's size
+ * - all: a PNG at each of those scales
+ */
+export type SvgPngExportMode = 'none' | '1x' | '2x' | '4x' | 'all';
+
+/**
+ * Current version of the settings schema
+ * Bump this and add a migration in SettingsMigrator whenever a field is added, renamed or retyped.
+ */
+export const SETTINGS_SCHEMA_VERSION = 9;
+
+/**
+ * Models offered out of the box
+ */
+export const DEFAULT_MODEL_CATALOG: ModelInfo[] = [
+    { id: 'claude-3-haiku-20240307', label: 'Claude 3 Haiku', contextWindow: 200000, maxOutputTokens: 4096 },
+    { id: 'claude-3-sonnet-20240229', label: 'Claude 3 Sonnet', contextWindow: 200000, maxOutputTokens: 4096 },
+    { id: 'claude-3-opus-20240229', label: 'Claude 3 Opus', contextWindow: 200000, maxOutputTokens: 4096 },
+    { id: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku', contextWindow: 200000, maxOutputTokens: 8192 },
+    { id: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet', contextWindow: 200000, maxOutputTokens: 8192 },
+    { id: 'claude-3-7-sonnet-20250219', label: 'Claude 3.7 Sonnet', contextWindow: 200000, maxOutputTokens: 64000 },
+    { id: 'claude-sonnet-4-20250514', label: 'Claude Sonnet 4', contextWindow: 200000, maxOutputTokens: 64000 },
+    { id: 'claude-opus-4-20250514', label: 'Claude Opus 4', contextWindow: 200000, maxOutputTokens: 32000 }
+];
+
 /**
  * Main settings for artifacts functionality
  */
 export interface ArtifactSettings {
+    // Version of the schema these settings were written with
+    schemaVersion: number;
+
     // Artifact download settings
     stitchArtifacts: boolean;
     flatFileStructure: boolean;
-    includeTimestampInFilename: boolean;
+
+    // Templates for downloaded files' names and folders, such as "{title}-{version}.{ext}"
+    filenameTemplate: string;
+    folderTemplate: string;
     replaceInvalidChars: boolean;
     maxFilenameLength: number;
+    mermaidExport: MermaidExportMode;
+    markdownExport: MarkdownExportMode;
+    optimizeSvg: boolean;
+    svgPngExport: SvgPngExportMode;
+
+    // Library settings
+    maxLibrarySizeMb: number;
 
     // Editor settings
     editorSettings: EditorSettings;
@@ -73,11 +188,19 @@ export interface ArtifactSettings {
  * Default settings
  */
 export const DEFAULT_SETTINGS: ArtifactSettings = {
+    schemaVersion: SETTINGS_SCHEMA_VERSION,
+
     stitchArtifacts: false,
     flatFileStructure: false,
-    includeTimestampInFilename: true,
+    filenameTemplate: '{title}_{timestamp}.{ext}',
+    folderTemplate: 'Claude Conversation/{typeFolder}/{date}',
     replaceInvalidChars: true,
     maxFilenameLength: 255,
+    mermaidExport: 'sourceAndImages',
+    markdownExport: 'markdown',
+    optimizeSvg: false,
+    svgPngExport: 'none',
+    maxLibrarySizeMb: 200,
 
     editorSettings: {
         theme: 'vs',
@@ -92,18 +215,28 @@ export const DEFAULT_SETTINGS: ArtifactSettings = {
 
     apiSettings: {
         enableApiContinuation: false,
-        apiKey: '',
-        apiEndpoint: 'https://api.anthropic.com/v1/messages',
-        modelName: 'claude-3-sonnet-20240229',
+        apiProfiles: [
+            {
+                id: 'default',
+                name: 'Anthropic',
+                baseUrl: 'https://api.anthropic.com',
+                headers: {},
+                defaultModel: 'claude-3-sonnet-20240229'
+            }
+        ],
+        activeApiProfileId: 'default',
+        modelCatalog: DEFAULT_MODEL_CATALOG,
         maxTokens: 4000,
-        temperature: 0.7
+        temperature: 0.7,
+        systemPrompt: '',
+        contextStrategy: 'dropOldest',
+        keepLastTurns: 10
     },
 
     compilerSettings: {
         enableCompilation: true,
         useRemoteCompilation: false,
         remoteCompilationEndpoint: '',
-        compilationApiKey: '',
         executionTimeoutMs: 5000,
         supportedLanguages: ['javascript', 'typescript', 'html', 'css', 'python', 'java']
     },
@@ -119,11 +252,18 @@ export const DEFAULT_SETTINGS: ArtifactSettings = {
  * Settings state class following Team Pattern
  */
 export class SettingsState {
+    readonly schemaVersion: number;
     readonly stitchArtifacts: boolean;
     readonly flatFileStructure: boolean;
-    readonly includeTimestampInFilename: boolean;
+    readonly filenameTemplate: string;
+    readonly folderTemplate: string;
     readonly replaceInvalidChars: boolean;
     readonly maxFilenameLength: number;
+    readonly mermaidExport: MermaidExportMode;
+    readonly markdownExport: MarkdownExportMode;
+    readonly optimizeSvg: boolean;
+    readonly svgPngExport: SvgPngExportMode;
+    readonly maxLibrarySizeMb: number;
     readonly editorSettings: EditorSettings;
     readonly apiSettings: ApiSettings;
     readonly compilerSettings: CompilerSettings;
@@ -131,11 +271,18 @@ export class SettingsState {
     readonly previousState?: SettingsState;
 
     constructor(settings: ArtifactSettings, previousState?: SettingsState) {
+        this.schemaVersion = settings.schemaVersion ?? SETTINGS_SCHEMA_VERSION;
         this.stitchArtifacts = settings.stitchArtifacts;
         this.flatFileStructure = settings.flatFileStructure;
-        this.includeTimestampInFilename = settings.includeTimestampInFilename;
+        this.filenameTemplate = settings.filenameTemplate ?? DEFAULT_SETTINGS.filenameTemplate;
+        this.folderTemplate = settings.folderTemplate ?? DEFAULT_SETTINGS.folderTemplate;
         this.replaceInvalidChars = settings.replaceInvalidChars;
         this.maxFilenameLength = settings.maxFilenameLength;
+        this.mermaidExport = settings.mermaidExport ?? DEFAULT_SETTINGS.mermaidExport;
+        this.markdownExport = settings.markdownExport ?? DEFAULT_SETTINGS.markdownExport;
+        this.optimizeSvg = settings.optimizeSvg ?? DEFAULT_SETTINGS.optimizeSvg;
+        this.svgPngExport = settings.svgPngExport ?? DEFAULT_SETTINGS.svgPngExport;
+        this.maxLibrarySizeMb = settings.maxLibrarySizeMb ?? DEFAULT_SETTINGS.maxLibrarySizeMb;
         this.editorSettings = { ...settings.editorSettings };
         this.apiSettings = { ...settings.apiSettings };
         this.compilerSettings = { ...settings.compilerSettings };
@@ -148,11 +295,18 @@ export class SettingsState {
      */
     with(updates: Partial<ArtifactSettings>): SettingsState {
         const merged: ArtifactSettings = {
+            schemaVersion: this.schemaVersion,
             stitchArtifacts: this.stitchArtifacts,
             flatFileStructure: this.flatFileStructure,
-            includeTimestampInFilename: this.includeTimestampInFilename,
+            filenameTemplate: this.filenameTemplate,
+            folderTemplate: this.folderTemplate,
             replaceInvalidChars: this.replaceInvalidChars,
             maxFilenameLength: this.maxFilenameLength,
+            mermaidExport: this.mermaidExport,
+            markdownExport: this.markdownExport,
+            optimizeSvg: this.optimizeSvg,
+            svgPngExport: this.svgPngExport,
+            maxLibrarySizeMb: this.maxLibrarySizeMb,
             editorSettings: { ...this.editorSettings },
             apiSettings: { ...this.apiSettings },
             compilerSettings: { ...this.compilerSettings },
@@ -185,11 +339,18 @@ export class SettingsState {
      */
     toObject(): ArtifactSettings {
         return {
+            schemaVersion: this.schemaVersion,
             stitchArtifacts: this.stitchArtifacts,
             flatFileStructure: this.flatFileStructure,
-            includeTimestampInFilename: this.includeTimestampInFilename,
+            filenameTemplate: this.filenameTemplate,
+            folderTemplate: this.folderTemplate,
             replaceInvalidChars: this.replaceInvalidChars,
             maxFilenameLength: this.maxFilenameLength,
+            mermaidExport: this.mermaidExport,
+            markdownExport: this.markdownExport,
+            optimizeSvg: this.optimizeSvg,
+            svgPngExport: this.svgPngExport,
+            maxLibrarySizeMb: this.maxLibrarySizeMb,
             editorSettings: { ...this.editorSettings },
             apiSettings: { ...this.apiSettings },
             compilerSettings: { ...this.compilerSettings },
@@ -198,5 +359,13 @@ export class SettingsState {
     }
 }
 
+/**
+ * Named snapshots of settings the user can switch between (e.g. "work", "personal")
+ */
+export interface SettingsProfiles {
+    active: string | null;
+    profiles: Record<string, ArtifactSettings>;
+}
+
 // Type for a settings change listener
 export type SettingsListener = (settings: ArtifactSettings) => void;
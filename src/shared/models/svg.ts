@@ -0,0 +1,16 @@
+/**
+ * Scales SVGs can be exported to PNG at
+ */
+export const SVG_PNG_SCALES = [1, 2, 4] as const;
+
+export type SvgPngScale = typeof SVG_PNG_SCALES[number];
+
+/**
+ * Raised when an SVG document can't be parsed
+ */
+export class SvgSyntaxError extends Error {
+    constructor(message: string, public readonly line: number | null, public readonly column: number | null) {
+        super(line !== null ? `Line ${line}${column !== null ? `, column ${column}` : ''}: ${message}` : message);
+        this.name = 'SvgSyntaxError';
+    }
+}
@@ -0,0 +1,140 @@
+import 'fake-indexeddb/auto';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {Artifact, ArtifactType} from '../models/artifact';
+import {BACKGROUND_MESSAGE_SCHEMAS} from '../models/messages';
+import {MessageValidator} from '../utils/messageValidator';
+import {ArtifactStore, ArtifactStoreRequest} from './artifactStore';
+
+/**
+ * Create an artifact captured at the given time
+ */
+function artifact(id: string, timestamp: string, fields: Partial<Artifact> = {}): Artifact {
+    return {
+        id,
+        title: `Artifact ${id}`,
+        type: ArtifactType.CODE,
+        language: 'typescript',
+        content: `export const id = '${id}';`,
+        timestamp: new Date(timestamp),
+        conversationId: 'conversation-1',
+        ...fields
+    };
+}
+
+describe('ArtifactStore', () => {
+    const store = ArtifactStore.getInstance();
+    const sendMessage = vi.fn();
+
+    beforeEach(() => {
+        vi.spyOn(console, 'debug').mockImplementation(() => undefined);
+        vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        sendMessage.mockReset();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    describe('in the background or an extension page', () => {
+        beforeEach(async () => {
+            vi.stubGlobal('location', { protocol: 'chrome-extension:' });
+            vi.stubGlobal('chrome', { runtime: { sendMessage } });
+            await store.clear();
+        });
+
+        it('stores artifacts and edits in IndexedDB without sending messages', async () => {
+            await store.putArtifact(artifact('a', '2024-05-01T00:00:00Z'));
+            await store.putEdit({ artifactId: 'a', content: 'edited', editedAt: new Date(0).toISOString() });
+
+            expect(await store.getArtifact('a')).toMatchObject({ id: 'a', timestamp: '2024-05-01T00:00:00.000Z' });
+            expect(await store.getEdit('a')).toMatchObject({ content: 'edited' });
+            expect(await store.getUsage(1000)).toMatchObject({ artifactCount: 1, editCount: 1, maxBytes: 1000 });
+            expect(sendMessage).not.toHaveBeenCalled();
+
+            await store.deleteArtifact('a');
+            expect(await store.getArtifact('a')).toBeNull();
+        });
+
+        it('answers queries from the indexes and filters the rest', async () => {
+            await store.putArtifact(artifact('old', '2024-01-01T00:00:00Z'));
+            await store.putArtifact(artifact('new', '2024-06-01T00:00:00Z'));
+            await store.putArtifact(artifact('svg', '2024-06-01T00:00:00Z', { type: ArtifactType.SVG }));
+
+            const ids = async (query: object): Promise<string[]> =>
+                (await store.queryArtifacts(query)).map(record => record.id).sort();
+
+            expect(await ids({ conversationId: 'conversation-1', since: new Date('2024-03-01T00:00:00Z') }))
+                .toEqual(['new', 'svg']);
+            expect(await ids({ type: ArtifactType.SVG })).toEqual(['svg']);
+            expect(await ids({ until: new Date('2024-03-01T00:00:00Z') })).toEqual(['old']);
+        });
+
+        it('evicts the least recently used artifacts, but never edits', async () => {
+            await store.putArtifact(artifact('first', '2024-01-01T00:00:00Z'));
+            await store.putArtifact(artifact('second', '2024-01-02T00:00:00Z'));
+            await store.putEdit({ artifactId: 'first', content: 'mine', editedAt: new Date(0).toISOString() });
+            const { size } = (await store.getArtifact('second'))!;
+
+            expect(await store.evict(size)).toBe(1);
+            expect(await store.getArtifact('first')).toBeNull();
+            expect(await store.getEdit('first')).not.toBeNull();
+        });
+
+        it('executes forwarded operations, reviving the dates they carry', async () => {
+            const record = { ...artifact('a', '2024-05-01T00:00:00Z'), timestamp: '2024-05-01T00:00:00.000Z', size: 0, lastAccessed: 0 };
+
+            await store.execute('putArtifact', [record]);
+
+            expect(await store.execute('queryArtifacts', [{ since: '2024-04-01T00:00:00.000Z' }]))
+                .toEqual([expect.objectContaining({ id: 'a', timestamp: '2024-05-01T00:00:00.000Z' })]);
+            expect(await store.execute('queryArtifacts', [{ until: '2024-04-01T00:00:00.000Z' }])).toEqual([]);
+        });
+
+        it('refuses operations that can\'t be forwarded', async () => {
+            const request = { operation: 'clear', args: [] } as unknown as ArtifactStoreRequest;
+
+            await expect(store.execute(request.operation, request.args)).rejects.toThrow('Unknown artifact store operation: clear');
+        });
+    });
+
+    describe('in a content script', () => {
+        beforeEach(() => {
+            vi.stubGlobal('location', { protocol: 'https:' });
+            vi.stubGlobal('chrome', { runtime: { sendMessage } });
+        });
+
+        it('forwards operations to the background with dates as strings', async () => {
+            sendMessage.mockResolvedValue({ success: true, data: [] });
+
+            await store.queryArtifacts({ type: ArtifactType.SVG, since: new Date('2024-01-01T00:00:00Z') });
+
+            expect(sendMessage).toHaveBeenCalledWith({
+                action: 'artifactStore',
+                operation: 'queryArtifacts',
+                args: [{ type: 'svg', since: '2024-01-01T00:00:00.000Z' }]
+            });
+        });
+
+        it('returns what the background replied and throws its errors', async () => {
+            sendMessage.mockResolvedValueOnce({ success: true, data: { artifactId: 'a', content: 'edited' } });
+            expect(await store.getEdit('a')).toEqual({ artifactId: 'a', content: 'edited' });
+
+            sendMessage.mockResolvedValueOnce({ success: false, error: 'Store unavailable' });
+            await expect(store.getAllArtifacts()).rejects.toThrow('Store unavailable');
+        });
+
+        it('doesn\'t delete artifacts or clear the store', async () => {
+            await expect(store.deleteArtifact('a')).rejects.toThrow('only available to extension pages');
+            await expect(store.clear()).rejects.toThrow('only available to extension pages');
+            expect(sendMessage).not.toHaveBeenCalled();
+        });
+
+        it('has deletes and clears rejected by the background as well', () => {
+            expect(MessageValidator.validate(
+                { action: 'artifactStore', operation: 'clear', args: [] },
+                BACKGROUND_MESSAGE_SCHEMAS
+            )?.code).toBe('INVALID_PAYLOAD');
+        });
+    });
+});
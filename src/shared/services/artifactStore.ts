@@ -0,0 +1,521 @@
+import {LoggerService} from './loggerService';
+import {MessageClient} from './messageClient';
+import {Artifact, ArtifactEdit, ArtifactType} from '../models/artifact';
+
+/**
+ * Artifact record as kept in IndexedDB
+ * Timestamps are stored as ISO strings so records survive extension messaging unchanged.
+ */
+export interface StoredArtifact extends Omit<Artifact, 'timestamp'> {
+    timestamp: string;
+    size: number;
+    lastAccessed: number;
+}
+
+/**
+ * Filters that can be answered from the store's indexes
+ */
+export interface ArtifactQuery {
+    conversationId?: string;
+    type?: ArtifactType;
+    since?: Date;
+    until?: Date;
+}
+
+/**
+ * How much space the artifact store is using
+ */
+export interface StorageUsage {
+    artifactCount: number;
+    editCount: number;
+    bytes: number;
+    maxBytes: number;
+}
+
+/**
+ * Operations that content scripts may forward to the background store
+ * Deleting artifacts and clearing the store are left to extension pages.
+ */
+export const ARTIFACT_STORE_OPERATIONS = [
+    'putArtifact',
+    'getArtifact',
+    'getAllArtifacts',
+    'queryArtifacts',
+    'putEdit',
+    'getEdit',
+    'deleteEdit',
+    'getUsage',
+    'evict'
+] as const;
+
+export type ArtifactStoreOperation = typeof ARTIFACT_STORE_OPERATIONS[number];
+
+/**
+ * Query as forwarded between contexts, with its dates as ISO strings
+ */
+export type SerializedArtifactQuery = Partial<Record<keyof ArtifactQuery, string>>;
+
+/**
+ * Arguments a forwarded operation is sent with
+ * Records and queries carry their dates as strings, so those differ from the method's parameters.
+ */
+export type ArtifactStoreArgs<O extends ArtifactStoreOperation> =
+    O extends 'putArtifact' ? [record: StoredArtifact, maxBytes?: number]
+        : O extends 'queryArtifacts' ? [query: SerializedArtifactQuery]
+            : Parameters<ArtifactStore[O]>;
+
+/**
+ * What a forwarded operation resolves to
+ */
+export type ArtifactStoreResult<O extends ArtifactStoreOperation> = Awaited<ReturnType<ArtifactStore[O]>>;
+
+/**
+ * Payload of a forwarded operation
+ */
+export type ArtifactStoreRequest = {
+    [O in ArtifactStoreOperation]: { operation: O; args: ArtifactStoreArgs<O> };
+}[ArtifactStoreOperation];
+
+/**
+ * IndexedDB-backed store for artifact content and in-page edits
+ *
+ * IndexedDB is per origin, so only extension pages and the background worker
+ * share one database. Calls made from a content script are forwarded to the
+ * background worker, which owns the data.
+ */
+export class ArtifactStore {
+    private static instance: ArtifactStore;
+    private readonly logger = LoggerService.getInstance();
+    private readonly DB_NAME = 'claude-artifacts';
+    private readonly DB_VERSION = 1;
+    private readonly ARTIFACTS = 'artifacts';
+    private readonly EDITS = 'edits';
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the artifact store
+     */
+    public static getInstance(): ArtifactStore {
+        if (!ArtifactStore.instance) {
+            ArtifactStore.instance = new ArtifactStore();
+        }
+        return ArtifactStore.instance;
+    }
+
+    /**
+     * Whether this context owns the database (extension pages and background worker)
+     */
+    public isOwner(): boolean {
+        return globalThis.location?.protocol === 'chrome-extension:';
+    }
+
+    /**
+     * Store an artifact, evicting least recently used ones if the store exceeds maxBytes
+     */
+    public async putArtifact(artifact: Artifact, maxBytes?: number): Promise<void> {
+        const record: StoredArtifact = {
+            ...artifact,
+            timestamp: this.toIsoString(artifact.timestamp),
+            size: this.measure(artifact.title, artifact.content),
+            lastAccessed: Date.now()
+        };
+
+        await this.run('putArtifact', [record, maxBytes], async () => {
+            await this.request(this.ARTIFACTS, 'readwrite', store => store.put(record));
+
+            if (maxBytes) {
+                await this.evictLocal(maxBytes, record.id);
+            }
+        });
+    }
+
+    /**
+     * Get an artifact and mark it as recently used
+     */
+    public async getArtifact(id: string): Promise<StoredArtifact | null> {
+        return this.run('getArtifact', [id], async () => {
+            const record = await this.request<StoredArtifact | undefined>(this.ARTIFACTS, 'readonly', store => store.get(id));
+            if (!record) {
+                return null;
+            }
+
+            record.lastAccessed = Date.now();
+            await this.request(this.ARTIFACTS, 'readwrite', store => store.put(record));
+            return record;
+        });
+    }
+
+    /**
+     * Get every stored artifact
+     */
+    public async getAllArtifacts(): Promise<StoredArtifact[]> {
+        return this.run('getAllArtifacts', [], () =>
+            this.request<StoredArtifact[]>(this.ARTIFACTS, 'readonly', store => store.getAll())
+        );
+    }
+
+    /**
+     * Get artifacts matching a query
+     * The most selective indexed filter is used to read from the database; the
+     * rest are applied to the loaded records.
+     */
+    public async queryArtifacts(query: ArtifactQuery): Promise<StoredArtifact[]> {
+        return this.run('queryArtifacts', [this.serializeQuery(query)], async () => {
+            let records: StoredArtifact[];
+
+            if (query.conversationId) {
+                records = await this.request(this.ARTIFACTS, 'readonly', store =>
+                    store.index('conversationId').getAll(query.conversationId));
+            } else if (query.type) {
+                records = await this.request(this.ARTIFACTS, 'readonly', store =>
+                    store.index('type').getAll(query.type));
+            } else if (query.since || query.until) {
+                const range = this.createDateRange(query.since, query.until);
+                records = await this.request(this.ARTIFACTS, 'readonly', store =>
+                    store.index('timestamp').getAll(range));
+            } else {
+                records = await this.getAllArtifacts();
+            }
+
+            return records.filter(record => this.matchesQuery(record, query));
+        });
+    }
+
+    /**
+     * Delete an artifact
+     */
+    public async deleteArtifact(id: string): Promise<void> {
+        await this.runOwned('deleteArtifact', async () => {
+            await this.request(this.ARTIFACTS, 'readwrite', store => store.delete(id));
+        });
+    }
+
+    /**
+     * Store an in-page edit
+     */
+    public async putEdit(edit: ArtifactEdit): Promise<void> {
+        await this.run('putEdit', [edit], async () => {
+            await this.request(this.EDITS, 'readwrite', store => store.put(edit));
+        });
+    }
+
+    /**
+     * Get the in-page edit for an artifact, if any
+     */
+    public async getEdit(artifactId: string): Promise<ArtifactEdit | null> {
+        return this.run('getEdit', [artifactId], async () => {
+            const edit = await this.request<ArtifactEdit | undefined>(this.EDITS, 'readonly', store => store.get(artifactId));
+            return edit ?? null;
+        });
+    }
+
+    /**
+     * Delete the in-page edit for an artifact
+     */
+    public async deleteEdit(artifactId: string): Promise<void> {
+        await this.run('deleteEdit', [artifactId], async () => {
+            await this.request(this.EDITS, 'readwrite', store => store.delete(artifactId));
+        });
+    }
+
+    /**
+     * Report how much space the store uses
+     */
+    public async getUsage(maxBytes: number = 0): Promise<StorageUsage> {
+        return this.run('getUsage', [maxBytes], async () => {
+            const sizes = await this.getArtifactSizes();
+            const edits = await this.request<ArtifactEdit[]>(this.EDITS, 'readonly', store => store.getAll());
+
+            let bytes = 0;
+            sizes.forEach(size => bytes += size);
+            edits.forEach(edit => bytes += this.measure(edit.content));
+
+            return {
+                artifactCount: sizes.size,
+                editCount: edits.length,
+                bytes,
+                maxBytes
+            };
+        });
+    }
+
+    /**
+     * Evict least recently used artifacts until the store fits in maxBytes
+     * Edits are the user's own work and are never evicted.
+     */
+    public async evict(maxBytes: number): Promise<number> {
+        return this.run('evict', [maxBytes], () => this.evictLocal(maxBytes));
+    }
+
+    /**
+     * Remove every artifact and edit
+     */
+    public async clear(): Promise<void> {
+        await this.runOwned('clear', async () => {
+            await this.request(this.ARTIFACTS, 'readwrite', store => store.clear());
+            await this.request(this.EDITS, 'readwrite', store => store.clear());
+        });
+    }
+
+    /**
+     * Execute an operation forwarded from a content script
+     */
+    public async execute<O extends ArtifactStoreOperation>(
+        operation: O,
+        args: ArtifactStoreArgs<O>
+    ): Promise<ArtifactStoreResult<O>> {
+        // Every forwardable operation must have a handler
+        const handlers: { [K in ArtifactStoreOperation]: (...args: ArtifactStoreArgs<K>) => Promise<ArtifactStoreResult<K>> } = {
+            putArtifact: (record, maxBytes) => this.putArtifact({ ...record, timestamp: new Date(record.timestamp) }, maxBytes),
+            getArtifact: id => this.getArtifact(id),
+            getAllArtifacts: () => this.getAllArtifacts(),
+            queryArtifacts: query => this.queryArtifacts(this.reviveQuery(query ?? {})),
+            putEdit: edit => this.putEdit(edit),
+            getEdit: artifactId => this.getEdit(artifactId),
+            deleteEdit: artifactId => this.deleteEdit(artifactId),
+            getUsage: maxBytes => this.getUsage(maxBytes),
+            evict: maxBytes => this.evict(maxBytes)
+        };
+
+        if (!Object.hasOwn(handlers, operation)) {
+            throw new Error(`Unknown artifact store operation: ${operation}`);
+        }
+
+        const handler = handlers[operation] as (...args: ArtifactStoreArgs<O>) => Promise<ArtifactStoreResult<O>>;
+        return handler(...args);
+    }
+
+    /**
+     * Run an operation locally when this context owns the database, otherwise forward it
+     */
+    private async run<O extends ArtifactStoreOperation>(
+        operation: O,
+        args: ArtifactStoreArgs<O>,
+        local: () => Promise<ArtifactStoreResult<O>>
+    ): Promise<ArtifactStoreResult<O>> {
+        if (this.isOwner()) {
+            return local();
+        }
+
+        // TypeScript can't tie the generic operation to its arguments inside the request union
+        const request = { operation, args } as ArtifactStoreRequest;
+        const response = await MessageClient.getInstance().send({ action: 'artifactStore', ...request });
+
+        if (!response.success) {
+            throw new Error(response.error || `Artifact store operation '${operation}' failed`);
+        }
+
+        return response.data as ArtifactStoreResult<O>;
+    }
+
+    /**
+     * Run an operation that content scripts may not forward, so only the owner can run it
+     */
+    private async runOwned(operation: 'deleteArtifact' | 'clear', local: () => Promise<void>): Promise<void> {
+        if (!this.isOwner()) {
+            throw new Error(`Artifact store operation '${operation}' is only available to extension pages`);
+        }
+
+        return local();
+    }
+
+    /**
+     * Open the database, creating stores and indexes on first use
+     */
+    private openDatabase(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+
+                    if (!db.objectStoreNames.contains(this.ARTIFACTS)) {
+                        const artifacts = db.createObjectStore(this.ARTIFACTS, { keyPath: 'id' });
+                        artifacts.createIndex('conversationId', 'conversationId');
+                        artifacts.createIndex('type', 'type');
+                        artifacts.createIndex('timestamp', 'timestamp');
+                        artifacts.createIndex('lastAccessed', 'lastAccessed');
+                        artifacts.createIndex('size', 'size');
+                    }
+
+                    if (!db.objectStoreNames.contains(this.EDITS)) {
+                        db.createObjectStore(this.EDITS, { keyPath: 'artifactId' });
+                    }
+                };
+
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this.dbPromise = null;
+                    reject(request.error);
+                };
+            });
+        }
+
+        return this.dbPromise;
+    }
+
+    /**
+     * Run a single request against an object store
+     */
+    private async request<T>(
+        storeName: string,
+        mode: IDBTransactionMode,
+        createRequest: (store: IDBObjectStore) => IDBRequest
+    ): Promise<T> {
+        const db = await this.openDatabase();
+
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = createRequest(transaction.objectStore(storeName));
+
+            transaction.oncomplete = () => resolve(request.result as T);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    /**
+     * Read the size of every artifact without loading their content
+     */
+    private async getArtifactSizes(): Promise<Map<string, number>> {
+        const db = await this.openDatabase();
+
+        return new Promise((resolve, reject) => {
+            const sizes = new Map<string, number>();
+            const transaction = db.transaction(this.ARTIFACTS, 'readonly');
+            const cursorRequest = transaction.objectStore(this.ARTIFACTS).index('size').openKeyCursor();
+
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (cursor) {
+                    sizes.set(cursor.primaryKey as string, cursor.key as number);
+                    cursor.continue();
+                }
+            };
+
+            transaction.oncomplete = () => resolve(sizes);
+            transaction.onerror = () => reject(transaction.error);
+        });
+    }
+
+    /**
+     * Delete least recently used artifacts until the total fits in maxBytes
+     */
+    private async evictLocal(maxBytes: number, keepId?: string): Promise<number> {
+        const sizes = await this.getArtifactSizes();
+
+        let total = 0;
+        sizes.forEach(size => total += size);
+
+        if (total <= maxBytes) {
+            return 0;
+        }
+
+        const db = await this.openDatabase();
+
+        const evicted = await new Promise<number>((resolve, reject) => {
+            let count = 0;
+            const transaction = db.transaction(this.ARTIFACTS, 'readwrite');
+            const store = transaction.objectStore(this.ARTIFACTS);
+            const cursorRequest = store.index('lastAccessed').openKeyCursor();
+
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor || total <= maxBytes) {
+                    return;
+                }
+
+                const id = cursor.primaryKey as string;
+                if (id !== keepId) {
+                    store.delete(id);
+                    total -= sizes.get(id) ?? 0;
+                    count++;
+                }
+                cursor.continue();
+            };
+
+            transaction.oncomplete = () => resolve(count);
+            transaction.onerror = () => reject(transaction.error);
+        });
+
+        this.logger.info(`ArtifactStore: Evicted ${evicted} least recently used artifacts`);
+        return evicted;
+    }
+
+    /**
+     * Check a record against every filter of a query
+     */
+    private matchesQuery(record: StoredArtifact, query: ArtifactQuery): boolean {
+        if (query.conversationId && record.conversationId !== query.conversationId) {
+            return false;
+        }
+
+        if (query.type && record.type !== query.type) {
+            return false;
+        }
+
+        const time = new Date(record.timestamp).getTime();
+        if (query.since && time < query.since.getTime()) {
+            return false;
+        }
+
+        return !(query.until && time > query.until.getTime());
+    }
+
+    /**
+     * Create a key range over ISO timestamps
+     */
+    private createDateRange(since?: Date, until?: Date): IDBKeyRange {
+        if (since && until) {
+            return IDBKeyRange.bound(since.toISOString(), until.toISOString());
+        }
+        return since
+            ? IDBKeyRange.lowerBound(since.toISOString())
+            : IDBKeyRange.upperBound(until!.toISOString());
+    }
+
+    /**
+     * Turn Date filters into strings so a query can be forwarded
+     */
+    private serializeQuery(query: ArtifactQuery): SerializedArtifactQuery {
+        return {
+            conversationId: query.conversationId,
+            type: query.type,
+            since: query.since?.toISOString(),
+            until: query.until?.toISOString()
+        };
+    }
+
+    /**
+     * Restore Date filters that were serialized while forwarding a query
+     */
+    private reviveQuery(query: SerializedArtifactQuery): ArtifactQuery {
+        return {
+            conversationId: query.conversationId,
+            type: query.type as ArtifactType | undefined,
+            since: query.since ? new Date(query.since) : undefined,
+            until: query.until ? new Date(query.until) : undefined
+        };
+    }
+
+    /**
+     * Normalize a timestamp to an ISO string, falling back to now when it can't be parsed
+     */
+    private toIsoString(timestamp: Date | string | undefined): string {
+        const date = timestamp ? new Date(timestamp) : new Date();
+        return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+    }
+
+    /**
+     * Approximate the stored size of some strings in bytes
+     */
+    private measure(...values: string[]): number {
+        const encoder = new TextEncoder();
+        return values.reduce((total, value) => total + encoder.encode(value || '').length, 0);
+    }
+}
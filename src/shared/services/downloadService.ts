@@ -97,7 +97,7 @@ export class DownloadService {
                 url,
                 filename,
                 saveAs: false
-            }, (downloadId) => {
+            }, () => {
                 if (chrome.runtime.lastError) {
                     reject(chrome.runtime.lastError);
                 } else {
@@ -0,0 +1,98 @@
+import {LoggerService} from './loggerService';
+import {
+    BackgroundAction,
+    BackgroundMessages,
+    BackgroundRequest,
+    ContentAction,
+    ContentMessages,
+    ContentRequest,
+    MessageResponse,
+    OFFSCREEN_MESSAGE_TARGET,
+    OffscreenAction,
+    OffscreenMessages,
+    OffscreenRequest
+} from '../models/messages';
+import {MessageValidator} from '../utils/messageValidator';
+
+/**
+ * Service for sending typed messages between extension contexts
+ * Sending never throws: transport errors come back as failures like any other.
+ */
+export class MessageClient {
+    private static instance: MessageClient;
+    private readonly logger = LoggerService.getInstance();
+
+    private constructor() {
+        // Private constructor for singleton
+    }
+
+    /**
+     * Get the singleton instance of the message client
+     */
+    public static getInstance(): MessageClient {
+        if (!MessageClient.instance) {
+            MessageClient.instance = new MessageClient();
+        }
+        return MessageClient.instance;
+    }
+
+    /**
+     * Send a message to the background script
+     */
+    public async send<A extends BackgroundAction>(
+        message: BackgroundRequest<A>
+    ): Promise<MessageResponse<BackgroundMessages[A]['response']>> {
+        return this.deliver(message.action, () => chrome.runtime.sendMessage(this.serialize(message)));
+    }
+
+    /**
+     * Send a message to the content script in a tab
+     */
+    public async sendToTab<A extends ContentAction>(
+        tabId: number,
+        message: ContentRequest<A>
+    ): Promise<MessageResponse<ContentMessages[A]['response']>> {
+        return this.deliver(message.action, () => chrome.tabs.sendMessage(tabId, this.serialize(message)));
+    }
+
+    /**
+     * Send a message to the offscreen document
+     */
+    public async sendToOffscreen<A extends OffscreenAction>(
+        message: OffscreenRequest<A>
+    ): Promise<MessageResponse<OffscreenMessages[A]['response']>> {
+        return this.deliver(message.action, () => chrome.runtime.sendMessage({
+            ...this.serialize(message),
+            target: OFFSCREEN_MESSAGE_TARGET
+        }));
+    }
+
+    /**
+     * Run a send and normalize whatever comes back into a MessageResponse
+     */
+    private async deliver<T>(action: string, send: () => Promise<unknown>): Promise<MessageResponse<T>> {
+        try {
+            this.logger.debug(`MessageClient: Sending ${action}`);
+            const response = await send();
+
+            if (!response || typeof response !== 'object' || typeof (response as any).success !== 'boolean') {
+                return MessageValidator.failure('NO_RECEIVER', `No response for action: ${action}`);
+            }
+
+            return response as MessageResponse<T>;
+        } catch (error) {
+            this.logger.error(`MessageClient: Error sending ${action}`, error);
+            return MessageValidator.failure(
+                'NO_RECEIVER',
+                error instanceof Error ? error.message : `Could not deliver action: ${action}`
+            );
+        }
+    }
+
+    /**
+     * Convert a message to plain JSON so dates arrive as ISO strings in every context
+     */
+    private serialize<T>(message: T): T {
+        return JSON.parse(JSON.stringify(message));
+    }
+}
@@ -0,0 +1,77 @@
+import {LoggerService} from './loggerService';
+import {MessageHandler, MessageMap, MessageResponse, PayloadSchema} from '../models/messages';
+import {ApiError} from '../models/apiError';
+import {MessageValidator} from '../utils/messageValidator';
+
+/**
+ * Validates incoming runtime messages and routes them to typed handlers
+ * Used by the background router and the content script, each with its own message set.
+ */
+export class MessageDispatcher<M extends MessageMap<M>> {
+    private readonly logger = LoggerService.getInstance();
+    private readonly handlers = new Map<keyof M, MessageHandler<M, any>>();
+
+    constructor(
+        private readonly name: string,
+        private readonly schemas: Record<keyof M & string, PayloadSchema>
+    ) {}
+
+    /**
+     * Register the handler for an action, replacing any existing one
+     */
+    public register<A extends keyof M & string>(action: A, handler: MessageHandler<M, A>): void {
+        this.handlers.set(action, handler);
+        this.logger.debug(`${this.name}: Registered handler for action: ${action}`);
+    }
+
+    /**
+     * Remove the handler for an action
+     */
+    public unregister(action: keyof M & string): void {
+        this.handlers.delete(action);
+        this.logger.debug(`${this.name}: Removed handler for action: ${action}`);
+    }
+
+    /**
+     * Listener for chrome.runtime.onMessage
+     */
+    public handleMessage(
+        message: unknown,
+        sender: chrome.runtime.MessageSender,
+        sendResponse: (response: MessageResponse<unknown>) => void
+    ): boolean {
+        const invalid = MessageValidator.validate(message, this.schemas);
+
+        if (invalid) {
+            this.logger.warn(`${this.name}: Rejected message`, invalid);
+            sendResponse(invalid);
+            return false;
+        }
+
+        const request = message as { action: keyof M & string };
+        const handler = this.handlers.get(request.action);
+
+        if (!handler) {
+            const failure = MessageValidator.failure('UNKNOWN_ACTION', `No handler for action: ${request.action}`);
+            this.logger.debug(`${this.name}: ${failure.error}`);
+            sendResponse(failure);
+            return false;
+        }
+
+        this.logger.debug(`${this.name}: Received message`, request);
+
+        handler(request as any, sender)
+            .then(data => sendResponse({ success: true, data: data ?? null }))
+            .catch(error => {
+                this.logger.error(`${this.name}: Error handling ${request.action}`, error);
+                const failure = MessageValidator.failure(
+                    'HANDLER_ERROR',
+                    error instanceof Error ? error.message : 'Unknown error'
+                );
+                sendResponse(error instanceof ApiError ? { ...failure, apiError: error.toInfo() } : failure);
+            });
+
+        // Keep the channel open for the async response
+        return true;
+    }
+}
@@ -0,0 +1,285 @@
+import {LoggerService} from './loggerService';
+import {SecretStatus, SecretStoreLockedError, SecretValues, StoredSecrets} from '../models/secrets';
+import {SecretCipher} from '../utils/secretCipher';
+
+/**
+ * Service for API keys and other credentials, kept apart from the settings
+ * Secrets live under their own chrome.storage.local key, either in the clear or
+ * encrypted with a key derived from the user's passphrase. Once unlocked, the derived
+ * key is kept in chrome.storage.session, which content scripts can't read and the
+ * browser clears when it closes. Only the background worker and extension pages use
+ * this service; content scripts ask the background worker for a SecretStatus instead.
+ */
+export class SecretStore {
+    private static instance: SecretStore;
+    private readonly logger = LoggerService.getInstance();
+    private readonly SECRETS_KEY = 'secrets';
+    private readonly SESSION_KEY = 'secretKey';
+
+    // The session key, imported once per context
+    private sessionKey: CryptoKey | null = null;
+
+    // Writes are chained so concurrent saves don't overwrite each other's secrets
+    private secretsWrite: Promise<void> = Promise.resolve();
+
+    private constructor() {
+        // Forget the imported key when another context locks the store
+        chrome.storage?.onChanged?.addListener((changes, areaName) => {
+            if (areaName === 'session' && changes[this.SESSION_KEY]) {
+                this.sessionKey = null;
+            }
+        });
+    }
+
+    /**
+     * Get the singleton instance of the secret store
+     */
+    public static getInstance(): SecretStore {
+        if (!SecretStore.instance) {
+            SecretStore.instance = new SecretStore();
+        }
+        return SecretStore.instance;
+    }
+
+    /**
+     * Describe the store without revealing any secret
+     */
+    public async getStatus(): Promise<SecretStatus> {
+        const stored = await this.read();
+
+        if (stored.encrypted && !(await this.getSessionKey())) {
+            return { encrypted: true, locked: true, names: [] };
+        }
+
+        const values = await this.getAll();
+        return { encrypted: stored.encrypted, locked: false, names: Object.keys(values).sort() };
+    }
+
+    /**
+     * Get a secret, or an empty string if it isn't set
+     * @throws SecretStoreLockedError if the store is encrypted and locked
+     */
+    public async get(name: string): Promise<string> {
+        return (await this.getAll())[name] ?? '';
+    }
+
+    /**
+     * Get every secret
+     * @throws SecretStoreLockedError if the store is encrypted and locked
+     */
+    public async getAll(): Promise<SecretValues> {
+        return this.decrypt(await this.read());
+    }
+
+    /**
+     * Set a secret; an empty value removes it
+     * @throws SecretStoreLockedError if the store is encrypted and locked
+     */
+    public async set(name: string, value: string): Promise<void> {
+        await this.setMany({ [name]: value });
+    }
+
+    /**
+     * Set several secrets at once; empty values remove them
+     * @throws SecretStoreLockedError if the store is encrypted and locked
+     */
+    public async setMany(updates: SecretValues): Promise<void> {
+        await this.update(values => {
+            Object.entries(updates).forEach(([name, value]) => {
+                if (value) {
+                    values[name] = value;
+                } else {
+                    delete values[name];
+                }
+            });
+        });
+    }
+
+    /**
+     * Remove a secret
+     * @throws SecretStoreLockedError if the store is encrypted and locked
+     */
+    public async remove(name: string): Promise<void> {
+        await this.update(values => {
+            delete values[name];
+        });
+    }
+
+    /**
+     * Encrypt the secrets with a passphrase, or change the passphrase of an unlocked store
+     * The store stays unlocked for the rest of the browser session.
+     */
+    public async enableEncryption(passphrase: string): Promise<void> {
+        if (!passphrase) {
+            throw new Error('Passphrase is required');
+        }
+
+        await this.queue(async () => {
+            const values = await this.getAll();
+            const salt = SecretCipher.createSalt();
+            const iterations = SecretCipher.DEFAULT_ITERATIONS;
+            const key = await SecretCipher.deriveKey(passphrase, salt, iterations);
+
+            await this.write(await this.encrypt(key, values, salt, iterations));
+            await this.saveSessionKey(key);
+        });
+
+        this.logger.info('SecretStore: Encryption enabled');
+    }
+
+    /**
+     * Unlock an encrypted store for the rest of the browser session
+     * @throws Error if the passphrase is wrong
+     */
+    public async unlock(passphrase: string): Promise<void> {
+        const stored = await this.read();
+        if (!stored.encrypted) return;
+
+        const key = await SecretCipher.deriveKey(passphrase, stored.salt, stored.iterations);
+
+        try {
+            await SecretCipher.decrypt(key, stored);
+        } catch {
+            throw new Error('Wrong passphrase');
+        }
+
+        await this.saveSessionKey(key);
+        this.logger.info('SecretStore: Unlocked');
+    }
+
+    /**
+     * Forget the session key, so encrypted secrets need the passphrase again
+     */
+    public async lock(): Promise<void> {
+        this.sessionKey = null;
+        await chrome.storage.session.remove(this.SESSION_KEY);
+        this.logger.info('SecretStore: Locked');
+    }
+
+    /**
+     * Store the secrets in the clear again
+     * @throws SecretStoreLockedError if the store is locked
+     */
+    public async disableEncryption(): Promise<void> {
+        await this.queue(async () => {
+            const values = await this.getAll();
+            await this.write({ encrypted: false, values });
+            await this.lock();
+        });
+
+        this.logger.info('SecretStore: Encryption disabled');
+    }
+
+    /**
+     * Delete every secret and the passphrase protecting them, e.g. when the passphrase is lost
+     */
+    public async clear(): Promise<void> {
+        await this.queue(async () => {
+            await this.write({ encrypted: false, values: {} });
+            await this.lock();
+        });
+
+        this.logger.info('SecretStore: Cleared');
+    }
+
+    /**
+     * Run a change against the decrypted secrets and store the result the way they were stored
+     */
+    private async update(change: (values: SecretValues) => void): Promise<void> {
+        await this.queue(async () => {
+            const stored = await this.read();
+            const values = await this.decrypt(stored);
+            change(values);
+
+            if (stored.encrypted) {
+                const key = await this.requireSessionKey();
+                await this.write(await this.encrypt(key, values, stored.salt, stored.iterations));
+            } else {
+                await this.write({ encrypted: false, values });
+            }
+        });
+    }
+
+    /**
+     * Run a write after the ones already queued, passing its error back to the caller only
+     */
+    private async queue(task: () => Promise<void>): Promise<void> {
+        const run = this.secretsWrite.then(task);
+        this.secretsWrite = run.catch(() => undefined);
+        await run;
+    }
+
+    /**
+     * Get the values from stored secrets
+     */
+    private async decrypt(stored: StoredSecrets): Promise<SecretValues> {
+        if (!stored.encrypted) {
+            return { ...stored.values };
+        }
+
+        const key = await this.requireSessionKey();
+        try {
+            return JSON.parse(await SecretCipher.decrypt(key, stored));
+        } catch (error) {
+            // The session key belongs to an older passphrase
+            this.logger.warn('SecretStore: Session key no longer matches the stored secrets', error);
+            await this.lock();
+            throw new SecretStoreLockedError();
+        }
+    }
+
+    private async encrypt(key: CryptoKey, values: SecretValues, salt: string, iterations: number): Promise<StoredSecrets> {
+        const payload = await SecretCipher.encrypt(key, JSON.stringify(values));
+        return { encrypted: true, salt, iterations, ...payload };
+    }
+
+    /**
+     * Read the stored secrets, treating anything unrecognised as an empty store
+     */
+    private async read(): Promise<StoredSecrets> {
+        const result = await chrome.storage.local.get(this.SECRETS_KEY);
+        const stored = result[this.SECRETS_KEY];
+
+        if (stored?.encrypted === true && typeof stored.ciphertext === 'string') {
+            return stored;
+        }
+        if (stored?.encrypted === false && typeof stored.values === 'object' && stored.values !== null) {
+            return stored;
+        }
+        return { encrypted: false, values: {} };
+    }
+
+    private async write(stored: StoredSecrets): Promise<void> {
+        await chrome.storage.local.set({ [this.SECRETS_KEY]: stored });
+    }
+
+    private async requireSessionKey(): Promise<CryptoKey> {
+        const key = await this.getSessionKey();
+        if (!key) {
+            throw new SecretStoreLockedError();
+        }
+        return key;
+    }
+
+    /**
+     * Get the key unlocked earlier in this browser session, if any
+     */
+    private async getSessionKey(): Promise<CryptoKey | null> {
+        if (this.sessionKey) {
+            return this.sessionKey;
+        }
+
+        const result = await chrome.storage.session.get(this.SESSION_KEY);
+        const raw = result[this.SESSION_KEY];
+
+        if (typeof raw === 'string') {
+            this.sessionKey = await SecretCipher.importKey(raw);
+        }
+        return this.sessionKey;
+    }
+
+    private async saveSessionKey(key: CryptoKey): Promise<void> {
+        await chrome.storage.session.set({ [this.SESSION_KEY]: await SecretCipher.exportKey(key) });
+        this.sessionKey = key;
+    }
+}
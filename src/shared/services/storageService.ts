@@ -1,17 +1,47 @@
 import {LoggerService} from './loggerService';
-import {Artifact, ArtifactState} from '../models/artifact';
-import {ArtifactSettings, DEFAULT_SETTINGS, SettingsState} from '../models/settings';
+import {SecretStore} from './secretStore';
+import {ArtifactQuery, ArtifactStore, StorageUsage, StoredArtifact} from './artifactStore';
+import {Artifact, ArtifactEdit, ArtifactState} from '../models/artifact';
+import {ArtifactSettings, DEFAULT_SETTINGS, SettingsProfiles, SettingsState} from '../models/settings';
+import {SettingsLoadReport, SettingsMigrator} from '../utils/settingsMigrator';
+import {SettingsValidator} from '../utils/settingsValidator';
+import {TokenEstimator} from '../utils/tokenEstimator';
+import {SpendEntry} from '../models/modelPricing';
 
 /**
  * Service for managing Chrome storage
+ * Settings live in chrome.storage; artifact content and edits live in the IndexedDB artifact store.
  */
 export class StorageService {
     private static instance: StorageService;
     private readonly logger = LoggerService.getInstance();
     private cachedSettings: SettingsState | null = null;
+    private readonly artifactStore = ArtifactStore.getInstance();
+    private readonly secretStore = SecretStore.getInstance();
+    private readonly BYTES_PER_MB = 1024 * 1024;
+    private readonly SETTINGS_KEY = 'settings';
+    private readonly SETTINGS_REPORT_KEY = 'settingsReport';
+    private readonly SETTINGS_BACKUP_KEY = 'settingsBackup';
+    private readonly PROFILES_KEY = 'settingsProfiles';
+    private readonly SPEND_LEDGER_KEY = 'spendLedger';
+
+    // Oldest ledger entries are dropped beyond this
+    private readonly MAX_SPEND_ENTRIES = 5000;
+
+    // Ledger writes are chained so concurrent replies don't overwrite each other's entries
+    private spendLedgerWrite: Promise<void> = Promise.resolve();
+
+    // Key prefixes used before artifacts moved out of chrome.storage
+    private readonly ARTIFACT_KEY_PREFIX = 'artifact-';
+    private readonly EDIT_KEY_PREFIX = 'edit-';
 
     private constructor() {
-        // Private constructor to enforce singleton pattern
+        // Drop cached settings when another context (options page, background) changes them
+        chrome.storage?.onChanged?.addListener((changes, areaName) => {
+            if (areaName === 'local' && changes[this.SETTINGS_KEY]) {
+                this.cachedSettings = null;
+            }
+        });
     }
 
     /**
@@ -95,9 +125,9 @@ export class StorageService {
                 return this.cachedSettings;
             }
 
-            const settings = await this.get<ArtifactSettings>('settings');
+            const stored = await this.get<unknown>(this.SETTINGS_KEY);
 
-            if (!settings) {
+            if (!stored) {
                 // If no settings found, use defaults
                 this.cachedSettings = new SettingsState(DEFAULT_SETTINGS);
 
@@ -107,7 +137,23 @@ export class StorageService {
                 return this.cachedSettings;
             }
 
+            // Keys saved by earlier versions move to the secret store before the migration drops them
+            await this.moveLegacySecrets(stored);
+
+            // Bring stored settings up to the current schema and repair bad values
+            const { settings, report, changed } = SettingsMigrator.load(stored);
+
+            if (SettingsMigrator.hasProblems(report)) {
+                await this.recordSettingsReport(stored, report);
+            }
+
             this.cachedSettings = new SettingsState(settings);
+
+            if (changed) {
+                await this.set<ArtifactSettings>(this.SETTINGS_KEY, settings);
+                this.logger.info(`StorageService: Settings upgraded from v${report.fromVersion} to v${report.toVersion}`);
+            }
+
             return this.cachedSettings;
         } catch (error) {
             this.logger.error('StorageService: Error getting settings', error);
@@ -126,12 +172,19 @@ export class StorageService {
                 ? settings.toObject()
                 : settings;
 
-            await this.set<ArtifactSettings>('settings', settingsToSave);
+            // Never persist values that don't match the schema
+            const { settings: validated, repairs } = SettingsValidator.validate(settingsToSave);
+            if (repairs.length > 0) {
+                this.logger.warn('StorageService: Repaired settings before saving', repairs);
+            }
+
+            await this.set<ArtifactSettings>(this.SETTINGS_KEY, validated);
 
             // Update cache
-            this.cachedSettings = settings instanceof SettingsState
-                ? settings
-                : new SettingsState(settings);
+            this.cachedSettings = new SettingsState(validated);
+
+            // Keep the active profile in step with what the user saved
+            await this.updateActiveProfile(validated);
 
             this.logger.debug('StorageService: Settings saved');
         } catch (error) {
@@ -141,7 +194,179 @@ export class StorageService {
     }
 
     /**
-     * Save an artifact to storage
+     * Get saved settings profiles
+     */
+    public async getSettingsProfiles(): Promise<SettingsProfiles> {
+        const profiles = await this.get<SettingsProfiles>(this.PROFILES_KEY);
+        return profiles ?? { active: null, profiles: {} };
+    }
+
+    /**
+     * Get a named profile's settings, brought up to the current schema, without switching to it
+     */
+    public async getSettingsProfile(name: string): Promise<ArtifactSettings | null> {
+        const stored = (await this.getSettingsProfiles()).profiles[name];
+        return stored ? SettingsMigrator.load(stored).settings : null;
+    }
+
+    /**
+     * Save settings as a named profile and make it the active one
+     * @param name Profile name
+     * @param settings Settings to save (defaults to the current settings)
+     */
+    public async saveSettingsProfile(name: string, settings?: ArtifactSettings): Promise<void> {
+        const profileName = name.trim();
+        if (!profileName) {
+            throw new Error('Profile name is required');
+        }
+
+        const toSave = settings ?? (await this.getSettings()).toObject();
+        const { settings: validated } = SettingsValidator.validate(toSave);
+
+        const profiles = await this.getSettingsProfiles();
+        profiles.profiles[profileName] = validated;
+        profiles.active = profileName;
+
+        await this.set<SettingsProfiles>(this.PROFILES_KEY, profiles);
+        this.logger.debug(`StorageService: Profile '${profileName}' saved`);
+    }
+
+    /**
+     * Switch to a named profile, making its settings the current settings
+     */
+    public async switchSettingsProfile(name: string): Promise<SettingsState> {
+        const profiles = await this.getSettingsProfiles();
+        const stored = profiles.profiles[name];
+
+        if (!stored) {
+            throw new Error(`Unknown settings profile: ${name}`);
+        }
+
+        // Profiles may have been saved under an older schema, with their own API keys
+        await this.moveLegacySecrets(stored);
+        const { settings, report } = SettingsMigrator.load(stored);
+        if (SettingsMigrator.hasProblems(report)) {
+            await this.recordSettingsReport(stored, report);
+        }
+
+        profiles.active = name;
+        await this.set<SettingsProfiles>(this.PROFILES_KEY, profiles);
+        await this.saveSettings(settings);
+
+        this.logger.info(`StorageService: Switched to profile '${name}'`);
+        return this.cachedSettings ?? new SettingsState(settings);
+    }
+
+    /**
+     * Delete a named profile (the current settings are kept)
+     */
+    public async deleteSettingsProfile(name: string): Promise<void> {
+        const profiles = await this.getSettingsProfiles();
+        delete profiles.profiles[name];
+
+        if (profiles.active === name) {
+            profiles.active = null;
+        }
+
+        await this.set<SettingsProfiles>(this.PROFILES_KEY, profiles);
+        this.logger.debug(`StorageService: Profile '${name}' deleted`);
+    }
+
+    /**
+     * Store settings in the active profile, if there is one
+     */
+    private async updateActiveProfile(settings: ArtifactSettings): Promise<void> {
+        const profiles = await this.getSettingsProfiles();
+
+        if (profiles.active && profiles.profiles[profiles.active]) {
+            profiles.profiles[profiles.active] = settings;
+            await this.set<SettingsProfiles>(this.PROFILES_KEY, profiles);
+        }
+    }
+
+    /**
+     * Copy API keys found in settings from before schema v5 into the secret store
+     */
+    private async moveLegacySecrets(stored: unknown): Promise<void> {
+        const secrets = SettingsMigrator.extractLegacySecrets(stored);
+        if (Object.keys(secrets).length === 0) return;
+
+        await this.secretStore.setMany(secrets);
+        this.logger.info(`StorageService: Moved ${Object.keys(secrets).length} API keys to the secret store`);
+    }
+
+    /**
+     * Get the report from the last settings load that needed repairs or had a failed migration
+     */
+    public async getSettingsReport(): Promise<SettingsLoadReport | null> {
+        return this.get<SettingsLoadReport>(this.SETTINGS_REPORT_KEY);
+    }
+
+    /**
+     * Dismiss the last settings load report
+     */
+    public async clearSettingsReport(): Promise<void> {
+        await this.remove(this.SETTINGS_REPORT_KEY);
+    }
+
+    /**
+     * Keep a report of settings problems, and a backup of the original settings when a migration failed
+     */
+    private async recordSettingsReport(stored: unknown, report: SettingsLoadReport): Promise<void> {
+        try {
+            await this.set<SettingsLoadReport>(this.SETTINGS_REPORT_KEY, report);
+
+            if (report.failure) {
+                await this.set(this.SETTINGS_BACKUP_KEY, stored);
+                this.logger.error(
+                    `StorageService: Settings migration to v${report.failure.version} failed: ${report.failure.error}`
+                );
+            }
+        } catch (error) {
+            this.logger.error('StorageService: Error recording settings report', error);
+        }
+    }
+
+    /**
+     * Record the tokens used by an API call in the spend ledger
+     */
+    public async recordUsage(model: string, inputTokens: number, outputTokens: number): Promise<SpendEntry> {
+        const entry: SpendEntry = {
+            timestamp: new Date().toISOString(),
+            model,
+            inputTokens,
+            outputTokens,
+            cost: TokenEstimator.calculateCost(model, inputTokens, outputTokens)
+        };
+
+        this.spendLedgerWrite = this.spendLedgerWrite.then(async () => {
+            const ledger = await this.getSpendLedger();
+            ledger.push(entry);
+            await this.set<SpendEntry[]>(this.SPEND_LEDGER_KEY, ledger.slice(-this.MAX_SPEND_ENTRIES));
+        }).catch(error => {
+            this.logger.error('StorageService: Error recording API usage', error);
+        });
+
+        await this.spendLedgerWrite;
+        return entry;
+    }
+
+    /**
+     * Get every recorded API call, oldest first
+     */
+    public async getSpendLedger(): Promise<SpendEntry[]> {
+        return (await this.get<SpendEntry[]>(this.SPEND_LEDGER_KEY)) ?? [];
+    }
+
+    /**
+     * Forget all recorded API usage
+     */
+    public async clearSpendLedger(): Promise<void> {
+        await this.remove(this.SPEND_LEDGER_KEY);
+    }
+
+    /**
+     * Save an artifact to the artifact store, keeping it within the library size cap
      */
     public async saveArtifact(key: string, artifact: ArtifactState | Artifact): Promise<void> {
         try {
@@ -149,7 +374,11 @@ export class StorageService {
                 ? artifact.toObject()
                 : artifact;
 
-            await this.set<Artifact>(key, artifactToSave);
+            const settings = await this.getSettings();
+            await this.artifactStore.putArtifact(
+                { ...artifactToSave, id: key },
+                settings.maxLibrarySizeMb * this.BYTES_PER_MB
+            );
             this.logger.debug(`StorageService: Artifact '${key}' saved`);
         } catch (error) {
             this.logger.error(`StorageService: Error saving artifact '${key}'`, error);
@@ -158,20 +387,140 @@ export class StorageService {
     }
 
     /**
-     * Get an artifact from storage
+     * Get an artifact from the artifact store
      */
     public async getArtifact(key: string): Promise<ArtifactState | null> {
         try {
-            const artifact = await this.get<Artifact>(key);
+            const record = await this.artifactStore.getArtifact(key);
 
-            if (!artifact) {
+            if (!record) {
                 return null;
             }
 
-            return new ArtifactState(artifact);
+            return this.toArtifactState(record);
         } catch (error) {
             this.logger.error(`StorageService: Error getting artifact '${key}'`, error);
             return null;
         }
     }
+
+    /**
+     * Record an artifact seen on the page in the library
+     * Artifacts already in the library are left untouched so they keep the
+     * timestamp of when they were first captured.
+     * @returns Whether the artifact was new
+     */
+    public async captureArtifact(artifact: ArtifactState): Promise<boolean> {
+        if (await this.getArtifact(artifact.id)) {
+            return false;
+        }
+
+        await this.saveArtifact(artifact.id, artifact);
+        return true;
+    }
+
+    /**
+     * Get stored artifacts, optionally narrowed by an indexed query
+     */
+    public async getArtifacts(query?: ArtifactQuery): Promise<ArtifactState[]> {
+        const records = query
+            ? await this.artifactStore.queryArtifacts(query)
+            : await this.artifactStore.getAllArtifacts();
+
+        return records.map(record => this.toArtifactState(record));
+    }
+
+    /**
+     * Report how much of the library size cap is in use
+     */
+    public async getStorageUsage(): Promise<StorageUsage> {
+        const settings = await this.getSettings();
+        return this.artifactStore.getUsage(settings.maxLibrarySizeMb * this.BYTES_PER_MB);
+    }
+
+    /**
+     * Evict least recently used artifacts until the library fits the size cap
+     */
+    public async enforceLibrarySize(): Promise<number> {
+        const settings = await this.getSettings();
+        return this.artifactStore.evict(settings.maxLibrarySizeMb * this.BYTES_PER_MB);
+    }
+
+    /**
+     * Save an in-page edit for an artifact
+     */
+    public async saveEdit(artifactId: string, content: string): Promise<void> {
+        try {
+            const edit: ArtifactEdit = {
+                artifactId,
+                content,
+                editedAt: new Date().toISOString()
+            };
+
+            await this.artifactStore.putEdit(edit);
+            this.logger.debug(`StorageService: Edit for '${artifactId}' saved`);
+        } catch (error) {
+            this.logger.error(`StorageService: Error saving edit for '${artifactId}'`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Get the in-page edit for an artifact, if any
+     */
+    public async getEdit(artifactId: string): Promise<ArtifactEdit | null> {
+        try {
+            return await this.artifactStore.getEdit(artifactId);
+        } catch (error) {
+            this.logger.error(`StorageService: Error getting edit for '${artifactId}'`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Remove the in-page edit for an artifact
+     */
+    public async removeEdit(artifactId: string): Promise<void> {
+        await this.artifactStore.deleteEdit(artifactId);
+        this.logger.debug(`StorageService: Edit for '${artifactId}' removed`);
+    }
+
+    /**
+     * Move artifacts and edits saved by earlier versions from chrome.storage into the artifact store
+     */
+    public async migrateToArtifactStore(): Promise<number> {
+        const allData = await this.getAll();
+        const legacyKeys: string[] = [];
+
+        for (const [key, value] of Object.entries(allData)) {
+            if (!value) {
+                continue;
+            }
+
+            if (key.startsWith(this.ARTIFACT_KEY_PREFIX)) {
+                await this.artifactStore.putArtifact({ ...value, id: value.id || key });
+                legacyKeys.push(key);
+            } else if (key.startsWith(this.EDIT_KEY_PREFIX)) {
+                await this.artifactStore.putEdit(value as ArtifactEdit);
+                legacyKeys.push(key);
+            }
+        }
+
+        if (legacyKeys.length > 0) {
+            await chrome.storage.local.remove(legacyKeys);
+            this.logger.info(`StorageService: Moved ${legacyKeys.length} entries to the artifact store`);
+        }
+
+        return legacyKeys.length;
+    }
+
+    /**
+     * Convert a stored record back into artifact state
+     */
+    private toArtifactState(record: StoredArtifact): ArtifactState {
+        return new ArtifactState({
+            ...record,
+            timestamp: new Date(record.timestamp)
+        });
+    }
 }
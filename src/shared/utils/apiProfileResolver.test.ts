@@ -0,0 +1,101 @@
+import {describe, expect, it} from 'vitest';
+import {ApiProfile, ApiSettings, DEFAULT_SETTINGS} from '../models/settings';
+import {SecretNames} from '../models/secrets';
+import {ApiProfileResolver} from './apiProfileResolver';
+
+const PROXY: ApiProfile = {
+    id: 'proxy',
+    name: 'Team proxy',
+    baseUrl: 'http://localhost:8080/anthropic/',
+    headers: { 'x-team': 'platform' },
+    defaultModel: 'claude-3-haiku-20240307'
+};
+
+/**
+ * API settings with the default Anthropic profile and a proxy
+ */
+function apiSettings(overrides: Partial<ApiSettings> = {}): ApiSettings {
+    const settings = structuredClone(DEFAULT_SETTINGS.apiSettings);
+    return { ...settings, apiProfiles: [...settings.apiProfiles, PROXY], ...overrides };
+}
+
+describe('ApiProfileResolver', () => {
+    describe('getProfile', () => {
+        it('finds a profile by id', () => {
+            expect(ApiProfileResolver.getProfile(apiSettings(), 'proxy')).toEqual(PROXY);
+        });
+
+        it('falls back to the active profile, then the first one', () => {
+            expect(ApiProfileResolver.getProfile(apiSettings({ activeApiProfileId: 'proxy' }), 'missing').id).toBe('proxy');
+            expect(ApiProfileResolver.getProfile(apiSettings({ activeApiProfileId: 'missing' })).id).toBe('default');
+        });
+    });
+
+    describe('resolve', () => {
+        it('uses the profile default model and its API key', () => {
+            const target = ApiProfileResolver.resolve(apiSettings(), { profileId: 'proxy' }, {
+                [SecretNames.apiKey('proxy')]: 'sk-proxy',
+                [SecretNames.apiKey('default')]: 'sk-default'
+            });
+
+            expect(target.profile).toEqual(PROXY);
+            expect(target.apiKey).toBe('sk-proxy');
+            expect(target.url).toBe('http://localhost:8080/anthropic/v1/messages');
+            expect(target.modelName).toBe('claude-3-haiku-20240307');
+            expect(target.model?.label).toBe('Claude 3 Haiku');
+        });
+
+        it('lets a request pick another model', () => {
+            const target = ApiProfileResolver.resolve(apiSettings(), { model: 'claude-3-opus-20240229' });
+
+            expect(target.profile.id).toBe('default');
+            expect(target.modelName).toBe('claude-3-opus-20240229');
+        });
+
+        it('caps max tokens at the model output limit', () => {
+            const settings = apiSettings({ maxTokens: 50000 });
+
+            expect(ApiProfileResolver.resolve(settings, { model: 'claude-3-haiku-20240307' }).maxTokens).toBe(4096);
+            expect(ApiProfileResolver.resolve(settings, { model: 'claude-3-7-sonnet-20250219' }).maxTokens).toBe(50000);
+        });
+
+        it('handles models missing from the catalog and missing keys', () => {
+            const target = ApiProfileResolver.resolve(apiSettings({ maxTokens: 1234 }), { model: 'custom-model' });
+
+            expect(target.model).toBeNull();
+            expect(target.maxTokens).toBe(1234);
+            expect(target.apiKey).toBe('');
+        });
+    });
+
+    describe('getMessagesUrl', () => {
+        it('appends the Messages API path to a base URL', () => {
+            expect(ApiProfileResolver.getMessagesUrl({ ...PROXY, baseUrl: 'https://api.anthropic.com' }))
+                .toBe('https://api.anthropic.com/v1/messages');
+            expect(ApiProfileResolver.getMessagesUrl({ ...PROXY, baseUrl: ' https://proxy.example.com// ' }))
+                .toBe('https://proxy.example.com/v1/messages');
+        });
+
+        it('keeps a base URL that already points at the messages endpoint', () => {
+            expect(ApiProfileResolver.getMessagesUrl({ ...PROXY, baseUrl: 'https://proxy.example.com/claude/messages' }))
+                .toBe('https://proxy.example.com/claude/messages');
+        });
+    });
+
+    describe('getHostPermissions', () => {
+        it('lists one pattern per host, without ports', () => {
+            const settings = apiSettings();
+            settings.apiProfiles.push({ ...PROXY, id: 'proxy-2', baseUrl: 'http://localhost:9090' });
+
+            expect(ApiProfileResolver.getHostPermissions(settings)).toEqual([
+                'https://api.anthropic.com/*',
+                'http://localhost/*'
+            ]);
+        });
+
+        it('skips profiles whose URL is invalid or not HTTP', () => {
+            expect(ApiProfileResolver.getHostPermission({ ...PROXY, baseUrl: 'not a url' })).toBeNull();
+            expect(ApiProfileResolver.getHostPermission({ ...PROXY, baseUrl: 'ftp://files.example.com' })).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import {ApiProfile, ApiSettings, ApiTargetSelection, ModelInfo} from '../models/settings';
+import {SecretNames, SecretValues} from '../models/secrets';
+
+/**
+ * Everything needed to send a request to one profile and model
+ */
+export interface ApiTarget {
+    profile: ApiProfile;
+
+    // Empty when the key wasn't set or secrets weren't provided
+    apiKey: string;
+    url: string;
+    modelName: string;
+
+    // Catalog entry for the model, or null if it isn't in the catalog
+    model: ModelInfo | null;
+
+    // The configured max tokens, capped at the model's max output
+    maxTokens: number;
+}
+
+/**
+ * Utility class for working out where a request goes and which model answers it
+ */
+export class ApiProfileResolver {
+    /**
+     * Get a profile by id, falling back to the active profile and then the first one
+     */
+    public static getProfile(apiSettings: ApiSettings, profileId?: string): ApiProfile {
+        const profiles = apiSettings.apiProfiles;
+
+        return profiles.find(profile => profile.id === profileId)
+            ?? profiles.find(profile => profile.id === apiSettings.activeApiProfileId)
+            ?? profiles[0];
+    }
+
+    /**
+     * Get the catalog entry for a model, or null if it isn't in the catalog
+     */
+    public static getModel(apiSettings: ApiSettings, modelName: string): ModelInfo | null {
+        return apiSettings.modelCatalog.find(model => model.id === modelName) ?? null;
+    }
+
+    /**
+     * Resolve the profile, key, URL and model for a request
+     * @param secrets Secrets from the SecretStore, to look up the profile's API key
+     */
+    public static resolve(
+        apiSettings: ApiSettings,
+        selection: ApiTargetSelection = {},
+        secrets: SecretValues = {}
+    ): ApiTarget {
+        const profile = this.getProfile(apiSettings, selection.profileId);
+        const modelName = selection.model || profile.defaultModel;
+        const model = this.getModel(apiSettings, modelName);
+
+        return {
+            profile,
+            apiKey: secrets[SecretNames.apiKey(profile.id)] ?? '',
+            url: this.getMessagesUrl(profile),
+            modelName,
+            model,
+            maxTokens: model ? Math.min(apiSettings.maxTokens, model.maxOutputTokens) : apiSettings.maxTokens
+        };
+    }
+
+    /**
+     * Get the host permission pattern the service worker needs to reach a profile, or null if its URL is invalid
+     * Ports are left out because Chrome match patterns ignore them.
+     */
+    public static getHostPermission(profile: ApiProfile): string | null {
+        try {
+            const url = new URL(this.getMessagesUrl(profile));
+            return /^https?:$/.test(url.protocol) ? `${url.protocol}//${url.hostname}/*` : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Get the host permission patterns for every profile, without duplicates
+     */
+    public static getHostPermissions(apiSettings: ApiSettings): string[] {
+        const patterns = apiSettings.apiProfiles
+            .map(profile => this.getHostPermission(profile))
+            .filter((pattern): pattern is string => pattern !== null);
+
+        return Array.from(new Set(patterns));
+    }
+
+    /**
+     * Get the Messages API URL for a profile
+     */
+    public static getMessagesUrl(profile: ApiProfile): string {
+        const baseUrl = profile.baseUrl.trim().replace(/\/+$/, '');
+        return /\/messages$/.test(baseUrl) ? baseUrl : `${baseUrl}/v1/messages`;
+    }
+}
@@ -1,5 +1,9 @@
 import {Artifact, ArtifactState, ArtifactType} from '../models/artifact';
 import {LoggerService} from '../services/loggerService';
+import {DomAdapter} from '../adapters/domAdapter';
+import {DomAdapterRegistry} from '../adapters/domAdapterRegistry';
+import {ArtifactIdentity} from './artifactIdentity';
+import {MarkdownExtractor} from './markdownExtractor';
 
 /**
  * Utility class for extracting artifacts from Claude responses
@@ -7,30 +11,47 @@ import {LoggerService} from '../services/loggerService';
 export class ArtifactExtractor {
     private static readonly logger = LoggerService.getInstance();
 
+    // Elements the extension adds to artifacts, which are not part of their content
+    private static readonly EXTENSION_UI_SELECTOR = [
+        '.artifact-controls',
+        '.compilation-output',
+        '.artifact-preview-split',
+        '.artifact-preview-pane',
+        '.monaco-editor-container'
+    ].join(', ');
+
     /**
      * Extract artifacts from the DOM
+     * @param root Node to search (defaults to the whole document)
+     * @param url Page URL used for profile detection and conversation IDs
      */
-    public static extractArtifactsFromDOM(containerSelector: string = '.conversation-container'): ArtifactState[] {
+    public static extractArtifactsFromDOM(
+        root: ParentNode = document,
+        url: string = window.location.href
+    ): ArtifactState[] {
         try {
-            const container = document.querySelector(containerSelector);
+            const adapter = DomAdapterRegistry.getInstance().getAdapter(root, url);
+
+            const container = adapter.findConversationContainer(root);
             if (!container) {
-                this.logger.warn(`ArtifactExtractor: Container not found with selector ${containerSelector}`);
+                this.logger.warn(`ArtifactExtractor: Conversation container not found (profile: ${adapter.name})`);
                 return [];
             }
 
             // Find all artifact containers
-            const artifactContainers = container.querySelectorAll('.antml-artifact-container');
+            const artifactContainers = adapter.findArtifactContainers(container);
             if (!artifactContainers.length) {
                 this.logger.debug('ArtifactExtractor: No artifacts found');
                 return [];
             }
 
+            const conversationId = adapter.getConversationId(root, url);
             const artifacts: ArtifactState[] = [];
 
             // Process each artifact
             artifactContainers.forEach((artifactContainer, index) => {
                 try {
-                    const artifact = this.extractArtifactFromContainer(artifactContainer as HTMLElement, index);
+                    const artifact = this.extractArtifactFromContainer(adapter, artifactContainer, index, root, conversationId);
                     if (artifact) {
                         artifacts.push(artifact);
                     }
@@ -50,32 +71,46 @@ export class ArtifactExtractor {
     /**
      * Extract an artifact from a container element
      */
-    private static extractArtifactFromContainer(container: HTMLElement, index: number): ArtifactState | null {
+    private static extractArtifactFromContainer(
+        adapter: DomAdapter,
+        container: HTMLElement,
+        index: number,
+        root: ParentNode,
+        conversationId?: string
+    ): ArtifactState | null {
         try {
             // Extract title
-            const titleElement = container.querySelector('.antml-artifact-title');
+            const titleElement = adapter.findArtifactTitle(container);
             const title = titleElement?.textContent?.trim() || `Artifact ${index + 1}`;
 
             // Extract message ID (if available)
-            const messageContainer = container.closest('.message-container');
-            const messageId = messageContainer?.getAttribute('data-message-id') || undefined;
+            const messageId = adapter.getMessageId(container);
 
-            // Extract conversation ID (if available)
-            const conversationId = this.extractConversationId();
+            // Position within the message, so new messages don't shift existing IDs
+            const position = this.getArtifactPosition(adapter, container, index);
+            const messageIndex = adapter.getMessageIndex(container, root);
 
             // Determine artifact type and content
-            const { type, content, language } = this.determineTypeAndContent(container);
+            const { type, content, language } = this.determineTypeAndContent(adapter, container);
+
+            // Keep the ID assigned from the original content once the artifact has been edited in place
+            const id = container.dataset.artifactId
+                || ArtifactIdentity.createId({ conversationId, messageId, position, content });
 
             // Create artifact
             const artifact: Artifact = {
-                id: `artifact-${Date.now()}-${index}`,
+                id,
                 title,
                 type,
                 content,
                 language,
                 timestamp: new Date(),
                 messageId,
-                conversationId
+                conversationId,
+                conversationTitle: adapter.getConversationTitle(root),
+                messageIndex,
+                position,
+                contentHash: ArtifactIdentity.hashContent(content)
             };
 
             return new ArtifactState(artifact);
@@ -86,30 +121,58 @@ export class ArtifactExtractor {
     }
 
     /**
-     * Extract conversation ID from the URL or DOM
+     * Extract a single artifact from its container element
      */
-    private static extractConversationId(): string | undefined {
-        // Try to extract from URL
-        const match = window.location.pathname.match(/\/conversation\/([a-zA-Z0-9-]+)/);
-        if (match && match[1]) {
-            return match[1];
-        }
+    public static extractArtifact(
+        container: HTMLElement,
+        root: ParentNode = document,
+        url: string = window.location.href
+    ): ArtifactState | null {
+        const adapter = DomAdapterRegistry.getInstance().getAdapter(root, url);
+        const index = adapter.findArtifactContainers(root).indexOf(container);
+
+        return this.extractArtifactFromContainer(
+            adapter,
+            container,
+            Math.max(index, 0),
+            root,
+            adapter.getConversationId(root, url)
+        );
+    }
 
-        // Try to extract from DOM
-        const conversationElement = document.querySelector('[data-conversation-id]');
-        if (conversationElement) {
-            return conversationElement.getAttribute('data-conversation-id') || undefined;
+    /**
+     * Get the position of an artifact within its message
+     * Falls back to the position within the page when there is no message element.
+     */
+    private static getArtifactPosition(adapter: DomAdapter, container: HTMLElement, index: number): number {
+        const messageContainer = adapter.findMessageContainer(container);
+        if (!messageContainer) {
+            return index;
         }
 
-        return undefined;
+        const position = adapter.findArtifactContainers(messageContainer).indexOf(container);
+        return position >= 0 ? position : index;
     }
 
     /**
      * Determine the type and content of an artifact
      */
-    private static determineTypeAndContent(container: HTMLElement): { type: ArtifactType; content: string; language?: string } {
+    private static determineTypeAndContent(
+        adapter: DomAdapter,
+        container: HTMLElement
+    ): { type: ArtifactType; content: string; language?: string } {
+        // Markdown marked as such may contain code blocks and diagrams of its own, so check it first
+        const markdownElement = adapter.findMarkdownContent(container);
+        if (markdownElement) {
+            return {
+                type: ArtifactType.MARKDOWN,
+                content: MarkdownExtractor.fromHtml(this.withoutExtensionUI(markdownElement)),
+                language: 'markdown'
+            };
+        }
+
         // Check if it's a code artifact
-        const codeElement = container.querySelector('pre code');
+        const codeElement = adapter.findCodeBlock(container);
         if (codeElement) {
             // Determine language from class
             const classes = Array.from(codeElement.classList);
@@ -124,7 +187,7 @@ export class ArtifactExtractor {
         }
 
         // Check if it's an SVG
-        const svgElement = container.querySelector('svg');
+        const svgElement = this.findSvgElement(container);
         if (svgElement) {
             return {
                 type: ArtifactType.SVG,
@@ -133,7 +196,7 @@ export class ArtifactExtractor {
         }
 
         // Check if it's an HTML element
-        const htmlElement = container.querySelector('[data-type="html"]');
+        const htmlElement = adapter.findHtmlContent(container);
         if (htmlElement) {
             return {
                 type: ArtifactType.HTML,
@@ -142,7 +205,7 @@ export class ArtifactExtractor {
         }
 
         // Check if it's a React component
-        const reactElement = container.querySelector('[data-type="react"]');
+        const reactElement = adapter.findReactContent(container);
         if (reactElement) {
             return {
                 type: ArtifactType.REACT,
@@ -151,7 +214,7 @@ export class ArtifactExtractor {
         }
 
         // Check if it's a Mermaid diagram
-        const mermaidElement = container.querySelector('.mermaid');
+        const mermaidElement = adapter.findMermaidContent(container);
         if (mermaidElement) {
             return {
                 type: ArtifactType.MERMAID,
@@ -159,73 +222,31 @@ export class ArtifactExtractor {
             };
         }
 
-        // Default to Markdown for other content
+        // Default to Markdown for other content, recovering its source from the rendered HTML
+        const content = this.withoutExtensionUI(container);
+        adapter.findArtifactTitle(content)?.remove();
+
         return {
             type: ArtifactType.MARKDOWN,
-            content: container.innerHTML
+            content: MarkdownExtractor.fromHtml(content),
+            language: 'markdown'
         };
     }
 
     /**
-     * Stitch artifacts with the same type and title
-     * This is used to combine multiple code blocks that belong together
+     * Find an artifact's SVG, ignoring the icons on the extension's own buttons
      */
-    public static stitchArtifacts(artifacts: ArtifactState[]): ArtifactState[] {
-        if (artifacts.length <= 1) {
-            return artifacts;
-        }
-
-        // Group artifacts by title and type
-        const groupedByTitle: Record<string, ArtifactState[]> = {};
-
-        artifacts.forEach(artifact => {
-            const key = `${artifact.title}-${artifact.type}`;
-            if (!groupedByTitle[key]) {
-                groupedByTitle[key] = [];
-            }
-            groupedByTitle[key].push(artifact);
-        });
-
-        // Combine artifacts in each group
-        const stitchedArtifacts: ArtifactState[] = [];
-
-        Object.values(groupedByTitle).forEach(group => {
-            if (group.length === 1) {
-                // If only one artifact in the group, keep it as is
-                stitchedArtifacts.push(group[0]);
-            } else {
-                // Sort by timestamp (oldest first)
-                group.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-                // Combine content (specific to artifact type)
-                const combined = this.combineArtifacts(group);
-                stitchedArtifacts.push(combined);
-            }
-        });
-
-        return stitchedArtifacts;
+    public static findSvgElement(container: Element): SVGSVGElement | null {
+        return Array.from(container.querySelectorAll('svg'))
+            .find(svg => !svg.closest(this.EXTENSION_UI_SELECTOR)) ?? null;
     }
 
     /**
-     * Combine artifacts of the same type
+     * Copy an element without the controls, editors and previews the extension added to it
      */
-    private static combineArtifacts(artifacts: ArtifactState[]): ArtifactState {
-        const firstArtifact = artifacts[0];
-
-        // If not code artifacts, just use the last one
-        if (firstArtifact.type !== ArtifactType.CODE) {
-            return artifacts[artifacts.length - 1];
-        }
-
-        // For code artifacts, concatenate the content
-        const combinedContent = artifacts
-            .map(a => a.content)
-            .join('\n\n');
-
-        // Create a new artifact with the combined content
-        return firstArtifact.with({
-            content: combinedContent,
-            timestamp: new Date()
-        });
+    private static withoutExtensionUI(element: HTMLElement): HTMLElement {
+        const copy = element.cloneNode(true) as HTMLElement;
+        copy.querySelectorAll(this.EXTENSION_UI_SELECTOR).forEach(node => node.remove());
+        return copy;
     }
 }
@@ -0,0 +1,108 @@
+import {describe, expect, it} from 'vitest';
+import {ArtifactState, ArtifactType} from '../models/artifact';
+import {ArtifactHistoryBuilder} from './artifactHistory';
+import {ArtifactIdentity} from './artifactIdentity';
+
+let nextPosition = 0;
+
+/**
+ * Create an artifact as the extractor would
+ */
+function artifact(title: string, messageId: string, content: string, type = ArtifactType.HTML): ArtifactState {
+    const position = nextPosition++;
+    return new ArtifactState({
+        id: ArtifactIdentity.createId({ conversationId: 'conversation-1', messageId, position, content }),
+        title,
+        type,
+        content,
+        timestamp: new Date(0),
+        messageId,
+        conversationId: 'conversation-1',
+        position,
+        contentHash: ArtifactIdentity.hashContent(content)
+    });
+}
+
+const PAGE_V1 = ['<html>', '<head><title>Shop</title></head>', '<body>', '<h1>Shop</h1>', '<ul id="products"></ul>', '</body>', '</html>'].join('\n');
+const PAGE_V2 = PAGE_V1.replace('<ul id="products"></ul>', '<ul id="products"></ul>\n<footer>Contact us</footer>');
+const OTHER_PAGE = ['<!DOCTYPE html>', '<canvas id="game"></canvas>', '<script src="game.js"></script>'].join('\n');
+
+describe('ArtifactHistoryBuilder', () => {
+    it('links rewrites of an artifact in later messages into one history', () => {
+        const histories = ArtifactHistoryBuilder.build([
+            artifact('index.html', 'message-1', PAGE_V1),
+            artifact('index.html', 'message-2', PAGE_V2)
+        ]);
+
+        expect(histories).toHaveLength(1);
+        expect(histories[0].versions.map(version => version.version)).toEqual([1, 2]);
+        expect(ArtifactHistoryBuilder.getLatest(histories[0]).content).toBe(PAGE_V2);
+        expect(ArtifactHistoryBuilder.getLatest(histories[0]).previousState?.content).toBe(PAGE_V1);
+    });
+
+    it('treats an unchanged copy as the same version', () => {
+        const histories = ArtifactHistoryBuilder.build([
+            artifact('index.html', 'message-1', PAGE_V1),
+            artifact('index.html', 'message-2', PAGE_V1)
+        ]);
+
+        expect(histories).toHaveLength(1);
+        expect(histories[0].versions).toHaveLength(1);
+    });
+
+    it('keeps distinct artifacts with the same title in separate histories', () => {
+        const histories = ArtifactHistoryBuilder.build([
+            artifact('index.html', 'message-1', PAGE_V1),
+            artifact('index.html', 'message-2', OTHER_PAGE)
+        ]);
+
+        expect(histories).toHaveLength(2);
+        expect(new Set(histories.map(history => history.id)).size).toBe(2);
+
+        const latest = ArtifactHistoryBuilder.selectForDownload(histories, 'latest');
+        expect(latest.map(version => version.content)).toEqual([PAGE_V1, OTHER_PAGE]);
+    });
+
+    it('never merges same-titled artifacts from one message', () => {
+        const histories = ArtifactHistoryBuilder.build([
+            artifact('Component', 'message-1', 'export const A = 1;\nexport default A;'),
+            artifact('Component', 'message-1', 'export const A = 1;\nexport default A;\n// copy')
+        ]);
+
+        expect(histories).toHaveLength(2);
+    });
+
+    it('continues the most similar history when several share a title', () => {
+        const histories = ArtifactHistoryBuilder.build([
+            artifact('index.html', 'message-1', PAGE_V1),
+            artifact('index.html', 'message-1', OTHER_PAGE),
+            artifact('index.html', 'message-2', PAGE_V2)
+        ]);
+
+        expect(histories).toHaveLength(2);
+        expect(histories[0].versions.map(version => version.content)).toEqual([PAGE_V1, PAGE_V2]);
+        expect(histories[1].versions.map(version => version.content)).toEqual([OTHER_PAGE]);
+    });
+
+    it('keeps histories of different types apart', () => {
+        const histories = ArtifactHistoryBuilder.build([
+            artifact('Diagram', 'message-1', 'graph TD; A-->B;', ArtifactType.MERMAID),
+            artifact('Diagram', 'message-2', 'graph TD; A-->B;', ArtifactType.CODE)
+        ]);
+
+        expect(histories).toHaveLength(2);
+    });
+
+    it('selects versions for each download mode', () => {
+        const histories = ArtifactHistoryBuilder.build([
+            artifact('index.html', 'message-1', PAGE_V1),
+            artifact('index.html', 'message-2', PAGE_V2)
+        ]);
+        const historyId = histories[0].id;
+
+        expect(ArtifactHistoryBuilder.selectForDownload(histories, 'latest').map(v => v.version)).toEqual([2]);
+        expect(ArtifactHistoryBuilder.selectForDownload(histories, 'all').map(v => v.version)).toEqual([1, 2]);
+        expect(ArtifactHistoryBuilder.selectForDownload(histories, 'specific', new Map([[historyId, 1]]))
+            .map(v => v.version)).toEqual([1]);
+    });
+});
@@ -0,0 +1,190 @@
+import {ArtifactHistory, ArtifactState, VersionDownloadMode} from '../models/artifact';
+import {LoggerService} from '../services/loggerService';
+import {ArtifactIdentity} from './artifactIdentity';
+
+/**
+ * Utility class for linking rewrites of the same artifact into a version history
+ */
+export class ArtifactHistoryBuilder {
+    private static readonly logger = LoggerService.getInstance();
+
+    // Share of distinct lines a rewrite must keep to count as a new version of an artifact
+    private static readonly MIN_SIMILARITY = 0.3;
+
+    /**
+     * Group artifacts into histories, one per logical artifact
+     * Artifacts are expected in page order, which is also chronological order.
+     * An artifact continues an earlier history when it has the same conversation,
+     * type and title, appears in a later message, and its content is similar to
+     * the latest version; otherwise it starts a history of its own, so distinct
+     * artifacts that share a title are never merged. Consecutive copies with
+     * identical content are treated as the same version.
+     */
+    public static build(artifacts: ArtifactState[]): ArtifactHistory[] {
+        const groups: { key: string; versions: ArtifactState[] }[] = [];
+
+        artifacts.forEach(artifact => {
+            const key = this.getHistoryKey(artifact);
+            const group = this.findContinuedGroup(artifact, groups.filter(candidate => candidate.key === key));
+
+            if (!group) {
+                groups.push({ key, versions: [artifact] });
+            } else if (this.getContentHash(group.versions[group.versions.length - 1]) !== this.getContentHash(artifact)) {
+                group.versions.push(artifact);
+            }
+        });
+
+        const histories = groups.map(({ key, versions: group }) => {
+            const historyId = `history-${ArtifactIdentity.hash(`${key}|${this.getSlotKey(group[0])}`).slice(0, 10)}`;
+            let previous: ArtifactState | undefined;
+
+            const versions = group.map((artifact, index) => {
+                previous = new ArtifactState({
+                    ...artifact.toObject(),
+                    historyId,
+                    version: index + 1
+                }, previous);
+                return previous;
+            });
+
+            return {
+                id: historyId,
+                title: group[0].title,
+                type: group[0].type,
+                versions
+            };
+        });
+
+        this.logger.debug(`ArtifactHistoryBuilder: Built ${histories.length} histories from ${artifacts.length} artifacts`);
+        return histories;
+    }
+
+    /**
+     * Get the latest version of a history
+     */
+    public static getLatest(history: ArtifactHistory): ArtifactState {
+        return history.versions[history.versions.length - 1];
+    }
+
+    /**
+     * Get a specific version (1-based) of a history, or the latest if it doesn't exist
+     */
+    public static getVersion(history: ArtifactHistory, version: number): ArtifactState {
+        return history.versions.find(v => v.version === version) ?? this.getLatest(history);
+    }
+
+    /**
+     * Pick the artifacts to download from a set of histories
+     * @param histories Histories to download
+     * @param mode Latest version only, every version, or the versions picked per history
+     * @param pickedVersions Version picked for each history ID (used by 'specific' mode)
+     */
+    public static selectForDownload(
+        histories: ArtifactHistory[],
+        mode: VersionDownloadMode,
+        pickedVersions: Map<string, number> = new Map()
+    ): ArtifactState[] {
+        switch (mode) {
+            case 'all':
+                return histories.flatMap(history => history.versions);
+
+            case 'specific':
+                return histories.map(history => {
+                    const picked = pickedVersions.get(history.id);
+                    return picked ? this.getVersion(history, picked) : this.getLatest(history);
+                });
+
+            case 'latest':
+            default:
+                return histories.map(history => this.getLatest(history));
+        }
+    }
+
+    /**
+     * Find the history an artifact is a new version of, if any
+     * Artifacts in the same message are always distinct, and the most similar
+     * latest version wins when several histories qualify.
+     */
+    private static findContinuedGroup<T extends { versions: ArtifactState[] }>(
+        artifact: ArtifactState,
+        candidates: T[]
+    ): T | undefined {
+        let best: T | undefined;
+        let bestSimilarity = 0;
+
+        for (const candidate of candidates) {
+            const latest = candidate.versions[candidate.versions.length - 1];
+            if (latest.messageId && latest.messageId === artifact.messageId) {
+                continue;
+            }
+
+            const similarity = this.getSimilarity(latest, artifact);
+            if (similarity >= this.MIN_SIMILARITY && similarity > bestSimilarity) {
+                best = candidate;
+                bestSimilarity = similarity;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Similarity of two artifacts' content, from 0 (no shared lines) to 1 (identical)
+     */
+    private static getSimilarity(a: ArtifactState, b: ArtifactState): number {
+        if (this.getContentHash(a) === this.getContentHash(b)) {
+            return 1;
+        }
+
+        const linesA = this.getLines(a.content);
+        const linesB = this.getLines(b.content);
+        if (!linesA.size || !linesB.size) {
+            return 0;
+        }
+
+        let shared = 0;
+        linesA.forEach(line => {
+            if (linesB.has(line)) {
+                shared++;
+            }
+        });
+
+        return shared / (linesA.size + linesB.size - shared);
+    }
+
+    /**
+     * Distinct non-empty lines of some content, ignoring indentation
+     */
+    private static getLines(content: string): Set<string> {
+        return new Set(content.split('\n').map(line => line.trim()).filter(Boolean));
+    }
+
+    /**
+     * Key identifying the artifacts that may belong to one history
+     */
+    private static getHistoryKey(artifact: ArtifactState): string {
+        return [
+            artifact.conversationId || 'no-conversation',
+            artifact.type,
+            artifact.title.trim().toLowerCase()
+        ].join('|');
+    }
+
+    /**
+     * Key of the slot an artifact was first seen in, which tells same-titled histories apart
+     */
+    private static getSlotKey(artifact: ArtifactState): string {
+        return ArtifactIdentity.getSlotKey({
+            conversationId: artifact.conversationId,
+            messageId: artifact.messageId,
+            position: artifact.position ?? 0
+        });
+    }
+
+    /**
+     * Get the content hash of an artifact, computing it if missing
+     */
+    private static getContentHash(artifact: ArtifactState): string {
+        return artifact.contentHash || ArtifactIdentity.hashContent(artifact.content);
+    }
+}
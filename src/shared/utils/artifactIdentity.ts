@@ -0,0 +1,62 @@
+/**
+ * Inputs used to derive a stable artifact identifier
+ */
+export interface ArtifactIdentityParts {
+    conversationId?: string;
+    messageId?: string;
+    position: number;
+    content: string;
+}
+
+/**
+ * Utility class for deriving deterministic, content-based artifact identifiers
+ */
+export class ArtifactIdentity {
+    /**
+     * Hash a string into a short hexadecimal digest (cyrb53)
+     * This is not cryptographic; it only needs to be stable and well distributed.
+     */
+    public static hash(value: string): string {
+        let h1 = 0xdeadbeef;
+        let h2 = 0x41c6ce57;
+
+        for (let i = 0; i < value.length; i++) {
+            const ch = value.charCodeAt(i);
+            h1 = Math.imul(h1 ^ ch, 2654435761);
+            h2 = Math.imul(h2 ^ ch, 1597334677);
+        }
+
+        h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+        h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+        const combined = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+        return combined.toString(16).padStart(14, '0');
+    }
+
+    /**
+     * Hash artifact content
+     */
+    public static hashContent(content: string): string {
+        return this.hash(content).slice(0, 12);
+    }
+
+    /**
+     * Key identifying an artifact slot (conversation, message and position) regardless of content
+     */
+    public static getSlotKey(parts: Omit<ArtifactIdentityParts, 'content'>): string {
+        return this.hash([
+            parts.conversationId || 'no-conversation',
+            parts.messageId || 'no-message',
+            parts.position
+        ].join('|')).slice(0, 10);
+    }
+
+    /**
+     * Create a deterministic artifact ID
+     * The same artifact always gets the same ID, and artifacts that only share
+     * a title still get distinct IDs because their slot or content differs.
+     */
+    public static createId(parts: ArtifactIdentityParts): string {
+        return `artifact-${this.getSlotKey(parts)}-${this.hashContent(parts.content)}`;
+    }
+}
@@ -0,0 +1,109 @@
+import {describe, expect, it} from 'vitest';
+import {Artifact, ArtifactState, ArtifactType} from '../models/artifact';
+import {ArtifactSearch} from './artifactSearch';
+
+/**
+ * Create a stored artifact
+ */
+function artifact(id: string, title: string, content: string, fields: Partial<Artifact> = {}): ArtifactState {
+    return new ArtifactState({
+        id,
+        title,
+        type: ArtifactType.CODE,
+        language: 'typescript',
+        content,
+        timestamp: new Date('2024-05-01T00:00:00Z'),
+        conversationId: 'conversation-1',
+        ...fields
+    });
+}
+
+/**
+ * Search and list the IDs of the hits in ranked order
+ */
+function idsOf(artifacts: ArtifactState[], query: string): string[] {
+    return ArtifactSearch.search(artifacts, { query }).map(result => result.artifact.id);
+}
+
+describe('ArtifactSearch', () => {
+    describe('search', () => {
+        it('splits the query on whitespace, ignores case and needs every term', () => {
+            const artifacts = [
+                artifact('both', 'Counter', 'export const useCounter = () => {};'),
+                artifact('one', 'Timer', 'export const useTimer = () => {};')
+            ];
+
+            expect(idsOf(artifacts, '  EXPORT\tcounter ')).toEqual(['both']);
+            expect(idsOf(artifacts, 'export missing')).toEqual([]);
+        });
+
+        it('ranks title matches above content matches', () => {
+            const artifacts = [
+                artifact('content', 'Helpers', 'parser parser parser'),
+                artifact('title', 'Parser', 'export {};')
+            ];
+
+            expect(ArtifactSearch.search(artifacts, { query: 'parser' }).map(result => [result.artifact.id, result.score]))
+                .toEqual([['title', 10], ['content', 3]]);
+        });
+
+        it('caps how much repeated content adds to the score', () => {
+            const artifacts = [
+                artifact('spam', 'Notes', 'todo '.repeat(100)),
+                artifact('title', 'Todo list', 'todo '.repeat(11))
+            ];
+
+            expect(ArtifactSearch.search(artifacts, { query: 'todo' }).map(result => [result.artifact.id, result.score]))
+                .toEqual([['title', 21], ['spam', 20]]);
+        });
+
+        it('breaks ties with the most recent first, and lists everything that way with no query', () => {
+            const artifacts = [
+                artifact('old', 'App', 'app', { timestamp: new Date('2024-01-01T00:00:00Z') }),
+                artifact('new', 'App', 'app', { timestamp: new Date('2024-06-01T00:00:00Z') })
+            ];
+
+            expect(idsOf(artifacts, 'app')).toEqual(['new', 'old']);
+            expect(idsOf(artifacts, '')).toEqual(['new', 'old']);
+        });
+
+        it('applies type, language, conversation and date filters', () => {
+            const artifacts = [
+                artifact('ts', 'A', 'a'),
+                artifact('py', 'B', 'b', { language: 'Python' }),
+                artifact('svg', 'C', '<svg/>', { type: ArtifactType.SVG, language: undefined }),
+                artifact('other', 'D', 'd', { conversationId: 'conversation-2' }),
+                artifact('late', 'E', 'e', { timestamp: new Date('2024-07-01T00:00:00Z') })
+            ];
+            const search = (filters: object): string[] =>
+                ArtifactSearch.search(artifacts, filters).map(result => result.artifact.id).sort();
+
+            expect(search({ type: ArtifactType.SVG })).toEqual(['svg']);
+            expect(search({ language: 'python' })).toEqual(['py']);
+            expect(search({ conversationId: 'conversation-2' })).toEqual(['other']);
+            expect(search({ dateFrom: new Date('2024-06-01T00:00:00Z') })).toEqual(['late']);
+            expect(search({ dateTo: new Date('2024-06-01T00:00:00Z') })).toEqual(['other', 'py', 'svg', 'ts']);
+        });
+
+        it('excerpts the content around the first match', () => {
+            const content = `${'a '.repeat(50)}needle\n\n${'b '.repeat(50)}`;
+            const [result] = ArtifactSearch.search([artifact('long', 'Doc', content)], { query: 'needle' });
+
+            expect(result.snippet).toMatch(/^…(a )+needle( b)+…$/);
+            expect(result.snippet.length).toBeLessThanOrEqual(122);
+        });
+    });
+
+    describe('getDistinctValues', () => {
+        it('lists each value once, sorted, without empty ones', () => {
+            const artifacts = [
+                artifact('1', 'A', 'a', { language: 'python' }),
+                artifact('2', 'B', 'b'),
+                artifact('3', 'C', 'c', { language: 'python' }),
+                artifact('4', 'D', 'd', { language: undefined })
+            ];
+
+            expect(ArtifactSearch.getDistinctValues(artifacts, 'language')).toEqual(['python', 'typescript']);
+        });
+    });
+});
@@ -0,0 +1,178 @@
+import {ArtifactState, ArtifactType} from '../models/artifact';
+
+/**
+ * Filters applied when searching stored artifacts
+ */
+export interface ArtifactSearchFilters {
+    query?: string;
+    type?: ArtifactType | '';
+    language?: string;
+    conversationId?: string;
+    dateFrom?: Date | null;
+    dateTo?: Date | null;
+}
+
+/**
+ * A single search hit
+ */
+export interface ArtifactSearchResult {
+    artifact: ArtifactState;
+    score: number;
+    snippet: string;
+}
+
+/**
+ * Utility class for full-text search over stored artifacts
+ */
+export class ArtifactSearch {
+    private static readonly TITLE_WEIGHT = 10;
+    private static readonly MAX_CONTENT_HITS = 20;
+    private static readonly SNIPPET_RADIUS = 60;
+
+    /**
+     * Search artifacts by text and filters
+     * Every query term must appear in the title or content. Results are ranked by
+     * relevance (title matches weigh more), then by most recent first.
+     */
+    public static search(artifacts: ArtifactState[], filters: ArtifactSearchFilters = {}): ArtifactSearchResult[] {
+        const terms = this.tokenize(filters.query || '');
+
+        const results: ArtifactSearchResult[] = [];
+
+        artifacts.forEach(artifact => {
+            if (!this.matchesFilters(artifact, filters)) {
+                return;
+            }
+
+            const score = this.score(artifact, terms);
+            if (terms.length > 0 && score === 0) {
+                return;
+            }
+
+            results.push({
+                artifact,
+                score,
+                snippet: this.createSnippet(artifact.content, terms)
+            });
+        });
+
+        return results.sort((a, b) =>
+            b.score - a.score || b.artifact.timestamp.getTime() - a.artifact.timestamp.getTime()
+        );
+    }
+
+    /**
+     * Collect the distinct values of a field, for populating filter dropdowns
+     */
+    public static getDistinctValues(artifacts: ArtifactState[], field: 'type' | 'language' | 'conversationId'): string[] {
+        const values = new Set<string>();
+        artifacts.forEach(artifact => {
+            const value = artifact[field];
+            if (value) {
+                values.add(value);
+            }
+        });
+        return Array.from(values).sort();
+    }
+
+    /**
+     * Check an artifact against the non-text filters
+     */
+    private static matchesFilters(artifact: ArtifactState, filters: ArtifactSearchFilters): boolean {
+        if (filters.type && artifact.type !== filters.type) {
+            return false;
+        }
+
+        if (filters.language && (artifact.language || '').toLowerCase() !== filters.language.toLowerCase()) {
+            return false;
+        }
+
+        if (filters.conversationId && artifact.conversationId !== filters.conversationId) {
+            return false;
+        }
+
+        const time = artifact.timestamp.getTime();
+        if (filters.dateFrom && time < filters.dateFrom.getTime()) {
+            return false;
+        }
+
+        if (filters.dateTo && time > filters.dateTo.getTime()) {
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Split a query into lowercase terms
+     */
+    private static tokenize(query: string): string[] {
+        return query
+            .toLowerCase()
+            .split(/\s+/)
+            .filter(Boolean);
+    }
+
+    /**
+     * Score an artifact against query terms (0 when a term is missing)
+     */
+    private static score(artifact: ArtifactState, terms: string[]): number {
+        if (terms.length === 0) {
+            return 0;
+        }
+
+        const title = artifact.title.toLowerCase();
+        const content = artifact.content.toLowerCase();
+        let total = 0;
+
+        for (const term of terms) {
+            const titleHits = this.countOccurrences(title, term);
+            const contentHits = Math.min(this.countOccurrences(content, term), this.MAX_CONTENT_HITS);
+
+            if (titleHits === 0 && contentHits === 0) {
+                return 0;
+            }
+
+            total += titleHits * this.TITLE_WEIGHT + contentHits;
+        }
+
+        return total;
+    }
+
+    /**
+     * Count non-overlapping occurrences of a term
+     */
+    private static countOccurrences(text: string, term: string): number {
+        let count = 0;
+        let index = text.indexOf(term);
+
+        while (index !== -1 && count < this.MAX_CONTENT_HITS) {
+            count++;
+            index = text.indexOf(term, index + term.length);
+        }
+
+        return count;
+    }
+
+    /**
+     * Create a short excerpt around the first matching term
+     */
+    private static createSnippet(content: string, terms: string[]): string {
+        const flattened = content.replace(/\s+/g, ' ').trim();
+        const lower = flattened.toLowerCase();
+
+        const firstMatch = terms
+            .map(term => lower.indexOf(term))
+            .filter(index => index >= 0)
+            .sort((a, b) => a - b)[0];
+
+        if (firstMatch === undefined) {
+            return flattened.slice(0, this.SNIPPET_RADIUS * 2);
+        }
+
+        const start = Math.max(0, firstMatch - this.SNIPPET_RADIUS);
+        const end = Math.min(flattened.length, firstMatch + this.SNIPPET_RADIUS);
+
+        return `${start > 0 ? '…' : ''}${flattened.slice(start, end)}${end < flattened.length ? '…' : ''}`;
+    }
+}
@@ -0,0 +1,144 @@
+import {describe, expect, it} from 'vitest';
+import {ConversationMessage} from '../models/messages';
+import {ContextTrimmer, ContextTrimOptions} from './contextTrimmer';
+import {TokenEstimator} from './tokenEstimator';
+
+/**
+ * An artifact block as ConversationExtractor.inlineArtifact writes it
+ */
+function artifactBlock(title: string, content: string): string {
+    return `<artifact title="${title}" type="code">\n${content}\n</artifact>`;
+}
+
+const HISTORY: ConversationMessage[] = [
+    { role: 'user', content: 'Write a counter component' },
+    { role: 'assistant', content: `Here it is:\n${artifactBlock('Counter', 'export const Counter = () => 0;')}` },
+    { role: 'user', content: 'Add a reset button' },
+    { role: 'assistant', content: `Updated:\n${artifactBlock('Counter', 'export const Counter = () => { reset(); };')}` },
+    { role: 'user', content: 'Now write tests' },
+    { role: 'assistant', content: 'Here are some tests for the counter.' }
+];
+
+const UNLIMITED = 1000000;
+
+/**
+ * Check that roles alternate, starting with the user, as the Messages API requires
+ */
+function expectAlternating(messages: ConversationMessage[]): void {
+    messages.forEach((message, index) => {
+        expect(message.role).toBe(index % 2 === 0 ? 'user' : 'assistant');
+    });
+}
+
+/**
+ * Trim with the given strategy and budget
+ */
+function trim(options: Partial<ContextTrimOptions>, history = HISTORY): ReturnType<typeof ContextTrimmer.trim> {
+    return ContextTrimmer.trim(history, { strategy: 'dropOldest', keepLastTurns: 10, budgetTokens: UNLIMITED, ...options });
+}
+
+describe('ContextTrimmer', () => {
+    describe('trim', () => {
+        it('keeps everything that fits', () => {
+            const trimmed = trim({});
+
+            expect(trimmed.kept).toEqual(HISTORY);
+            expect(trimmed.dropped).toEqual([]);
+            expect(trimmed.pinnedArtifacts).toEqual([]);
+        });
+
+        it('drops the oldest whole exchanges until the rest fits', () => {
+            const lastExchange = HISTORY.slice(4);
+            const budget = lastExchange.reduce((total, message) => total + TokenEstimator.estimateMessage(message), 0)
+                + TokenEstimator.estimateText(artifactBlock('Counter', 'export const Counter = () => { reset(); };'));
+
+            const trimmed = trim({ budgetTokens: budget });
+
+            expect(trimmed.kept).toEqual(lastExchange);
+            expect(trimmed.dropped).toEqual(HISTORY.slice(0, 4));
+        });
+
+        it('pins only the latest version of artifacts from dropped messages', () => {
+            const trimmed = trim({ strategy: 'lastTurns', keepLastTurns: 1 });
+
+            expect(trimmed.pinnedArtifacts).toEqual([artifactBlock('Counter', 'export const Counter = () => { reset(); };')]);
+        });
+
+        it('keeps the last N exchanges for the lastTurns strategy', () => {
+            const trimmed = trim({ strategy: 'lastTurns', keepLastTurns: 2 });
+
+            expect(trimmed.kept).toEqual(HISTORY.slice(2));
+        });
+
+        it('treats consecutive user messages as one exchange', () => {
+            const history: ConversationMessage[] = [
+                { role: 'user', content: 'first' },
+                { role: 'user', content: 'second' },
+                { role: 'assistant', content: 'reply' }
+            ];
+
+            expect(trim({ strategy: 'lastTurns', keepLastTurns: 1 }, history).kept).toEqual(history);
+        });
+
+        it('drops everything when even the last exchange is over budget', () => {
+            const trimmed = trim({ budgetTokens: 1 });
+
+            expect(trimmed.kept).toEqual([]);
+            expect(trimmed.dropped).toEqual(HISTORY);
+        });
+    });
+
+    describe('assemble', () => {
+        it('returns the kept messages unchanged when nothing was left out', () => {
+            expect(ContextTrimmer.assemble(trim({}))).toEqual(HISTORY);
+        });
+
+        it('prefixes the first kept user message with the summary and pinned artifacts', () => {
+            const messages = ContextTrimmer.assemble(trim({ strategy: 'lastTurns', keepLastTurns: 1 }), 'They built a counter.');
+
+            expect(messages).toHaveLength(2);
+            expectAlternating(messages);
+            expect(messages[0].content).toContain('They built a counter.');
+            expect(messages[0].content).toContain('reset();');
+            expect(messages[0].content.endsWith('Now write tests')).toBe(true);
+        });
+
+        it('adds its own user message when the kept history starts with a reply', () => {
+            const messages = ContextTrimmer.assemble({
+                kept: [{ role: 'assistant', content: 'reply' }],
+                dropped: [{ role: 'user', content: 'question' }],
+                pinnedArtifacts: []
+            }, 'summary');
+
+            expect(messages.map(message => message.role)).toEqual(['user', 'assistant']);
+        });
+
+        it('ends with an assistant turn when no messages are kept', () => {
+            const trimmed = trim({ budgetTokens: 1 });
+
+            for (const messages of [
+                ContextTrimmer.assemble(trimmed),
+                ContextTrimmer.assemble(trimmed, 'Only a summary'),
+                ContextTrimmer.assemble({ kept: [], dropped: HISTORY, pinnedArtifacts: [] }, 'Only a summary')
+            ]) {
+                expectAlternating(messages);
+                expect(messages[messages.length - 1].role).toBe('assistant');
+
+                // The caller's prompt can now follow without two user messages in a row
+                expectAlternating([...messages, { role: 'user', content: 'next prompt' }]);
+            }
+        });
+    });
+
+    describe('toTranscript', () => {
+        it('replaces artifacts with placeholders and labels speakers', () => {
+            const transcript = ContextTrimmer.toTranscript(HISTORY.slice(0, 2), UNLIMITED);
+
+            expect(transcript).toBe('User: Write a counter component\n\nClaude: Here it is:\n[artifact "Counter"]');
+        });
+
+        it('leaves out the oldest messages when over budget, but always keeps one', () => {
+            expect(ContextTrimmer.toTranscript(HISTORY, 1)).toBe('Claude: Here are some tests for the counter.');
+        });
+    });
+});
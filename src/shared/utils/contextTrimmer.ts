@@ -0,0 +1,197 @@
+import {ConversationMessage} from '../models/messages';
+import {ContextStrategy} from '../models/settings';
+import {TokenEstimator} from './tokenEstimator';
+
+/**
+ * Limits for trimming a conversation
+ */
+export interface ContextTrimOptions {
+    strategy: ContextStrategy;
+    keepLastTurns: number;
+
+    // Estimated tokens available for the history, after the prompt, system prompt and reply are allowed for
+    budgetTokens: number;
+}
+
+/**
+ * A conversation split into what is sent as-is and what is left out
+ */
+export interface TrimmedConversation {
+    // Messages sent unchanged, oldest first
+    kept: ConversationMessage[];
+
+    // Messages left out, oldest first
+    dropped: ConversationMessage[];
+
+    // Latest versions of artifacts that only appear in dropped messages
+    pinnedArtifacts: string[];
+}
+
+/**
+ * The latest inlined version of an artifact
+ */
+interface LatestArtifact {
+    block: string;
+    messageIndex: number;
+    tokens: number;
+}
+
+/**
+ * Utility class for fitting a conversation into the model's context window
+ * History is cut at exchange boundaries (a user message and the replies to it), so
+ * the model never sees a reply without the prompt that produced it. Artifacts are
+ * pinned: when the message holding an artifact's latest version is cut, that version
+ * is still sent at the start of the history.
+ */
+export class ContextTrimmer {
+    // Matches the blocks ConversationExtractor.inlineArtifact writes
+    private static readonly ARTIFACT_PATTERN = /<artifact title="([^"]*)"[^>]*>\n[\s\S]*?\n<\/artifact>/g;
+
+    private static readonly PINNED_HEADER =
+        'These artifacts were created earlier in this conversation. Their latest versions are:';
+
+    private static readonly SUMMARY_HEADER = 'Summary of the earlier part of this conversation:';
+
+    // Reply to the summary and pinned artifacts when no messages are kept, so the next prompt follows an assistant turn
+    private static readonly PREAMBLE_ACKNOWLEDGEMENT = 'Understood. I have the earlier context.';
+
+    /**
+     * Choose which messages to keep
+     * When even the last exchange is over budget every message is dropped, leaving the summary and pinned artifacts.
+     */
+    public static trim(history: ConversationMessage[], options: ContextTrimOptions): TrimmedConversation {
+        const starts = this.findExchangeStarts(history);
+        const messageTokens = history.map(message => TokenEstimator.estimateMessage(message));
+        const latestArtifacts = this.findLatestArtifacts(history);
+
+        let exchange = options.strategy === 'lastTurns'
+            ? Math.max(0, starts.length - options.keepLastTurns)
+            : 0;
+
+        // Drop whole exchanges, oldest first, until the rest fits
+        while (exchange < starts.length) {
+            const cut = starts[exchange];
+            const keptTokens = messageTokens.slice(cut).reduce((total, tokens) => total + tokens, 0);
+            const pinnedTokens = latestArtifacts
+                .filter(artifact => artifact.messageIndex < cut)
+                .reduce((total, artifact) => total + artifact.tokens, 0);
+
+            if (keptTokens + pinnedTokens <= options.budgetTokens) break;
+            exchange++;
+        }
+
+        const cut = exchange < starts.length ? starts[exchange] : history.length;
+
+        return {
+            kept: history.slice(cut),
+            dropped: history.slice(0, cut),
+            pinnedArtifacts: latestArtifacts
+                .filter(artifact => artifact.messageIndex < cut)
+                .map(artifact => artifact.block)
+        };
+    }
+
+    /**
+     * Build the history to send, putting the summary and pinned artifacts before the kept messages
+     * The result never ends with a user message, since the caller appends the new prompt.
+     */
+    public static assemble(trimmed: TrimmedConversation, summary: string | null = null): ConversationMessage[] {
+        const sections: string[] = [];
+
+        if (summary) {
+            sections.push(`${this.SUMMARY_HEADER}\n\n${summary}`);
+        }
+        if (trimmed.pinnedArtifacts.length > 0) {
+            sections.push(`${this.PINNED_HEADER}\n\n${trimmed.pinnedArtifacts.join('\n\n')}`);
+        }
+
+        const messages = trimmed.kept.map(message => ({ ...message }));
+        if (sections.length === 0) {
+            return messages;
+        }
+
+        // Prefix the first user message rather than sending two user messages in a row
+        const head = sections.join('\n\n');
+        if (messages.length === 0) {
+            return [
+                { role: 'user', content: head },
+                { role: 'assistant', content: this.PREAMBLE_ACKNOWLEDGEMENT }
+            ];
+        }
+
+        if (messages[0].role === 'user') {
+            messages[0].content = `${head}\n\n${messages[0].content}`;
+        } else {
+            messages.unshift({ role: 'user', content: head });
+        }
+
+        return messages;
+    }
+
+    /**
+     * Write dropped messages as a transcript for the model to summarize
+     * Artifacts become placeholders since their latest versions are pinned anyway; if the
+     * transcript is still over budget, its oldest messages are left out.
+     */
+    public static toTranscript(messages: ConversationMessage[], budgetTokens: number): string {
+        const lines: string[] = [];
+        let tokens = 0;
+
+        for (let i = messages.length - 1; i >= 0; i--) {
+            const content = messages[i].content.replace(this.ARTIFACT_PATTERN, (_match, title) => `[artifact "${title}"]`);
+            const line = `${messages[i].role === 'user' ? 'User' : 'Claude'}: ${content}`;
+            const lineTokens = TokenEstimator.estimateText(line);
+
+            if (tokens + lineTokens > budgetTokens && lines.length > 0) break;
+            lines.unshift(line);
+            tokens += lineTokens;
+        }
+
+        return lines.join('\n\n');
+    }
+
+    /**
+     * Build the prompt asking the model to summarize a transcript
+     */
+    public static buildSummaryPrompt(transcript: string): string {
+        return 'Summarize the conversation below so it can replace the original in a continued conversation. '
+            + 'Keep decisions, requirements, open questions, names and any facts needed to continue the work. '
+            + 'Refer to artifacts by title; their content will be provided separately. '
+            + 'Reply with the summary only.\n\n'
+            + `<conversation>\n${transcript}\n</conversation>`;
+    }
+
+    /**
+     * Indexes of the messages that start each exchange
+     */
+    private static findExchangeStarts(history: ConversationMessage[]): number[] {
+        const starts: number[] = [];
+
+        history.forEach((message, index) => {
+            if (index === 0 || (message.role === 'user' && history[index - 1].role !== 'user')) {
+                starts.push(index);
+            }
+        });
+
+        return starts;
+    }
+
+    /**
+     * Find the last inlined version of each artifact, by title
+     */
+    private static findLatestArtifacts(history: ConversationMessage[]): LatestArtifact[] {
+        const latest = new Map<string, LatestArtifact>();
+
+        history.forEach((message, messageIndex) => {
+            for (const match of message.content.matchAll(this.ARTIFACT_PATTERN)) {
+                latest.set(match[1], {
+                    block: match[0],
+                    messageIndex,
+                    tokens: TokenEstimator.estimateText(match[0])
+                });
+            }
+        });
+
+        return Array.from(latest.values());
+    }
+}
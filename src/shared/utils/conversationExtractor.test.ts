@@ -0,0 +1,120 @@
+// @vitest-environment jsdom
+import {beforeEach, describe, expect, it, vi} from 'vitest';
+import {DomAdapterRegistry} from '../adapters/domAdapterRegistry';
+import {ArtifactType} from '../models/artifact';
+import {ConversationExtractor} from './conversationExtractor';
+
+const URL = 'https://claude.ai/chat/3f2a9c1e-current';
+
+/**
+ * Parse a claude.ai page around the given messages
+ */
+function page(messages: string): Document {
+    return new DOMParser().parseFromString(`
+        <div class="claude-header"><div class="claude-controls"></div></div>
+        <div class="conversation-container" data-conversation-id="3f2a9c1e-current">${messages}</div>
+    `, 'text/html');
+}
+
+describe('ConversationExtractor', () => {
+    beforeEach(() => {
+        const registry = DomAdapterRegistry.getInstance();
+        registry.forceProfile(null);
+        registry.reset();
+        vi.spyOn(console, 'info').mockImplementation(() => undefined);
+    });
+
+    describe('extractFromDOM', () => {
+        it('turns messages into text, keeping code and artifacts verbatim', () => {
+            const document = page(`
+                <div class="message-container" data-message-id="msg-1" data-role="human">
+                    <p>Write a   debounce helper.</p>
+                    <p>Keep it<br>short.</p>
+                </div>
+                <div class="message-container" data-message-id="msg-2" data-role="assistant">
+                    <p>Here it is:</p>
+                    <div class="antml-artifact-container">
+                        <div class="antml-artifact-title">Debounce "helper"</div>
+                        <pre><code class="language-typescript">export function debounce(fn: () =&gt; void) {
+    return fn;
+}</code></pre>
+                    </div>
+                    <ul><li>Call it   once</li><li>Reuse it</li></ul>
+                    <pre><code class="language-bash">npm   test
+
+npm run build
+</code></pre>
+                </div>
+            `);
+
+            expect(ConversationExtractor.extractFromDOM(document, URL)).toEqual([
+                { role: 'user', content: 'Write a debounce helper.\n\nKeep it\nshort.' },
+                {
+                    role: 'assistant',
+                    content: [
+                        'Here it is:',
+                        '',
+                        '<artifact title="Debounce \'helper\'" type="code" language="typescript">',
+                        'export function debounce(fn: () => void) {',
+                        '    return fn;',
+                        '}',
+                        '</artifact>',
+                        '',
+                        'Call it once',
+                        '',
+                        'Reuse it',
+                        '',
+                        '```bash',
+                        'npm   test',
+                        '',
+                        'npm run build',
+                        '```'
+                    ].join('\n')
+                }
+            ]);
+        });
+
+        it('assumes alternating roles when messages aren\'t marked', () => {
+            const document = page(`
+                <div class="message-container"><p>Question</p></div>
+                <div class="message-container"><p>Answer</p></div>
+            `);
+
+            expect(ConversationExtractor.extractFromDOM(document, URL).map(message => message.role))
+                .toEqual(['user', 'assistant']);
+        });
+
+        it('returns nothing when there is no conversation on the page', () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            expect(ConversationExtractor.extractFromDOM(page('').createElement('div'), URL)).toEqual([]);
+        });
+    });
+
+    describe('normalize', () => {
+        it('drops empty messages, merges repeated roles and starts with the user', () => {
+            expect(ConversationExtractor.normalize([
+                { role: 'assistant', content: 'Earlier answer' },
+                { role: 'user', content: '  ' },
+                { role: 'assistant', content: 'More' },
+                { role: 'user', content: 'Next question' }
+            ])).toEqual([
+                { role: 'user', content: '(Continuing an earlier conversation.)' },
+                { role: 'assistant', content: 'Earlier answer\n\nMore' },
+                { role: 'user', content: 'Next question' }
+            ]);
+        });
+    });
+
+    describe('inlineArtifact', () => {
+        it('leaves out the language when there is none', () => {
+            expect(ConversationExtractor.inlineArtifact({
+                id: 'a',
+                title: 'Logo',
+                type: ArtifactType.SVG,
+                content: '<svg/>',
+                timestamp: new Date(0)
+            })).toBe('<artifact title="Logo" type="svg">\n<svg/>\n</artifact>');
+        });
+    });
+});
@@ -0,0 +1,149 @@
+import {Artifact} from '../models/artifact';
+import {ConversationMessage} from '../models/messages';
+import {LoggerService} from '../services/loggerService';
+import {DomAdapterRegistry} from '../adapters/domAdapterRegistry';
+import {ArtifactExtractor} from './artifactExtractor';
+
+/**
+ * Elements whose contents start on a new line when converted to text
+ */
+const BLOCK_ELEMENTS = new Set([
+    'P', 'DIV', 'SECTION', 'ARTICLE', 'BLOCKQUOTE', 'UL', 'OL', 'LI', 'TABLE', 'TR',
+    'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HR'
+]);
+
+/**
+ * Utility class for turning the visible conversation into Messages API format
+ */
+export class ConversationExtractor {
+    private static readonly logger = LoggerService.getInstance();
+
+    /**
+     * Extract the conversation on the page, with artifacts inlined into the messages that created them
+     * @param root Node to search (defaults to the whole document)
+     * @param url Page URL used for profile detection
+     */
+    public static extractFromDOM(
+        root: ParentNode = document,
+        url: string = window.location.href
+    ): ConversationMessage[] {
+        try {
+            const adapter = DomAdapterRegistry.getInstance().getAdapter(root, url);
+            const container = adapter.findConversationContainer(root);
+
+            if (!container) {
+                this.logger.warn(`ConversationExtractor: Conversation container not found (profile: ${adapter.name})`);
+                return [];
+            }
+
+            const messages = adapter.findMessageContainers(container).map((element, index) => {
+                // Without role markup, assume turns alternate starting with the user
+                const role = adapter.getMessageRole(element) ?? (index % 2 === 0 ? 'user' : 'assistant');
+
+                const artifacts = adapter.findArtifactContainers(element)
+                    .map(artifactContainer => ArtifactExtractor.extractArtifact(artifactContainer, root, url));
+
+                return { role, content: this.messageToText(element, adapter.artifactSelector, artifacts) };
+            });
+
+            const conversation = this.normalize(messages);
+            this.logger.info(`ConversationExtractor: Extracted ${conversation.length} messages`);
+            return conversation;
+        } catch (error) {
+            this.logger.error('ConversationExtractor: Error extracting conversation', error);
+            return [];
+        }
+    }
+
+    /**
+     * Format an artifact so the model sees its title, type and full content
+     */
+    public static inlineArtifact(artifact: Artifact): string {
+        const attributes = [
+            `title="${artifact.title.replace(/"/g, '\'')}"`,
+            `type="${artifact.type}"`,
+            artifact.language ? `language="${artifact.language}"` : ''
+        ].filter(Boolean).join(' ');
+
+        return `<artifact ${attributes}>\n${artifact.content}\n</artifact>`;
+    }
+
+    /**
+     * Make a message list acceptable to the Messages API
+     * Empty messages are dropped, consecutive messages from the same role are merged,
+     * and the conversation always starts with a user message.
+     */
+    public static normalize(messages: ConversationMessage[]): ConversationMessage[] {
+        const normalized: ConversationMessage[] = [];
+
+        messages
+            .filter(message => message.content.trim() !== '')
+            .forEach(message => {
+                const previous = normalized[normalized.length - 1];
+
+                if (previous && previous.role === message.role) {
+                    previous.content = `${previous.content}\n\n${message.content}`;
+                } else {
+                    normalized.push({ role: message.role, content: message.content });
+                }
+            });
+
+        if (normalized.length > 0 && normalized[0].role === 'assistant') {
+            normalized.unshift({ role: 'user', content: '(Continuing an earlier conversation.)' });
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Convert a message element to plain text, replacing artifacts and code blocks with their full text
+     */
+    private static messageToText(
+        element: HTMLElement,
+        artifactSelector: string,
+        artifacts: (Artifact | null)[]
+    ): string {
+        // Verbatim sections are swapped for placeholders so whitespace cleanup can't touch them;
+        // they are marked with a private-use character, which page text doesn't contain
+        const verbatim: string[] = [];
+        const placeholder = (text: string): string => `\uE000${verbatim.push(text) - 1}\uE000`;
+
+        let artifactIndex = 0;
+
+        const walk = (node: Node): string => {
+            if (node.nodeType === Node.TEXT_NODE) {
+                return node.textContent || '';
+            }
+
+            if (!(node instanceof Element)) {
+                return '';
+            }
+
+            if (node.matches(artifactSelector)) {
+                const artifact = artifacts[artifactIndex++];
+                return artifact ? `\n${placeholder(this.inlineArtifact(artifact))}\n` : '';
+            }
+
+            if (node.tagName === 'PRE') {
+                const language = node.querySelector('code')?.className.match(/language-([\w+-]+)/)?.[1] || '';
+                return `\n${placeholder(`\`\`\`${language}\n${(node.textContent || '').replace(/\n$/, '')}\n\`\`\``)}\n`;
+            }
+
+            if (node.tagName === 'BR') {
+                return '\n';
+            }
+
+            const inner = Array.from(node.childNodes).map(walk).join('');
+            return BLOCK_ELEMENTS.has(node.tagName) ? `\n${inner}\n` : inner;
+        };
+
+        const text = Array.from(element.childNodes).map(walk).join('')
+            .split('\n')
+            .map(line => line.replace(/\s+/g, ' ').trim())
+            .join('\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+
+        return text.replace(/\uE000(\d+)\uE000/g, (_, index) => verbatim[Number(index)]);
+    }
+}
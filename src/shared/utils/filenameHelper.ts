@@ -7,7 +7,7 @@ import {LoggerService} from '../services/loggerService';
 export class FilenameHelper {
     private static readonly logger = LoggerService.getInstance();
     private static readonly MAX_FILENAME_LENGTH = 255;
-    private static readonly INVALID_CHARS_REGEX = /[<>:"/\\|?*\x00-\x1F]/g;
+    private static readonly INVALID_CHARS_REGEX = /[<>:"/\\|?*\p{Cc}]/gu;
     private static readonly EXTENSION_MAP: Record<ArtifactType, string> = {
         [ArtifactType.CODE]: 'txt', // Will be overridden based on language
         [ArtifactType.SVG]: 'svg',
@@ -129,6 +129,27 @@ export class FilenameHelper {
         }
     }
 
+    /**
+     * Insert a suffix between a filename's base name and its extension
+     */
+    public static withSuffix(filename: string, suffix: string): string {
+        const dotIndex = filename.lastIndexOf('.');
+        if (dotIndex <= 0) {
+            return `${filename}-${suffix}`;
+        }
+
+        return `${filename.substring(0, dotIndex)}-${suffix}${filename.substring(dotIndex)}`;
+    }
+
+    /**
+     * Replace a filename's extension, or add one if it has none
+     */
+    public static withExtension(filename: string, extension: string): string {
+        const dotIndex = filename.lastIndexOf('.');
+        const base = dotIndex <= 0 ? filename : filename.substring(0, dotIndex);
+        return `${base}.${extension}`;
+    }
+
     /**
      * Sanitize a filename to remove invalid characters
      */
@@ -153,7 +174,7 @@ export class FilenameHelper {
     /**
      * Get the appropriate file extension for an artifact
      */
-    private static getExtension(artifact: Artifact): string {
+    public static getExtension(artifact: Artifact): string {
         // For code artifacts, use language-specific extension if available
         if (artifact.type === ArtifactType.CODE && artifact.language) {
             const language = artifact.language.toLowerCase();
@@ -169,7 +190,7 @@ export class FilenameHelper {
     /**
      * Get a folder name based on artifact type
      */
-    private static getTypeFolder(type: ArtifactType): string {
+    public static getTypeFolder(type: ArtifactType): string {
         switch (type) {
             case ArtifactType.CODE:
                 return 'code';
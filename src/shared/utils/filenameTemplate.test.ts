@@ -0,0 +1,141 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {Artifact, ArtifactType} from '../models/artifact';
+import {FilenameTemplate, FilenameTemplateOptions} from './filenameTemplate';
+
+const ARTIFACT: Artifact = {
+    id: 'artifact-1',
+    title: 'Counter: a/b test',
+    type: ArtifactType.CODE,
+    language: 'typescript',
+    content: 'export const count = 0;',
+    timestamp: new Date('2024-05-31T14:30:05.123Z'),
+    conversationId: 'conversation-1',
+    conversationTitle: 'Build a counter',
+    messageIndex: 2,
+    contentHash: 'abcdef0123456789',
+    version: 3
+};
+
+const OPTIONS: FilenameTemplateOptions = { replaceInvalidChars: true, maxFilenameLength: 255 };
+
+describe('FilenameTemplate', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe('validate', () => {
+        it('accepts every known token', () => {
+            const template = FilenameTemplate.TOKENS.map(token => `{${token.name}}`).join('_');
+
+            expect(FilenameTemplate.validate(template, 'filename')).toEqual([]);
+            expect(FilenameTemplate.validate(FilenameTemplate.DEFAULT_FOLDER_TEMPLATE, 'folder')).toEqual([]);
+        });
+
+        it('reports unknown tokens and stray braces', () => {
+            expect(FilenameTemplate.validate('{title}{name}.{ext', 'filename')).toEqual([
+                'Unknown token {name}',
+                'Braces must enclose a token, as in {title}'
+            ]);
+        });
+
+        it('reports characters files can\'t have', () => {
+            expect(FilenameTemplate.validate('{title}?*.{ext}', 'filename')).toEqual(['File names can\'t contain ? *']);
+            expect(FilenameTemplate.validate('a\tb', 'folder')).toEqual(['File names can\'t contain control characters']);
+        });
+
+        it('keeps folders out of filenames and "." or ".." out of folders', () => {
+            expect(FilenameTemplate.validate('docs/{title}.{ext}', 'filename')).toHaveLength(1);
+            expect(FilenameTemplate.validate(' ', 'filename')).toEqual(['The filename template is empty']);
+            expect(FilenameTemplate.validate('exports/../{type}', 'folder')).toEqual(['Folders can\'t be named "." or ".."']);
+            expect(FilenameTemplate.validate('', 'folder')).toEqual([]);
+        });
+    });
+
+    describe('renderFilename', () => {
+        it('substitutes tokens, with dates in UTC', () => {
+            expect(FilenameTemplate.renderFilename(
+                '{language}-{messageIndex}-v{version}-{hash}_{timestamp}.{ext}',
+                ARTIFACT,
+                OPTIONS
+            )).toBe('typescript-3-v3-abcdef01_2024-05-31T14-30-05.ts');
+        });
+
+        it('replaces slashes and invalid characters in token values', () => {
+            expect(FilenameTemplate.renderFilename('{title}.{ext}', ARTIFACT, OPTIONS)).toBe('Counter_ a_b test.ts');
+            expect(FilenameTemplate.renderFilename('{title}.{ext}', ARTIFACT, { ...OPTIONS, replaceInvalidChars: false }))
+                .toBe('Counter: a_b test.ts');
+        });
+
+        it('fills in values an artifact doesn\'t have', () => {
+            const bare: Artifact = { id: 'a', title: '', type: ArtifactType.SVG, content: '<svg/>', timestamp: new Date(0) };
+
+            expect(FilenameTemplate.renderFilename('{title}-{conversationTitle}-{messageIndex}-{version}.{ext}', bare, OPTIONS))
+                .toBe('Untitled-Untitled conversation-1-1.svg');
+        });
+
+        it('shortens long names, keeping the extension', () => {
+            const long = { ...ARTIFACT, title: 'x'.repeat(40) };
+
+            expect(FilenameTemplate.renderFilename('{title}.{ext}', long, { ...OPTIONS, maxFilenameLength: 12 })).toBe('xxxxxxxxx.ts');
+        });
+
+        it('drops trailing dots and spaces, and names empty results after the artifact', () => {
+            expect(FilenameTemplate.renderFilename('{title}. ', ARTIFACT, OPTIONS)).toBe('Counter_ a_b test');
+            expect(FilenameTemplate.preview('{conversationId}', '', { ...ARTIFACT, conversationId: '...' }, OPTIONS).path)
+                .toBe('artifact.ts');
+        });
+
+        it('falls back to the default template when the given one is invalid', () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            expect(FilenameTemplate.renderFilename('{nope}.{ext}', ARTIFACT, OPTIONS))
+                .toBe(FilenameTemplate.renderFilename(FilenameTemplate.DEFAULT_FILENAME_TEMPLATE, ARTIFACT, OPTIONS));
+        });
+    });
+
+    describe('renderFolder', () => {
+        it('splits folders and drops empty ones', () => {
+            expect(FilenameTemplate.renderFolder('Claude//{conversationTitle}/{typeFolder}/{year}/{month}', ARTIFACT, OPTIONS))
+                .toBe('Claude/Build a counter/code/2024/05');
+        });
+
+        it('shortens each folder name on its own', () => {
+            const folder = FilenameTemplate.renderFolder('{title}/{date}', ARTIFACT, { ...OPTIONS, maxFilenameLength: 7 });
+
+            expect(folder).toBe('Counter/2024-05');
+        });
+    });
+
+    describe('preview', () => {
+        it('joins the folder and filename and warns about names that will be cut', () => {
+            const preview = FilenameTemplate.preview('{title}.{ext}', '{type}', ARTIFACT, { ...OPTIONS, maxFilenameLength: 10 });
+
+            expect(preview.path).toBe('code/Counter.ts');
+            expect(preview.warnings).toEqual(['"Counter_ a_b test.ts" is 20 characters long and will be cut to 10']);
+        });
+
+        it('warns about paths Windows may not open', () => {
+            const long = { ...ARTIFACT, title: 'x'.repeat(200) };
+            const preview = FilenameTemplate.preview('{title}.{ext}', '{title}', long, OPTIONS);
+
+            expect(preview.warnings).toEqual([expect.stringContaining('Windows may not open paths over 260')]);
+        });
+    });
+
+    describe('namesVersion', () => {
+        it('checks both templates for the version token', () => {
+            expect(FilenameTemplate.namesVersion('{title}-{version}.{ext}')).toBe(true);
+            expect(FilenameTemplate.namesVersion('{title}.{ext}', 'exports/v{version}')).toBe(true);
+            expect(FilenameTemplate.namesVersion('{title}.{ext}', '{type}')).toBe(false);
+        });
+
+        it('ignores the folder template when files aren\'t put in folders', () => {
+            expect(FilenameTemplate.namesVersion('{title}.{ext}')).toBe(false);
+        });
+
+        it('ignores invalid templates, which are replaced by the defaults', () => {
+            expect(FilenameTemplate.namesVersion('{title}-{version}.{nope}')).toBe(false);
+            expect(FilenameTemplate.namesVersion('{title}.{ext}', '../{version}')).toBe(false);
+        });
+    });
+});
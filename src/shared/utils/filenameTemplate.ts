@@ -0,0 +1,271 @@
+import {Artifact} from '../models/artifact';
+import {DEFAULT_SETTINGS} from '../models/settings';
+import {LoggerService} from '../services/loggerService';
+import {ArtifactIdentity} from './artifactIdentity';
+import {FilenameHelper} from './filenameHelper';
+
+/**
+ * A token that can be used in a filename or folder template
+ */
+export interface FilenameTemplateToken {
+    name: string;
+    description: string;
+}
+
+/**
+ * Which template is meant; filenames can't contain folders
+ */
+export type FilenameTemplateKind = 'filename' | 'folder';
+
+/**
+ * How rendered names are cleaned up
+ */
+export interface FilenameTemplateOptions {
+    replaceInvalidChars: boolean;
+    maxFilenameLength: number;
+}
+
+/**
+ * A path rendered for the options page, with anything that will be changed about it
+ */
+export interface FilenameTemplatePreview {
+    path: string;
+    warnings: string[];
+}
+
+/**
+ * Utility class for naming downloaded files and folders from templates such as
+ * "{conversationTitle}/{type}" and "{title}-{version}.{ext}"
+ * Token values can't add folders: slashes in them are replaced like any invalid character.
+ */
+export class FilenameTemplate {
+    private static readonly logger = LoggerService.getInstance();
+
+    public static readonly DEFAULT_FILENAME_TEMPLATE = DEFAULT_SETTINGS.filenameTemplate;
+    public static readonly DEFAULT_FOLDER_TEMPLATE = DEFAULT_SETTINGS.folderTemplate;
+
+    public static readonly TOKENS: readonly FilenameTemplateToken[] = [
+        { name: 'title', description: 'Artifact title' },
+        { name: 'ext', description: 'File extension for the artifact\'s language or type, without the dot' },
+        { name: 'type', description: 'Artifact type: code, svg, markdown, mermaid, html or react' },
+        { name: 'typeFolder', description: 'Folder for the type: code, images, documents, diagrams, web or components' },
+        { name: 'language', description: 'Language of a code artifact, or the type of any other' },
+        { name: 'conversationId', description: 'ID of the conversation' },
+        { name: 'conversationTitle', description: 'Title of the conversation' },
+        { name: 'messageIndex', description: 'Number of the message in the conversation, counting from 1' },
+        { name: 'version', description: 'Version of the artifact, counting from 1' },
+        { name: 'hash', description: 'Short hash of the content' },
+        { name: 'date', description: 'Capture date, as 2024-05-31' },
+        { name: 'time', description: 'Capture time, as 14-30-00' },
+        { name: 'timestamp', description: 'Capture date and time, as 2024-05-31T14-30-00' },
+        { name: 'year', description: 'Capture year' },
+        { name: 'month', description: 'Capture month, 01 to 12' },
+        { name: 'day', description: 'Capture day of the month, 01 to 31' },
+        { name: 'hour', description: 'Capture hour, 00 to 23' },
+        { name: 'minute', description: 'Capture minute' },
+        { name: 'second', description: 'Capture second' }
+    ];
+
+    // Longest path Windows opens without special prefixes
+    private static readonly MAX_PATH_LENGTH = 260;
+
+    private static readonly TOKEN_PATTERN = /\{([^{}]*)\}/g;
+    private static readonly INVALID_CHARS = /[<>:"\\|?*\p{Cc}]/gu;
+    private static readonly CONTROL_CHARS = /\p{Cc}/gu;
+
+    /**
+     * Find what's wrong with a template: unknown tokens, stray braces and characters files can't have
+     */
+    public static validate(template: string, kind: FilenameTemplateKind): string[] {
+        const errors: string[] = [];
+        const names = new Set(this.TOKENS.map(token => token.name));
+
+        for (const match of template.matchAll(this.TOKEN_PATTERN)) {
+            if (!names.has(match[1])) {
+                errors.push(`Unknown token {${match[1]}}`);
+            }
+        }
+
+        const literal = template.replace(this.TOKEN_PATTERN, '');
+        if (/[{}]/.test(literal)) {
+            errors.push('Braces must enclose a token, as in {title}');
+        }
+
+        const invalid = Array.from(new Set(literal.match(this.INVALID_CHARS) ?? []))
+            .map(char => /\p{Cc}/u.test(char) ? 'control characters' : char);
+        if (invalid.length) {
+            errors.push(`File names can't contain ${invalid.join(' ')}`);
+        }
+
+        if (kind === 'filename') {
+            if (!template.trim()) {
+                errors.push('The filename template is empty');
+            }
+            if (literal.includes('/')) {
+                errors.push('Filenames can\'t contain "/"; put folders in the folder template');
+            }
+        } else if (literal.split('/').some(segment => segment.trim() === '.' || segment.trim() === '..')) {
+            errors.push('Folders can\'t be named "." or ".."');
+        }
+
+        return errors;
+    }
+
+    /**
+     * Name an artifact's file, using the default template if the given one is invalid
+     */
+    public static renderFilename(template: string, artifact: Artifact, options: FilenameTemplateOptions): string {
+        return this.render(this.getUsableTemplate(template, 'filename'), 'filename', artifact, options).path;
+    }
+
+    /**
+     * Name the folders an artifact's file goes in, using the default template if the given one is invalid
+     */
+    public static renderFolder(template: string, artifact: Artifact, options: FilenameTemplateOptions): string {
+        return this.render(this.getUsableTemplate(template, 'folder'), 'folder', artifact, options).path;
+    }
+
+    /**
+     * Render the full path an artifact would be downloaded to, noting names that will be shortened
+     */
+    public static preview(
+        filenameTemplate: string,
+        folderTemplate: string,
+        artifact: Artifact,
+        options: FilenameTemplateOptions
+    ): FilenameTemplatePreview {
+        const folder = this.render(folderTemplate, 'folder', artifact, options);
+        const filename = this.render(filenameTemplate, 'filename', artifact, options);
+        const path = folder.path ? `${folder.path}/${filename.path}` : filename.path;
+
+        const warnings = [...folder.warnings, ...filename.warnings];
+        if (path.length > this.MAX_PATH_LENGTH) {
+            warnings.push(`The path is ${path.length} characters long; Windows may not open paths over ${this.MAX_PATH_LENGTH}`);
+        }
+
+        return { path, warnings };
+    }
+
+    /**
+     * Whether a template includes a token
+     */
+    public static usesToken(template: string, name: string): boolean {
+        return template.includes(`{${name}}`);
+    }
+
+    /**
+     * Whether the names these templates render already tell versions of an artifact apart
+     * Leave out the folder template when files aren't put in folders. Invalid templates
+     * are replaced by the defaults when rendering, so their tokens don't count.
+     */
+    public static namesVersion(filenameTemplate: string, folderTemplate?: string): boolean {
+        return (this.usesToken(filenameTemplate, 'version') && !this.validate(filenameTemplate, 'filename').length) ||
+            (folderTemplate !== undefined && this.usesToken(folderTemplate, 'version') && !this.validate(folderTemplate, 'folder').length);
+    }
+
+    /**
+     * Substitute the tokens and clean up each name in the result
+     */
+    private static render(
+        template: string,
+        kind: FilenameTemplateKind,
+        artifact: Artifact,
+        options: FilenameTemplateOptions
+    ): FilenameTemplatePreview {
+        const values = this.getValues(artifact);
+        const rendered = template.replace(this.TOKEN_PATTERN, (token, name: string) =>
+            name in values ? this.cleanValue(values[name], options) : token
+        );
+
+        const warnings: string[] = [];
+        const segments = (kind === 'folder' ? rendered.split('/') : [rendered])
+            .map(segment => segment
+                .replace(/\s+/g, ' ')
+                .trim()
+                // Windows drops trailing dots and spaces, so names could collide once extracted
+                .replace(/[. ]+$/, ''))
+            .filter(Boolean)
+            .map(segment => {
+                if (segment.length <= options.maxFilenameLength) {
+                    return segment;
+                }
+
+                const quoted = segment.length > 24 ? `${segment.slice(0, 24)}…` : segment;
+                warnings.push(`"${quoted}" is ${segment.length} characters long and will be cut to ${options.maxFilenameLength}`);
+                return this.truncate(segment, kind, options.maxFilenameLength);
+            });
+
+        if (kind === 'filename' && !segments.length) {
+            segments.push(`artifact.${values.ext}`);
+        }
+
+        return { path: segments.join('/'), warnings };
+    }
+
+    /**
+     * Shorten a name to the length limit, keeping a filename's extension
+     */
+    private static truncate(segment: string, kind: FilenameTemplateKind, maxLength: number): string {
+        const dotIndex = segment.lastIndexOf('.');
+        if (kind === 'filename' && dotIndex > 0 && segment.length - dotIndex < maxLength) {
+            const extension = segment.slice(dotIndex);
+            return segment.slice(0, maxLength - extension.length).trimEnd() + extension;
+        }
+
+        return segment.slice(0, maxLength).trimEnd();
+    }
+
+    /**
+     * Make a token value safe to put in a name
+     */
+    private static cleanValue(value: string, options: FilenameTemplateOptions): string {
+        const withoutFolders = value.replace(/[/\\]/g, '_').replace(this.CONTROL_CHARS, '');
+        return options.replaceInvalidChars ? withoutFolders.replace(this.INVALID_CHARS, '_') : withoutFolders;
+    }
+
+    /**
+     * Fall back to the default template when a stored one doesn't validate, such as one
+     * edited by hand in an imported settings file
+     */
+    private static getUsableTemplate(template: string, kind: FilenameTemplateKind): string {
+        if (!this.validate(template, kind).length) {
+            return template;
+        }
+
+        this.logger.warn(`FilenameTemplate: Invalid ${kind} template "${template}", using the default`);
+        return kind === 'filename' ? this.DEFAULT_FILENAME_TEMPLATE : this.DEFAULT_FOLDER_TEMPLATE;
+    }
+
+    /**
+     * Work out every token's value for an artifact
+     * Dates and times are in UTC, as in filenames from before templates existed.
+     */
+    private static getValues(artifact: Artifact): Record<string, string> {
+        const timestamp = artifact.timestamp instanceof Date ? artifact.timestamp : new Date(artifact.timestamp);
+        const iso = (isNaN(timestamp.getTime()) ? new Date() : timestamp).toISOString();
+        const date = iso.slice(0, 10);
+        const time = iso.slice(11, 19).replace(/:/g, '-');
+
+        return {
+            title: artifact.title || 'Untitled',
+            ext: FilenameHelper.getExtension(artifact),
+            type: artifact.type,
+            typeFolder: FilenameHelper.getTypeFolder(artifact.type),
+            language: artifact.language || artifact.type,
+            conversationId: artifact.conversationId || 'no-conversation',
+            conversationTitle: artifact.conversationTitle || 'Untitled conversation',
+            messageIndex: String((artifact.messageIndex ?? 0) + 1),
+            version: String(artifact.version ?? 1),
+            hash: (artifact.contentHash || ArtifactIdentity.hashContent(artifact.content)).slice(0, 8),
+            date,
+            time,
+            timestamp: `${date}T${time}`,
+            year: iso.slice(0, 4),
+            month: iso.slice(5, 7),
+            day: iso.slice(8, 10),
+            hour: iso.slice(11, 13),
+            minute: iso.slice(14, 16),
+            second: iso.slice(17, 19)
+        };
+    }
+}
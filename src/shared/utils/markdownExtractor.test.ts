@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+import {describe, expect, it} from 'vitest';
+import {MarkdownExtractor} from './markdownExtractor';
+import {MarkdownRenderer} from './markdownRenderer';
+
+describe('MarkdownExtractor', () => {
+    describe('fromHtml', () => {
+        it('numbers ordered lists from their start attribute', () => {
+            expect(MarkdownExtractor.fromHtml('<ol start="4"><li>Four</li><li>Five</li><li>Six</li></ol>'))
+                .toBe('4. Four\n5. Five\n6. Six');
+        });
+
+        it('indents nested lists under the text of their item', () => {
+            const html = '<ol><li>Install<ul><li>Node<ol start="9"><li>LTS</li></ol></li></ul></li><li>Build</li></ol>';
+
+            expect(MarkdownExtractor.fromHtml(html)).toBe([
+                '1. Install',
+                '   - Node',
+                '     9. LTS',
+                '2. Build'
+            ].join('\n'));
+        });
+
+        it('leaves out copy buttons and other page controls', () => {
+            const element = document.createElement('div');
+            element.innerHTML = '<pre><code class="language-js">run();</code></pre><button>Copy</button>';
+
+            expect(MarkdownExtractor.fromHtml(element)).toBe('```js\nrun();\n```');
+        });
+
+        it('recovers tables and fenced code as they were written', () => {
+            const markdown = [
+                '# Results',
+                '',
+                '| Name | Score |',
+                '| --- | --- |',
+                '| Ada | 10 |',
+                '| Alan | 9 |',
+                '',
+                '```python',
+                'def score(name):',
+                '    return len(name)',
+                '```'
+            ].join('\n');
+
+            expect(MarkdownExtractor.fromHtml(MarkdownRenderer.toHtml(markdown))).toBe(markdown);
+        });
+    });
+});
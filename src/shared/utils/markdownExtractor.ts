@@ -0,0 +1,57 @@
+import TurndownService from 'turndown';
+import {gfm} from 'turndown-plugin-gfm';
+
+/**
+ * Utility class for recovering markdown source from markdown that claude.ai has rendered to HTML
+ * Tables, strikethrough and task lists come back as GitHub-flavoured markdown, and code
+ * blocks as fenced blocks keeping their language.
+ */
+export class MarkdownExtractor {
+    private static turndown: TurndownService | null = null;
+
+    /**
+     * Convert rendered markdown back to its source
+     */
+    public static fromHtml(html: string | HTMLElement): string {
+        return this.getTurndown().turndown(html).trim();
+    }
+
+    /**
+     * Create and configure the converter on first use
+     */
+    private static getTurndown(): TurndownService {
+        if (!this.turndown) {
+            this.turndown = new TurndownService({
+                headingStyle: 'atx',
+                codeBlockStyle: 'fenced',
+                bulletListMarker: '-',
+                emDelimiter: '*',
+                strongDelimiter: '**',
+                hr: '---'
+            });
+            this.turndown.use(gfm);
+
+            // Controls such as copy buttons are part of the rendered page, not the markdown
+            this.turndown.remove(['button', 'script', 'style']);
+
+            // One space after list markers, as Claude writes them, rather than padding to four
+            this.turndown.addRule('listItem', {
+                filter: 'li',
+                replacement: (content, node, options) => {
+                    const parent = node.parentNode as HTMLElement;
+                    let prefix = `${options.bulletListMarker} `;
+                    if (parent.nodeName === 'OL') {
+                        const start = Number(parent.getAttribute('start') || 1);
+                        prefix = `${start + Array.prototype.indexOf.call(parent.children, node)}. `;
+                    }
+
+                    const isParagraph = /\n$/.test(content);
+                    const body = content.replace(/^\n+|\n+$/g, '') + (isParagraph ? '\n' : '');
+                    return prefix + body.replace(/\n/gm, `\n${' '.repeat(prefix.length)}`) + (node.nextSibling ? '\n' : '');
+                }
+            });
+        }
+
+        return this.turndown;
+    }
+}
@@ -0,0 +1,55 @@
+import {describe, expect, it} from 'vitest';
+import {MarkdownRenderer} from './markdownRenderer';
+
+describe('MarkdownRenderer', () => {
+    describe('toHtml', () => {
+        it('renders GitHub-flavoured tables and fenced code', () => {
+            const html = MarkdownRenderer.toHtml('| A | B |\n| - | - |\n| 1 | 2 |\n\n```ts\nconst a = 1;\n```');
+
+            expect(html).toContain('<th>A</th>');
+            expect(html).toContain('<td>2</td>');
+            expect(html).toContain('<pre><code class="language-ts">const a = 1;\n</code></pre>');
+        });
+
+        it('gives headings unique IDs from their text', () => {
+            const html = MarkdownRenderer.toHtml('# Set *up* & run\n\n## Setup\n\n## Setup\n\n## !!!');
+
+            expect(html).toContain('<h1 id="set-up-run">Set <em>up</em> &amp; run</h1>');
+            expect(html).toContain('<h2 id="setup">Setup</h2>');
+            expect(html).toContain('<h2 id="setup-1">Setup</h2>');
+            expect(html).toContain('<h2 id="section">!!!</h2>');
+        });
+    });
+
+    describe('toPrintHtml', () => {
+        it('starts with contents linking to each heading, nested by depth', () => {
+            const page = MarkdownRenderer.toPrintHtml('# Guide\n\n### Install\n\n## Use\n\n## Use\n\n# <Appendix>', 'Guide');
+
+            expect(page).toContain([
+                '<nav class="markdown-toc">',
+                '<h2>Contents</h2>',
+                '<ol>',
+                '<li><a href="#guide">Guide</a><ol>',
+                '<li><a href="#install">Install</a></li>',
+                '</ol>',
+                '<ol>',
+                '<li><a href="#use">Use</a></li>',
+                '<li><a href="#use-1">Use</a></li>',
+                '</ol>',
+                '</li>',
+                '<li><a href="#appendix">&lt;Appendix&gt;</a></li>',
+                '</ol>',
+                '</nav>'
+            ].join('\n'));
+            expect(page).toContain('<h3 id="install">Install</h3>');
+        });
+
+        it('leaves out the contents when there are no headings', () => {
+            const page = MarkdownRenderer.toPrintHtml('Just text', 'Notes <draft>');
+
+            expect(page).not.toContain('markdown-toc"');
+            expect(page).toContain('<title>Notes &lt;draft&gt;</title>');
+            expect(page).toContain('<article class="markdown-body">\n<p>Just text</p>\n</article>');
+        });
+    });
+});
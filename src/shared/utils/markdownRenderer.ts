@@ -0,0 +1,193 @@
+import {Marked, Tokens} from 'marked';
+
+/**
+ * A heading found while rendering, used for the table of contents
+ */
+interface MarkdownHeading {
+    depth: number;
+    text: string;
+    id: string;
+}
+
+/**
+ * Utility class for rendering markdown to HTML with the marked build bundled with the extension
+ * Doesn't need a document, so the background script can use it for downloads too.
+ * The HTML is not sanitized; callers that put it into claude.ai must sanitize it first.
+ */
+export class MarkdownRenderer {
+    /**
+     * Styles for rendered markdown, scoped to a `.markdown-body` element
+     */
+    public static readonly STYLESHEET = `
+.markdown-body { max-width: 860px; margin: 0 auto; padding: 24px; color: #1e293b; font: 16px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; word-wrap: break-word; }
+.markdown-body h1, .markdown-body h2, .markdown-body h3, .markdown-body h4, .markdown-body h5, .markdown-body h6 { margin: 1.5em 0 0.5em; line-height: 1.25; font-weight: 600; }
+.markdown-body h1 { font-size: 2em; padding-bottom: 0.3em; border-bottom: 1px solid #e2e8f0; }
+.markdown-body h2 { font-size: 1.5em; padding-bottom: 0.3em; border-bottom: 1px solid #e2e8f0; }
+.markdown-body h3 { font-size: 1.25em; }
+.markdown-body p, .markdown-body ul, .markdown-body ol, .markdown-body blockquote, .markdown-body pre, .markdown-body table { margin: 0 0 1em; }
+.markdown-body a { color: #2563eb; }
+.markdown-body code { padding: 0.2em 0.4em; border-radius: 4px; background: #f1f5f9; font: 0.875em Menlo, Monaco, "Courier New", monospace; }
+.markdown-body pre { padding: 12px 16px; overflow: auto; border-radius: 6px; background: #f8fafc; border: 1px solid #e2e8f0; }
+.markdown-body pre code { padding: 0; background: none; }
+.markdown-body blockquote { padding: 0 1em; color: #475569; border-left: 4px solid #cbd5e1; }
+.markdown-body table { border-collapse: collapse; }
+.markdown-body th, .markdown-body td { padding: 6px 12px; border: 1px solid #cbd5e1; }
+.markdown-body th { background: #f8fafc; }
+.markdown-body img { max-width: 100%; }
+.markdown-body hr { border: none; border-top: 1px solid #e2e8f0; margin: 1.5em 0; }
+.markdown-body li > input[type="checkbox"] { margin-right: 0.5em; }`;
+
+    /**
+     * Extra styles for print-ready documents: a table of contents and sensible page breaks
+     */
+    private static readonly PRINT_STYLESHEET = `
+@page { margin: 2cm; }
+.markdown-toc { margin-bottom: 2em; padding-bottom: 1em; border-bottom: 1px solid #e2e8f0; }
+.markdown-toc h2 { margin-top: 0; border-bottom: none; }
+.markdown-toc ol { list-style: none; padding-left: 0; }
+.markdown-toc ol ol { padding-left: 1.5em; }
+.markdown-toc a { color: inherit; text-decoration: none; }
+@media print {
+    .markdown-body { max-width: none; padding: 0; font-size: 12pt; }
+    .markdown-toc { page-break-after: always; border-bottom: none; }
+    .markdown-body h1, .markdown-body h2, .markdown-body h3 { page-break-after: avoid; }
+    .markdown-body pre, .markdown-body blockquote, .markdown-body table, .markdown-body img { page-break-inside: avoid; }
+    .markdown-body pre { white-space: pre-wrap; }
+    .markdown-body a { color: inherit; }
+}`;
+
+    /**
+     * Render markdown to an HTML fragment
+     */
+    public static toHtml(markdown: string): string {
+        return this.render(markdown).html;
+    }
+
+    /**
+     * Render markdown to a styled HTML page that opens on its own
+     */
+    public static toStandaloneHtml(markdown: string, title: string): string {
+        const { html } = this.render(markdown);
+        return this.toDocument(title, this.STYLESHEET, `<article class="markdown-body">\n${html}</article>`);
+    }
+
+    /**
+     * Render markdown to an HTML page laid out for printing or saving as PDF,
+     * starting with a table of contents linking to its headings
+     */
+    public static toPrintHtml(markdown: string, title: string): string {
+        const { html, headings } = this.render(markdown);
+        const toc = headings.length
+            ? `<nav class="markdown-toc">\n<h2>Contents</h2>\n${this.renderToc(headings)}</nav>\n`
+            : '';
+
+        return this.toDocument(
+            title,
+            this.STYLESHEET + this.PRINT_STYLESHEET,
+            `<article class="markdown-body">\n${toc}${html}</article>`
+        );
+    }
+
+    /**
+     * Render markdown, giving every heading an ID so that it can be linked to
+     */
+    private static render(markdown: string): { html: string; headings: MarkdownHeading[] } {
+        const headings: MarkdownHeading[] = [];
+        const usedIds = new Map<string, number>();
+
+        const marked = new Marked({ gfm: true });
+        marked.use({
+            renderer: {
+                heading(token: Tokens.Heading): string {
+                    const text = this.parser.parseInline(token.tokens, this.parser.textRenderer);
+                    const id = MarkdownRenderer.uniqueId(MarkdownRenderer.slugify(text), usedIds);
+
+                    headings.push({ depth: token.depth, text, id });
+                    return `<h${token.depth} id="${id}">${this.parser.parseInline(token.tokens)}</h${token.depth}>\n`;
+                }
+            }
+        });
+
+        const html = marked.parse(markdown, { async: false });
+        return { html, headings };
+    }
+
+    /**
+     * Nest the headings into ordered lists by depth
+     */
+    private static renderToc(headings: MarkdownHeading[]): string {
+        // Depths of the lists currently open; documents often skip levels, so a heading
+        // nests under the nearest shallower one rather than at its absolute depth
+        const open: number[] = [];
+        let html = '';
+
+        headings.forEach(heading => {
+            while (open.length && heading.depth < open[open.length - 1]) {
+                open.pop();
+                html += '</li>\n</ol>\n';
+            }
+
+            if (open.length && heading.depth === open[open.length - 1]) {
+                html += '</li>\n<li>';
+            } else {
+                open.push(heading.depth);
+                html += '<ol>\n<li>';
+            }
+
+            html += `<a href="#${heading.id}">${this.escapeHtml(heading.text)}</a>`;
+        });
+
+        return html + '</li>\n</ol>\n'.repeat(open.length);
+    }
+
+    /**
+     * Turn heading text into an ID the way GitHub does
+     */
+    private static slugify(text: string): string {
+        return text
+            .toLowerCase()
+            .trim()
+            .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+            .replace(/\s+/g, '-') || 'section';
+    }
+
+    /**
+     * Number repeated IDs: "setup", "setup-1", "setup-2"
+     */
+    private static uniqueId(slug: string, usedIds: Map<string, number>): string {
+        const count = usedIds.get(slug) ?? 0;
+        usedIds.set(slug, count + 1);
+        return count ? `${slug}-${count}` : slug;
+    }
+
+    /**
+     * Wrap a rendered body in a complete page
+     */
+    private static toDocument(title: string, stylesheet: string, body: string): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escapeHtml(title)}</title>
+<style>${stylesheet}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+    }
+
+    /**
+     * Escape text for use in HTML
+     */
+    private static escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {MermaidSyntaxError} from '../models/diagram';
+import {MermaidRenderer} from './mermaidRenderer';
+
+const mermaid = vi.hoisted(() => ({
+    initialize: vi.fn(),
+    parse: vi.fn(),
+    render: vi.fn()
+}));
+
+// Mermaid's layout needs a browser; the tests only need its parse errors and output
+vi.mock('mermaid', () => ({ default: mermaid }));
+
+/**
+ * Create a parse error shaped like the ones Mermaid's generated parsers throw
+ */
+function parserError(message: string, hash: object): Error {
+    return Object.assign(new Error(message), { hash });
+}
+
+/**
+ * Render a diagram whose parse fails with the given error, and return what was thrown
+ */
+async function syntaxError(error: unknown): Promise<MermaidSyntaxError> {
+    mermaid.parse.mockRejectedValueOnce(error);
+    return MermaidRenderer.renderSvg('graph TD;\nA-->').then(
+        () => { throw new Error('Expected the render to fail'); },
+        (thrown: MermaidSyntaxError) => thrown
+    );
+}
+
+describe('MermaidRenderer', () => {
+    afterEach(() => {
+        vi.clearAllMocks();
+    });
+
+    describe('renderSvg', () => {
+        it('sizes the diagram from its view box so it opens at its natural size', async () => {
+            mermaid.parse.mockResolvedValueOnce(true);
+            mermaid.render.mockResolvedValueOnce({
+                svg: '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 120 80" style="max-width: 120px;"><g/></svg>'
+            });
+
+            const root = new DOMParser().parseFromString(await MermaidRenderer.renderSvg('graph TD; A-->B;'), 'image/svg+xml').documentElement;
+
+            expect(root.getAttribute('width')).toBe('120');
+            expect(root.getAttribute('height')).toBe('80');
+            expect(root.getAttribute('style')).toBe('');
+            expect(mermaid.initialize).toHaveBeenCalledWith(expect.objectContaining({ securityLevel: 'strict' }));
+        });
+    });
+
+    describe('syntax errors', () => {
+        it('take the line from the parser\'s location', async () => {
+            const error = await syntaxError(parserError('Parse error on line 3:\n...A-->\nExpecting \'NODE_STRING\'', {
+                loc: { first_line: 3, last_line: 3 },
+                line: 7
+            }));
+
+            expect(error).toBeInstanceOf(MermaidSyntaxError);
+            expect(error.line).toBe(3);
+            expect(error.message).toBe('Line 3: ...A-->\nExpecting \'NODE_STRING\'');
+        });
+
+        it('count from the parser\'s zero-based line when there is no location', async () => {
+            const error = await syntaxError(parserError('Lexical error on line 2. Unrecognized text.', { line: 1 }));
+
+            expect(error.line).toBe(2);
+            expect(error.message).toBe('Line 2: Lexical error on line 2. Unrecognized text.');
+        });
+
+        it('find the line in the message when the parser doesn\'t report one', async () => {
+            const error = await syntaxError(new Error('Parsing failed: Expecting token on line 4, column 2'));
+
+            expect(error.line).toBe(4);
+            expect(error.message).toBe('Line 4: Expecting token on line 4, column 2');
+        });
+
+        it('have no line when none can be found', async () => {
+            const error = await syntaxError('No diagram type detected');
+
+            expect(error.line).toBeNull();
+            expect(error.message).toBe('No diagram type detected');
+            expect(mermaid.render).not.toHaveBeenCalled();
+        });
+    });
+});
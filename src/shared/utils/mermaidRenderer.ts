@@ -0,0 +1,118 @@
+import type {Mermaid} from 'mermaid';
+import {MermaidSyntaxError} from '../models/diagram';
+import {LoggerService} from '../services/loggerService';
+import {SvgProcessor} from './svgProcessor';
+
+/**
+ * Utility class for rendering Mermaid diagrams with the Mermaid build bundled with the extension
+ * Needs a document to lay diagrams out in, so it runs in the preview and offscreen pages.
+ */
+export class MermaidRenderer {
+    private static readonly logger = LoggerService.getInstance();
+    private static readonly SVG_NS = 'http://www.w3.org/2000/svg';
+
+    // PNGs are drawn at twice the diagram's size so they stay sharp on high-density screens
+    private static readonly PNG_SCALE = 2;
+
+    private static mermaidLoad: Promise<Mermaid> | null = null;
+    private static renderCount = 0;
+
+    /**
+     * Render a diagram to an SVG document
+     * Syntax errors are thrown as MermaidSyntaxError with the line they were found on.
+     */
+    public static async renderSvg(source: string): Promise<string> {
+        const mermaid = await this.loadMermaid();
+
+        try {
+            await mermaid.parse(source);
+        } catch (error) {
+            throw this.toSyntaxError(error);
+        }
+
+        const { svg } = await mermaid.render(`mermaid-diagram-${++this.renderCount}`, source);
+        return this.toStandaloneSvg(svg);
+    }
+
+    /**
+     * Rasterize a rendered diagram to a PNG data: URL on a white background
+     */
+    public static renderPng(svg: string): Promise<string> {
+        return SvgProcessor.renderPng(svg, this.PNG_SCALE, '#ffffff');
+    }
+
+    /**
+     * Load and configure Mermaid on first use
+     */
+    private static loadMermaid(): Promise<Mermaid> {
+        if (!this.mermaidLoad) {
+            this.logger.debug('MermaidRenderer: Loading bundled Mermaid');
+
+            this.mermaidLoad = import('mermaid')
+                .then(module => {
+                    const mermaid = module.default;
+                    mermaid.initialize({
+                        startOnLoad: false,
+                        securityLevel: 'strict',
+
+                        // Plain SVG text instead of HTML labels, so that PNG rendering can draw them
+                        htmlLabels: false,
+                        flowchart: { htmlLabels: false }
+                    });
+                    return mermaid;
+                })
+                .catch(error => {
+                    // Let the next render try again
+                    this.mermaidLoad = null;
+                    this.logger.error('MermaidRenderer: Failed to load Mermaid', error);
+                    throw new Error('Failed to load Mermaid');
+                });
+        }
+
+        return this.mermaidLoad;
+    }
+
+    /**
+     * Give the SVG a fixed size so it opens at the diagram's natural size outside the page
+     */
+    private static toStandaloneSvg(svg: string): string {
+        const parsed = new DOMParser().parseFromString(svg, 'image/svg+xml');
+        const root = parsed.documentElement;
+        const viewBox = (root.getAttribute('viewBox') || '').split(/[\s,]+/).map(Number);
+
+        if (viewBox.length === 4 && viewBox.every(value => Number.isFinite(value))) {
+            root.setAttribute('width', String(viewBox[2]));
+            root.setAttribute('height', String(viewBox[3]));
+            root.style.removeProperty('max-width');
+        }
+
+        if (!root.getAttribute('xmlns')) {
+            root.setAttribute('xmlns', this.SVG_NS);
+        }
+
+        return new XMLSerializer().serializeToString(parsed);
+    }
+
+    /**
+     * Work out the line a Mermaid parse error points at
+     * Older diagram parsers report it in `hash`, newer ones only in the message.
+     */
+    private static toSyntaxError(error: unknown): MermaidSyntaxError {
+        const hash = (error as { hash?: { loc?: { first_line?: number }; line?: number } })?.hash;
+        const message = error instanceof Error ? error.message : String(error);
+
+        let line: number | null = null;
+        if (typeof hash?.loc?.first_line === 'number') {
+            line = hash.loc.first_line;
+        } else if (typeof hash?.line === 'number') {
+            line = hash.line + 1;
+        } else {
+            const match = /on line (\d+)/i.exec(message);
+            line = match ? parseInt(match[1], 10) : null;
+        }
+
+        // Drop the location prefix the message would otherwise repeat
+        const detail = message.replace(/^Parsing failed:\s*/, '').replace(/^Parse error on line \d+:\s*/, '').trim();
+        return new MermaidSyntaxError(detail || 'Invalid diagram', line);
+    }
+}
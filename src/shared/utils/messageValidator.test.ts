@@ -0,0 +1,106 @@
+import {describe, expect, it} from 'vitest';
+import {
+    BACKGROUND_MESSAGE_SCHEMAS,
+    CONTENT_MESSAGE_SCHEMAS,
+    OFFSCREEN_MESSAGE_SCHEMAS,
+    PayloadSchema
+} from '../models/messages';
+import {MessageValidator} from './messageValidator';
+
+const SCHEMAS: Record<string, PayloadSchema> = {
+    ping: {},
+    notify: {
+        type: { type: 'string', values: ['success', 'error'] },
+        text: { type: 'string' },
+        duration: { type: 'number', optional: true }
+    },
+    save: {
+        items: { type: 'array' },
+        options: { type: 'object', optional: true },
+        overwrite: { type: 'boolean' }
+    }
+};
+
+describe('MessageValidator', () => {
+    it('accepts valid messages', () => {
+        expect(MessageValidator.validate({ action: 'ping' }, SCHEMAS)).toBeNull();
+        expect(MessageValidator.validate({ action: 'notify', type: 'success', text: 'Saved' }, SCHEMAS)).toBeNull();
+        expect(MessageValidator.validate({ action: 'save', items: [], options: {}, overwrite: false }, SCHEMAS)).toBeNull();
+    });
+
+    it('rejects messages that are not objects', () => {
+        for (const message of [null, undefined, 'ping', 42, ['ping']]) {
+            expect(MessageValidator.validate(message, SCHEMAS)).toEqual({
+                success: false,
+                error: 'Message must be an object',
+                code: 'INVALID_MESSAGE'
+            });
+        }
+    });
+
+    it('rejects messages without an action', () => {
+        expect(MessageValidator.validate({}, SCHEMAS)?.code).toBe('INVALID_MESSAGE');
+        expect(MessageValidator.validate({ action: '' }, SCHEMAS)?.code).toBe('INVALID_MESSAGE');
+        expect(MessageValidator.validate({ action: 7 }, SCHEMAS)?.error).toBe('Message has no action');
+    });
+
+    it('rejects unknown actions, including inherited property names', () => {
+        expect(MessageValidator.validate({ action: 'launch' }, SCHEMAS)).toEqual({
+            success: false,
+            error: 'Unknown action: launch',
+            code: 'UNKNOWN_ACTION'
+        });
+        expect(MessageValidator.validate({ action: 'toString' }, SCHEMAS)?.code).toBe('UNKNOWN_ACTION');
+    });
+
+    it('lists every problem with a payload', () => {
+        const failure = MessageValidator.validate({ action: 'save', items: {}, options: [], overwrite: 'yes' }, SCHEMAS);
+
+        expect(failure).toEqual({
+            success: false,
+            error: 'Invalid payload for save',
+            code: 'INVALID_PAYLOAD',
+            details: [
+                'items must be an array, got object',
+                'options must be an object, got array',
+                'overwrite must be a boolean, got string'
+            ]
+        });
+    });
+
+    it('requires fields that are not optional', () => {
+        expect(MessageValidator.validate({ action: 'notify', type: 'error', text: null }, SCHEMAS)?.details)
+            .toEqual(['text is required']);
+        expect(MessageValidator.validate({ action: 'notify', type: 'error', text: 'x', duration: null }, SCHEMAS))
+            .toBeNull();
+    });
+
+    it('checks enumerated values', () => {
+        expect(MessageValidator.validate({ action: 'notify', type: 'info', text: 'x' }, SCHEMAS)?.details)
+            .toEqual(['type must be one of success, error']);
+    });
+
+    describe('extension schemas', () => {
+        it('validate real background messages', () => {
+            expect(MessageValidator.validate({ action: 'getSettings' }, BACKGROUND_MESSAGE_SCHEMAS)).toBeNull();
+            expect(MessageValidator.validate({ action: 'downloadProject', name: 'app', files: [] }, BACKGROUND_MESSAGE_SCHEMAS))
+                .toBeNull();
+            expect(MessageValidator.validate({ action: 'downloadSingleArtifact' }, BACKGROUND_MESSAGE_SCHEMAS)?.details)
+                .toEqual(['artifact is required']);
+        });
+
+        it('validate real content messages', () => {
+            expect(MessageValidator.validate({ action: 'showNotification', type: 'success', text: 'Done' }, CONTENT_MESSAGE_SCHEMAS))
+                .toBeNull();
+            expect(MessageValidator.validate({ action: 'showNotification', type: 'loud', text: 'Done' }, CONTENT_MESSAGE_SCHEMAS)?.code)
+                .toBe('INVALID_PAYLOAD');
+        });
+
+        it('validate real offscreen messages', () => {
+            expect(MessageValidator.validate({ action: 'renderSvgPng', svg: '<svg/>', scale: 2 }, OFFSCREEN_MESSAGE_SCHEMAS))
+                .toBeNull();
+            expect(MessageValidator.validate({ action: 'renderSvgPng', svg: '<svg/>', scale: '2' }, OFFSCREEN_MESSAGE_SCHEMAS)?.details)
+                .toEqual(['scale must be a number, got string']);
+        });
+    });
+});
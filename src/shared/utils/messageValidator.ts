@@ -0,0 +1,64 @@
+import {MessageErrorCode, MessageFailure, PayloadField, PayloadSchema} from '../models/messages';
+
+/**
+ * Utility class for checking messages against their payload schema at runtime
+ */
+export class MessageValidator {
+    /**
+     * Check a message's envelope and payload
+     * Returns null when the message is valid, otherwise a failure to send back.
+     */
+    public static validate(message: unknown, schemas: Record<string, PayloadSchema>): MessageFailure | null {
+        if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+            return this.failure('INVALID_MESSAGE', 'Message must be an object');
+        }
+
+        const action = (message as Record<string, unknown>).action;
+
+        if (typeof action !== 'string' || action === '') {
+            return this.failure('INVALID_MESSAGE', 'Message has no action');
+        }
+
+        if (!Object.prototype.hasOwnProperty.call(schemas, action)) {
+            return this.failure('UNKNOWN_ACTION', `Unknown action: ${action}`);
+        }
+
+        const details = Object.entries(schemas[action])
+            .map(([name, field]) => this.checkField(name, (message as Record<string, unknown>)[name], field))
+            .filter((detail): detail is string => detail !== null);
+
+        if (details.length > 0) {
+            return this.failure('INVALID_PAYLOAD', `Invalid payload for ${action}`, details);
+        }
+
+        return null;
+    }
+
+    /**
+     * Build a structured failure response
+     */
+    public static failure(code: MessageErrorCode, error: string, details?: string[]): MessageFailure {
+        return details ? { success: false, error, code, details } : { success: false, error, code };
+    }
+
+    /**
+     * Describe what is wrong with a field, or return null if it is fine
+     */
+    private static checkField(name: string, value: unknown, field: PayloadField): string | null {
+        if (value === undefined || value === null) {
+            return field.optional ? null : `${name} is required`;
+        }
+
+        const actual = Array.isArray(value) ? 'array' : typeof value;
+
+        if (actual !== field.type) {
+            return `${name} must be ${/^[ao]/.test(field.type) ? 'an' : 'a'} ${field.type}, got ${actual}`;
+        }
+
+        if (field.values && !field.values.includes(value as string)) {
+            return `${name} must be one of ${field.values.join(', ')}`;
+        }
+
+        return null;
+    }
+}
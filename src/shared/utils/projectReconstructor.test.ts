@@ -0,0 +1,162 @@
+import {describe, expect, it} from 'vitest';
+import {Artifact, ArtifactType} from '../models/artifact';
+import {ProjectPathError} from '../models/project';
+import {ProjectReconstructor} from './projectReconstructor';
+
+let nextId = 0;
+
+/**
+ * Create a code artifact
+ */
+function artifact(title: string, content: string, language = 'typescript'): Artifact {
+    return { id: `artifact-${nextId++}`, title, type: ArtifactType.CODE, language, content, timestamp: new Date(0) };
+}
+
+/**
+ * Reconstruct a project and map each artifact's title to its path
+ */
+function pathsOf(...artifacts: Artifact[]): Record<string, string> {
+    return Object.fromEntries(ProjectReconstructor.reconstruct(artifacts).map(file => [file.title, file.path]));
+}
+
+describe('ProjectReconstructor', () => {
+    describe('normalizePath', () => {
+        it('resolves "." and ".." segments that stay inside the project', () => {
+            expect(ProjectReconstructor.normalizePath('./src/../lib/./util.ts')).toBe('lib/util.ts');
+            expect(ProjectReconstructor.normalizePath('src//components/')).toBe('src/components');
+        });
+
+        it('rejects paths that lead outside the project', () => {
+            expect(() => ProjectReconstructor.normalizePath('../secrets.txt')).toThrow(ProjectPathError);
+            expect(() => ProjectReconstructor.normalizePath('src/../../etc/passwd')).toThrow('leads outside the project');
+        });
+
+        it('treats absolute paths as relative to the project root', () => {
+            expect(ProjectReconstructor.normalizePath('/src/index.ts')).toBe('src/index.ts');
+            expect(() => ProjectReconstructor.normalizePath('/../index.ts')).toThrow('leads outside the project');
+        });
+
+        it('converts backslashes and rejects drive letters', () => {
+            expect(ProjectReconstructor.normalizePath(' src\\components\\App.tsx ')).toBe('src/components/App.tsx');
+            expect(() => ProjectReconstructor.normalizePath('C:\\project\\app.py')).toThrow('can\'t be used in file names');
+        });
+
+        it('rejects paths with no file in them', () => {
+            expect(() => ProjectReconstructor.normalizePath('./')).toThrow('is not a file path');
+            expect(() => ProjectReconstructor.normalizePath('src/..')).toThrow(ProjectPathError);
+        });
+    });
+
+    describe('reconstruct', () => {
+        it('takes paths from header comments, then titles', () => {
+            expect(pathsOf(
+                artifact('Utilities', '// src/utils/format.ts\nexport const format = 1;'),
+                artifact('server.py - Flask app', 'from flask import Flask', 'python'),
+                artifact('Notes', '# file: docs/notes.md\nSome notes', 'markdown')
+            )).toEqual({
+                'Utilities': 'src/utils/format.ts',
+                'server.py - Flask app': 'server.py',
+                'Notes': 'docs/notes.md'
+            });
+        });
+
+        it('places files where the imports of other files expect them', () => {
+            expect(pathsOf(
+                artifact('src/App.tsx', 'import {Button} from \'./components/Button\';\nimport \'./styles/app.css\';', 'tsx'),
+                artifact('Button component', 'export function Button() {}', 'tsx'),
+                artifact('app.css', 'body {}', 'css')
+            )).toEqual({
+                'src/App.tsx': 'src/App.tsx',
+                'Button component': 'src/components/Button.tsx',
+                'app.css': 'src/styles/app.css'
+            });
+        });
+
+        it('keeps the source extension for TypeScript imports of compiled ".js" files', () => {
+            expect(pathsOf(
+                artifact('src/index.ts', 'import {parse} from \'./lib/parser.js\';'),
+                artifact('parser.ts', 'export function parse() {}')
+            )['parser.ts']).toBe('src/lib/parser.ts');
+        });
+
+        it('numbers files named after the same title', () => {
+            const paths = ProjectReconstructor.reconstruct([
+                artifact('Helper', 'export const a = 1;'),
+                artifact('Helper', 'export const b = 2;')
+            ]).map(file => file.path);
+
+            expect(paths).toEqual(['helper.ts', 'helper-2.ts']);
+        });
+    });
+
+    describe('check', () => {
+        it('reports invalid and duplicate paths after normalizing them', () => {
+            const check = ProjectReconstructor.check([
+                { path: 'src/app.ts', content: '' },
+                { path: './src\\app.ts', content: '' },
+                { path: '../outside.ts', content: '' }
+            ]);
+
+            expect(check.invalidPaths).toEqual(['../outside.ts']);
+            expect(check.duplicatePaths).toEqual(['src/app.ts']);
+        });
+
+        it('resolves script imports by extension, compiled name and folder index', () => {
+            const check = ProjectReconstructor.check([
+                {
+                    path: 'src/main.ts',
+                    content: [
+                        'import {a} from \'./a\';',
+                        'import {b} from \'./b.js\';',
+                        'import {c} from \'./c\';',
+                        'import data from \'../data.json\';',
+                        'import {d} from \'./missing\';',
+                        'import React from \'react\';'
+                    ].join('\n')
+                },
+                { path: 'src/a.tsx', content: '' },
+                { path: 'src/b.ts', content: '' },
+                { path: 'src/c/index.ts', content: '' },
+                { path: 'data.json', content: '{}' }
+            ]);
+
+            expect(check.unresolvedImports).toEqual([{ path: 'src/main.ts', specifier: './missing' }]);
+        });
+
+        it('resolves stylesheet, HTML and relative Python imports', () => {
+            const check = ProjectReconstructor.check([
+                { path: 'styles/main.scss', content: '@use \'variables\';\n@import url("https://fonts.example.com/font.css");' },
+                { path: 'styles/_variables.scss', content: '' },
+                { path: 'index.html', content: '<script src="/app.js?v=2"></script><link href="style.css" rel="stylesheet">' },
+                { path: 'app.js', content: '' },
+                { path: 'pkg/main.py', content: 'from .models import User\nfrom ..outside import x\nimport requests' },
+                { path: 'pkg/models.py', content: '' }
+            ]);
+
+            expect(check.unresolvedImports).toEqual([
+                { path: 'index.html', specifier: 'style.css' },
+                { path: 'pkg/main.py', specifier: '..outside' }
+            ]);
+        });
+    });
+
+    describe('suggestName', () => {
+        it('names the project after its package, without the scope', () => {
+            expect(ProjectReconstructor.suggestName([{ path: 'package.json', content: '{"name": "@acme/web app"}' }])).toBe('web-app');
+            expect(ProjectReconstructor.suggestName([{ path: 'package.json', content: '{' }])).toBe('claude-project');
+        });
+    });
+
+    describe('formatTree', () => {
+        it('lists folders before files', () => {
+            expect(ProjectReconstructor.formatTree('app', ['README.md', 'src/index.ts', 'src/lib/util.ts'])).toBe([
+                'app/',
+                '├── src/',
+                '│   ├── lib/',
+                '│   │   └── util.ts',
+                '│   └── index.ts',
+                '└── README.md'
+            ].join('\n'));
+        });
+    });
+});
@@ -0,0 +1,607 @@
+import {Artifact} from '../models/artifact';
+import {ProjectCheck, ProjectFile, ProjectPathError, UnresolvedImport} from '../models/project';
+import {FilenameHelper} from './filenameHelper';
+
+/**
+ * A relative import found in a file
+ */
+interface ImportReference {
+    specifier: string;
+
+    // Project path the import points at, or null when it leads outside the project
+    target: string | null;
+
+    // Paths that satisfy the import, in the order a resolver would try them
+    candidates: string[];
+
+    // Extensions of the files the import can refer to
+    extensions: string[];
+
+    // Python's absolute imports may be of installed packages, so those aren't reported when missing
+    required: boolean;
+}
+
+/**
+ * A folder in a project tree, keyed by the names of its entries
+ */
+type TreeNode = Map<string, TreeNode>;
+
+/**
+ * Utility class for laying artifacts out as the project Claude wrote them for
+ * A file's path comes from a header comment naming it, a title that is a path, or
+ * where the other files import it from. Works on text alone, so it runs anywhere.
+ */
+export class ProjectReconstructor {
+    private static readonly DEFAULT_NAME = 'claude-project';
+
+    // Header comments come first, after at most a shebang or directive or two
+    private static readonly HEADER_LINES = 3;
+
+    private static readonly COMMENT_PATTERNS = [
+        /^(?:\/\/+|#+|--|;+|%+)\s*(.*?)$/,
+        /^\/\*+\s*(.*?)\s*(?:\*+\/)?$/,
+        /^<!--\s*(.*?)\s*(?:-->)?$/,
+        /^\{\/\*\s*(.*?)\s*\*\/\}$/
+    ];
+
+    private static readonly PATH_LABEL = /^(?:file(?:name)?|path)\s*[:=]\s*/i;
+    private static readonly PATH_SEGMENT = /^[\w@$+()[\].-]+$/;
+    private static readonly INVALID_SEGMENT_CHARS = /[<>:"|?*\p{Cc}]/u;
+    private static readonly EXTENSIONLESS_FILES = [
+        'Dockerfile', 'Makefile', 'Procfile', 'Gemfile', 'Rakefile', 'Jenkinsfile', 'Vagrantfile', 'LICENSE'
+    ];
+
+    private static readonly SCRIPT_EXTENSIONS = ['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'mts', 'cts', 'vue', 'svelte'];
+    private static readonly STYLE_EXTENSIONS = ['css', 'scss', 'sass', 'less'];
+    private static readonly MARKUP_EXTENSIONS = ['html', 'htm'];
+
+    private static readonly SCRIPT_IMPORT_PATTERNS = [
+        /\b(?:import|export)\s+(?:type\s+)?[^'";]*?\bfrom\s*['"]([^'"]+)['"]/g,
+        /\bimport\s*['"]([^'"]+)['"]/g,
+        /\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g
+    ];
+
+    /**
+     * Lay artifacts out as a project, one file per artifact
+     */
+    public static reconstruct(artifacts: Artifact[]): ProjectFile[] {
+        const files = artifacts.map(artifact => this.inferPath(artifact));
+
+        this.placeByImports(files);
+        this.makeGuessedPathsUnique(files);
+
+        return files;
+    }
+
+    /**
+     * Find paths that can't be used or are used twice, and imports no file satisfies
+     */
+    public static check(files: Array<{ path: string; content: string }>): ProjectCheck {
+        const invalidPaths: string[] = [];
+        const normalized: Array<{ path: string; content: string }> = [];
+        const counts = new Map<string, number>();
+
+        files.forEach(file => {
+            try {
+                const path = this.normalizePath(file.path);
+                normalized.push({ path, content: file.content });
+                counts.set(path, (counts.get(path) ?? 0) + 1);
+            } catch {
+                invalidPaths.push(file.path);
+            }
+        });
+
+        const unresolvedImports: UnresolvedImport[] = [];
+        normalized.forEach(file => {
+            this.findImports(file.path, file.content).forEach(reference => {
+                if (reference.required && !reference.candidates.some(candidate => counts.has(candidate))) {
+                    unresolvedImports.push({ path: file.path, specifier: reference.specifier });
+                }
+            });
+        });
+
+        const duplicatePaths = Array.from(counts).filter(([, count]) => count > 1).map(([path]) => path);
+        return { invalidPaths, duplicatePaths, unresolvedImports };
+    }
+
+    /**
+     * Turn a path into one relative to the project root, throwing ProjectPathError when it can't be
+     */
+    public static normalizePath(path: string): string {
+        const segments: string[] = [];
+
+        path.trim().replace(/\\/g, '/').split('/').forEach(segment => {
+            if (!segment || segment === '.') {
+                return;
+            }
+
+            if (segment === '..') {
+                if (!segments.length) {
+                    throw new ProjectPathError(path, 'leads outside the project');
+                }
+                segments.pop();
+                return;
+            }
+
+            if (this.INVALID_SEGMENT_CHARS.test(segment)) {
+                throw new ProjectPathError(path, 'contains characters that can\'t be used in file names');
+            }
+            segments.push(segment);
+        });
+
+        if (!segments.length) {
+            throw new ProjectPathError(path, 'is not a file path');
+        }
+
+        return segments.join('/');
+    }
+
+    /**
+     * Suggest a name for the project's folder, taken from its package.json when it has one
+     */
+    public static suggestName(files: Array<{ path: string; content: string }>): string {
+        const manifest = files.find(file => file.path === 'package.json');
+
+        try {
+            const name = manifest ? JSON.parse(manifest.content).name : null;
+            if (typeof name === 'string') {
+                // Scoped packages are named "@scope/name"
+                const folder = name.split('/').pop()!.replace(/[^\w.-]+/g, '-');
+                if (folder && !/^\.+$/.test(folder)) {
+                    return folder;
+                }
+            }
+        } catch {
+            // Not valid JSON yet; use the default
+        }
+
+        return this.DEFAULT_NAME;
+    }
+
+    /**
+     * Draw the project's paths as a tree, folders before files
+     */
+    public static formatTree(name: string, paths: string[]): string {
+        const root: TreeNode = new Map();
+
+        paths.forEach(path => {
+            let node = root;
+            path.split('/').forEach(segment => {
+                if (!node.has(segment)) {
+                    node.set(segment, new Map());
+                }
+                node = node.get(segment)!;
+            });
+        });
+
+        const render = (node: TreeNode, prefix: string): string[] => {
+            const entries = Array.from(node).sort(([nameA, childrenA], [nameB, childrenB]) =>
+                (Number(childrenB.size > 0) - Number(childrenA.size > 0)) || nameA.localeCompare(nameB)
+            );
+
+            return entries.flatMap(([entry, children], index) => {
+                const isLast = index === entries.length - 1;
+                const line = `${prefix}${isLast ? '└── ' : '├── '}${entry}${children.size ? '/' : ''}`;
+                return [line, ...render(children, prefix + (isLast ? '    ' : '│   '))];
+            });
+        };
+
+        return [`${name}/`, ...render(root, '')].join('\n');
+    }
+
+    /**
+     * Work out where an artifact belongs from its header comment or title, or else guess from its title
+     */
+    private static inferPath(artifact: Artifact): ProjectFile {
+        const file = { artifactId: artifact.id, title: artifact.title, content: artifact.content };
+
+        for (const [path, source] of [
+            [this.findHeaderPath(artifact.content), 'header'],
+            [this.findTitlePath(artifact.title), 'title']
+        ] as const) {
+            if (!path) continue;
+
+            try {
+                return { ...file, path: this.normalizePath(path), source };
+            } catch {
+                // Not usable; try the next source
+            }
+        }
+
+        return { ...file, path: this.guessPath(artifact), source: 'fallback' };
+    }
+
+    /**
+     * Find a path named by a comment at the top of a file, such as "// src/utils/foo.ts" or "# file: app.py"
+     */
+    private static findHeaderPath(content: string): string | null {
+        const lines = content
+            .split('\n')
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#!') && !/^<(?:\?(?:php|xml)\b|!doctype\b)/i.test(line))
+            .slice(0, this.HEADER_LINES);
+
+        for (const line of lines) {
+            const match = this.COMMENT_PATTERNS.map(pattern => pattern.exec(line)).find(Boolean);
+            if (!match) continue;
+
+            const text = match[1].trim();
+            const candidate = text.replace(this.PATH_LABEL, '').trim();
+            if (this.looksLikePath(candidate)) {
+                return candidate;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Find a path in a title such as "src/App.tsx" or "app.py - Flask server"
+     */
+    private static findTitlePath(title: string): string | null {
+        const match = /^`?([^\s`]+)`?(?:\s+[-–—:(|].*)?$/.exec(title.trim());
+        return match && this.looksLikePath(match[1]) ? match[1] : null;
+    }
+
+    /**
+     * Whether text is a file path rather than a remark, a URL or a version number
+     */
+    private static looksLikePath(text: string): boolean {
+        if (!text || /^[a-z][a-z0-9+.-]*:/i.test(text)) {
+            return false;
+        }
+
+        const segments = text.replace(/^\.{0,2}\//, '').split('/');
+        if (!segments.every(segment => this.PATH_SEGMENT.test(segment))) {
+            return false;
+        }
+
+        const name = segments[segments.length - 1];
+        return this.EXTENSIONLESS_FILES.includes(name) ||
+            /^\.[A-Za-z][\w.-]*$/.test(name) ||
+            /^[\w@$+()[\]-][\w@$+()[\].-]*\.[A-Za-z][A-Za-z0-9]{0,9}$/.test(name);
+    }
+
+    /**
+     * Name a file after its artifact's title, in the style of its language
+     */
+    private static guessPath(artifact: Artifact): string {
+        const extension = FilenameHelper.getExtension(artifact);
+
+        // Python modules can't be imported by names with hyphens
+        const words = artifact.title.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+        const stem = words.join(extension === 'py' ? '_' : '-') || 'artifact';
+
+        return `${stem}.${extension}`;
+    }
+
+    /**
+     * Move files that only have a name to where the imports of other files expect them
+     * Files placed by their own header or title path are trusted first, since their
+     * imports lead from a known folder; the rest only place files when those can't.
+     */
+    private static placeByImports(files: ProjectFile[]): void {
+        let placed = true;
+
+        while (placed) {
+            placed = this.placeImportsOf(files.filter(file => !this.isMovable(file)), files) ||
+                this.placeImportsOf(files.filter(file => this.isMovable(file)), files);
+        }
+    }
+
+    /**
+     * Place the first file that one of the importers expects and can't find, returning whether one was
+     */
+    private static placeImportsOf(importers: ProjectFile[], files: ProjectFile[]): boolean {
+        const paths = new Set(files.map(file => file.path));
+
+        for (const importer of importers) {
+            for (const reference of this.findImports(importer.path, importer.content)) {
+                if (!reference.target || reference.candidates.some(candidate => paths.has(candidate))) {
+                    continue;
+                }
+
+                // Only place a file when the import points at exactly one
+                const matches = files.filter(file =>
+                    file !== importer && this.isMovable(file) && this.matchesImport(file, reference)
+                );
+                if (matches.length !== 1) continue;
+
+                const [file] = matches;
+                file.path = this.placedPath(file, reference.target);
+                file.source = 'import';
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Files can be moved by imports until they are given a folder
+     */
+    private static isMovable(file: ProjectFile): boolean {
+        return file.source !== 'import' && !file.path.includes('/');
+    }
+
+    /**
+     * Whether an import could be of a file, by its name or the names it exports
+     */
+    private static matchesImport(file: ProjectFile, reference: ImportReference): boolean {
+        const extension = this.getExtension(file.path);
+        if (!reference.extensions.includes(extension)) {
+            return false;
+        }
+
+        const key = this.toKey(this.getStem(this.getBasename(reference.target!)));
+        return this.toKey(this.getStem(file.path)) === key ||
+            this.findExports(file.path, file.content).some(name => this.toKey(name) === key);
+    }
+
+    /**
+     * Where a file goes to satisfy an import, keeping the import's spelling of its name
+     */
+    private static placedPath(file: ProjectFile, target: string): string {
+        const extension = this.getExtension(file.path);
+        const name = this.getBasename(target);
+        const folder = this.getDirname(target);
+
+        // TypeScript's ES module imports name the compiled ".js" file, so only the stem is kept
+        const placedName = this.getExtension(name) === extension ? name : `${this.getStem(name)}.${extension}`;
+        return folder ? `${folder}/${placedName}` : placedName;
+    }
+
+    /**
+     * Give files named after their titles a number when another file already has the name
+     */
+    private static makeGuessedPathsUnique(files: ProjectFile[]): void {
+        const used = new Set(files.filter(file => file.source !== 'fallback').map(file => file.path));
+
+        files.filter(file => file.source === 'fallback').forEach(file => {
+            let path = file.path;
+            for (let count = 2; used.has(path); count++) {
+                path = FilenameHelper.withSuffix(file.path, String(count));
+            }
+
+            file.path = path;
+            used.add(path);
+        });
+    }
+
+    /**
+     * Find the relative imports in a file by what its extension says it is
+     */
+    private static findImports(path: string, content: string): ImportReference[] {
+        const extension = this.getExtension(path);
+        const folder = this.getDirname(path);
+
+        if (this.SCRIPT_EXTENSIONS.includes(extension)) {
+            return this.findScriptImports(folder, content);
+        }
+        if (this.STYLE_EXTENSIONS.includes(extension)) {
+            return this.findStyleImports(folder, content);
+        }
+        if (this.MARKUP_EXTENSIONS.includes(extension)) {
+            return this.findMarkupImports(folder, content);
+        }
+        if (extension === 'py') {
+            return this.findPythonImports(folder, content);
+        }
+
+        return [];
+    }
+
+    /**
+     * Relative imports, re-exports and requires in JavaScript and TypeScript
+     */
+    private static findScriptImports(folder: string, content: string): ImportReference[] {
+        const specifiers = new Set<string>();
+        this.SCRIPT_IMPORT_PATTERNS.forEach(pattern => {
+            for (const match of content.matchAll(pattern)) {
+                if (/^\.{1,2}\//.test(match[1])) {
+                    specifiers.add(match[1]);
+                }
+            }
+        });
+
+        return Array.from(specifiers).map(specifier => {
+            const target = this.join(folder, this.withoutQuery(specifier));
+            const extension = target ? this.getExtension(target) : '';
+
+            // Anything but a script is imported by its full name, such as "./App.css"
+            const isScript = !extension || this.SCRIPT_EXTENSIONS.includes(extension);
+            return {
+                specifier,
+                target,
+                candidates: target ? (isScript ? this.scriptCandidates(target) : [target]) : [],
+                extensions: isScript ? this.SCRIPT_EXTENSIONS : [extension],
+                required: true
+            };
+        });
+    }
+
+    /**
+     * Every file a script import could mean: the path itself, with an extension, or a folder's index
+     */
+    private static scriptCandidates(target: string): string[] {
+        const candidates = [target];
+
+        const compiled = /\.(?:js|jsx|mjs|cjs)$/.exec(target);
+        if (compiled) {
+            const stem = target.slice(0, -compiled[0].length);
+            candidates.push(`${stem}.ts`, `${stem}.tsx`, `${stem}.mts`, `${stem}.cts`);
+        }
+
+        [...this.SCRIPT_EXTENSIONS, 'json'].forEach(extension => candidates.push(`${target}.${extension}`));
+        ['ts', 'tsx', 'js', 'jsx'].forEach(extension => candidates.push(`${target}/index.${extension}`));
+
+        return candidates;
+    }
+
+    /**
+     * @import rules in stylesheets, which are relative unless they are URLs
+     */
+    private static findStyleImports(folder: string, content: string): ImportReference[] {
+        const references: ImportReference[] = [];
+
+        for (const match of content.matchAll(/@(?:import|use|forward)\s+(?:url\(\s*)?['"]?([^'")\s;]+)/g)) {
+            const specifier = match[1];
+            if (this.isExternal(specifier) || specifier.startsWith('~') || /^sass:/.test(specifier)) continue;
+
+            const target = this.join(folder, this.withoutQuery(specifier));
+            const candidates = target ? [target] : [];
+            if (target && !this.getExtension(target)) {
+                // Sass finds partials by name, with or without their leading underscore
+                const partial = `${this.getDirname(target) ? `${this.getDirname(target)}/` : ''}_${this.getBasename(target)}`;
+                ['scss', 'sass', 'css'].forEach(extension => candidates.push(`${target}.${extension}`, `${partial}.${extension}`));
+            }
+
+            references.push({ specifier, target, candidates, extensions: this.STYLE_EXTENSIONS, required: true });
+        }
+
+        return references;
+    }
+
+    /**
+     * Scripts, stylesheets and other files an HTML page links to
+     */
+    private static findMarkupImports(folder: string, content: string): ImportReference[] {
+        const specifiers = new Set<string>();
+        for (const match of content.matchAll(/<(?:script|link|img|source)\b[^>]*?\s(?:src|href)\s*=\s*['"]([^'"]+)['"]/gi)) {
+            const specifier = match[1];
+            if (!this.isExternal(specifier) && !specifier.startsWith('#') && !/[{}$]/.test(specifier)) {
+                specifiers.add(specifier);
+            }
+        }
+
+        return Array.from(specifiers).map(specifier => {
+            const path = this.withoutQuery(specifier);
+            const target = path.startsWith('/') ? this.join('', path) : this.join(folder, path);
+            const extension = target ? this.getExtension(target) : '';
+
+            return { specifier, target, candidates: target ? [target] : [], extensions: [extension], required: true };
+        });
+    }
+
+    /**
+     * Python imports, resolved from the importing file's folder as when it's run as a script
+     */
+    private static findPythonImports(folder: string, content: string): ImportReference[] {
+        const references: ImportReference[] = [];
+        const toReference = (base: string, module: string, specifier: string, required: boolean): ImportReference => {
+            const target = this.join(base, module.replace(/\./g, '/'));
+            return {
+                specifier,
+                target,
+                candidates: target ? [`${target}.py`, `${target}/__init__.py`] : [],
+                extensions: ['py'],
+                required
+            };
+        };
+
+        for (const match of content.matchAll(/^[ \t]*from[ \t]+(\.*)([\w.]*)[ \t]+import[ \t]+\(?([^)\n#]*)/gm)) {
+            const [specifier, dots, module, names] = [`${match[1]}${match[2]}`, match[1], match[2], match[3]];
+
+            if (!dots) {
+                if (module) {
+                    references.push(toReference(folder, module, specifier, false));
+                }
+                continue;
+            }
+
+            // Each dot after the first is a folder further up
+            const segments = folder.split('/').filter(Boolean);
+            const levels = dots.length - 1;
+            if (levels > segments.length) {
+                references.push({ specifier, target: null, candidates: [], extensions: ['py'], required: true });
+                continue;
+            }
+
+            const base = segments.slice(0, segments.length - levels).join('/');
+            if (module) {
+                references.push(toReference(base, module, specifier, true));
+            } else {
+                // "from . import utils" imports modules, or names defined in the package's __init__.py
+                names.split(',')
+                    .map(name => name.trim().split(/\s+/)[0])
+                    .filter(name => /^\w+$/.test(name))
+                    .forEach(name => references.push(toReference(base, name, `${dots}${name}`, false)));
+            }
+        }
+
+        for (const match of content.matchAll(/^[ \t]*import[ \t]+([\w.]+(?:[ \t]+as[ \t]+\w+)?(?:[ \t]*,[ \t]*[\w.]+(?:[ \t]+as[ \t]+\w+)?)*)/gm)) {
+            match[1].split(',')
+                .map(part => part.trim().split(/\s+/)[0])
+                .forEach(module => references.push(toReference(folder, module, module, false)));
+        }
+
+        return references;
+    }
+
+    /**
+     * Names a file exports, so that "./Button" can find an artifact titled "Button component"
+     */
+    private static findExports(path: string, content: string): string[] {
+        const extension = this.getExtension(path);
+        const pattern = this.SCRIPT_EXTENSIONS.includes(extension)
+            ? /\bexport\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/g
+            : extension === 'py'
+                ? /^(?:async[ \t]+)?(?:def|class)[ \t]+([A-Za-z_]\w*)/gm
+                : null;
+
+        return pattern ? Array.from(content.matchAll(pattern), match => match[1]) : [];
+    }
+
+    /**
+     * Whether a link points outside the project, such as a CDN URL
+     */
+    private static isExternal(specifier: string): boolean {
+        return /^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(specifier);
+    }
+
+    /**
+     * Resolve a relative path against a folder, or null when it leads outside the project
+     */
+    private static join(folder: string, relative: string): string | null {
+        try {
+            return this.normalizePath(folder ? `${folder}/${relative}` : relative);
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Drop the query or fragment from an import, as in "./worker.js?worker"
+     */
+    private static withoutQuery(specifier: string): string {
+        return specifier.split(/[?#]/)[0];
+    }
+
+    /**
+     * Path helpers for project paths, which always use forward slashes
+     */
+    private static getDirname(path: string): string {
+        const index = path.lastIndexOf('/');
+        return index === -1 ? '' : path.slice(0, index);
+    }
+
+    private static getBasename(path: string): string {
+        return path.slice(path.lastIndexOf('/') + 1);
+    }
+
+    private static getExtension(path: string): string {
+        const match = /\.([^./]+)$/.exec(this.getBasename(path));
+        return match ? match[1].toLowerCase() : '';
+    }
+
+    private static getStem(path: string): string {
+        return this.getBasename(path).replace(/\.[^./]+$/, '');
+    }
+
+    /**
+     * Compare names regardless of case and separators, so "date-utils" matches "dateUtils"
+     */
+    private static toKey(name: string): string {
+        return name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+    }
+}
@@ -0,0 +1,67 @@
+import {describe, expect, it} from 'vitest';
+import {SecretCipher} from './secretCipher';
+
+// Far fewer than the default so the tests stay fast; the algorithm is the same
+const ITERATIONS = 1000;
+
+describe('SecretCipher', () => {
+    it('round-trips text through encryption', async () => {
+        const key = await SecretCipher.deriveKey('correct horse', SecretCipher.createSalt(), ITERATIONS);
+        const payload = await SecretCipher.encrypt(key, 'sk-ant-secret ✓');
+
+        expect(payload.ciphertext).not.toContain('sk-ant-secret');
+        expect(await SecretCipher.decrypt(key, payload)).toBe('sk-ant-secret ✓');
+    });
+
+    it('uses a fresh IV for every encryption', async () => {
+        const key = await SecretCipher.deriveKey('correct horse', SecretCipher.createSalt(), ITERATIONS);
+        const first = await SecretCipher.encrypt(key, 'same');
+        const second = await SecretCipher.encrypt(key, 'same');
+
+        expect(first.iv).not.toBe(second.iv);
+        expect(first.ciphertext).not.toBe(second.ciphertext);
+    });
+
+    it('derives the same key from the same passphrase and salt', async () => {
+        const salt = SecretCipher.createSalt();
+        const key = await SecretCipher.deriveKey('correct horse', salt, ITERATIONS);
+        const again = await SecretCipher.deriveKey('correct horse', salt, ITERATIONS);
+
+        expect(await SecretCipher.decrypt(again, await SecretCipher.encrypt(key, 'value'))).toBe('value');
+    });
+
+    it('fails to decrypt with the wrong passphrase', async () => {
+        const salt = SecretCipher.createSalt();
+        const key = await SecretCipher.deriveKey('correct horse', salt, ITERATIONS);
+        const wrongKey = await SecretCipher.deriveKey('battery staple', salt, ITERATIONS);
+        const payload = await SecretCipher.encrypt(key, 'value');
+
+        await expect(SecretCipher.decrypt(wrongKey, payload)).rejects.toThrow();
+    });
+
+    it('fails to decrypt with the right passphrase but another salt', async () => {
+        const key = await SecretCipher.deriveKey('correct horse', SecretCipher.createSalt(), ITERATIONS);
+        const otherKey = await SecretCipher.deriveKey('correct horse', SecretCipher.createSalt(), ITERATIONS);
+
+        await expect(SecretCipher.decrypt(otherKey, await SecretCipher.encrypt(key, 'value'))).rejects.toThrow();
+    });
+
+    it('fails to decrypt altered ciphertext', async () => {
+        const key = await SecretCipher.deriveKey('correct horse', SecretCipher.createSalt(), ITERATIONS);
+        const payload = await SecretCipher.encrypt(key, 'value');
+        const bytes = Uint8Array.from(atob(payload.ciphertext), char => char.charCodeAt(0));
+        bytes[0] ^= 1;
+
+        await expect(SecretCipher.decrypt(key, {
+            ...payload,
+            ciphertext: btoa(String.fromCharCode(...bytes))
+        })).rejects.toThrow();
+    });
+
+    it('exports and imports keys for the browser session', async () => {
+        const key = await SecretCipher.deriveKey('correct horse', SecretCipher.createSalt(), ITERATIONS);
+        const imported = await SecretCipher.importKey(await SecretCipher.exportKey(key));
+
+        expect(await SecretCipher.decrypt(imported, await SecretCipher.encrypt(key, 'value'))).toBe('value');
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Result of encrypting a value
+ */
+export interface EncryptedPayload {
+    // Base64 AES-GCM IV and ciphertext
+    iv: string;
+    ciphertext: string;
+}
+
+/**
+ * Utility class for encrypting secrets with a passphrase using WebCrypto
+ * Keys are derived with PBKDF2-SHA256 and used for AES-GCM, so a wrong passphrase
+ * fails authentication instead of producing garbage.
+ */
+export class SecretCipher {
+    public static readonly DEFAULT_ITERATIONS = 600000;
+
+    private static readonly SALT_BYTES = 16;
+    private static readonly IV_BYTES = 12;
+    private static readonly KEY_BITS = 256;
+
+    /**
+     * Create a random salt for key derivation
+     */
+    public static createSalt(): string {
+        return this.toBase64(crypto.getRandomValues(new Uint8Array(this.SALT_BYTES)));
+    }
+
+    /**
+     * Derive an AES-GCM key from a passphrase
+     * The key is extractable so it can be kept for the browser session.
+     */
+    public static async deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+        const material = await crypto.subtle.importKey(
+            'raw',
+            new TextEncoder().encode(passphrase),
+            'PBKDF2',
+            false,
+            ['deriveKey']
+        );
+
+        return crypto.subtle.deriveKey(
+            { name: 'PBKDF2', hash: 'SHA-256', salt: this.fromBase64(salt), iterations },
+            material,
+            { name: 'AES-GCM', length: this.KEY_BITS },
+            true,
+            ['encrypt', 'decrypt']
+        );
+    }
+
+    /**
+     * Encrypt text with a fresh IV
+     */
+    public static async encrypt(key: CryptoKey, plaintext: string): Promise<EncryptedPayload> {
+        const iv = crypto.getRandomValues(new Uint8Array(this.IV_BYTES));
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            key,
+            new TextEncoder().encode(plaintext)
+        );
+
+        return { iv: this.toBase64(iv), ciphertext: this.toBase64(new Uint8Array(ciphertext)) };
+    }
+
+    /**
+     * Decrypt text
+     * @throws DOMException if the key is wrong or the ciphertext was altered
+     */
+    public static async decrypt(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: this.fromBase64(payload.iv) },
+            key,
+            this.fromBase64(payload.ciphertext)
+        );
+
+        return new TextDecoder().decode(plaintext);
+    }
+
+    /**
+     * Export a key as base64 raw bytes
+     */
+    public static async exportKey(key: CryptoKey): Promise<string> {
+        return this.toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+    }
+
+    /**
+     * Import a key exported with exportKey
+     */
+    public static async importKey(raw: string): Promise<CryptoKey> {
+        return crypto.subtle.importKey('raw', this.fromBase64(raw), 'AES-GCM', true, ['encrypt', 'decrypt']);
+    }
+
+    private static toBase64(bytes: Uint8Array): string {
+        let binary = '';
+        bytes.forEach(byte => {
+            binary += String.fromCharCode(byte);
+        });
+        return btoa(binary);
+    }
+
+    private static fromBase64(value: string): Uint8Array {
+        return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+    }
+}
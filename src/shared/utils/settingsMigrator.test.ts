@@ -0,0 +1,187 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {DEFAULT_SETTINGS, SETTINGS_SCHEMA_VERSION} from '../models/settings';
+import {SecretNames} from '../models/secrets';
+import {SETTINGS_MIGRATIONS, SettingsMigrator} from './settingsMigrator';
+
+/**
+ * Run the migration that upgrades settings to a given version
+ */
+function migrateTo(version: number, settings: Record<string, any>): Record<string, any> {
+    const migration = SETTINGS_MIGRATIONS.find(candidate => candidate.version === version);
+    if (!migration) {
+        throw new Error(`No migration to v${version}`);
+    }
+    return migration.migrate(structuredClone(settings));
+}
+
+/**
+ * Settings as written by the first release, before schemaVersion existed
+ */
+const V1_SETTINGS = {
+    stitchArtifacts: true,
+    flatFileStructure: false,
+    includeTimestampInFilename: false,
+    editorSettings: { theme: 'vs-dark', fontSize: 16, wordWrap: false, lineNumbers: true },
+    apiSettings: {
+        enableApiContinuation: true,
+        apiKey: 'sk-old',
+        apiEndpoint: 'https://proxy.example.com/v1/messages',
+        modelName: 'claude-custom',
+        maxTokens: 2000,
+        temperature: 0.5
+    },
+    compilerSettings: { enableCompilation: true, compilationApiKey: 'compile-key' }
+};
+
+describe('SETTINGS_MIGRATIONS', () => {
+    it('has one migration per version up to the current schema', () => {
+        expect(SETTINGS_MIGRATIONS.map(migration => migration.version))
+            .toEqual(Array.from({ length: SETTINGS_SCHEMA_VERSION - 1 }, (_, index) => index + 2));
+    });
+
+    it('v2 stores editor toggles as on/off and adds the library size cap', () => {
+        const migrated = migrateTo(2, V1_SETTINGS);
+
+        expect(migrated.editorSettings).toMatchObject({ wordWrap: 'off', lineNumbers: 'on', fontSize: 16 });
+        expect(migrated.maxLibrarySizeMb).toBe(200);
+        expect(migrateTo(2, { maxLibrarySizeMb: 500 }).maxLibrarySizeMb).toBe(500);
+    });
+
+    it('v3 adds the system prompt and context trimming settings', () => {
+        const migrated = migrateTo(3, { apiSettings: { maxTokens: 2000 } });
+
+        expect(migrated.apiSettings).toEqual({
+            maxTokens: 2000,
+            systemPrompt: '',
+            contextStrategy: 'dropOldest',
+            keepLastTurns: 10
+        });
+        expect(migrateTo(3, { apiSettings: { contextStrategy: 'summarize' } }).apiSettings.contextStrategy).toBe('summarize');
+    });
+
+    it('v4 moves the endpoint, key and model into an API profile', () => {
+        const migrated = migrateTo(4, V1_SETTINGS);
+
+        expect(migrated.apiSettings.apiProfiles).toEqual([{
+            id: 'default',
+            name: 'Custom endpoint',
+            baseUrl: 'https://proxy.example.com',
+            headers: {},
+            defaultModel: 'claude-custom'
+        }]);
+        expect(migrated.apiSettings.activeApiProfileId).toBe('default');
+        expect(migrated.apiSettings.apiKeys).toEqual({ default: 'sk-old' });
+        expect(migrated.apiSettings.modelCatalog.some((model: { id: string }) => model.id === 'claude-custom')).toBe(true);
+        expect(migrated.apiSettings).not.toHaveProperty('apiKey');
+        expect(migrated.apiSettings).not.toHaveProperty('apiEndpoint');
+    });
+
+    it('v4 names the profile Anthropic when no endpoint was set', () => {
+        const migrated = migrateTo(4, { apiSettings: {} });
+
+        expect(migrated.apiSettings.apiProfiles[0]).toMatchObject({
+            name: 'Anthropic',
+            baseUrl: 'https://api.anthropic.com'
+        });
+        expect(migrated.apiSettings.apiKeys).toEqual({});
+    });
+
+    it('v5 removes API keys from the settings', () => {
+        const migrated = migrateTo(5, {
+            apiSettings: { apiKeys: { default: 'sk-old' }, maxTokens: 1 },
+            compilerSettings: { compilationApiKey: 'compile-key', enableCompilation: true }
+        });
+
+        expect(migrated.apiSettings).toEqual({ maxTokens: 1 });
+        expect(migrated.compilerSettings).toEqual({ enableCompilation: true });
+    });
+
+    it('v6 adds the Mermaid download format', () => {
+        expect(migrateTo(6, {}).mermaidExport).toBe('sourceAndImages');
+        expect(migrateTo(6, { mermaidExport: 'source' }).mermaidExport).toBe('source');
+    });
+
+    it('v7 adds the markdown download format', () => {
+        expect(migrateTo(7, {}).markdownExport).toBe('markdown');
+    });
+
+    it('v8 adds SVG optimization and PNG export', () => {
+        expect(migrateTo(8, {})).toEqual({ optimizeSvg: false, svgPngExport: 'none' });
+    });
+
+    it('v9 turns the timestamp option into filename and folder templates', () => {
+        const withoutTimestamp = migrateTo(9, { includeTimestampInFilename: false });
+        const withTimestamp = migrateTo(9, { includeTimestampInFilename: true });
+
+        expect(withoutTimestamp.filenameTemplate).toBe('{title}.{ext}');
+        expect(withTimestamp.filenameTemplate).toBe('{title}_{timestamp}.{ext}');
+        expect(withTimestamp.folderTemplate).toBe('Claude Conversation/{typeFolder}/{date}');
+        expect(DEFAULT_SETTINGS.folderTemplate).toBe(withTimestamp.folderTemplate);
+        expect(withTimestamp).not.toHaveProperty('includeTimestampInFilename');
+    });
+});
+
+describe('SettingsMigrator', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('upgrades v1 settings to the current schema', () => {
+        const { settings, report, changed } = SettingsMigrator.load(V1_SETTINGS);
+
+        expect(report.fromVersion).toBe(1);
+        expect(report.toVersion).toBe(SETTINGS_SCHEMA_VERSION);
+        expect(report.applied).toEqual(SETTINGS_MIGRATIONS.map(migration => migration.version));
+        expect(report.failure).toBeNull();
+        expect(changed).toBe(true);
+
+        expect(settings.schemaVersion).toBe(SETTINGS_SCHEMA_VERSION);
+        expect(settings.stitchArtifacts).toBe(true);
+        expect(settings.editorSettings.wordWrap).toBe('off');
+        expect(settings.apiSettings.apiProfiles[0].baseUrl).toBe('https://proxy.example.com');
+        expect(settings.filenameTemplate).toBe('{title}.{ext}');
+        expect(JSON.stringify(settings)).not.toContain('sk-old');
+    });
+
+    it('leaves current, valid settings untouched', () => {
+        const { report, changed } = SettingsMigrator.load(structuredClone(DEFAULT_SETTINGS));
+
+        expect(report.applied).toEqual([]);
+        expect(report.repairs).toEqual([]);
+        expect(changed).toBe(false);
+        expect(SettingsMigrator.hasProblems(report)).toBe(false);
+    });
+
+    it('stops at a failing migration and still returns usable settings', () => {
+        const failing = SETTINGS_MIGRATIONS.find(migration => migration.version === 4)!;
+        vi.spyOn(failing, 'migrate').mockImplementation(() => {
+            throw new Error('boom');
+        });
+
+        const { settings, report } = SettingsMigrator.load(V1_SETTINGS);
+
+        expect(report.applied).toEqual([2, 3]);
+        expect(report.failure).toEqual({ version: 4, description: failing.description, error: 'boom' });
+        expect(report.toVersion).toBe(3);
+        expect(settings.schemaVersion).toBe(3);
+        expect(settings.apiSettings.apiProfiles).toEqual(DEFAULT_SETTINGS.apiSettings.apiProfiles);
+        expect(SettingsMigrator.hasProblems(report)).toBe(true);
+    });
+
+    it('resets settings that are not an object', () => {
+        const { settings, report } = SettingsMigrator.load('garbage');
+
+        expect(settings.folderTemplate).toBe(DEFAULT_SETTINGS.folderTemplate);
+        expect(report.repairs).toEqual(['Settings were not an object and have been reset to defaults']);
+    });
+
+    it('finds legacy API keys for the secret store', () => {
+        expect(SettingsMigrator.extractLegacySecrets(V1_SETTINGS)).toEqual({
+            [SecretNames.apiKey('default')]: 'sk-old',
+            [SecretNames.COMPILATION_API_KEY]: 'compile-key'
+        });
+        expect(SettingsMigrator.extractLegacySecrets({
+            apiSettings: { apiKeys: { work: 'sk-work', empty: '' } }
+        })).toEqual({ [SecretNames.apiKey('work')]: 'sk-work' });
+    });
+});
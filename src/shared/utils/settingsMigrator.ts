@@ -0,0 +1,280 @@
+import {ArtifactSettings, DEFAULT_MODEL_CATALOG, SETTINGS_SCHEMA_VERSION} from '../models/settings';
+import {SecretNames, SecretValues} from '../models/secrets';
+import {LoggerService} from '../services/loggerService';
+import {SettingsValidator} from './settingsValidator';
+
+/**
+ * A single step upgrading settings from one schema version to the next
+ */
+export interface SettingsMigration {
+    // Version the settings are at after this migration runs
+    version: number;
+    description: string;
+    migrate: (settings: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * A migration that threw while running
+ */
+export interface SettingsMigrationFailure {
+    version: number;
+    description: string;
+    error: string;
+}
+
+/**
+ * What happened while loading stored settings
+ */
+export interface SettingsLoadReport {
+    fromVersion: number;
+    toVersion: number;
+    applied: number[];
+    failure: SettingsMigrationFailure | null;
+    repairs: string[];
+    loadedAt: string;
+}
+
+/**
+ * Settings ready for use, plus how they were obtained
+ */
+export interface SettingsLoadResult {
+    settings: ArtifactSettings;
+    report: SettingsLoadReport;
+    changed: boolean;
+}
+
+/**
+ * Ordered migrations; each one upgrades from `version - 1` to `version`
+ * Settings written before schemaVersion existed are treated as version 1.
+ */
+export const SETTINGS_MIGRATIONS: SettingsMigration[] = [
+    {
+        version: 2,
+        description: 'Store editor toggles as \'on\'/\'off\' and add the library size cap',
+        migrate: settings => {
+            const editorSettings = { ...(settings.editorSettings || {}) };
+
+            // Earlier builds saved these checkboxes as booleans
+            if (typeof editorSettings.wordWrap === 'boolean') {
+                editorSettings.wordWrap = editorSettings.wordWrap ? 'on' : 'off';
+            }
+            if (typeof editorSettings.lineNumbers === 'boolean') {
+                editorSettings.lineNumbers = editorSettings.lineNumbers ? 'on' : 'off';
+            }
+
+            return {
+                ...settings,
+                editorSettings,
+                maxLibrarySizeMb: settings.maxLibrarySizeMb ?? 200
+            };
+        }
+    },
+    {
+        version: 3,
+        description: 'Add the system prompt and context trimming settings',
+        migrate: settings => ({
+            ...settings,
+            apiSettings: {
+                ...(settings.apiSettings || {}),
+                systemPrompt: settings.apiSettings?.systemPrompt ?? '',
+                contextStrategy: settings.apiSettings?.contextStrategy ?? 'dropOldest',
+                keepLastTurns: settings.apiSettings?.keepLastTurns ?? 10
+            }
+        })
+    },
+    {
+        version: 4,
+        description: 'Move the API endpoint, key and model into an API profile and add the model catalog',
+        migrate: settings => {
+            const { apiKey, apiEndpoint, modelName, ...apiSettings } = settings.apiSettings || {};
+            const endpoint = typeof apiEndpoint === 'string' && apiEndpoint ? apiEndpoint : 'https://api.anthropic.com/v1/messages';
+            const baseUrl = endpoint.replace(/\/v1\/messages\/?$/, '');
+            const model = typeof modelName === 'string' && modelName ? modelName : 'claude-3-sonnet-20240229';
+
+            // Keep a custom model selectable
+            const modelCatalog = structuredClone(DEFAULT_MODEL_CATALOG);
+            if (!modelCatalog.some(entry => entry.id === model)) {
+                modelCatalog.push({ id: model, label: model, contextWindow: 200000, maxOutputTokens: 4096 });
+            }
+
+            return {
+                ...settings,
+                apiSettings: {
+                    ...apiSettings,
+                    apiProfiles: [{
+                        id: 'default',
+                        name: baseUrl === 'https://api.anthropic.com' ? 'Anthropic' : 'Custom endpoint',
+                        baseUrl,
+                        headers: {},
+                        defaultModel: model
+                    }],
+                    activeApiProfileId: 'default',
+                    apiKeys: typeof apiKey === 'string' && apiKey ? { default: apiKey } : {},
+                    modelCatalog
+                }
+            };
+        }
+    },
+    {
+        version: 5,
+        description: 'Move API keys out of the settings into the secret store',
+        migrate: settings => {
+            // StorageService copies these into the SecretStore before migrating
+            const { apiKeys: _apiKeys, ...apiSettings } = settings.apiSettings || {};
+            const { compilationApiKey: _compilationApiKey, ...compilerSettings } = settings.compilerSettings || {};
+
+            return { ...settings, apiSettings, compilerSettings };
+        }
+    },
+    {
+        version: 6,
+        description: 'Add the Mermaid download format',
+        migrate: settings => ({
+            ...settings,
+            mermaidExport: settings.mermaidExport ?? 'sourceAndImages'
+        })
+    },
+    {
+        version: 7,
+        description: 'Add the markdown download format',
+        migrate: settings => ({
+            ...settings,
+            markdownExport: settings.markdownExport ?? 'markdown'
+        })
+    },
+    {
+        version: 8,
+        description: 'Add SVG optimization and PNG export for downloads',
+        migrate: settings => ({
+            ...settings,
+            optimizeSvg: settings.optimizeSvg ?? false,
+            svgPngExport: settings.svgPngExport ?? 'none'
+        })
+    },
+    {
+        version: 9,
+        description: 'Replace the filename timestamp option with filename and folder templates',
+        migrate: settings => {
+            const { includeTimestampInFilename, ...rest } = settings;
+
+            // Keep naming files the way the old option did, in the folders the background's
+            // ZIP downloads used; the content script's "Claude Artifacts" folder was never downloaded to
+            return {
+                ...rest,
+                filenameTemplate: rest.filenameTemplate
+                    ?? (includeTimestampInFilename === false ? '{title}.{ext}' : '{title}_{timestamp}.{ext}'),
+                folderTemplate: rest.folderTemplate ?? 'Claude Conversation/{typeFolder}/{date}'
+            };
+        }
+    }
+];
+
+/**
+ * Utility class for bringing stored settings up to the current schema
+ */
+export class SettingsMigrator {
+    private static readonly logger = LoggerService.getInstance();
+
+    /**
+     * Migrate and validate stored settings
+     * Migrations run in order from the stored version. If one throws, later ones are
+     * skipped and the failure is recorded in the report; validation then repairs
+     * whatever state the settings were left in so the extension keeps working.
+     */
+    public static load(raw: unknown): SettingsLoadResult {
+        const isObject = typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+        const stored = isObject ? raw as Record<string, any> : {};
+        const fromVersion = typeof stored.schemaVersion === 'number' ? stored.schemaVersion : 1;
+
+        let current: Record<string, any> = structuredClone(stored);
+        let version = fromVersion;
+        const applied: number[] = [];
+        let failure: SettingsMigrationFailure | null = null;
+
+        for (const migration of this.getPendingMigrations(fromVersion)) {
+            try {
+                current = migration.migrate(structuredClone(current));
+                current.schemaVersion = migration.version;
+                version = migration.version;
+                applied.push(migration.version);
+            } catch (error) {
+                failure = {
+                    version: migration.version,
+                    description: migration.description,
+                    error: error instanceof Error ? error.message : String(error)
+                };
+                this.logger.error(`SettingsMigrator: Migration to v${migration.version} failed`, error);
+                break;
+            }
+        }
+
+        if (fromVersion > SETTINGS_SCHEMA_VERSION) {
+            this.logger.warn(`SettingsMigrator: Settings are from newer schema v${fromVersion}, validating as v${SETTINGS_SCHEMA_VERSION}`);
+        }
+
+        const { settings, repairs } = SettingsValidator.validate(isObject ? current : raw);
+
+        // Keep the version reached; validation would otherwise default it to the latest
+        settings.schemaVersion = failure ? version : SETTINGS_SCHEMA_VERSION;
+
+        if (repairs.length > 0) {
+            this.logger.warn('SettingsMigrator: Repaired invalid settings', repairs);
+        }
+
+        return {
+            settings,
+            report: {
+                fromVersion,
+                toVersion: settings.schemaVersion,
+                applied,
+                failure,
+                repairs,
+                loadedAt: new Date().toISOString()
+            },
+            changed: JSON.stringify(settings) !== JSON.stringify(stored)
+        };
+    }
+
+    /**
+     * Find API keys in settings written before they moved to the secret store
+     * Handles both the single key of v3 and earlier and the per-profile keys of v4.
+     */
+    public static extractLegacySecrets(raw: unknown): SecretValues {
+        const secrets: SecretValues = {};
+        if (typeof raw !== 'object' || raw === null) return secrets;
+
+        const { apiSettings, compilerSettings } = raw as Record<string, any>;
+
+        if (typeof apiSettings?.apiKey === 'string' && apiSettings.apiKey) {
+            secrets[SecretNames.apiKey('default')] = apiSettings.apiKey;
+        }
+        if (typeof apiSettings?.apiKeys === 'object' && apiSettings.apiKeys !== null) {
+            Object.entries(apiSettings.apiKeys).forEach(([profileId, apiKey]) => {
+                if (typeof apiKey === 'string' && apiKey) {
+                    secrets[SecretNames.apiKey(profileId)] = apiKey;
+                }
+            });
+        }
+        if (typeof compilerSettings?.compilationApiKey === 'string' && compilerSettings.compilationApiKey) {
+            secrets[SecretNames.COMPILATION_API_KEY] = compilerSettings.compilationApiKey;
+        }
+
+        return secrets;
+    }
+
+    /**
+     * Whether a load report describes anything the user should know about
+     */
+    public static hasProblems(report: SettingsLoadReport): boolean {
+        return report.failure !== null || report.repairs.length > 0;
+    }
+
+    /**
+     * Migrations that still need to run for settings at a given version
+     */
+    private static getPendingMigrations(fromVersion: number): SettingsMigration[] {
+        return SETTINGS_MIGRATIONS
+            .filter(migration => migration.version > fromVersion)
+            .sort((a, b) => a.version - b.version);
+    }
+}
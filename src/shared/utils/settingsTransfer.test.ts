@@ -0,0 +1,96 @@
+import {describe, expect, it} from 'vitest';
+import {ArtifactSettings, DEFAULT_SETTINGS} from '../models/settings';
+import {SecretNames} from '../models/secrets';
+import {SETTINGS_EXPORT_FORMAT, SettingsTransfer} from './settingsTransfer';
+
+/**
+ * Fresh copy of the default settings
+ */
+function defaults(): ArtifactSettings {
+    return structuredClone(DEFAULT_SETTINGS);
+}
+
+describe('SettingsTransfer', () => {
+    it('round-trips settings through an export file', () => {
+        const exported = defaults();
+        exported.editorSettings.fontSize = 18;
+        exported.filenameTemplate = '{title}-{version}.{ext}';
+
+        const preview = SettingsTransfer.previewImport(SettingsTransfer.toJson(exported), defaults());
+
+        expect(preview.settings).toEqual(exported);
+        expect(preview.changes.map(change => change.path)).toEqual(['filenameTemplate', 'editorSettings.fontSize']);
+        expect(preview.repairs).toEqual([]);
+        expect(preview.includesSecrets).toBe(false);
+    });
+
+    it('reports no changes when importing the current settings', () => {
+        const preview = SettingsTransfer.previewImport(SettingsTransfer.toJson(defaults()), defaults());
+
+        expect(preview.changes).toEqual([]);
+    });
+
+    it('only includes secrets when they are passed in', () => {
+        const apiKey = SecretNames.apiKey('default');
+
+        expect(SettingsTransfer.createExport(defaults())).not.toHaveProperty('secrets');
+
+        const exported = SettingsTransfer.createExport(defaults(), { [apiKey]: 'sk-new' });
+        expect(exported.format).toBe(SETTINGS_EXPORT_FORMAT);
+        expect(exported.includesSecrets).toBe(true);
+
+        const preview = SettingsTransfer.previewImport(JSON.stringify(exported), defaults(), { [apiKey]: 'sk-old' });
+        expect(preview.secrets).toEqual({ [apiKey]: 'sk-new' });
+        expect(preview.changes).toEqual([{ path: `secrets.${apiKey}`, from: 'sk-old', to: 'sk-new', secret: true }]);
+    });
+
+    it('masks secret values when describing changes', () => {
+        expect(SettingsTransfer.describeChange({ path: 'secrets.apiKey', from: undefined, to: 'sk-new', secret: true }))
+            .toBe('secrets.apiKey: (empty) → ••••••');
+        expect(SettingsTransfer.describeChange({ path: 'optimizeSvg', from: false, to: true, secret: false }))
+            .toBe('optimizeSvg: false → true');
+    });
+
+    it('migrates exports from older versions and picks up their keys', () => {
+        const json = JSON.stringify({
+            format: SETTINGS_EXPORT_FORMAT,
+            exportedAt: '2025-01-01T00:00:00.000Z',
+            schemaVersion: 1,
+            includesSecrets: false,
+            settings: { apiSettings: { apiKey: 'sk-legacy' } }
+        });
+
+        const preview = SettingsTransfer.previewImport(json, defaults());
+
+        expect(preview.failure).toBeNull();
+        expect(preview.settings.schemaVersion).toBe(DEFAULT_SETTINGS.schemaVersion);
+        expect(preview.secrets).toEqual({ [SecretNames.apiKey('default')]: 'sk-legacy' });
+        expect(JSON.stringify(preview.settings)).not.toContain('sk-legacy');
+    });
+
+    it('repairs invalid values in an import', () => {
+        const exported = SettingsTransfer.createExport(defaults());
+        (exported.settings as Record<string, any>).maxFilenameLength = 'huge';
+
+        const preview = SettingsTransfer.previewImport(JSON.stringify(exported), defaults());
+
+        expect(preview.settings.maxFilenameLength).toBe(DEFAULT_SETTINGS.maxFilenameLength);
+        expect(preview.repairs).toHaveLength(1);
+    });
+
+    it('rejects files that are not JSON', () => {
+        expect(() => SettingsTransfer.previewImport('not json', defaults())).toThrow('The file is not valid JSON');
+    });
+
+    it('rejects JSON files that are not settings exports', () => {
+        for (const foreign of [
+            { format: 'another-extension/settings', settings: {} },
+            { settings: defaults() },
+            { format: SETTINGS_EXPORT_FORMAT },
+            null
+        ]) {
+            expect(() => SettingsTransfer.previewImport(JSON.stringify(foreign), defaults()))
+                .toThrow('The file is not a Claude Artifacts Helper settings export');
+        }
+    });
+});
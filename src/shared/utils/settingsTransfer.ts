@@ -0,0 +1,174 @@
+import {ArtifactSettings} from '../models/settings';
+import {SecretValues} from '../models/secrets';
+import {SettingsMigrationFailure, SettingsMigrator} from './settingsMigrator';
+import {SETTINGS_RULES, SettingsValidator} from './settingsValidator';
+
+/**
+ * Identifies files written by settings export
+ */
+export const SETTINGS_EXPORT_FORMAT = 'claude-artifacts-helper/settings';
+
+/**
+ * Contents of an exported settings file
+ */
+export interface SettingsExport {
+    format: string;
+    exportedAt: string;
+    schemaVersion: number;
+    includesSecrets: boolean;
+    settings: Partial<ArtifactSettings>;
+
+    // API keys from the SecretStore, only when the user asked for them
+    secrets?: SecretValues;
+}
+
+/**
+ * A single setting that differs between two settings objects
+ */
+export interface SettingChange {
+    path: string;
+    from: unknown;
+    to: unknown;
+    secret: boolean;
+}
+
+/**
+ * What importing a settings file would do, shown to the user before it is applied
+ */
+export interface SettingsImportPreview {
+    settings: ArtifactSettings;
+    changes: SettingChange[];
+    repairs: string[];
+    failure: SettingsMigrationFailure | null;
+    includesSecrets: boolean;
+
+    // Secrets carried by the file, to be saved to the SecretStore
+    secrets: SecretValues;
+}
+
+/**
+ * Utility class for sharing settings as JSON files
+ */
+export class SettingsTransfer {
+    /**
+     * Create an export of settings, with secrets only when they are passed in
+     */
+    public static createExport(settings: ArtifactSettings, secrets: SecretValues | null = null): SettingsExport {
+        const exported: SettingsExport = {
+            format: SETTINGS_EXPORT_FORMAT,
+            exportedAt: new Date().toISOString(),
+            schemaVersion: settings.schemaVersion,
+            includesSecrets: secrets !== null,
+            settings: structuredClone(settings)
+        };
+
+        if (secrets) {
+            exported.secrets = { ...secrets };
+        }
+
+        return exported;
+    }
+
+    /**
+     * Serialize settings for download
+     */
+    public static toJson(settings: ArtifactSettings, secrets: SecretValues | null = null): string {
+        return JSON.stringify(this.createExport(settings, secrets), null, 2);
+    }
+
+    /**
+     * Parse a settings file and work out what importing it would change
+     * Files from older versions are migrated and invalid values are repaired. Secrets
+     * missing from the file keep their current values; files from before the secret
+     * store carry their keys inside the settings, and these are picked up too.
+     * @param currentSecrets Secrets to compare against, or none to show every imported secret as new
+     * @throws Error if the file isn't a settings export
+     */
+    public static previewImport(
+        json: string,
+        current: ArtifactSettings,
+        currentSecrets: SecretValues = {}
+    ): SettingsImportPreview {
+        let parsed: any;
+        try {
+            parsed = JSON.parse(json);
+        } catch {
+            throw new Error('The file is not valid JSON');
+        }
+
+        if (!parsed || parsed.format !== SETTINGS_EXPORT_FORMAT || typeof parsed.settings !== 'object') {
+            throw new Error('The file is not a Claude Artifacts Helper settings export');
+        }
+
+        const imported = structuredClone(parsed.settings) as Record<string, any>;
+        imported.schemaVersion = imported.schemaVersion ?? parsed.schemaVersion;
+
+        const secrets = {
+            ...SettingsMigrator.extractLegacySecrets(imported),
+            ...this.readSecrets(parsed.secrets)
+        };
+        const { settings, report } = SettingsMigrator.load(imported);
+
+        return {
+            settings,
+            changes: [...this.diff(current, settings), ...this.diffSecrets(currentSecrets, secrets)],
+            repairs: report.repairs,
+            failure: report.failure,
+            includesSecrets: Object.keys(secrets).length > 0,
+            secrets
+        };
+    }
+
+    /**
+     * List the settings that differ between two settings objects
+     */
+    public static diff(current: ArtifactSettings, next: ArtifactSettings): SettingChange[] {
+        return Object.keys(SETTINGS_RULES)
+            .filter(path => path !== 'schemaVersion')
+            .map(path => ({
+                path,
+                from: SettingsValidator.getPath(current, path),
+                to: SettingsValidator.getPath(next, path),
+                secret: false
+            }))
+            .filter(change => JSON.stringify(change.from) !== JSON.stringify(change.to));
+    }
+
+    /**
+     * List the secrets an import would change; secrets missing from the import are kept
+     */
+    public static diffSecrets(current: SecretValues, imported: SecretValues): SettingChange[] {
+        return Object.keys(imported)
+            .filter(name => imported[name] !== current[name])
+            .sort()
+            .map(name => ({ path: `secrets.${name}`, from: current[name], to: imported[name], secret: true }));
+    }
+
+    /**
+     * Describe a change for display, masking secret values
+     */
+    public static describeChange(change: SettingChange): string {
+        const format = (value: unknown): string => change.secret
+            ? (value ? '••••••' : '(empty)')
+            : JSON.stringify(value);
+
+        return `${change.path}: ${format(change.from)} → ${format(change.to)}`;
+    }
+
+    /**
+     * Keep only the string values of a file's secrets
+     */
+    private static readSecrets(raw: unknown): SecretValues {
+        const secrets: SecretValues = {};
+
+        if (typeof raw === 'object' && raw !== null) {
+            Object.entries(raw).forEach(([name, value]) => {
+                if (typeof value === 'string' && value) {
+                    secrets[name] = value;
+                }
+            });
+        }
+
+        return secrets;
+    }
+}
@@ -0,0 +1,104 @@
+import {describe, expect, it} from 'vitest';
+import {DEFAULT_SETTINGS} from '../models/settings';
+import {SettingsValidator} from './settingsValidator';
+
+/**
+ * Default settings with some values replaced
+ */
+function withOverrides(overrides: Record<string, unknown>): Record<string, any> {
+    const settings = structuredClone(DEFAULT_SETTINGS) as Record<string, any>;
+    Object.entries(overrides).forEach(([path, value]) => SettingsValidator.setPath(settings, path, value));
+    return settings;
+}
+
+describe('SettingsValidator', () => {
+    it('accepts the default settings', () => {
+        expect(SettingsValidator.validate(structuredClone(DEFAULT_SETTINGS)).repairs).toEqual([]);
+        expect(SettingsValidator.isValid(structuredClone(DEFAULT_SETTINGS))).toBe(true);
+    });
+
+    it('fills in missing settings', () => {
+        const settings = withOverrides({});
+        delete settings.uiSettings.darkMode;
+
+        const result = SettingsValidator.validate(settings);
+
+        expect(result.settings.uiSettings.darkMode).toBe(DEFAULT_SETTINGS.uiSettings.darkMode);
+        expect(result.repairs).toEqual(['uiSettings.darkMode was missing and has been set to false']);
+    });
+
+    it('coerces values whose intent is clear', () => {
+        const result = SettingsValidator.validate(withOverrides({
+            'editorSettings.fontSize': '16',
+            'editorSettings.minimap': 'off',
+            'stitchArtifacts': 'true'
+        }));
+
+        expect(result.settings.editorSettings.fontSize).toBe(16);
+        expect(result.settings.editorSettings.minimap).toBe(false);
+        expect(result.settings.stitchArtifacts).toBe(true);
+        expect(result.repairs).toHaveLength(3);
+    });
+
+    it('clamps and rounds numbers', () => {
+        const result = SettingsValidator.validate(withOverrides({
+            'editorSettings.fontSize': 100,
+            'editorSettings.tabSize': 2.6,
+            'apiSettings.temperature': -1
+        }));
+
+        expect(result.settings.editorSettings.fontSize).toBe(24);
+        expect(result.settings.editorSettings.tabSize).toBe(3);
+        expect(result.settings.apiSettings.temperature).toBe(0);
+    });
+
+    it('resets values that cannot be repaired', () => {
+        const result = SettingsValidator.validate(withOverrides({
+            'editorSettings.theme': 'solarized',
+            'maxFilenameLength': 'long',
+            'compilerSettings.supportedLanguages': ['javascript', 3]
+        }));
+
+        expect(result.settings.editorSettings.theme).toBe(DEFAULT_SETTINGS.editorSettings.theme);
+        expect(result.settings.maxFilenameLength).toBe(DEFAULT_SETTINGS.maxFilenameLength);
+        expect(result.settings.compilerSettings.supportedLanguages).toEqual(DEFAULT_SETTINGS.compilerSettings.supportedLanguages);
+        expect(result.repairs.every(repair => repair.includes('has been reset to'))).toBe(true);
+    });
+
+    it('drops invalid and duplicate items from object lists', () => {
+        const profile = DEFAULT_SETTINGS.apiSettings.apiProfiles[0];
+        const result = SettingsValidator.validate(withOverrides({
+            'apiSettings.apiProfiles': [
+                profile,
+                { ...profile, name: 'Duplicate' },
+                { ...profile, id: 'broken', baseUrl: 42 },
+                { ...profile, id: 'proxy', headers: { 'x-team': 'a', bad: 1 } }
+            ]
+        }));
+
+        expect(result.settings.apiSettings.apiProfiles.map(p => p.id)).toEqual(['default', 'proxy']);
+        expect(result.settings.apiSettings.apiProfiles[1].headers).toEqual({ 'x-team': 'a' });
+    });
+
+    it('resets an object list with no valid items', () => {
+        const result = SettingsValidator.validate(withOverrides({ 'apiSettings.modelCatalog': [{ id: 1 }] }));
+
+        expect(result.settings.apiSettings.modelCatalog).toEqual(DEFAULT_SETTINGS.apiSettings.modelCatalog);
+    });
+
+    it('resets settings that are not an object', () => {
+        const result = SettingsValidator.validate([1, 2, 3]);
+
+        expect(result.settings).toEqual(DEFAULT_SETTINGS);
+        expect(result.repairs).toHaveLength(1);
+    });
+
+    it('reads and writes dotted paths', () => {
+        const target: Record<string, any> = {};
+        SettingsValidator.setPath(target, 'a.b.c', 1);
+
+        expect(target).toEqual({ a: { b: { c: 1 } } });
+        expect(SettingsValidator.getPath(target, 'a.b.c')).toBe(1);
+        expect(SettingsValidator.getPath(target, 'a.x.c')).toBeUndefined();
+    });
+});
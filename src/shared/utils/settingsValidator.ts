@@ -0,0 +1,242 @@
+import {ArtifactSettings, DEFAULT_SETTINGS} from '../models/settings';
+
+/**
+ * Rule a single setting must satisfy
+ */
+export type SettingRule =
+    | { type: 'boolean' }
+    | { type: 'string' }
+    | { type: 'stringArray' }
+    | { type: 'stringRecord' }
+    | { type: 'objectArray'; fields: Record<string, SettingRule>; key: string }
+    | { type: 'number'; min: number; max: number; integer?: boolean }
+    | { type: 'enum'; values: readonly string[] };
+
+/**
+ * Result of validating a settings object
+ */
+export interface SettingsValidationResult {
+    settings: ArtifactSettings;
+    repairs: string[];
+}
+
+/**
+ * Rules for every setting, keyed by dotted path
+ */
+export const SETTINGS_RULES: Record<string, SettingRule> = {
+    'schemaVersion': { type: 'number', min: 1, max: Number.MAX_SAFE_INTEGER, integer: true },
+
+    'stitchArtifacts': { type: 'boolean' },
+    'flatFileStructure': { type: 'boolean' },
+    'filenameTemplate': { type: 'string' },
+    'folderTemplate': { type: 'string' },
+    'replaceInvalidChars': { type: 'boolean' },
+    'maxFilenameLength': { type: 'number', min: 10, max: 255, integer: true },
+    'mermaidExport': { type: 'enum', values: ['source', 'sourceAndImages', 'images'] },
+    'markdownExport': { type: 'enum', values: ['markdown', 'markdownAndHtml', 'markdownAndPrint', 'all'] },
+    'optimizeSvg': { type: 'boolean' },
+    'svgPngExport': { type: 'enum', values: ['none', '1x', '2x', '4x', 'all'] },
+    'maxLibrarySizeMb': { type: 'number', min: 10, max: 10000, integer: true },
+
+    'editorSettings.theme': { type: 'enum', values: ['vs', 'vs-dark', 'hc-black'] },
+    'editorSettings.fontSize': { type: 'number', min: 10, max: 24, integer: true },
+    'editorSettings.tabSize': { type: 'number', min: 1, max: 8, integer: true },
+    'editorSettings.insertSpaces': { type: 'boolean' },
+    'editorSettings.wordWrap': { type: 'enum', values: ['on', 'off'] },
+    'editorSettings.lineNumbers': { type: 'enum', values: ['on', 'off', 'relative'] },
+    'editorSettings.minimap': { type: 'boolean' },
+    'editorSettings.folding': { type: 'boolean' },
+
+    'apiSettings.enableApiContinuation': { type: 'boolean' },
+    'apiSettings.apiProfiles': {
+        type: 'objectArray',
+        key: 'id',
+        fields: {
+            id: { type: 'string' },
+            name: { type: 'string' },
+            baseUrl: { type: 'string' },
+            headers: { type: 'stringRecord' },
+            defaultModel: { type: 'string' }
+        }
+    },
+    'apiSettings.activeApiProfileId': { type: 'string' },
+    'apiSettings.modelCatalog': {
+        type: 'objectArray',
+        key: 'id',
+        fields: {
+            id: { type: 'string' },
+            label: { type: 'string' },
+            contextWindow: { type: 'number', min: 1000, max: 10000000, integer: true },
+            maxOutputTokens: { type: 'number', min: 1, max: 1000000, integer: true }
+        }
+    },
+    'apiSettings.maxTokens': { type: 'number', min: 1, max: 100000, integer: true },
+    'apiSettings.temperature': { type: 'number', min: 0, max: 1 },
+    'apiSettings.systemPrompt': { type: 'string' },
+    'apiSettings.contextStrategy': { type: 'enum', values: ['dropOldest', 'lastTurns', 'summarize'] },
+    'apiSettings.keepLastTurns': { type: 'number', min: 1, max: 100, integer: true },
+
+    'compilerSettings.enableCompilation': { type: 'boolean' },
+    'compilerSettings.useRemoteCompilation': { type: 'boolean' },
+    'compilerSettings.remoteCompilationEndpoint': { type: 'string' },
+    'compilerSettings.executionTimeoutMs': { type: 'number', min: 100, max: 60000, integer: true },
+    'compilerSettings.supportedLanguages': { type: 'stringArray' },
+
+    'uiSettings.showNotifications': { type: 'boolean' },
+    'uiSettings.notificationDurationMs': { type: 'number', min: 1000, max: 10000, integer: true },
+    'uiSettings.darkMode': { type: 'boolean' }
+};
+
+/**
+ * Utility class for checking settings against their schema at runtime
+ */
+export class SettingsValidator {
+    /**
+     * Validate settings, repairing what can be repaired
+     * Values of the wrong type are coerced when the intent is unambiguous (e.g. "14"
+     * for a number), out-of-range numbers are clamped, and anything else falls back
+     * to the default. Every change is described in `repairs`.
+     */
+    public static validate(raw: unknown): SettingsValidationResult {
+        const repairs: string[] = [];
+        const settings = structuredClone(DEFAULT_SETTINGS) as ArtifactSettings;
+
+        if (!this.isObject(raw)) {
+            repairs.push('Settings were not an object and have been reset to defaults');
+            return { settings, repairs };
+        }
+
+        Object.entries(SETTINGS_RULES).forEach(([path, rule]) => {
+            const value = this.getPath(raw, path);
+            const fallback = this.getPath(settings, path);
+
+            if (value === undefined) {
+                repairs.push(`${path} was missing and has been set to ${JSON.stringify(fallback)}`);
+                return;
+            }
+
+            const repaired = this.repairValue(value, rule);
+
+            if (repaired === undefined) {
+                repairs.push(`${path} had invalid value ${JSON.stringify(value)} and has been reset to ${JSON.stringify(fallback)}`);
+                return;
+            }
+
+            if (JSON.stringify(repaired) !== JSON.stringify(value)) {
+                repairs.push(`${path} was repaired from ${JSON.stringify(value)} to ${JSON.stringify(repaired)}`);
+            }
+
+            this.setPath(settings, path, repaired);
+        });
+
+        return { settings, repairs };
+    }
+
+    /**
+     * Check settings without repairing them
+     */
+    public static isValid(raw: unknown): boolean {
+        return this.validate(raw).repairs.length === 0;
+    }
+
+    /**
+     * Coerce a value to satisfy a rule, or return undefined if that isn't possible
+     */
+    private static repairValue(value: unknown, rule: SettingRule): unknown {
+        switch (rule.type) {
+            case 'boolean':
+                if (typeof value === 'boolean') return value;
+                if (value === 'true' || value === 'on') return true;
+                if (value === 'false' || value === 'off') return false;
+                return undefined;
+
+            case 'string':
+                return typeof value === 'string' ? value : undefined;
+
+            case 'stringArray':
+                return Array.isArray(value) && value.every(item => typeof item === 'string') ? value : undefined;
+
+            case 'number': {
+                const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+                if (typeof number !== 'number' || !isFinite(number)) {
+                    return undefined;
+                }
+                const rounded = rule.integer ? Math.round(number) : number;
+                return Math.min(rule.max, Math.max(rule.min, rounded));
+            }
+
+            case 'enum':
+                return typeof value === 'string' && rule.values.includes(value) ? value : undefined;
+
+            case 'stringRecord':
+                if (!this.isObject(value)) return undefined;
+                return Object.fromEntries(Object.entries(value).filter(([, item]) => typeof item === 'string'));
+
+            case 'objectArray':
+                return this.repairObjectArray(value, rule.fields, rule.key);
+        }
+    }
+
+    /**
+     * Repair each item of a list of objects
+     * Items that can't be repaired, or repeat an earlier item's key, are dropped; an empty result is invalid.
+     */
+    private static repairObjectArray(
+        value: unknown,
+        fields: Record<string, SettingRule>,
+        key: string
+    ): Record<string, unknown>[] | undefined {
+        if (!Array.isArray(value)) return undefined;
+
+        const seen = new Set<unknown>();
+        const items = value.flatMap(item => {
+            if (!this.isObject(item)) return [];
+
+            const repaired: Record<string, unknown> = {};
+            for (const [field, rule] of Object.entries(fields)) {
+                const fieldValue = this.repairValue(item[field], rule);
+                if (fieldValue === undefined) return [];
+                repaired[field] = fieldValue;
+            }
+
+            if (seen.has(repaired[key]) || repaired[key] === '') return [];
+            seen.add(repaired[key]);
+            return [repaired];
+        });
+
+        return items.length > 0 ? items : undefined;
+    }
+
+    /**
+     * Check for a plain object
+     */
+    private static isObject(value: unknown): value is Record<string, any> {
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+    }
+
+    /**
+     * Read a dotted path from an object
+     */
+    public static getPath(source: Record<string, any>, path: string): unknown {
+        return path.split('.').reduce<any>((current, key) =>
+            this.isObject(current) ? current[key] : undefined, source);
+    }
+
+    /**
+     * Write a dotted path into an object, creating intermediate objects as needed
+     */
+    public static setPath(target: Record<string, any>, path: string, value: unknown): void {
+        const keys = path.split('.');
+        const last = keys.pop()!;
+        let current = target;
+
+        keys.forEach(key => {
+            if (!this.isObject(current[key])) {
+                current[key] = {};
+            }
+            current = current[key];
+        });
+
+        current[last] = value;
+    }
+}
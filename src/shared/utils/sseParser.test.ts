@@ -0,0 +1,83 @@
+import {describe, expect, it} from 'vitest';
+import {ServerSentEvent, SseParser} from './sseParser';
+
+/**
+ * Feed a stream to a new parser in the given chunks and collect every event
+ */
+function parse(chunks: string[]): ServerSentEvent[] {
+    const parser = new SseParser();
+    const events = chunks.flatMap(chunk => parser.push(chunk));
+    return [...events, ...parser.flush()];
+}
+
+const STREAM = [
+    'event: message_start',
+    'data: {"type":"message_start"}',
+    '',
+    'event: content_block_delta',
+    'data: {"type":"content_block_delta","delta":{"text":"Hi"}}',
+    '',
+    ''
+].join('\n');
+
+const EXPECTED: ServerSentEvent[] = [
+    { event: 'message_start', data: '{"type":"message_start"}' },
+    { event: 'content_block_delta', data: '{"type":"content_block_delta","delta":{"text":"Hi"}}' }
+];
+
+describe('SseParser', () => {
+    it('parses a complete stream', () => {
+        expect(parse([STREAM])).toEqual(EXPECTED);
+    });
+
+    it('returns events as soon as they are complete', () => {
+        const parser = new SseParser();
+
+        expect(parser.push('event: ping\ndata: 1\n')).toEqual([]);
+        expect(parser.push('\n')).toEqual([{ event: 'ping', data: '1' }]);
+    });
+
+    it('handles chunks split at every possible position', () => {
+        for (let split = 1; split < STREAM.length; split++) {
+            expect(parse([STREAM.slice(0, split), STREAM.slice(split)])).toEqual(EXPECTED);
+        }
+    });
+
+    it('handles a stream delivered one character at a time', () => {
+        expect(parse(STREAM.split(''))).toEqual(EXPECTED);
+    });
+
+    it('accepts CRLF and CR line endings, even when CRLF is split across chunks', () => {
+        expect(parse([STREAM.replace(/\n/g, '\r\n')])).toEqual(EXPECTED);
+        expect(parse([STREAM.replace(/\n/g, '\r')])).toEqual(EXPECTED);
+        expect(parse(['data: a\r', '\n\r', '\n'])).toEqual([{ event: 'message', data: 'a' }]);
+    });
+
+    it('joins multi-line data with newlines', () => {
+        expect(parse(['data: first\ndata: second\ndata:\ndata:  indented\n\n'])).toEqual([
+            { event: 'message', data: 'first\nsecond\n\n indented' }
+        ]);
+    });
+
+    it('ignores comment lines and unknown fields', () => {
+        expect(parse([': keep-alive\nid: 7\nretry: 100\ndata: x\n: another comment\n\n'])).toEqual([
+            { event: 'message', data: 'x' }
+        ]);
+        expect(parse([': only a comment\n\n'])).toEqual([]);
+    });
+
+    it('does not carry an event name over to the next event', () => {
+        expect(parse(['event: error\n\ndata: 1\n\n'])).toEqual([{ event: 'message', data: '1' }]);
+    });
+
+    it('treats a field without a colon as having an empty value', () => {
+        expect(parse(['data\n\n'])).toEqual([{ event: 'message', data: '' }]);
+    });
+
+    it('returns a final event without a trailing blank line on flush', () => {
+        const parser = new SseParser();
+
+        expect(parser.push('event: message_stop\ndata: {}')).toEqual([]);
+        expect(parser.flush()).toEqual([{ event: 'message_stop', data: '{}' }]);
+    });
+});
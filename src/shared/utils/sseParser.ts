@@ -0,0 +1,93 @@
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+    event: string;
+    data: string;
+}
+
+/**
+ * Incremental parser for `text/event-stream` bodies
+ * Chunks can split lines and events anywhere; complete events are returned as they arrive.
+ */
+export class SseParser {
+    private buffer = '';
+    private eventName = '';
+    private dataLines: string[] = [];
+
+    /**
+     * Add a decoded chunk and return the events it completed
+     */
+    public push(chunk: string): ServerSentEvent[] {
+        this.buffer += chunk;
+        const events: ServerSentEvent[] = [];
+
+        let newline = this.buffer.search(/\r\n|\r|\n/);
+        while (newline !== -1) {
+            const line = this.buffer.slice(0, newline);
+            const separatorLength = this.buffer.startsWith('\r\n', newline) ? 2 : 1;
+
+            // A lone \r at the end may be the first half of \r\n; wait for the next chunk
+            if (this.buffer[newline] === '\r' && newline + 1 === this.buffer.length) {
+                break;
+            }
+
+            this.buffer = this.buffer.slice(newline + separatorLength);
+
+            const event = this.processLine(line);
+            if (event) {
+                events.push(event);
+            }
+
+            newline = this.buffer.search(/\r\n|\r|\n/);
+        }
+
+        return events;
+    }
+
+    /**
+     * Return any event left over when the stream ends without a trailing blank line
+     */
+    public flush(): ServerSentEvent[] {
+        const events = this.push('\n');
+        const last = this.processLine('');
+        return last ? [...events, last] : events;
+    }
+
+    /**
+     * Apply one line of the stream, returning an event when a blank line ends one
+     */
+    private processLine(line: string): ServerSentEvent | null {
+        if (line === '') {
+            if (this.dataLines.length === 0) {
+                this.eventName = '';
+                return null;
+            }
+
+            const event = { event: this.eventName || 'message', data: this.dataLines.join('\n') };
+            this.eventName = '';
+            this.dataLines = [];
+            return event;
+        }
+
+        // Comment lines keep the connection alive and carry no data
+        if (line.startsWith(':')) {
+            return null;
+        }
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? '' : line.slice(colon + 1);
+        if (value.startsWith(' ')) {
+            value = value.slice(1);
+        }
+
+        if (field === 'event') {
+            this.eventName = value;
+        } else if (field === 'data') {
+            this.dataLines.push(value);
+        }
+
+        return null;
+    }
+}
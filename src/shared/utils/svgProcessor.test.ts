@@ -0,0 +1,83 @@
+// @vitest-environment jsdom
+import {describe, expect, it} from 'vitest';
+import {SvgSyntaxError} from '../models/svg';
+import {SvgProcessor} from './svgProcessor';
+
+describe('SvgProcessor', () => {
+    describe('parse', () => {
+        it('adds missing namespaces to SVG copied out of HTML', () => {
+            const root = SvgProcessor.parse('<svg><use xlink:href="#a"/>&nbsp;</svg>');
+
+            expect(root.localName).toBe('svg');
+            expect(root.namespaceURI).toBe('http://www.w3.org/2000/svg');
+        });
+
+        it('rejects malformed documents', () => {
+            expect(() => SvgProcessor.parse('<svg><g></svg>')).toThrow(SvgSyntaxError);
+        });
+
+        it('rejects documents that are not SVG', () => {
+            expect(() => SvgProcessor.parse('<html xmlns="http://www.w3.org/1999/xhtml"/>'))
+                .toThrow('Expected an <svg> root element, found <html>');
+        });
+    });
+
+    describe('sanitize', () => {
+        it('removes scripts and embedded documents', () => {
+            const root = SvgProcessor.parse(
+                '<svg><script>alert(1)</script><foreignObject><iframe src="https://example.com"/></foreignObject><rect/></svg>'
+            );
+
+            expect(SvgProcessor.sanitize(root)).toBe(2);
+            expect(root.querySelector('script, iframe')).toBeNull();
+            expect(root.querySelector('rect')).not.toBeNull();
+        });
+
+        it('removes event handlers, including on the root element', () => {
+            const root = SvgProcessor.parse('<svg onload="alert(1)"><rect onclick="alert(2)" ONMOUSEOVER="alert(3)" fill="red"/></svg>');
+
+            expect(SvgProcessor.sanitize(root)).toBe(3);
+            expect(root.hasAttribute('onload')).toBe(false);
+            expect(Array.from(root.querySelector('rect')!.attributes).map(attribute => attribute.name)).toEqual(['fill']);
+        });
+
+        it('removes script URLs however they are disguised', () => {
+            const root = SvgProcessor.parse(
+                '<svg><a href="javascript:alert(1)"/><a xlink:href=" Java&#x0A;Script:alert(2)"/>'
+                + '<a href="vbscript:msgbox"/><a href="data:text/html,&lt;script&gt;"/><a href="https://example.com"/></svg>'
+            );
+
+            expect(SvgProcessor.sanitize(root)).toBe(4);
+            expect(Array.from(root.querySelectorAll('a')).map(link => link.getAttribute('href'))).toEqual([
+                null, null, null, null, 'https://example.com'
+            ]);
+        });
+
+        it('removes animations that change links, but not others', () => {
+            const root = SvgProcessor.parse(
+                '<svg><a><set attributeName="href" to="javascript:alert(1)"/><animate attributeName="xlink:href"/>'
+                + '<animate attributeName="opacity" from="0" to="1"/></a></svg>'
+            );
+
+            // The set's script URL goes with the element rather than being counted separately
+            expect(SvgProcessor.sanitize(root)).toBe(2);
+            expect(root.querySelectorAll('set, animate')).toHaveLength(1);
+            expect(root.querySelector('animate')!.getAttribute('attributeName')).toBe('opacity');
+        });
+
+        it('leaves safe SVGs alone', () => {
+            const root = SvgProcessor.parse('<svg viewBox="0 0 10 10"><circle cx="5" cy="5" r="4"/></svg>');
+
+            expect(SvgProcessor.sanitize(root)).toBe(0);
+        });
+    });
+
+    describe('toSafeSvg', () => {
+        it('returns the sanitized document', () => {
+            const svg = SvgProcessor.toSafeSvg('<svg onload="alert(1)"><script>alert(2)</script><rect/></svg>');
+
+            expect(svg).not.toMatch(/script|onload/i);
+            expect(svg).toContain('<rect/>');
+        });
+    });
+});
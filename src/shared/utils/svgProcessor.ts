@@ -0,0 +1,247 @@
+import type {Config, Output} from 'svgo/browser';
+import {SvgSyntaxError} from '../models/svg';
+import {LoggerService} from '../services/loggerService';
+
+/**
+ * Utility class for validating, sanitizing, optimizing and rasterizing SVG documents
+ * Parsing, sanitizing and rasterizing need a document; optimizing works anywhere.
+ */
+export class SvgProcessor {
+    private static readonly logger = LoggerService.getInstance();
+    private static readonly SVG_NS = 'http://www.w3.org/2000/svg';
+    private static readonly XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+    // Elements that run script or embed other documents
+    private static readonly UNSAFE_ELEMENTS = ['script', 'iframe', 'frame', 'embed', 'object'];
+
+    // Animations can swap a link's target after sanitizing, so any that touch links go
+    private static readonly ANIMATION_ELEMENTS = ['animate', 'set'];
+
+    // Browsers won't allocate canvases much larger than this on a side
+    private static readonly MAX_CANVAS_SIZE = 16384;
+
+    // Size browsers give an SVG that says nothing about its size
+    private static readonly DEFAULT_WIDTH = 300;
+    private static readonly DEFAULT_HEIGHT = 150;
+
+    private static svgoLoad: Promise<(input: string, config?: Config) => Output> | null = null;
+
+    /**
+     * Parse an SVG document, throwing SvgSyntaxError with the line and column of the first error
+     * SVG copied out of an HTML page often leaves out its namespaces, so missing ones are added.
+     */
+    public static parse(source: string): SVGSVGElement {
+        const parsed = new DOMParser().parseFromString(this.withNamespaces(source), 'image/svg+xml');
+
+        // Chrome puts the error inside the partly parsed document rather than replacing it
+        const error = parsed.getElementsByTagName('parsererror')[0];
+        if (error) {
+            throw this.toSyntaxError(error.textContent || '');
+        }
+
+        const root = parsed.documentElement;
+        if (root.localName !== 'svg' || root.namespaceURI !== this.SVG_NS) {
+            throw new SvgSyntaxError(`Expected an <svg> root element, found <${root.nodeName}>`, null, null);
+        }
+
+        return root as unknown as SVGSVGElement;
+    }
+
+    /**
+     * Remove scripts, event handlers and script URLs from an SVG, returning how many were removed
+     */
+    public static sanitize(root: Element): number {
+        let removed = 0;
+
+        root.querySelectorAll(this.UNSAFE_ELEMENTS.join(', ')).forEach(element => {
+            element.remove();
+            removed++;
+        });
+
+        root.querySelectorAll(this.ANIMATION_ELEMENTS.join(', ')).forEach(element => {
+            if (/href/i.test(element.getAttribute('attributeName') || '')) {
+                element.remove();
+                removed++;
+            }
+        });
+
+        [root, ...Array.from(root.querySelectorAll('*'))].forEach(element => {
+            Array.from(element.attributes).forEach(attribute => {
+                if (/^on/i.test(attribute.localName) || this.isScriptUrl(attribute.value)) {
+                    element.removeAttributeNode(attribute);
+                    removed++;
+                }
+            });
+        });
+
+        if (removed) {
+            this.logger.debug(`SvgProcessor: Removed ${removed} unsafe elements and attributes`);
+        }
+        return removed;
+    }
+
+    /**
+     * Parse and sanitize an SVG, returning the safe document
+     */
+    public static toSafeSvg(source: string): string {
+        const root = this.parse(source);
+        this.sanitize(root);
+        return new XMLSerializer().serializeToString(root);
+    }
+
+    /**
+     * Shrink an SVG with SVGO's default optimizations, which keep its appearance
+     * Scripts are removed too, since the optimized SVG is meant for use elsewhere.
+     */
+    public static async optimize(source: string): Promise<string> {
+        const optimize = await this.loadSvgo();
+        return optimize(source, {
+            multipass: true,
+            plugins: ['preset-default', 'removeScripts']
+        }).data;
+    }
+
+    /**
+     * Rasterize an SVG to a PNG data: URL at a multiple of its size
+     * @param background Fill behind the image; transparent when not given
+     */
+    public static async renderPng(svg: string, scale: number, background?: string): Promise<string> {
+        const root = this.parse(svg);
+        this.sanitize(root);
+
+        const { width, height } = this.getSize(root);
+        const canvasWidth = Math.ceil(width * scale);
+        const canvasHeight = Math.ceil(height * scale);
+
+        if (canvasWidth > this.MAX_CANVAS_SIZE || canvasHeight > this.MAX_CANVAS_SIZE) {
+            throw new Error(`The image would be ${canvasWidth}×${canvasHeight} pixels at ${scale}x, which is too large`);
+        }
+
+        // Draw at the target size instead of stretching a smaller rendering
+        if (!root.hasAttribute('viewBox')) {
+            root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+        }
+        root.setAttribute('width', String(canvasWidth));
+        root.setAttribute('height', String(canvasHeight));
+
+        const image = new Image();
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(root))}`;
+        await image.decode();
+
+        const canvas = document.createElement('canvas');
+        canvas.width = canvasWidth;
+        canvas.height = canvasHeight;
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error('Canvas is not available');
+        }
+
+        if (background) {
+            context.fillStyle = background;
+            context.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+        return canvas.toDataURL('image/png');
+    }
+
+    /**
+     * Work out an SVG's size in pixels from its width and height, or else its viewBox
+     */
+    private static getSize(root: Element): { width: number; height: number } {
+        const viewBox = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+        const hasViewBox = viewBox.length === 4 && viewBox.every(value => Number.isFinite(value)) && viewBox[2] > 0 && viewBox[3] > 0;
+
+        const width = this.toPixels(root.getAttribute('width'));
+        const height = this.toPixels(root.getAttribute('height'));
+
+        if (width && height) {
+            return { width, height };
+        }
+
+        if (hasViewBox) {
+            // Keep the viewBox's aspect ratio when only one dimension is given
+            const ratio = viewBox[3] / viewBox[2];
+            if (width) return { width, height: width * ratio };
+            if (height) return { width: height / ratio, height };
+            return { width: viewBox[2], height: viewBox[3] };
+        }
+
+        return { width: width || this.DEFAULT_WIDTH, height: height || this.DEFAULT_HEIGHT };
+    }
+
+    /**
+     * Read a length given in pixels; relative lengths such as percentages can't be resolved here
+     */
+    private static toPixels(length: string | null): number | null {
+        const match = /^\s*([\d.]+)\s*(px)?\s*$/i.exec(length || '');
+        const value = match ? parseFloat(match[1]) : NaN;
+        return value > 0 ? value : null;
+    }
+
+    /**
+     * Declare the SVG and XLink namespaces on the root element if it uses them without doing so
+     * HTML entities that XML doesn't know are replaced for the same reason.
+     */
+    private static withNamespaces(source: string): string {
+        const normalized = source.replace(/&nbsp;/g, '&#160;');
+
+        return normalized.replace(/<svg\b[^>]*>/i, tag => {
+            let result = tag;
+            if (!/\sxmlns\s*=/.test(tag)) {
+                result = result.replace(/^<svg\b/i, `<svg xmlns="${this.SVG_NS}"`);
+            }
+            if (/\bxlink:/.test(normalized) && !/\sxmlns:xlink\s*=/.test(tag)) {
+                result = result.replace(/^<svg\b/i, `<svg xmlns:xlink="${this.XLINK_NS}"`);
+            }
+            return result;
+        });
+    }
+
+    /**
+     * Whether an attribute value is a URL that would run script when followed
+     */
+    private static isScriptUrl(value: string): boolean {
+        // Browsers ignore whitespace and control characters inside the scheme
+        const compact = value.replace(/[\s\p{Cc}]/gu, '').toLowerCase();
+        return compact.startsWith('javascript:') || compact.startsWith('vbscript:') || compact.startsWith('data:text/html');
+    }
+
+    /**
+     * Pull the position out of the browser's parser error text
+     * Chrome says "error on line 3 at column 5: ...", Firefox "Line Number 3, Column 5:".
+     */
+    private static toSyntaxError(text: string): SvgSyntaxError {
+        const chrome = /error on line (\d+) at column (\d+):\s*([^\n]*)/i.exec(text);
+        if (chrome) {
+            return new SvgSyntaxError(chrome[3].trim() || 'Invalid SVG', parseInt(chrome[1], 10), parseInt(chrome[2], 10));
+        }
+
+        const firefox = /^([^\n]*)[\s\S]*Line Number (\d+), Column (\d+)/i.exec(text);
+        if (firefox) {
+            const message = firefox[1].replace(/^XML Parsing Error:\s*/i, '').trim();
+            return new SvgSyntaxError(message || 'Invalid SVG', parseInt(firefox[2], 10), parseInt(firefox[3], 10));
+        }
+
+        return new SvgSyntaxError(text.trim() || 'Invalid SVG', null, null);
+    }
+
+    /**
+     * Load SVGO's browser build on first use
+     */
+    private static loadSvgo(): Promise<(input: string, config?: Config) => Output> {
+        if (!this.svgoLoad) {
+            this.svgoLoad = import('svgo/browser')
+                .then(module => module.optimize)
+                .catch(error => {
+                    // Let the next optimization try again
+                    this.svgoLoad = null;
+                    this.logger.error('SvgProcessor: Failed to load SVGO', error);
+                    throw new Error('Failed to load the SVG optimizer');
+                });
+        }
+
+        return this.svgoLoad;
+    }
+}
@@ -0,0 +1,102 @@
+import {describe, expect, it} from 'vitest';
+import {TokenEstimator} from './tokenEstimator';
+
+describe('TokenEstimator', () => {
+    describe('estimateText', () => {
+        it('returns zero for empty text', () => {
+            expect(TokenEstimator.estimateText('')).toBe(0);
+        });
+
+        it('counts roughly four letters per token in words', () => {
+            expect(TokenEstimator.estimateText('hi')).toBe(1);
+            expect(TokenEstimator.estimateText('internationalization')).toBe(5);
+            expect(TokenEstimator.estimateText('the quick brown fox')).toBe(4);
+        });
+
+        it('counts digit groups, symbols and non-Latin characters separately', () => {
+            expect(TokenEstimator.estimateText('1234567')).toBe(3);
+            expect(TokenEstimator.estimateText('a+b=c;')).toBe(6);
+            expect(TokenEstimator.estimateText('日本語')).toBe(3);
+        });
+
+        it('charges for indentation but not single spaces', () => {
+            expect(TokenEstimator.estimateText('a b')).toBe(2);
+            expect(TokenEstimator.estimateText('a\n    b')).toBe(3);
+        });
+
+        it('gives a plausible count for typical code', () => {
+            const code = 'function add(a: number, b: number): number {\n    return a + b;\n}';
+
+            expect(TokenEstimator.estimateText(code)).toBeGreaterThanOrEqual(25);
+            expect(TokenEstimator.estimateText(code)).toBeLessThanOrEqual(33);
+        });
+    });
+
+    describe('estimateMessages', () => {
+        it('adds per-message and per-request overhead', () => {
+            const message = { role: 'user' as const, content: 'hello there' };
+
+            expect(TokenEstimator.estimateMessage(message)).toBe(TokenEstimator.estimateText('hello there') + 4);
+            expect(TokenEstimator.estimateMessages([])).toBe(8);
+            expect(TokenEstimator.estimateMessages([message, message])).toBe(8 + 2 * TokenEstimator.estimateMessage(message));
+        });
+    });
+
+    describe('getPricing', () => {
+        it('matches dated model names by the longest prefix', () => {
+            expect(TokenEstimator.getPricing('claude-3-haiku-20240307')?.label).toBe('Claude 3 Haiku');
+            expect(TokenEstimator.getPricing('claude-3-5-haiku-20241022')?.label).toBe('Claude 3.5 Haiku');
+        });
+
+        it('returns null for unknown models', () => {
+            expect(TokenEstimator.getPricing('my-proxy-model')).toBeNull();
+        });
+    });
+
+    describe('estimateRequest', () => {
+        it('prices input and the most output the request allows', () => {
+            const estimate = TokenEstimator.estimateRequest(1000000, 'claude-3-opus-20240229', 1000, 200000);
+
+            expect(estimate.inputCost).toBe(15);
+            expect(estimate.maxOutputCost).toBeCloseTo(0.075);
+            expect(estimate.fitsContext).toBe(false);
+        });
+
+        it('checks input plus output against the context window', () => {
+            expect(TokenEstimator.estimateRequest(196000, 'claude-3-haiku', 4000, 200000).fitsContext).toBe(true);
+            expect(TokenEstimator.estimateRequest(196001, 'claude-3-haiku', 4000, 200000).fitsContext).toBe(false);
+            expect(TokenEstimator.estimateRequest(10, 'claude-3-haiku', 10, null).fitsContext).toBeNull();
+        });
+
+        it('leaves costs unknown for unpriced models', () => {
+            const estimate = TokenEstimator.estimateRequest(100, 'custom', 100, null);
+
+            expect(estimate.pricing).toBeNull();
+            expect(estimate.inputCost).toBeNull();
+            expect(estimate.maxOutputCost).toBeNull();
+        });
+    });
+
+    describe('spend', () => {
+        it('calculates the cost of a call', () => {
+            expect(TokenEstimator.calculateCost('claude-3-sonnet-20240229', 1000000, 1000000)).toBe(18);
+            expect(TokenEstimator.calculateCost('custom', 1, 1)).toBeNull();
+        });
+
+        it('totals ledger entries, counting unpriced requests', () => {
+            const entry = { timestamp: '2025-01-01T00:00:00.000Z', model: 'm', inputTokens: 10, outputTokens: 5 };
+
+            expect(TokenEstimator.totalSpend([
+                { ...entry, cost: 0.5 },
+                { ...entry, cost: null },
+                { ...entry, cost: 0.25 }
+            ])).toEqual({ requests: 3, inputTokens: 30, outputTokens: 15, cost: 0.75, unpricedRequests: 1 });
+        });
+
+        it('formats costs, keeping fractions of a cent', () => {
+            expect(TokenEstimator.formatCost(0)).toBe('$0.00');
+            expect(TokenEstimator.formatCost(0.00123)).toBe('$0.0012');
+            expect(TokenEstimator.formatCost(12.345)).toBe('$12.35');
+        });
+    });
+});
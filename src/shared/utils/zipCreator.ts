@@ -41,6 +41,33 @@ export class ZipCreator {
         }
     }
 
+    /**
+     * Create a ZIP file of a project, with its files under a folder named after it
+     * Paths must already be relative to the project root.
+     */
+    public static async createProjectZip(name: string, files: Array<{ path: string; content: string }>): Promise<Blob> {
+        try {
+            const zip = new JSZip();
+            const root = zip.folder(name)!;
+
+            for (const file of files) {
+                root.file(file.path, file.content);
+            }
+
+            const blob = await zip.generateAsync({
+                type: 'blob',
+                compression: 'DEFLATE',
+                compressionOptions: { level: 6 }
+            });
+
+            this.logger.info(`ZipCreator: Created project ZIP with ${files.length} files`);
+            return blob;
+        } catch (error) {
+            this.logger.error('ZipCreator: Error creating project ZIP', error);
+            throw error;
+        }
+    }
+
     /**
      * Create a ZIP file with a single artifact
      */
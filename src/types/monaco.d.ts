@@ -4,6 +4,10 @@
  * For complete type information, see https://microsoft.github.io/monaco-editor/typedoc/
  */
 declare namespace monaco {
+    interface IDisposable {
+        dispose(): void;
+    }
+
     namespace editor {
         interface IStandaloneCodeEditor {
             getValue(): string;
@@ -11,6 +15,7 @@ declare namespace monaco {
             layout(): void;
             focus(): void;
             dispose(): void;
+            onDidChangeModelContent(listener: () => void): IDisposable;
         }
 
         interface IStandaloneEditorConstructionOptions {
@@ -32,9 +37,45 @@ declare namespace monaco {
             renderWhitespace?: string;
             fontFamily?: string;
             renderLineHighlight?: string;
+            readOnly?: boolean;
+        }
+
+        interface ITextModel {
+            getValue(): string;
+            setValue(value: string): void;
+            dispose(): void;
+        }
+
+        interface IDiffEditorModel {
+            original: ITextModel;
+            modified: ITextModel;
+        }
+
+        interface IDiffEditorConstructionOptions {
+            theme?: string;
+            automaticLayout?: boolean;
+            renderSideBySide?: boolean;
+            readOnly?: boolean;
+            originalEditable?: boolean;
+            fontSize?: number;
+            wordWrap?: 'on' | 'off';
+            minimap?: {
+                enabled?: boolean;
+            };
+            scrollBeyondLastLine?: boolean;
+        }
+
+        interface IStandaloneDiffEditor {
+            setModel(model: IDiffEditorModel | null): void;
+            getModel(): IDiffEditorModel | null;
+            updateOptions(options: IDiffEditorConstructionOptions): void;
+            layout(): void;
+            dispose(): void;
         }
 
         function create(element: HTMLElement, options?: IStandaloneEditorConstructionOptions): IStandaloneCodeEditor;
+        function createDiffEditor(element: HTMLElement, options?: IDiffEditorConstructionOptions): IStandaloneDiffEditor;
+        function createModel(value: string, language?: string): ITextModel;
         function setTheme(theme: string): void;
     }
 
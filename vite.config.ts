@@ -12,13 +12,21 @@ export default defineConfig({
             '@': resolve(__dirname, 'src')
         }
     },
+    worker: {
+        // Monaco's language workers are loaded with importScripts on web pages
+        format: 'iife'
+    },
     build: {
         outDir: 'dist',
         sourcemap: process.env.NODE_ENV !== 'production',
         rollupOptions: {
             input: {
                 background: resolve(__dirname, 'src/background/index.ts'),
-                content: resolve(__dirname, 'src/content/index.ts')
+                content: resolve(__dirname, 'src/content/index.ts'),
+                library: resolve(__dirname, 'src/library/index.html'),
+                sandbox: resolve(__dirname, 'src/sandbox/index.html'),
+                preview: resolve(__dirname, 'src/preview/index.html'),
+                offscreen: resolve(__dirname, 'src/offscreen/index.html')
             },
             output: {
                 entryFileNames: 'src/[name]/index.js',